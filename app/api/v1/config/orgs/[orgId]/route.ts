@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { configService, type ReadyLayerConfig } from '../../../../../../services/config';
+import { logger } from '../../../../../../observability/logging';
+import { createAuthzMiddleware } from '../../../../../../lib/authz';
+import { requireAuth } from '../../../../../../lib/auth';
+import { prisma } from '../../../../../../lib/prisma';
+import { parseJsonBody } from '../../../../../../lib/api-route-helpers';
+
+/**
+ * GET /api/v1/config/orgs/:orgId
+ * Get organization configuration (tenant-isolated)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { orgId: string } }
+) {
+  const requestId = request.headers.get('x-request-id') || `req_${Date.now()}`;
+  const log = logger.child({ requestId, orgId: params.orgId });
+
+  try {
+    // Require authentication
+    const user = await requireAuth(request);
+
+    // Check authorization
+    const authzResponse = await createAuthzMiddleware({
+      requiredScopes: ['read'],
+    })(request);
+    if (authzResponse) {
+      return authzResponse;
+    }
+
+    // Verify user belongs to the organization (tenant isolation)
+    const membership = await prisma.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: params.orgId,
+          userId: user.id,
+        },
+      },
+    });
+
+    if (!membership) {
+      const { ErrorMessages } = await import('../../../../../../lib/errors');
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: ErrorMessages.FORBIDDEN.message,
+            context: { organizationId: params.orgId },
+            fix: ErrorMessages.FORBIDDEN.fix,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const config = await configService.getOrganizationConfig(params.orgId);
+
+    return NextResponse.json({ config });
+  } catch (error) {
+    log.error(error, 'Failed to get organization config');
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_CONFIG_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/v1/config/orgs/:orgId
+ * Update organization configuration (tenant-isolated)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { orgId: string } }
+) {
+  const requestId = request.headers.get('x-request-id') || `req_${Date.now()}`;
+  const log = logger.child({ requestId, orgId: params.orgId });
+
+  try {
+    // Require authentication
+    const user = await requireAuth(request);
+
+    // Check authorization (requires write scope)
+    const authzResponse = await createAuthzMiddleware({
+      requiredScopes: ['write'],
+    })(request);
+    if (authzResponse) {
+      return authzResponse;
+    }
+
+    // Verify user is an owner or admin of the organization (tenant isolation)
+    const membership = await prisma.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: params.orgId,
+          userId: user.id,
+        },
+      },
+    });
+
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      const { ErrorMessages } = await import('../../../../../../lib/errors');
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: ErrorMessages.FORBIDDEN.message,
+            context: { organizationId: params.orgId, userRole: membership?.role || 'none' },
+            fix: 'You must be an organization owner or admin to update organization configuration. Contact an organization admin to grant you admin access.',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const bodyResult = await parseJsonBody(request);
+    if (!bodyResult.success) {
+      return bodyResult.response;
+    }
+
+    const body = bodyResult.data;
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_BODY',
+            message: 'Request body must be an object',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    const config = (body as Record<string, unknown>).config;
+
+    // Validate config - config is required
+    if (config === undefined || config === null || typeof config !== 'object' || Array.isArray(config)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'config is required and must be an object',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await configService.updateOrganizationConfig(params.orgId, config as ReadyLayerConfig);
+
+    // Audit log
+    try {
+      const { createAuditLog, AuditActions } = await import('../../../../../../lib/audit');
+      await createAuditLog({
+        organizationId: params.orgId,
+        userId: user.id,
+        action: AuditActions.ORG_CONFIG_UPDATED,
+        resourceType: 'organization_config',
+        resourceId: params.orgId,
+        details: {
+          llmProvider: (config as ReadyLayerConfig).llm?.provider,
+          promptOverrides: Object.keys((config as ReadyLayerConfig).prompts || {}),
+        },
+      });
+    } catch {
+      // Don't fail on audit log errors
+    }
+
+    log.info({ orgId: params.orgId, userId: user.id }, 'Organization config updated successfully');
+
+    return NextResponse.json({
+      id: params.orgId,
+      config,
+      updatedAt: new Date(),
+      message: 'Configuration updated successfully. LLM provider changes apply within a minute.',
+    });
+  } catch (error) {
+    log.error(error, 'Failed to update organization config');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const isConfigError = errorMessage.includes('Invalid config') || errorMessage.includes('configuration');
+
+    return NextResponse.json(
+      {
+        error: {
+          code: 'UPDATE_CONFIG_FAILED',
+          message: errorMessage,
+          fix: isConfigError
+            ? errorMessage
+            : 'Check your configuration format and try again. See https://docs.readylayer.com/config for valid configuration options. If the problem persists, contact support@readylayer.com',
+        },
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -9,7 +9,7 @@ import { prisma } from '../../../../../../lib/prisma';
 import { logger } from '../../../../../../observability/logging';
 import { requireAuth } from '../../../../../../lib/auth';
 import { createAuthzMiddleware } from '../../../../../../lib/authz';
-import { policyEngineService } from '../../../../../../services/policy-engine';
+import { policyEngineService, FindingBreakdown } from '../../../../../../services/policy-engine';
 
 /**
  * GET /api/v1/evidence/:bundleId/export
@@ -181,6 +181,9 @@ export async function GET(
           rulesFired: bundle.rulesFired as string[],
           waivedFindings: [],
           nonWaivedFindings: [],
+          hiddenFindings: [],
+          breakdown: (bundle.inputsMetadata as { findingBreakdown?: FindingBreakdown } | null)?.findingBreakdown
+            ?? { new: 0, baseline: 0, hidden: 0 },
         },
       }
     );
@@ -13,6 +13,7 @@ import { requireAuth } from '../../../../../../../lib/auth';
 import { createAuthzMiddleware } from '../../../../../../../lib/authz';
 import { z } from 'zod';
 import { parseJsonBody } from '../../../../../../../lib/api-route-helpers';
+import { staticAnalysisService } from '../../../../../../../services/static-analysis';
 
 const updateRuleSchema = z.object({
   severityMapping: z.record(z.enum(['block', 'warn', 'allow'])).optional(),
@@ -95,6 +96,23 @@ export async function PUT(
     
     const validated = updateRuleSchema.parse(bodyResult.data);
 
+    // Params must match the rule's declared schema
+    const paramErrors = validated.params
+      ? staticAnalysisService.validateRuleParams(params.ruleId, validated.params)
+      : [];
+    if (paramErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid rule params',
+            details: paramErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     // Update rule
     const updated = await prisma.policyRule.update({
       where: {
@@ -13,6 +13,7 @@ import { requireAuth } from '../../../../../../lib/auth';
 import { createAuthzMiddleware } from '../../../../../../lib/authz';
 import { z } from 'zod';
 import { parseJsonBody } from '../../../../../../lib/api-route-helpers';
+import { staticAnalysisService } from '../../../../../../services/static-analysis';
 
 const createRuleSchema = z.object({
   ruleId: z.string().min(1, 'Rule ID is required'),
@@ -88,6 +89,23 @@ export async function POST(
     
     const validated = createRuleSchema.parse(bodyResult.data);
 
+    // Params must match the rule's declared schema
+    const paramErrors = validated.params
+      ? staticAnalysisService.validateRuleParams(validated.ruleId, validated.params)
+      : [];
+    if (paramErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid rule params',
+            details: paramErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     // Check if rule already exists
     const existing = await prisma.policyRule.findUnique({
       where: {
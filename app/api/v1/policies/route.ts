@@ -19,6 +19,7 @@ import {
   parsePagination,
   RouteContext,
 } from '../../../../lib/api-route-helpers';
+import { staticAnalysisService } from '../../../../services/static-analysis';
 
 const createPolicyPackSchema = z.object({
   organizationId: z.string(),
@@ -30,6 +31,11 @@ const createPolicyPackSchema = z.object({
     severityMapping: z.record(z.enum(['block', 'warn', 'allow'])),
     enabled: z.boolean().default(true),
     params: z.record(z.any()).optional(),
+  }).superRefine((rule, ctx) => {
+    // Params must match the rule's declared schema
+    for (const message of staticAnalysisService.validateRuleParams(rule.ruleId, rule.params || {})) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['params'], message });
+    }
   })).optional().default([]),
 });
 
@@ -0,0 +1,46 @@
+/**
+ * GET /api/v1/policies/rules
+ * List built-in rules and the params each one accepts (for the policy editor)
+ */
+
+import { NextRequest } from 'next/server';
+import { requireAuth } from '../../../../../lib/auth';
+import { createAuthzMiddleware } from '../../../../../lib/authz';
+import { logger } from '../../../../../observability/logging';
+import { errorResponse, successResponse } from '../../../../../lib/api-route-helpers';
+import { staticAnalysisService } from '../../../../../services/static-analysis';
+
+export async function GET(request: NextRequest) {
+  const requestId = request.headers.get('x-request-id') || `req_${Date.now()}`;
+  const log = logger.child({ requestId });
+
+  try {
+    // Require authentication
+    await requireAuth(request);
+
+    // Check authorization
+    const authzResponse = await createAuthzMiddleware({
+      requiredScopes: ['read'],
+    })(request);
+    if (authzResponse) {
+      return authzResponse;
+    }
+
+    return successResponse({
+      rules: staticAnalysisService.getRules().map((rule) => ({
+        ruleId: rule.id,
+        name: rule.name,
+        category: rule.category,
+        severity: rule.severity,
+        params: staticAnalysisService.getParamSpecs(rule),
+      })),
+    });
+  } catch (error) {
+    log.error(error, 'Failed to list rule catalog');
+    return errorResponse(
+      'LIST_RULE_CATALOG_FAILED',
+      error instanceof Error ? error.message : 'Failed to list rule catalog',
+      500
+    );
+  }
+}
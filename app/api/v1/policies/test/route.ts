@@ -1,17 +1,24 @@
 /**
  * POST /api/v1/policies/test
- * Test policy against sample findings
+ * Test policy against sample findings, and optionally run custom rules
+ * (from the effective policy or a draft `source`) against sample files
  */
 
 import { NextRequest } from 'next/server';
+import { prisma } from '../../../../../lib/prisma';
 import { requireAuth } from '../../../../../lib/auth';
 import { createAuthzMiddleware } from '../../../../../lib/authz';
 import { policyEngineService } from '../../../../../services/policy-engine';
+import { parseCustomRules, staticAnalysisService } from '../../../../../services/static-analysis';
 import { logger } from '../../../../../observability/logging';
 import { errorResponse, successResponse, parseJsonBody } from '../../../../../lib/api-route-helpers';
 import { z } from 'zod';
 import type { Issue } from '../../../../../services/static-analysis';
 
+// Sample files are analyzed within the request
+const MAX_SAMPLE_FILES = 20;
+const MAX_SAMPLE_FILE_LENGTH = 100_000;
+
 const testPolicySchema = z.object({
   policyPackId: z.string().optional(),
   organizationId: z.string(),
@@ -24,7 +31,12 @@ const testPolicySchema = z.object({
     message: z.string(),
     fix: z.string().optional(),
     confidence: z.number().optional(),
-  })),
+  })).default([]),
+  source: z.string().optional(), // Draft policy source whose customRules replace the stored ones
+  files: z.array(z.object({
+    path: z.string().min(1),
+    content: z.string().max(MAX_SAMPLE_FILE_LENGTH),
+  })).max(MAX_SAMPLE_FILES).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -33,7 +45,7 @@ export async function POST(request: NextRequest) {
 
   try {
     // Require authentication
-    await requireAuth(request);
+    const user = await requireAuth(request);
 
     // Check authorization
     const authzResponse = await createAuthzMiddleware({
@@ -60,7 +72,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { organizationId, repositoryId, findings } = validation.data;
+    const { organizationId, repositoryId, findings, source, files } = validation.data;
+
+    // Verify user belongs to organization
+    const membership = await prisma.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId,
+          userId: user.id,
+        },
+      },
+    });
+    if (!membership) {
+      return errorResponse('FORBIDDEN', 'Access denied to organization', 403);
+    }
+
+    if (repositoryId) {
+      const repo = await prisma.repository.findUnique({
+        where: { id: repositoryId },
+        select: { organizationId: true },
+      });
+      if (!repo || repo.organizationId !== organizationId) {
+        return errorResponse('NOT_FOUND', 'Repository not found or does not belong to organization', 404);
+      }
+    }
 
     // Load effective policy
     const policy = await policyEngineService.loadEffectivePolicy(
@@ -70,8 +105,48 @@ export async function POST(request: NextRequest) {
       undefined // No branch for testing
     );
 
+    // Run sample files through analysis with the custom rules under test
+    const analyzedFindings: Issue[] = [];
+    if (files && files.length > 0) {
+      let customRules = policy.customRules;
+      if (source) {
+        let document: { customRules?: unknown };
+        try {
+          document = JSON.parse(source);
+        } catch {
+          return errorResponse('VALIDATION_ERROR', 'Policy source must be valid JSON', 400);
+        }
+        const parsed = parseCustomRules(
+          document?.customRules,
+          staticAnalysisService.getRules().map((rule) => rule.id)
+        );
+        if (parsed.errors.length > 0) {
+          return errorResponse('VALIDATION_ERROR', 'Invalid custom rules', 400, { errors: parsed.errors });
+        }
+        customRules = parsed.rules;
+      }
+
+      // Drafts get their own sets, so testing them never evicts the sets reviews are using
+      const customRuleSet = staticAnalysisService.registerOrganizationRules(
+        source ? `draft:${organizationId}` : organizationId,
+        customRules
+      );
+      const ruleParams = policyEngineService.getRuleParams(policy);
+      for (const file of files) {
+        try {
+          analyzedFindings.push(...await staticAnalysisService.analyze(file.path, file.content, { customRuleSet, ruleParams }));
+        } catch (error) {
+          return errorResponse(
+            'ANALYSIS_FAILED',
+            `Failed to analyze ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            400
+          );
+        }
+      }
+    }
+
     // Evaluate findings
-    const evaluationResult = policyEngineService.evaluate(findings as Issue[], policy);
+    const evaluationResult = policyEngineService.evaluate([...(findings as Issue[]), ...analyzedFindings], policy);
 
     return successResponse({
       blocked: evaluationResult.blocked,
@@ -80,6 +155,7 @@ export async function POST(request: NextRequest) {
       nonWaivedFindings: evaluationResult.nonWaivedFindings,
       waivedFindings: evaluationResult.waivedFindings,
       rulesFired: evaluationResult.rulesFired,
+      analyzedFindings,
       summary: {
         total: evaluationResult.nonWaivedFindings.length,
         critical: evaluationResult.nonWaivedFindings.filter((f) => f.severity === 'critical').length,
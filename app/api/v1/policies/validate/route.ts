@@ -10,6 +10,7 @@ import { logger } from '../../../../../observability/logging';
 import { errorResponse, successResponse, parseJsonBody } from '../../../../../lib/api-route-helpers';
 import { z } from 'zod';
 import type { PolicyDocument, PolicyRule, PolicyValidationError, PolicyValidationResult } from '../../../../../lib/types/policy';
+import { parseCustomRules, staticAnalysisService } from '../../../../../services/static-analysis';
 
 const validatePolicySchema = z.object({
   source: z.string().min(1),
@@ -92,8 +93,24 @@ export async function POST(request: NextRequest) {
         if (!typedRule.severityMapping || typeof typedRule.severityMapping !== 'object') {
           ruleErrors.push({ ruleId: typedRule.ruleId, error: 'Rule missing severityMapping' });
         }
+        if (typedRule.params !== undefined) {
+          if (!typedRule.params || typeof typedRule.params !== 'object' || Array.isArray(typedRule.params)) {
+            ruleErrors.push({ ruleId: typedRule.ruleId, error: 'Rule params must be an object' });
+          } else {
+            for (const error of staticAnalysisService.validateRuleParams(typedRule.ruleId, typedRule.params)) {
+              ruleErrors.push({ ruleId: typedRule.ruleId, error: `params.${error}` });
+            }
+          }
+        }
       }
 
+      // Validate custom rule definitions (must not shadow built-in rules)
+      const customRules = parseCustomRules(
+        parsed.customRules,
+        staticAnalysisService.getRules().map((rule) => rule.id)
+      );
+      ruleErrors.push(...customRules.errors);
+
       if (ruleErrors.length > 0) {
         const result: PolicyValidationResult = {
           valid: false,
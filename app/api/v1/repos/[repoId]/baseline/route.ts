@@ -0,0 +1,359 @@
+/**
+ * Repository Baseline API Route
+ *
+ * GET    /api/v1/repos/:repoId/baseline - Get baseline summary
+ * POST   /api/v1/repos/:repoId/baseline - Regenerate baseline from the default branch
+ * DELETE /api/v1/repos/:repoId/baseline - Prune baseline entries (all entries without filters)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+// Use Node.js runtime for Prisma and static analysis
+export const runtime = 'nodejs';
+import { z } from 'zod';
+import { prisma } from '../../../../../../lib/prisma';
+import { logger } from '../../../../../../observability/logging';
+import { requireAuth } from '../../../../../../lib/auth';
+import { createAuthzMiddleware } from '../../../../../../lib/authz';
+import { parseJsonBody } from '../../../../../../lib/api-route-helpers';
+import {
+  baselineService,
+  BaselineTooLargeError,
+  checkBaselineSize,
+  MAX_BASELINE_BYTES,
+  readBaselineFiles,
+  type BaselineFile,
+} from '../../../../../../services/baseline';
+import { checkoutService } from '../../../../../../services/checkout';
+import { policyEngineService } from '../../../../../../services/policy-engine';
+import { staticAnalysisService } from '../../../../../../services/static-analysis';
+
+const generateBaselineSchema = z.object({
+  branch: z.string().min(1).optional(),
+  commitSha: z.string().min(1).optional(),
+  // Without files, the branch is checked out and read on the server
+  files: z.array(z.object({
+    path: z.string().min(1),
+    content: z.string(),
+  })).min(1, 'At least one file is required').optional(),
+});
+
+const pruneBaselineSchema = z.object({
+  ruleIds: z.array(z.string().min(1)).optional(),
+  paths: z.array(z.string().min(1)).optional(),
+  fingerprints: z.array(z.string().min(1)).optional(),
+});
+
+/**
+ * Load the repository and the caller's membership in its organization
+ */
+async function loadRepositoryForUser(repoId: string, userId: string) {
+  const repo = await prisma.repository.findUnique({
+    where: { id: repoId },
+    select: { id: true, organizationId: true, defaultBranch: true },
+  });
+
+  if (!repo) {
+    return { repo: null, membership: null };
+  }
+
+  const membership = await prisma.organizationMember.findUnique({
+    where: {
+      organizationId_userId: {
+        organizationId: repo.organizationId,
+        userId,
+      },
+    },
+  });
+
+  return { repo, membership };
+}
+
+function notFound(repoId: string) {
+  return NextResponse.json(
+    {
+      error: {
+        code: 'NOT_FOUND',
+        message: `Repository ${repoId} not found`,
+      },
+    },
+    { status: 404 }
+  );
+}
+
+function forbidden(message: string) {
+  return NextResponse.json(
+    {
+      error: {
+        code: 'FORBIDDEN',
+        message,
+      },
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * GET /api/v1/repos/:repoId/baseline
+ * Get baseline summary (tenant-isolated)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { repoId: string } }
+) {
+  const requestId = request.headers.get('x-request-id') || `req_${Date.now()}`;
+  const log = logger.child({ requestId, repoId: params.repoId });
+
+  try {
+    const user = await requireAuth(request);
+
+    const authzResponse = await createAuthzMiddleware({
+      requiredScopes: ['read'],
+    })(request);
+    if (authzResponse) {
+      return authzResponse;
+    }
+
+    const { repo, membership } = await loadRepositoryForUser(params.repoId, user.id);
+    if (!repo) {
+      return notFound(params.repoId);
+    }
+    if (!membership) {
+      return forbidden('Access denied to repository');
+    }
+
+    const summary = await baselineService.getSummary(repo.id);
+    if (!summary) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Repository has no baseline',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    log.error(error, 'Failed to get repository baseline');
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_BASELINE_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/repos/:repoId/baseline
+ * Regenerate baseline from the default branch, or from uploaded files (replaces the existing one)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { repoId: string } }
+) {
+  const requestId = request.headers.get('x-request-id') || `req_${Date.now()}`;
+  const log = logger.child({ requestId, repoId: params.repoId });
+
+  try {
+    const user = await requireAuth(request);
+
+    const authzResponse = await createAuthzMiddleware({
+      requiredScopes: ['write'],
+    })(request);
+    if (authzResponse) {
+      return authzResponse;
+    }
+
+    // Uploads are checked again once parsed; this only spares reading obviously oversized ones
+    if (Number(request.headers.get('content-length') || 0) > MAX_BASELINE_BYTES * 2) {
+      throw new BaselineTooLargeError(`Request body exceeds the baseline limit of ${MAX_BASELINE_BYTES} bytes of source`);
+    }
+
+    const bodyResult = await parseJsonBody(request);
+    if (!bodyResult.success) {
+      return bodyResult.response;
+    }
+
+    const validated = generateBaselineSchema.parse(bodyResult.data);
+
+    const { repo, membership } = await loadRepositoryForUser(params.repoId, user.id);
+    if (!repo) {
+      return notFound(params.repoId);
+    }
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      return forbidden('Admin role required to regenerate baseline');
+    }
+
+    const branch = validated.branch || repo.defaultBranch;
+    let files: BaselineFile[];
+    let commitSha = validated.commitSha;
+    if (validated.files) {
+      checkBaselineSize(validated.files);
+      files = validated.files;
+    } else {
+      const checkout = await checkoutService.create(repo.id, branch);
+      if (!checkout) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'CHECKOUT_FAILED',
+              message: `Could not check out ${branch}; upload the files instead`,
+            },
+          },
+          { status: 502 }
+        );
+      }
+      try {
+        files = await readBaselineFiles(checkout.dir);
+        commitSha = commitSha || checkout.commitSha;
+      } finally {
+        await checkout.cleanup();
+      }
+    }
+
+    // Custom rules and rule params from the repository's policy apply to the baseline too
+    const policy = await policyEngineService.loadEffectivePolicy(repo.organizationId, repo.id);
+
+    const summary = await baselineService.generate(repo.id, {
+      branch,
+      commitSha,
+      generatedBy: user.id,
+      customRuleSet: staticAnalysisService.registerOrganizationRules(repo.organizationId, policy.customRules),
+      ruleParams: policyEngineService.getRuleParams(policy),
+      files,
+    });
+
+    log.info({ baselineId: summary.id, findingCount: summary.findingCount }, 'Repository baseline regenerated');
+
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BaselineTooLargeError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'PAYLOAD_TOO_LARGE',
+            message: error.message,
+          },
+        },
+        { status: 413 }
+      );
+    }
+
+    log.error(error, 'Failed to regenerate repository baseline');
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GENERATE_BASELINE_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/repos/:repoId/baseline
+ * Prune baseline entries by rule, path or fingerprint; an empty body deletes the baseline
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { repoId: string } }
+) {
+  const requestId = request.headers.get('x-request-id') || `req_${Date.now()}`;
+  const log = logger.child({ requestId, repoId: params.repoId });
+
+  try {
+    const user = await requireAuth(request);
+
+    const authzResponse = await createAuthzMiddleware({
+      requiredScopes: ['write'],
+    })(request);
+    if (authzResponse) {
+      return authzResponse;
+    }
+
+    // Body is optional for DELETE
+    const text = await request.text();
+    let body: unknown = {};
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'INVALID_JSON',
+              message: 'Request body must be valid JSON',
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const validated = pruneBaselineSchema.parse(body);
+
+    const { repo, membership } = await loadRepositoryForUser(params.repoId, user.id);
+    if (!repo) {
+      return notFound(params.repoId);
+    }
+    if (!membership || !['owner', 'admin'].includes(membership.role)) {
+      return forbidden('Admin role required to prune baseline');
+    }
+
+    const removed = await baselineService.prune(repo.id, validated);
+    const summary = await baselineService.getSummary(repo.id);
+
+    log.info({ removed }, 'Repository baseline pruned');
+
+    return NextResponse.json({
+      removed,
+      baseline: summary,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    log.error(error, 'Failed to prune repository baseline');
+    return NextResponse.json(
+      {
+        error: {
+          code: 'PRUNE_BASELINE_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,16 @@ import { prisma } from '../../../../../lib/prisma';
 import { logger } from '../../../../../observability/logging';
 import { requireAuth } from '../../../../../lib/auth';
 import { createAuthzMiddleware } from '../../../../../lib/authz';
+import { sarifService } from '../../../../../services/sarif';
+import type { Issue } from '../../../../../services/static-analysis';
 
 /**
  * GET /api/v1/reviews/:reviewId
  * Get review details (tenant-isolated)
+ *
+ * `?format=sarif` returns the findings as a SARIF 2.1.0 log instead;
+ * waived findings are included as suppressed results. `?format=patch`
+ * returns a unified diff applying every validated autofix.
  */
 export async function GET(
   request: NextRequest,
@@ -75,6 +81,40 @@ export async function GET(
       );
     }
 
+    const format = new URL(request.url).searchParams.get('format');
+    if (format === 'sarif') {
+      const result = review.result as { waivedIssues?: Issue[] } | null;
+      const sarif = sarifService.toSarif((review.issuesFound as unknown as Issue[] | null) || [], {
+        waivedFindings: result?.waivedIssues,
+      });
+      return NextResponse.json(sarif, {
+        headers: {
+          'Content-Type': 'application/sarif+json',
+          'Content-Disposition': `attachment; filename="review-${review.id}.sarif"`,
+        },
+      });
+    }
+    if (format === 'patch') {
+      const result = review.result as { autofixPatch?: string } | null;
+      return new NextResponse(result?.autofixPatch || '', {
+        headers: {
+          'Content-Type': 'text/x-diff; charset=utf-8',
+          'Content-Disposition': `attachment; filename="review-${review.id}.patch"`,
+        },
+      });
+    }
+    if (format && format !== 'json') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Unsupported format '${format}'. Use 'json', 'sarif' or 'patch'`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json({
       id: review.id,
       repositoryId: review.repositoryId,
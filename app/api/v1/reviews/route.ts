@@ -5,7 +5,8 @@
  * GET /api/v1/reviews - List reviews (tenant-isolated)
  */
 
-import { reviewGuardService, ReviewConfig } from '../../../../services/review-guard';
+import { reviewGuardService, ReviewConfig, ExternalFindings } from '../../../../services/review-guard';
+import { sarifService } from '../../../../services/sarif';
 import { metrics } from '../../../../observability/metrics';
 import { prisma } from '../../../../lib/prisma';
 import { checkBillingLimits } from '../../../../lib/billing-middleware';
@@ -47,6 +48,10 @@ const createReviewSchema = z.object({
   diff: z.string().optional(),
   files: z.array(reviewFileSchema).min(1),
   config: reviewConfigSchema.optional(),
+  sarif: z.object({
+    logs: z.array(z.unknown()).min(1).max(20), // SARIF 2.1.0 logs from CodeQL, Semgrep, ESLint, ...
+    rootPath: z.string().optional(), // CI checkout dir, stripped from absolute URIs
+  }).optional(),
 });
 
 /**
@@ -73,7 +78,22 @@ export const POST = createRouteHandler(
       );
     }
 
-    const { repositoryId, prNumber, prSha, prTitle, diff, files, config } = validationResult.data;
+    const { repositoryId, prNumber, prSha, prTitle, diff, files, config, sarif } = validationResult.data;
+
+    // Convert third-party results up front so malformed SARIF is a 400, not a failed review
+    let externalFindings: ExternalFindings | undefined;
+    if (sarif) {
+      const imported = sarifService.fromSarif(sarif.logs, { rootPath: sarif.rootPath });
+      if (imported.errors.length > 0) {
+        return errorResponse(
+          'VALIDATION_ERROR',
+          'Invalid SARIF log',
+          400,
+          { errors: imported.errors }
+        );
+      }
+      externalFindings = { issues: imported.issues, tools: imported.tools };
+    }
 
     // Get repository and verify tenant isolation
     const repo = await prisma.repository.findUnique({
@@ -168,6 +188,7 @@ export const POST = createRouteHandler(
       diff,
       files,
       config: validatedConfig,
+      externalFindings,
     });
 
     metrics.increment('reviews.completed', { status: result.status });
@@ -0,0 +1,95 @@
+/**
+ * Run Cancel API Route
+ *
+ * POST /api/v1/runs/:runId/cancel - Cancel a pending or running run
+ */
+
+import { prisma } from '../../../../../../lib/prisma';
+import { runPipelineService } from '../../../../../../services/run-pipeline';
+import {
+  createRouteHandler,
+  errorResponse,
+  successResponse,
+  RouteContext,
+} from '../../../../../../lib/api-route-helpers';
+
+/**
+ * POST /api/v1/runs/:runId/cancel
+ * Cancel a run (tenant-isolated). In-flight LLM calls are aborted and the
+ * run finishes with status and conclusion `cancelled`.
+ */
+export const POST = createRouteHandler(
+  async (context: RouteContext) => {
+    const { request, user, log } = context;
+    const runId = request.url.split('?')[0].split('/').slice(-2, -1)[0];
+
+    if (!runId) {
+      return errorResponse('VALIDATION_ERROR', 'runId is required', 400);
+    }
+
+    const run = await prisma.readyLayerRun.findUnique({
+      where: { id: runId },
+      select: {
+        id: true,
+        status: true,
+        sandboxId: true,
+        repository: {
+          select: { organizationId: true },
+        },
+      },
+    });
+
+    if (!run) {
+      return errorResponse('NOT_FOUND', 'Run not found', 404);
+    }
+
+    // Tenant isolation check (skip for sandbox runs only; other runs
+    // without a repository can't be attributed to a tenant)
+    if (!run.sandboxId) {
+      if (!run.repository) {
+        return errorResponse('FORBIDDEN', 'Access denied to run', 403);
+      }
+      const membership = await prisma.organizationMember.findUnique({
+        where: {
+          organizationId_userId: {
+            organizationId: run.repository.organizationId,
+            userId: user.id,
+          },
+        },
+      });
+
+      if (!membership) {
+        return errorResponse('FORBIDDEN', 'Access denied to run', 403);
+      }
+    }
+
+    const cancelled = await runPipelineService.cancelRun(run.id, {
+      reason: 'cancelled via API',
+      userId: user.id,
+    });
+
+    if (!cancelled) {
+      // Finished since it was read above, possibly
+      const finished = await prisma.readyLayerRun.findUnique({
+        where: { id: run.id },
+        select: { status: true },
+      });
+      const status = finished?.status || run.status;
+      return errorResponse(
+        'RUN_NOT_CANCELLABLE',
+        `Run has already finished with status ${status}`,
+        409,
+        { runId: run.id, status }
+      );
+    }
+
+    log.info({ runId: run.id, userId: user.id }, 'Run cancelled');
+
+    return successResponse({
+      id: run.id,
+      status: 'cancelled',
+      conclusion: 'cancelled',
+    });
+  },
+  { authz: { requiredScopes: ['write'] } }
+);
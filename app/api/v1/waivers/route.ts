@@ -17,7 +17,7 @@ const createWaiverSchema = z.object({
   organizationId: z.string(),
   repositoryId: z.string().optional().nullable(),
   ruleId: z.string().min(1, 'Rule ID is required'),
-  scope: z.enum(['repo', 'branch', 'path']),
+  scope: z.enum(['repo', 'branch', 'path', 'fingerprint']),
   scopeValue: z.string().optional().nullable(),
   reason: z.string().min(1, 'Reason is required'),
   expiresAt: z.string().datetime().optional().nullable(),
@@ -23,6 +23,7 @@ import {
 } from 'lucide-react'
 import Link from 'next/link'
 import { useToast } from '@/lib/hooks/use-toast'
+import { RuleParamsFields } from '../../rule-params-fields'
 
 interface PolicyRule {
   id: string
@@ -47,6 +48,7 @@ export default function EditRulePage() {
     medium: 'warn' as 'block' | 'warn' | 'allow',
     low: 'allow' as 'block' | 'warn' | 'allow',
   })
+  const [ruleParams, setRuleParams] = useState<Record<string, unknown>>({})
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -84,6 +86,7 @@ export default function EditRulePage() {
 
         setRule(foundRule)
         setEnabled(foundRule.enabled)
+        setRuleParams(foundRule.params || {})
         // Convert Record to specific severity mapping type
         setSeverityMapping({
           critical: (foundRule.severityMapping.critical || 'block') as 'block' | 'warn' | 'allow',
@@ -126,6 +129,7 @@ export default function EditRulePage() {
         body: JSON.stringify({
           severityMapping,
           enabled,
+          params: ruleParams,
         }),
       })
 
@@ -235,6 +239,12 @@ export default function EditRulePage() {
                 </p>
               </div>
 
+              <RuleParamsFields
+                ruleId={rule.ruleId}
+                initialParams={rule.params}
+                onChange={setRuleParams}
+              />
+
               <div>
                 <label className="block text-sm font-medium mb-4">
                   Severity Mapping *
@@ -22,6 +22,7 @@ import {
 } from 'lucide-react'
 import Link from 'next/link'
 import { useToast } from '@/lib/hooks/use-toast'
+import { RuleParamsFields } from '../rule-params-fields'
 
 export default function NewRulePage() {
   const { toast } = useToast()
@@ -37,6 +38,7 @@ export default function NewRulePage() {
     medium: 'warn' as 'block' | 'warn' | 'allow',
     low: 'allow' as 'block' | 'warn' | 'allow',
   })
+  const [ruleParams, setRuleParams] = useState<Record<string, unknown>>({})
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -64,6 +66,7 @@ export default function NewRulePage() {
           ruleId,
           severityMapping,
           enabled,
+          ...(Object.keys(ruleParams).length > 0 && { params: ruleParams }),
         }),
       })
 
@@ -153,6 +156,8 @@ export default function NewRulePage() {
                 </p>
               </div>
 
+              <RuleParamsFields ruleId={ruleId} onChange={setRuleParams} />
+
               <div>
                 <label className="block text-sm font-medium mb-4">
                   Severity Mapping *
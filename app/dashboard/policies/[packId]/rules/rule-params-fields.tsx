@@ -0,0 +1,179 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createSupabaseClient } from '@/lib/supabase/client'
+
+interface RuleParamSpec {
+  name: string
+  type: 'integer' | 'number' | 'boolean' | 'string' | 'string[]' | 'regex[]' | 'glob[]'
+  label: string
+  description?: string
+  default: number | boolean | string | string[]
+  min?: number
+  max?: number
+}
+
+interface CatalogRule {
+  ruleId: string
+  name: string
+  params: RuleParamSpec[]
+}
+
+interface RuleParamsFieldsProps {
+  ruleId: string
+  initialParams?: Record<string, unknown>
+  onChange: (params: Record<string, unknown>) => void
+}
+
+const inputClassName = 'w-full px-4 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary'
+
+function toDraft(value: unknown): string {
+  if (value === undefined) {
+    return ''
+  }
+  return Array.isArray(value) ? value.join('\n') : String(value)
+}
+
+function fromDraft(spec: RuleParamSpec, draft: string): unknown {
+  switch (spec.type) {
+    case 'integer':
+    case 'number':
+      return draft.trim() === '' ? undefined : Number(draft)
+    case 'boolean':
+      return draft === '' ? undefined : draft === 'true'
+    case 'string':
+      return draft === '' ? undefined : draft
+    default: {
+      const items = draft.split('\n').map((item) => item.trim()).filter(Boolean)
+      return items.length > 0 ? items : undefined
+    }
+  }
+}
+
+/**
+ * Rule Params Fields
+ *
+ * Renders inputs for the params a built-in rule declares (from the rule
+ * catalog). Blank fields fall back to the rule's default; params the
+ * catalog doesn't describe (e.g. `preExisting`) are passed through untouched.
+ */
+export function RuleParamsFields({ ruleId, initialParams, onChange }: RuleParamsFieldsProps) {
+  const [catalog, setCatalog] = useState<CatalogRule[] | null>(null)
+
+  useEffect(() => {
+    async function fetchCatalog() {
+      try {
+        const supabase = createSupabaseClient()
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session) {
+          return
+        }
+
+        const response = await fetch('/api/v1/policies/rules', {
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+        })
+        if (response.ok) {
+          const data = (await response.json()) as { data?: { rules?: CatalogRule[] } }
+          setCatalog(data.data?.rules || [])
+        }
+      } catch {
+        // Params stay editable through the policy source when the catalog is unavailable
+        setCatalog([])
+      }
+    }
+
+    fetchCatalog()
+  }, [])
+
+  const specs = catalog?.find((rule) => rule.ruleId === ruleId)?.params || []
+
+  if (specs.length === 0) {
+    return null
+  }
+
+  // Keyed on the rule, so switching rules starts from that rule's params
+  return <RuleParamsInputs key={ruleId} specs={specs} initialParams={initialParams} onChange={onChange} />
+}
+
+interface RuleParamsInputsProps {
+  specs: RuleParamSpec[]
+  initialParams?: Record<string, unknown>
+  onChange: (params: Record<string, unknown>) => void
+}
+
+function RuleParamsInputs({ specs, initialParams, onChange }: RuleParamsInputsProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(specs.map((spec) => [spec.name, toDraft(initialParams?.[spec.name])]))
+  )
+
+  const update = (spec: RuleParamSpec, draft: string) => {
+    const next = { ...drafts, [spec.name]: draft }
+    setDrafts(next)
+
+    const params: Record<string, unknown> = { ...initialParams }
+    for (const s of specs) {
+      const value = fromDraft(s, next[s.name] ?? '')
+      if (value === undefined) {
+        delete params[s.name]
+      } else {
+        params[s.name] = value
+      }
+    }
+    onChange(params)
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-4">
+        Rule Parameters
+      </label>
+      <div className="space-y-4">
+        {specs.map((spec) => (
+          <div key={spec.name}>
+            <label className="block text-sm font-medium mb-2">
+              {spec.label}
+            </label>
+            {spec.type === 'boolean' ? (
+              <select
+                value={drafts[spec.name] ?? ''}
+                onChange={(e) => update(spec, e.target.value)}
+                className="px-3 py-1 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Default ({String(spec.default)})</option>
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            ) : spec.type.endsWith('[]') ? (
+              <textarea
+                value={drafts[spec.name] ?? ''}
+                onChange={(e) => update(spec, e.target.value)}
+                rows={3}
+                className={`${inputClassName} font-mono text-sm`}
+                placeholder={spec.type === 'glob[]' ? 'test/**' : 'One entry per line'}
+              />
+            ) : (
+              <input
+                type={spec.type === 'string' ? 'text' : 'number'}
+                value={drafts[spec.name] ?? ''}
+                onChange={(e) => update(spec, e.target.value)}
+                min={spec.min}
+                max={spec.max}
+                step={spec.type === 'integer' ? 1 : 'any'}
+                className={inputClassName}
+                placeholder={String(spec.default)}
+              />
+            )}
+            {spec.description && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {spec.description}
+                {spec.type.endsWith('[]') && ' (one per line)'}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -29,7 +29,7 @@ export default function NewWaiverPage() {
   const [organizationId, setOrganizationId] = useState('')
   const [repositoryId, setRepositoryId] = useState('')
   const [ruleId, setRuleId] = useState('')
-  const [scope, setScope] = useState<'repo' | 'branch' | 'path'>('repo')
+  const [scope, setScope] = useState<'repo' | 'branch' | 'path' | 'fingerprint'>('repo')
   const [scopeValue, setScopeValue] = useState('')
   const [reason, setReason] = useState('')
   const [expiresAt, setExpiresAt] = useState('')
@@ -171,22 +171,23 @@ export default function NewWaiverPage() {
                 </label>
                 <select
                   value={scope}
-                  onChange={(e) => setScope(e.target.value as 'repo' | 'branch' | 'path')}
+                  onChange={(e) => setScope(e.target.value as 'repo' | 'branch' | 'path' | 'fingerprint')}
                   className="w-full px-4 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
                 >
                   <option value="repo">Repository</option>
                   <option value="branch">Branch</option>
                   <option value="path">Path</option>
+                  <option value="fingerprint">Single finding</option>
                 </select>
                 <p className="text-xs text-muted-foreground mt-1">
                   Scope of the waiver
                 </p>
               </div>
 
-              {(scope === 'branch' || scope === 'path') && (
+              {scope !== 'repo' && (
                 <div>
                   <label className="block text-sm font-medium mb-2">
-                    {scope === 'branch' ? 'Branch Name' : 'Path Pattern'} *
+                    {scope === 'branch' ? 'Branch Name' : scope === 'path' ? 'Path Pattern' : 'Finding Fingerprint'} *
                   </label>
                   <input
                     type="text"
@@ -194,7 +195,7 @@ export default function NewWaiverPage() {
                     onChange={(e) => setScopeValue(e.target.value)}
                     required
                     className="w-full px-4 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                    placeholder={scope === 'branch' ? 'main' : 'src/**/*.ts'}
+                    placeholder={scope === 'branch' ? 'main' : scope === 'path' ? 'src/**/*.ts' : 'Fingerprint from the review result'}
                   />
                 </div>
               )}
@@ -32,7 +32,7 @@ interface Waiver {
   organizationId: string
   repositoryId: string | null
   ruleId: string
-  scope: 'repo' | 'branch' | 'path'
+  scope: 'repo' | 'branch' | 'path' | 'fingerprint'
   scopeValue: string | null
   reason: string
   expiresAt: string | null
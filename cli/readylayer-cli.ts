@@ -14,6 +14,7 @@ import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
+import { execFileSync } from 'child_process';
 
 const program = new Command();
 
@@ -249,6 +250,102 @@ async function generateTests(filePath: string, options: TestOptions) {
   }
 }
 
+interface SarifOptions {
+  output?: string;
+}
+
+// Export review findings as SARIF
+async function exportSarif(reviewId: string, options: SarifOptions) {
+  const config = loadConfig();
+
+  if (!config.apiKey) {
+    // eslint-disable-next-line no-console
+    console.error('Error: READYLAYER_API_KEY not set');
+    process.exit(1);
+  }
+
+  try {
+    const response = await fetch(`${config.apiUrl}/api/v1/reviews/${encodeURIComponent(reviewId)}?format=sarif`, {
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const error = await response.json().catch(() => ({})) as { error?: { message?: string } };
+      // eslint-disable-next-line no-console
+      console.error(`Error: ${error.error?.message ?? response.statusText}`);
+      process.exit(1);
+    }
+
+    const sarif = JSON.stringify(await response.json(), null, 2);
+    if (options.output) {
+      fs.writeFileSync(options.output, sarif);
+      // eslint-disable-next-line no-console
+      console.log(`✅ SARIF written to ${options.output}`);
+    } else {
+      process.stdout.write(`${sarif}\n`);
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+interface FixOptions {
+  dryRun?: boolean;
+}
+
+// Apply a review's autofix patch to the working tree
+async function applyFixes(reviewId: string, options: FixOptions) {
+  const config = loadConfig();
+
+  if (!config.apiKey) {
+    // eslint-disable-next-line no-console
+    console.error('Error: READYLAYER_API_KEY not set');
+    process.exit(1);
+  }
+
+  try {
+    const response = await fetch(`${config.apiUrl}/api/v1/reviews/${encodeURIComponent(reviewId)}?format=patch`, {
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const error = await response.json().catch(() => ({})) as { error?: { message?: string } };
+      // eslint-disable-next-line no-console
+      console.error(`Error: ${error.error?.message ?? response.statusText}`);
+      process.exit(1);
+    }
+
+    const patch = await response.text();
+    if (!patch.trim()) {
+      // eslint-disable-next-line no-console
+      console.log('No automatic fixes available for this review');
+      return;
+    }
+
+    if (options.dryRun) {
+      process.stdout.write(patch);
+      execFileSync('git', ['apply', '--check', '-'], { input: patch, stdio: ['pipe', 'inherit', 'inherit'] });
+      return;
+    }
+
+    // Fails without touching any file if the patch no longer applies
+    execFileSync('git', ['apply', '-'], { input: patch, stdio: ['pipe', 'inherit', 'inherit'] });
+    const files = patch.split('\n').filter((line) => line.startsWith('+++ b/')).map((line) => line.slice(6));
+    // eslint-disable-next-line no-console
+    console.log(`✅ Applied fixes to ${files.length} file(s):\n${files.map((file) => `   ${file}`).join('\n')}`);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
 // Initialize config
 function initConfig() {
   const configPath = path.join(process.cwd(), '.readylayer.json');
@@ -341,6 +438,18 @@ program
   .option('-o, --output <path>', 'Output file path')
   .action(generateTests);
 
+program
+  .command('sarif <reviewId>')
+  .description('Export review findings as SARIF 2.1.0 (for GitHub code scanning and other viewers)')
+  .option('-o, --output <path>', 'Output file path (defaults to stdout)')
+  .action(exportSarif);
+
+program
+  .command('fix <reviewId>')
+  .description('Apply the automatic fixes from a review to the local working tree (via git apply)')
+  .option('--dry-run', 'Print the patch and check that it applies, without changing files')
+  .action(applyFixes);
+
 program
   .command('init')
   .description('Initialize ReadyLayer configuration')
@@ -0,0 +1,210 @@
+/**
+ * Review Prompt Evaluation Corpus
+ *
+ * Changed files with the issues a correct review reports, and the model
+ * output recorded for each review prompt version so evaluations replay
+ * offline. Add a case whenever a prompt change is motivated by a real
+ * false positive or miss; record outputs for every version being compared.
+ */
+
+import type { PromptEvalCase } from '../../services/prompts/evaluation';
+
+export const reviewCorpus: PromptEvalCase[] = [
+  {
+    id: 'sql-injection',
+    filePath: 'src/users.ts',
+    content: `import { db } from './db';
+
+export async function findUser(name: string) {
+  const query = \`SELECT * FROM users WHERE name = '\${name}'\`;
+  return db.query(query);
+}
+
+export function formatName(first: string, last: string) {
+  return first + ' ' + last;
+}
+`,
+    expected: [{ ruleId: 'security.sql-injection', line: 4 }],
+    recorded: {
+      v1: JSON.stringify([
+        {
+          ruleId: 'security.sql-injection',
+          severity: 'critical',
+          line: 4,
+          evidence: "const query = `SELECT * FROM users WHERE name = '${name}'`;",
+          message: 'User input is interpolated into a SQL query',
+          fix: 'Use a parameterized query',
+          confidence: 0.95,
+        },
+        {
+          ruleId: 'quality.string-concatenation',
+          severity: 'low',
+          line: 9,
+          evidence: "return first + ' ' + last;",
+          message: 'Prefer template literals over string concatenation',
+          confidence: 0.6,
+        },
+      ]),
+      v2: JSON.stringify([
+        {
+          ruleId: 'security.sql-injection',
+          severity: 'critical',
+          line: 4,
+          evidence: "const query = `SELECT * FROM users WHERE name = '${name}'`;",
+          message: 'User input is interpolated into a SQL query',
+          fix: 'Use a parameterized query',
+          confidence: 0.95,
+        },
+      ]),
+    },
+  },
+  {
+    id: 'hardcoded-secret',
+    filePath: 'src/config.ts',
+    content: `export const config = {
+  apiKey: 'sk_live_51H8xYz2eZvKYlo2C9a7',
+  timeoutMs: 5000,
+};
+
+export function getTimeout(): number {
+  return config.timeoutMs;
+}
+`,
+    expected: [{ ruleId: 'security.hardcoded-secret', line: 2 }],
+    recorded: {
+      v1: JSON.stringify([
+        {
+          ruleId: 'security.hardcoded-secret',
+          severity: 'critical',
+          line: 2,
+          evidence: "apiKey: 'sk_live_51H8xYz2eZvKYlo2C9a7',",
+          message: 'Live API key committed to source',
+          fix: 'Load the key from the environment and rotate it',
+          confidence: 0.97,
+        },
+        {
+          ruleId: 'quality.magic-number',
+          severity: 'low',
+          line: 3,
+          evidence: 'timeoutMs: 5000,',
+          message: 'Magic number; extract a named constant',
+          confidence: 0.5,
+        },
+      ]),
+      v2: JSON.stringify([
+        {
+          ruleId: 'security.hardcoded-secret',
+          severity: 'critical',
+          line: 2,
+          evidence: "apiKey: 'sk_live_51H8xYz2eZvKYlo2C9a7',",
+          message: 'Live API key committed to source',
+          fix: 'Load the key from the environment and rotate it',
+          confidence: 0.97,
+        },
+      ]),
+    },
+  },
+  {
+    id: 'floating-promise',
+    filePath: 'src/orders.ts',
+    content: `export async function saveOrder(order: Order, repo: OrderRepository) {
+  repo.save(order);
+  return { saved: true };
+}
+`,
+    expected: [{ ruleId: 'bug.unhandled-promise', line: 2 }],
+    recorded: {
+      v1: JSON.stringify([
+        {
+          ruleId: 'bug.unhandled-promise',
+          severity: 'high',
+          line: 2,
+          evidence: 'repo.save(order);',
+          message: 'save() is not awaited; failures are lost and saved is reported too early',
+          fix: 'await repo.save(order)',
+          confidence: 0.85,
+        },
+        {
+          ruleId: 'security.missing-authorization',
+          severity: 'medium',
+          line: 1,
+          evidence: 'export async function saveOrder(order: Order, repo: OrderRepository) {',
+          message: 'No authorization check before saving the order',
+          confidence: 0.4,
+        },
+      ]),
+      v2: JSON.stringify([
+        {
+          ruleId: 'bug.unhandled-promise',
+          severity: 'high',
+          line: 2,
+          evidence: 'repo.save(order);',
+          message: 'save() is not awaited; failures are lost and saved is reported too early',
+          fix: 'await repo.save(order)',
+          confidence: 0.85,
+        },
+      ]),
+    },
+  },
+  {
+    id: 'clean-file',
+    filePath: 'src/math.ts',
+    content: `export function clamp(value: number, min: number, max: number): number {
+  if (min > max) {
+    throw new RangeError('min must not exceed max');
+  }
+  return Math.min(Math.max(value, min), max);
+}
+`,
+    expected: [],
+    recorded: {
+      v1: JSON.stringify([
+        {
+          ruleId: 'quality.missing-docs',
+          severity: 'low',
+          line: 1,
+          evidence: 'export function clamp(value: number, min: number, max: number): number {',
+          message: 'Exported function has no doc comment',
+          confidence: 0.55,
+        },
+      ]),
+      v2: '[]',
+    },
+  },
+  {
+    id: 'path-traversal',
+    filePath: 'src/files.ts',
+    content: `import { readFile } from 'fs/promises';
+import path from 'path';
+
+export async function readUpload(name: string) {
+  return readFile(path.join('/var/uploads', name), 'utf8');
+}
+`,
+    expected: [{ ruleId: 'security.path-traversal', line: 5 }],
+    recorded: {
+      v1: JSON.stringify([
+        {
+          ruleId: 'security.path-traversal',
+          severity: 'high',
+          line: 5,
+          evidence: "return readFile(path.join('/var/uploads', name), 'utf8');",
+          message: 'name may contain ../ and escape the uploads directory',
+          fix: 'Resolve the path and check it stays under /var/uploads',
+          confidence: 0.9,
+        },
+      ]),
+      v2: JSON.stringify([
+        {
+          ruleId: 'security.path-traversal',
+          severity: 'high',
+          line: 5,
+          evidence: "return readFile(path.join('/var/uploads', name), 'utf8');",
+          message: 'name may contain ../ and escape the uploads directory',
+          fix: 'Resolve the path and check it stays under /var/uploads',
+          confidence: 0.9,
+        },
+      ]),
+    },
+  },
+];
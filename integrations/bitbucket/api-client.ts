@@ -4,6 +4,8 @@
  * Wrapper for Bitbucket REST API with rate limiting and retries
  */
 
+import { readBlobWithLimit } from '../../lib/utils/api-helpers';
+
 export interface PipelineVariable {
   key: string;
   value: string;
@@ -129,7 +131,8 @@ export interface BitbucketAPIClient {
     workspace: string,
     repoSlug: string,
     pipelineUuid: string,
-    token: string
+    token: string,
+    maxBytes?: number
   ): Promise<Blob>;
 }
 
@@ -320,13 +323,14 @@ export class BitbucketAPIClientImpl implements BitbucketAPIClient {
   }
 
   /**
-   * Get pipeline artifacts
+   * Get pipeline artifacts; throws when the archive is over maxBytes
    */
   async getPipelineArtifacts(
     workspace: string,
     repoSlug: string,
     pipelineUuid: string,
-    token: string
+    token: string,
+    maxBytes?: number
   ): Promise<Blob> {
     // Bitbucket Pipelines artifacts are accessed via steps
     const stepsUrl = `${this.baseUrl}/repositories/${workspace}/${repoSlug}/pipelines/${pipelineUuid}/steps/`;
@@ -352,7 +356,7 @@ export class BitbucketAPIClientImpl implements BitbucketAPIClient {
       throw new Error(`Bitbucket API error: ${response.status}`);
     }
 
-    return await response.blob();
+    return await readBlobWithLimit(response, maxBytes, `Artifacts of pipeline ${pipelineUuid}`);
   }
 
   /**
@@ -78,6 +78,10 @@ export interface NormalizedEvent {
     baseBranch: string;
     headBranch: string;
   };
+  pipeline?: {
+    id?: string; // Absent when the event doesn't name the run; it is looked up by commit
+    sha: string;
+  };
   installationId?: string;
 }
 
@@ -131,6 +135,7 @@ export class BitbucketWebhookHandler {
       data: {
         repository: normalized.repository,
         pr: normalized.pr,
+        pipeline: normalized.pipeline,
         installationId: installation.id,
       },
     });
@@ -232,6 +237,9 @@ export class BitbucketWebhookHandler {
     }
 
     if (event.eventKey === 'build:status' || event.eventKey === 'build:completed') {
+      // The commit is a hash or a commit object depending on the event source
+      const commit = event.commit as string | { hash?: string; id?: string } | undefined;
+      const sha = typeof commit === 'string' ? commit : commit?.hash ?? commit?.id;
       return {
         type: 'ci.completed',
         repository: {
@@ -239,6 +247,7 @@ export class BitbucketWebhookHandler {
           fullName,
           provider: 'bitbucket',
         },
+        pipeline: sha ? { sha } : undefined,
         installationId: installation.id,
       };
     }
@@ -10,6 +10,9 @@ import { bitbucketAPIClient } from './bitbucket/api-client';
 
 export type GitProvider = 'github' | 'gitlab' | 'bitbucket';
 
+// Artifacts are downloaded whole into memory; larger ones are skipped
+const MAX_ARTIFACT_BYTES = 100 * 1024 * 1024;
+
 export interface PipelineVariable {
   key: string;
   value: string;
@@ -45,7 +48,8 @@ export interface GitProviderAdapter {
   listPipelineRuns(repo: string, token: string, ref?: string): Promise<PipelineRun[]>;
 
   /**
-   * Get pipeline artifacts
+   * Get pipeline artifacts. Null when there are none or they are over the
+   * download size limit.
    */
   getPipelineArtifacts(repo: string, runId: string, token: string): Promise<Blob | null>;
 }
@@ -115,8 +119,12 @@ class GitHubAdapter implements GitProviderAdapter {
   async getPipelineArtifacts(repo: string, runId: string, token: string): Promise<Blob | null> {
     try {
       const artifacts = await githubAPIClient.listWorkflowRunArtifacts(repo, parseInt(runId, 10), token);
-      if (artifacts.artifacts && artifacts.artifacts.length > 0) {
-        const artifact = artifacts.artifacts[0];
+      const usable = (artifacts.artifacts || []).filter(
+        (candidate) => !candidate.expired && candidate.size_in_bytes <= MAX_ARTIFACT_BYTES
+      );
+      // Prefer the coverage upload when a run has several artifacts
+      const artifact = usable.find((candidate) => /coverage/i.test(candidate.name)) || usable[0];
+      if (artifact) {
         const arrayBuffer = await githubAPIClient.downloadArtifact(repo, artifact.id, token);
         return new Blob([arrayBuffer]);
       }
@@ -175,7 +183,7 @@ class GitLabAdapter implements GitProviderAdapter {
       const jobNames = ['test', 'tests', 'coverage', 'build'];
       for (const jobName of jobNames) {
         try {
-          return await gitlabAPIClient.getPipelineArtifacts(repo, parseInt(runId, 10), jobName, token);
+          return await gitlabAPIClient.getPipelineArtifacts(repo, parseInt(runId, 10), jobName, token, MAX_ARTIFACT_BYTES);
         } catch {
           // Try next job name
         }
@@ -237,7 +245,7 @@ class BitbucketAdapter implements GitProviderAdapter {
   async getPipelineArtifacts(repo: string, runId: string, token: string): Promise<Blob | null> {
     try {
       const { workspace, repoSlug } = this.parseRepo(repo);
-      return await bitbucketAPIClient.getPipelineArtifacts(workspace, repoSlug, runId, token);
+      return await bitbucketAPIClient.getPipelineArtifacts(workspace, repoSlug, runId, token, MAX_ARTIFACT_BYTES);
     } catch (error) {
       // Return null if artifacts not found
     }
@@ -22,6 +22,8 @@ export interface PRComment {
   body: string;
   path?: string;
   line?: number;
+  startLine?: number; // With `line`, a multi-line range
+  commitSha?: string; // Needed to anchor the comment to the diff
 }
 
 export interface StatusCheck {
@@ -58,6 +60,15 @@ export interface CheckRunDetails {
   external_id?: string;
 }
 
+/**
+ * Where to clone a repository from over HTTPS; the token is sent as the
+ * Basic auth password with this user name
+ */
+export interface CloneSource {
+  url: string;
+  username: string;
+}
+
 export interface GitProviderPRAdapter {
   /**
    * Get PR/MR details
@@ -70,7 +81,7 @@ export interface GitProviderPRAdapter {
   getPRDiff(repo: string, prNumber: number, token: string): Promise<string>;
 
   /**
-   * Post PR/MR comment
+   * Post PR/MR comment. Providers without inline support ignore the position
    */
   postPRComment(repo: string, prNumber: number, comment: PRComment, token: string): Promise<void>;
 
@@ -88,6 +99,11 @@ export interface GitProviderPRAdapter {
    * Get file content
    */
   getFileContent(repo: string, path: string, ref: string, token: string): Promise<string>;
+
+  /**
+   * Get HTTPS clone source
+   */
+  getCloneSource(repo: string): CloneSource;
 }
 
 /**
@@ -111,6 +127,16 @@ class GitHubPRAdapter implements GitProviderPRAdapter {
   }
 
   async postPRComment(repo: string, prNumber: number, comment: PRComment, token: string): Promise<void> {
+    if (comment.path && comment.line && comment.commitSha) {
+      await githubAPIClient.postReviewComment(repo, prNumber, {
+        body: comment.body,
+        commitId: comment.commitSha,
+        path: comment.path,
+        line: comment.line,
+        startLine: comment.startLine,
+      }, token);
+      return;
+    }
     await githubAPIClient.postPRComment(repo, prNumber, comment.body, token);
   }
 
@@ -134,6 +160,10 @@ class GitHubPRAdapter implements GitProviderPRAdapter {
   async getFileContent(repo: string, path: string, ref: string, token: string): Promise<string> {
     return githubAPIClient.getFileContent(repo, path, ref, token);
   }
+
+  getCloneSource(repo: string): CloneSource {
+    return { url: `https://github.com/${repo}.git`, username: 'x-access-token' };
+  }
 }
 
 /**
@@ -191,6 +221,10 @@ class GitLabPRAdapter implements GitProviderPRAdapter {
   async getFileContent(repo: string, path: string, ref: string, token: string): Promise<string> {
     return gitlabAPIClient.getFileContent(repo, path, ref, token);
   }
+
+  getCloneSource(repo: string): CloneSource {
+    return { url: `https://gitlab.com/${repo}.git`, username: 'oauth2' };
+  }
 }
 
 /**
@@ -265,6 +299,10 @@ class BitbucketPRAdapter implements GitProviderPRAdapter {
     const { workspace, repoSlug } = this.parseRepo(repo);
     return bitbucketAPIClient.getFileContent(workspace, repoSlug, path, ref, token);
   }
+
+  getCloneSource(repo: string): CloneSource {
+    return { url: `https://bitbucket.org/${repo}.git`, username: 'x-token-auth' };
+  }
 }
 
 /**
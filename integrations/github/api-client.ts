@@ -59,6 +59,14 @@ export interface WorkflowArtifact {
   created_at: string;
 }
 
+export interface ReviewCommentDetails {
+  body: string;
+  commitId: string;
+  path: string;
+  line: number; // Last line of the commented range, on the head side
+  startLine?: number; // First line, for multi-line comments
+}
+
 export interface GitHubPR {
   number: number;
   title: string;
@@ -79,6 +87,7 @@ export interface GitHubAPIClient {
   getPR(repo: string, prNumber: number, token: string): Promise<GitHubPR>;
   getPRDiff(repo: string, prNumber: number, token: string): Promise<string>;
   postPRComment(repo: string, prNumber: number, body: string, token: string): Promise<{ id: number }>;
+  postReviewComment(repo: string, prNumber: number, comment: ReviewCommentDetails, token: string): Promise<{ id: number }>;
   updateStatusCheck(
     repo: string,
     sha: string,
@@ -171,6 +180,32 @@ export class GitHubAPIClientImpl implements GitHubAPIClient {
     });
   }
 
+  /**
+   * Post an inline review comment on the PR diff
+   */
+  async postReviewComment(
+    repo: string,
+    prNumber: number,
+    comment: ReviewCommentDetails,
+    token: string
+  ): Promise<{ id: number }> {
+    const url = `${this.baseUrl}/repos/${repo}/pulls/${prNumber}/comments`;
+    const range = comment.startLine !== undefined && comment.startLine < comment.line
+      ? { start_line: comment.startLine, start_side: 'RIGHT' }
+      : {};
+    return this.request<{ id: number }>(url, token, {
+      method: 'POST',
+      body: JSON.stringify({
+        body: comment.body,
+        commit_id: comment.commitId,
+        path: comment.path,
+        line: comment.line,
+        side: 'RIGHT',
+        ...range,
+      }),
+    });
+  }
+
   /**
    * Update status check
    */
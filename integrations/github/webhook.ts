@@ -42,7 +42,10 @@ export interface GitHubWebhookEvent {
   pull_request?: GitHubPullRequest;
   repository?: GitHubRepository;
   check_run?: unknown;
-  workflow_run?: unknown;
+  workflow_run?: {
+    id: number;
+    head_sha: string;
+  };
   installation?: { id: number };
 }
 
@@ -60,6 +63,10 @@ export interface NormalizedEvent {
     baseBranch: string;
     headBranch: string;
   };
+  pipeline?: {
+    id?: string; // Absent when the event doesn't name the run; it is looked up by commit
+    sha: string;
+  };
   installationId?: string;
 }
 
@@ -115,11 +122,13 @@ export class GitHubWebhookHandler {
       data: {
         repository: normalized.repository,
         pr: normalized.pr,
+        pipeline: normalized.pipeline,
         installationId: installation.id,
         repositoryId: normalized.repository.id,
       } as {
         repository: NormalizedEvent['repository'];
         pr?: NormalizedEvent['pr'];
+        pipeline?: NormalizedEvent['pipeline'];
         installationId: string;
         repositoryId: string;
       },
@@ -222,6 +231,10 @@ export class GitHubWebhookHandler {
           fullName,
           provider: 'github',
         },
+        pipeline: {
+          id: String(event.workflow_run.id),
+          sha: event.workflow_run.head_sha,
+        },
         installationId: installation.id,
       };
     }
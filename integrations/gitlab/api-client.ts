@@ -4,6 +4,8 @@
  * Wrapper for GitLab REST API with rate limiting and retries
  */
 
+import { readBlobWithLimit } from '../../lib/utils/api-helpers';
+
 export interface PipelineVariable {
   key: string;
   value: string;
@@ -63,7 +65,7 @@ export interface GitLabAPIClient {
     token: string,
     ref?: string
   ): Promise<Pipeline[]>;
-  getPipelineArtifacts(repo: string, pipelineId: number, jobName: string, token: string): Promise<Blob>;
+  getPipelineArtifacts(repo: string, pipelineId: number, jobName: string, token: string, maxBytes?: number): Promise<Blob>;
 }
 
 export class GitLabAPIClientImpl implements GitLabAPIClient {
@@ -221,13 +223,14 @@ export class GitLabAPIClientImpl implements GitLabAPIClient {
   }
 
   /**
-   * Get pipeline artifacts
+   * Get pipeline artifacts; throws when the archive is over maxBytes
    */
   async getPipelineArtifacts(
     repo: string,
     pipelineId: number,
     jobName: string,
-    token: string
+    token: string,
+    maxBytes?: number
   ): Promise<Blob> {
     // First, get the job ID
     const jobsUrl = `${this.baseUrl}/projects/${encodeURIComponent(repo)}/pipelines/${pipelineId}/jobs`;
@@ -251,7 +254,7 @@ export class GitLabAPIClientImpl implements GitLabAPIClient {
       throw new Error(`GitLab API error: ${response.status}`);
     }
 
-    return await response.blob();
+    return await readBlobWithLimit(response, maxBytes, `Artifacts of job ${jobName}`);
   }
 
   /**
@@ -39,6 +39,10 @@ export interface NormalizedEvent {
     baseBranch: string;
     headBranch: string;
   };
+  pipeline?: {
+    id?: string; // Absent when the event doesn't name the run; it is looked up by commit
+    sha: string;
+  };
   installationId?: string;
 }
 
@@ -88,6 +92,7 @@ export class GitLabWebhookHandler {
       data: {
         repository: normalized.repository,
         pr: normalized.pr,
+        pipeline: normalized.pipeline,
         installationId: installation.id,
       },
     });
@@ -199,6 +204,9 @@ export class GitLabWebhookHandler {
             fullName,
             provider: 'gitlab',
           },
+          pipeline: pipeline.sha
+            ? { id: pipeline.id ? String(pipeline.id) : undefined, sha: pipeline.sha }
+            : undefined,
           installationId: installation.id,
         };
       }
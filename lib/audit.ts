@@ -80,6 +80,9 @@ export const AuditActions = {
   WAIVER_CREATED: 'waiver_created',
   WAIVER_DELETED: 'waiver_deleted',
   
+  // Organization actions
+  ORG_CONFIG_UPDATED: 'org_config_updated',
+  
   // Billing actions
   BILLING_LIMIT_CHECKED: 'billing_limit_checked',
   BILLING_LIMIT_EXCEEDED: 'billing_limit_exceeded',
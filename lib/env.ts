@@ -20,7 +20,11 @@ interface EnvConfig {
   // LLM Providers (at least one required)
   OPENAI_API_KEY?: string;
   ANTHROPIC_API_KEY?: string;
-  DEFAULT_LLM_PROVIDER?: 'openai' | 'anthropic';
+  OPENAI_COMPATIBLE_BASE_URL?: string; // Self-hosted server (Ollama, LocalAI, vLLM, ...)
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  OPENAI_COMPATIBLE_MODEL?: string;
+  LLM_STUB_ENABLED?: boolean; // Deterministic offline provider, for tests
+  DEFAULT_LLM_PROVIDER?: 'openai' | 'anthropic' | 'openai-compatible' | 'stub';
   
   // GitHub App (optional - required for GitHub integration)
   GITHUB_APP_ID?: string;
@@ -73,8 +77,13 @@ class EnvValidator {
     this.config.REDIS_URL = process.env.REDIS_URL;
     this.config.OPENAI_API_KEY = process.env.OPENAI_API_KEY;
     this.config.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+    this.config.OPENAI_COMPATIBLE_BASE_URL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    this.config.OPENAI_COMPATIBLE_API_KEY = process.env.OPENAI_COMPATIBLE_API_KEY;
+    this.config.OPENAI_COMPATIBLE_MODEL = process.env.OPENAI_COMPATIBLE_MODEL;
+    this.config.LLM_STUB_ENABLED = process.env.LLM_STUB_ENABLED === 'true';
     const defaultProvider = process.env.DEFAULT_LLM_PROVIDER;
-    this.config.DEFAULT_LLM_PROVIDER = (defaultProvider === 'openai' || defaultProvider === 'anthropic')
+    this.config.DEFAULT_LLM_PROVIDER = (defaultProvider === 'openai' || defaultProvider === 'anthropic' ||
+      defaultProvider === 'openai-compatible' || defaultProvider === 'stub')
       ? defaultProvider
       : 'openai';
     this.config.GITHUB_APP_ID = process.env.GITHUB_APP_ID;
@@ -108,8 +117,9 @@ class EnvValidator {
     const isBuildTime = process.env.NEXT_PHASE === 'phase-production-build' || 
                         process.env.NEXT_PHASE === 'phase-development-build' ||
                         process.env.NEXT_PUBLIC_SKIP_ENV_VALIDATION === 'true';
-    if (!isBuildTime && !this.config.OPENAI_API_KEY && !this.config.ANTHROPIC_API_KEY) {
-      this.errors.push('At least one LLM provider API key is required (OPENAI_API_KEY or ANTHROPIC_API_KEY)');
+    if (!isBuildTime && !this.config.OPENAI_API_KEY && !this.config.ANTHROPIC_API_KEY &&
+        !this.config.OPENAI_COMPATIBLE_BASE_URL && !this.config.LLM_STUB_ENABLED) {
+      this.errors.push('At least one LLM provider is required (OPENAI_API_KEY, ANTHROPIC_API_KEY or OPENAI_COMPATIBLE_BASE_URL)');
     }
 
     // Validate NODE_ENV
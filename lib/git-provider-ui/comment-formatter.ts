@@ -66,6 +66,32 @@ export function formatPolicyComment(
   })
 }
 
+export interface SuggestionInput {
+  ruleId: string
+  severity: string
+  message: string
+  suggestion: {
+    text: string
+  }
+}
+
+/**
+ * Format a fixable finding as a GitHub suggested-change comment; posted
+ * inline on the lines the suggestion replaces
+ */
+export function formatSuggestionComment(finding: SuggestionInput): string {
+  // The fence must be longer than any backtick run in the suggested code
+  const longestRun = Math.max(0, ...(finding.suggestion.text.match(/`+/g) || []).map((run) => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  return [
+    `**${finding.severity.toUpperCase()}** \`${finding.ruleId}\`: ${finding.message}`,
+    '',
+    `${fence}suggestion`,
+    finding.suggestion.text,
+    fence,
+  ].join('\n')
+}
+
 /**
  * Generate status check description
  */
@@ -14,6 +14,7 @@ export interface PolicyRule {
 export interface PolicyDocument {
   version: string
   rules: PolicyRule[]
+  customRules?: unknown[] // Declarative detections, see services/static-analysis/custom-rules
   source?: string
 }
 
@@ -34,3 +34,46 @@ export function parseErrorResponse(response: Response): Promise<ApiErrorResponse
     },
   })) as Promise<ApiErrorResponse>
 }
+
+/**
+ * Read a response body into a Blob, cancelling the download as soon as it
+ * passes maxBytes. The running count is what's enforced; content-length may
+ * be missing or wrong.
+ *
+ * @throws {Error} If the body is over maxBytes
+ */
+export async function readBlobWithLimit(response: Response, maxBytes: number | undefined, description: string): Promise<Blob> {
+  if (maxBytes === undefined || !response.body) {
+    return await response.blob()
+  }
+
+  const tooLarge = () => new Error(`${description} are over the ${maxBytes} byte limit`)
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body.cancel()
+    throw tooLarge()
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(received)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return new Blob([body], { type: response.headers.get('content-type') || undefined })
+}
@@ -0,0 +1,87 @@
+/**
+ * Zip Utilities
+ *
+ * Minimal in-memory reader for zip archives such as CI artifacts
+ * (stored and deflated entries; no zip64, no encryption)
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  size: number; // Uncompressed bytes
+  read(): Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * List a zip archive's file entries. Entries are decompressed on read(),
+ * which throws beyond maxEntryBytes so a small archive can't inflate
+ * without bound.
+ */
+export function readZipEntries(archive: Buffer, maxEntryBytes = 50 * 1024 * 1024): ZipEntry[] {
+  // The end record is the last 22 bytes plus an optional comment of up to 64KB
+  let end = -1;
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 22 - 0xffff); offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeader = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue; // Directory
+    }
+
+    entries.push({
+      name,
+      size,
+      read: () => {
+        if (archive.readUInt32LE(localHeader) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt zip entry ${name}`);
+        }
+        const dataStart = localHeader + 30 + archive.readUInt16LE(localHeader + 26) + archive.readUInt16LE(localHeader + 28);
+        const data = archive.subarray(dataStart, dataStart + compressedSize);
+        if (size > maxEntryBytes) {
+          throw new Error(`Zip entry ${name} exceeds ${maxEntryBytes} bytes`);
+        }
+        switch (method) {
+          case 0:
+            return Buffer.from(data);
+          case 8:
+            return inflateRawSync(data, { maxOutputLength: maxEntryBytes });
+          default:
+            throw new Error(`Zip entry ${name} uses unsupported compression method ${method}`);
+        }
+      },
+    });
+  }
+  return entries;
+}
@@ -16,6 +16,8 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: '2mb',
     },
+    // Tree-sitter grammars are loaded from node_modules at runtime, not bundled
+    serverComponentsExternalPackages: ['web-tree-sitter', 'tree-sitter-wasms'],
   },
   // Ensure webhook routes preserve raw body
   webpack: (config, { isServer }) => {
@@ -33,6 +33,25 @@ class MetricsCollector {
     }
   }
 
+  /**
+   * Add to counter (e.g. tokens or dollars rather than events)
+   */
+  add(name: string, amount: number, labels?: Record<string, string>): void {
+    const key = this.getKey(name, labels);
+    const existing = this.metrics.get(key);
+
+    if (existing && existing.type === 'counter') {
+      existing.value += amount;
+    } else {
+      this.metrics.set(key, {
+        name,
+        value: amount,
+        labels,
+        type: 'counter',
+      });
+    }
+  }
+
   /**
    * Set gauge value
    */
@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+/**
+ * Review Prompt Evaluation
+ *
+ * Compares two versions of the review prompt on the evaluation corpus
+ * (content/prompt-eval) and prints finding precision and recall for each.
+ * Offline by default: recorded model output is replayed through the stub
+ * provider. With --live, prompts go to the organization's configured LLM.
+ *
+ * Usage:
+ *   npm run eval:prompts -- [--baseline v1] [--candidate v2] [--live] [--org <organizationId>] [--record]
+ *
+ * --record stores an optimization suggestion for --org when the candidate wins.
+ */
+
+import { promptRegistryService } from '../services/prompts';
+import { evaluateReviewPrompts, replayCompletion, type EvalCompletion } from '../services/prompts/evaluation';
+import { reviewCorpus } from '../content/prompt-eval/reviewCorpus';
+
+const TEMPLATE_ID = 'review.analyze';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const live = process.argv.includes('--live');
+  const record = process.argv.includes('--record');
+  const organizationId = option('org');
+
+  if ((live || record) && !organizationId) {
+    console.error('❌ Error: --live and --record need --org <organizationId>');
+    process.exit(1);
+  }
+
+  const baseline = promptRegistryService.get(TEMPLATE_ID, option('baseline'));
+  const otherVersions = promptRegistryService.versions(TEMPLATE_ID).filter((version) => version !== baseline.version);
+  const candidateVersion = option('candidate') || otherVersions[otherVersions.length - 1];
+  if (!candidateVersion) {
+    console.error(`❌ Error: ${TEMPLATE_ID} has no other version to compare with ${baseline.version}`);
+    process.exit(1);
+  }
+  const candidate = promptRegistryService.get(TEMPLATE_ID, candidateVersion);
+
+  let complete: EvalCompletion = replayCompletion();
+  if (live) {
+    const { llmService } = await import('../services/llm');
+    complete = async (prompt) => (await llmService.complete({ prompt, organizationId: organizationId!, cache: false })).content;
+  }
+
+  console.log(`🔍 Evaluating ${TEMPLATE_ID}: ${baseline.version} vs ${candidate.version} on ${reviewCorpus.length} cases (${live ? 'live' : 'replay'})\n`);
+
+  const evaluation = await evaluateReviewPrompts({ baseline, candidate, corpus: reviewCorpus, complete });
+
+  for (const entry of evaluation.cases) {
+    const format = (score: typeof entry.baseline) =>
+      `TP ${score.truePositives} FP ${score.falsePositives} FN ${score.falseNegatives}${score.invalidOutput ? ' (invalid output)' : ''}`;
+    console.log(`  ${entry.caseId.padEnd(24)} ${baseline.version}: ${format(entry.baseline)}   ${candidate.version}: ${format(entry.candidate)}`);
+  }
+
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+  console.log('');
+  for (const score of [evaluation.baseline, evaluation.candidate]) {
+    console.log(`  ${score.ref.version}: precision ${percent(score.precision)}, recall ${percent(score.recall)}, invalid outputs ${score.invalidOutputs}`);
+  }
+  console.log(`\n  Precision ${signed(evaluation.precisionDelta)}, recall ${signed(evaluation.recallDelta)}`);
+
+  if (record) {
+    const suggestionId = await promptRegistryService.recordEvaluation(organizationId!, evaluation);
+    console.log(suggestionId
+      ? `\n✅ Recorded optimization suggestion ${suggestionId}`
+      : `\nℹ️  ${candidate.version} did not clearly beat ${baseline.version}; no suggestion recorded`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+/**
+ * Baseline Tests
+ *
+ * Findings recorded on the default branch are existing debt; anything else is new
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BaselineTooLargeError, MAX_BASELINE_FILES, readBaselineFiles, type BaselineSnapshot } from '../index';
+import { policyEngineService, EffectivePolicy } from '../../policy-engine';
+import type { Issue } from '../../static-analysis';
+
+function policyWith(baseline: BaselineSnapshot | null): EffectivePolicy {
+  const rule = { id: 'default', ruleId: '*', severityMapping: { critical: 'block' as const, high: 'block' as const }, enabled: true };
+  return {
+    pack: { id: 'default', organizationId: 'org', repositoryId: 'repo', version: '1.0.0', source: '{}', checksum: 'x', rules: [rule] },
+    rules: new Map([['*', rule]]),
+    waivers: [],
+    baseline,
+    customRules: [],
+  };
+}
+
+describe('Baseline classification', () => {
+  it('reports existing findings as non-blocking, copies as new and missing ones as fixed', () => {
+    const finding = (fingerprint: string, line: number): Issue => ({
+      ruleId: 'security.sql-injection',
+      severity: 'critical',
+      file: 'src/db.ts',
+      line,
+      message: 'SQL injection',
+      confidence: 0.9,
+      fingerprint,
+    });
+    const entry = (fingerprint: string, filePath: string) => ({
+      fingerprint,
+      ruleId: 'security.sql-injection',
+      filePath,
+      severity: 'critical',
+      line: 1,
+      occurrences: 1,
+    });
+    const baseline: BaselineSnapshot = {
+      id: 'baseline_1',
+      branch: 'main',
+      commitSha: 'abc123',
+      entries: new Map([
+        ['fp-legacy', entry('fp-legacy', 'src/db.ts')],
+        ['fp-removed', entry('fp-removed', 'src/db.ts')],
+        ['fp-elsewhere', entry('fp-elsewhere', 'src/other.ts')],
+      ]),
+    };
+
+    const legacyOnly = policyEngineService.evaluate([finding('fp-legacy', 10)], policyWith(baseline), {
+      reviewedFiles: ['src/db.ts'],
+    });
+    expect(legacyOnly.blocked).toBe(false);
+    expect(legacyOnly.baselineComparison).toEqual({ baselineId: 'baseline_1', commitSha: 'abc123', new: 0, existing: 1, fixed: 1 });
+
+    // A second copy of the legacy pattern exceeds the recorded occurrences
+    const duplicated = policyEngineService.evaluate([finding('fp-legacy', 10), finding('fp-legacy', 20)], policyWith(baseline));
+    expect(duplicated.blocked).toBe(true);
+    expect(duplicated.nonWaivedFindings.map((issue) => issue.baselineStatus)).toEqual(['existing', 'new']);
+
+    expect(policyEngineService.evaluate([finding('fp-legacy', 10)], policyWith(null)).blocked).toBe(true);
+  });
+});
+
+describe('readBaselineFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'baseline-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads source files and skips dependencies and other files', async () => {
+    mkdirSync(path.join(dir, 'src'));
+    mkdirSync(path.join(dir, 'node_modules', 'pkg'), { recursive: true });
+    writeFileSync(path.join(dir, 'src', 'db.ts'), 'export const a = 1;');
+    writeFileSync(path.join(dir, 'README.md'), '# App');
+    writeFileSync(path.join(dir, 'node_modules', 'pkg', 'index.js'), 'module.exports = 1;');
+
+    expect(await readBaselineFiles(dir)).toEqual([{ path: 'src/db.ts', content: 'export const a = 1;' }]);
+  });
+
+  it('stops at the file limit', async () => {
+    for (let i = 0; i <= MAX_BASELINE_FILES; i++) {
+      writeFileSync(path.join(dir, `f${i}.js`), '');
+    }
+
+    await expect(readBaselineFiles(dir)).rejects.toThrow(BaselineTooLargeError);
+  });
+});
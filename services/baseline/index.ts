@@ -0,0 +1,333 @@
+/**
+ * Baseline Service
+ *
+ * Snapshots the findings on a repository's default branch so reviews can
+ * tell legacy debt apart from problems a PR introduces
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { prisma } from '../../lib/prisma';
+import { staticAnalysisService, normalizeTokens, Issue } from '../static-analysis';
+import { logger } from '../../observability/logging';
+
+// Baselines are analyzed within the regenerate request
+export const MAX_BASELINE_FILES = 2000;
+export const MAX_BASELINE_BYTES = 20 * 1024 * 1024;
+
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.java', '.go', '.rs', '.rb']);
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules', 'vendor', 'dist', 'build', 'coverage', '__pycache__']);
+
+export interface BaselineFile {
+  path: string;
+  content: string;
+}
+
+export interface GenerateBaselineOptions {
+  branch: string;
+  commitSha?: string;
+  generatedBy?: string;
+  customRuleSet?: string; // From StaticAnalysisService.registerOrganizationRules
+  ruleParams?: Record<string, Record<string, unknown>>; // From PolicyEngineService.getRuleParams
+  files: BaselineFile[];
+}
+
+export interface PruneBaselineOptions {
+  ruleIds?: string[];
+  paths?: string[]; // Exact paths or `*` globs
+  fingerprints?: string[];
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleId: string;
+  filePath: string;
+  severity: string;
+  line: number;
+  occurrences: number;
+}
+
+/**
+ * Baseline as consumed by the policy engine
+ */
+export interface BaselineSnapshot {
+  id: string;
+  branch: string;
+  commitSha: string | null;
+  entries: Map<string, BaselineEntry>; // fingerprint -> entry
+}
+
+export interface BaselineSummary {
+  id: string;
+  repositoryId: string;
+  branch: string;
+  commitSha: string | null;
+  findingCount: number;
+  byRule: Record<string, number>;
+  generatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Baseline files over MAX_BASELINE_FILES or MAX_BASELINE_BYTES
+ */
+export class BaselineTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BaselineTooLargeError';
+  }
+}
+
+/**
+ * Throws BaselineTooLargeError when the files are over the baseline limits
+ */
+export function checkBaselineSize(files: BaselineFile[]): void {
+  if (files.length > MAX_BASELINE_FILES) {
+    throw new BaselineTooLargeError(`${files.length} files exceed the baseline limit of ${MAX_BASELINE_FILES}`);
+  }
+  const bytes = files.reduce((sum, file) => sum + Buffer.byteLength(file.content, 'utf8'), 0);
+  if (bytes > MAX_BASELINE_BYTES) {
+    throw new BaselineTooLargeError(`${bytes} bytes of source exceed the baseline limit of ${MAX_BASELINE_BYTES}`);
+  }
+}
+
+/**
+ * Source files in a checkout, skipping dependency and build directories.
+ * Throws BaselineTooLargeError as soon as they go over the baseline limits.
+ */
+export async function readBaselineFiles(dir: string): Promise<BaselineFile[]> {
+  const files: BaselineFile[] = [];
+  let bytes = 0;
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+          await walk(relativePath);
+        }
+        continue;
+      }
+      if (!entry.isFile() || !SOURCE_EXTENSIONS.has(path.extname(entry.name))) {
+        continue;
+      }
+      if (files.length === MAX_BASELINE_FILES) {
+        throw new BaselineTooLargeError(`The branch has more than ${MAX_BASELINE_FILES} source files, the baseline limit`);
+      }
+      const content = await fs.readFile(path.join(dir, relativePath), 'utf8');
+      bytes += Buffer.byteLength(content, 'utf8');
+      if (bytes > MAX_BASELINE_BYTES) {
+        throw new BaselineTooLargeError(`The branch has more than ${MAX_BASELINE_BYTES} bytes of source, the baseline limit`);
+      }
+      files.push({ path: relativePath, content });
+    }
+  };
+
+  await walk('');
+  return files;
+}
+
+function hash(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Hash of the finding's source tokens, kept for auditing which code a
+ * baseline entry pointed at
+ */
+export function snippetHash(content: string, line: number): string {
+  return hash(normalizeTokens(content.split('\n')[line - 1] ?? ''));
+}
+
+function matchesPath(filePath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.includes('*')
+      ? new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`).test(filePath)
+      : pattern === filePath
+  );
+}
+
+/**
+ * Baseline Service
+ */
+export class BaselineService {
+  /**
+   * Analyze default-branch files and replace the repository's baseline
+   */
+  async generate(repositoryId: string, options: GenerateBaselineOptions): Promise<BaselineSummary> {
+    const entries = new Map<string, BaselineEntry & { snippetHash: string; message: string }>();
+
+    for (const file of options.files) {
+      let issues: Issue[];
+      try {
+        issues = await staticAnalysisService.analyze(file.path, file.content, {
+          customRuleSet: options.customRuleSet,
+          ruleParams: options.ruleParams,
+        });
+      } catch (error) {
+        // Unparseable files contribute nothing; reviews will report their findings as new
+        logger.warn({
+          err: error instanceof Error ? error : new Error(String(error)),
+          repositoryId,
+          filePath: file.path,
+        }, 'Skipping unparseable file in baseline generation');
+        continue;
+      }
+
+      for (const issue of issues) {
+        // analyze() fingerprints every finding it returns
+        const fingerprint = issue.fingerprint!;
+        const existing = entries.get(fingerprint);
+        if (existing) {
+          existing.occurrences++;
+          continue;
+        }
+        entries.set(fingerprint, {
+          fingerprint,
+          ruleId: issue.ruleId,
+          filePath: file.path,
+          snippetHash: snippetHash(file.content, issue.line),
+          severity: issue.severity,
+          line: issue.line,
+          occurrences: 1,
+          message: issue.message,
+        });
+      }
+    }
+
+    const findingCount = Array.from(entries.values()).reduce((sum, entry) => sum + entry.occurrences, 0);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.repositoryBaseline.deleteMany({ where: { repositoryId } });
+      await tx.repositoryBaseline.create({
+        data: {
+          repositoryId,
+          branch: options.branch,
+          commitSha: options.commitSha,
+          generatedBy: options.generatedBy,
+          findingCount,
+          findings: {
+            createMany: { data: Array.from(entries.values()) },
+          },
+        },
+      });
+    });
+
+    logger.info({ repositoryId, findingCount, files: options.files.length }, 'Baseline generated');
+
+    return (await this.getSummary(repositoryId))!;
+  }
+
+  /**
+   * Remove baseline entries, e.g. after debt in a directory has been paid down.
+   * With no filters the whole baseline is deleted. Returns the number of entries removed.
+   */
+  async prune(repositoryId: string, options: PruneBaselineOptions = {}): Promise<number> {
+    const baseline = await prisma.repositoryBaseline.findUnique({
+      where: { repositoryId },
+      include: { findings: { select: { id: true, ruleId: true, filePath: true, fingerprint: true } } },
+    });
+
+    if (!baseline) {
+      return 0;
+    }
+
+    const hasFilters = Boolean(options.ruleIds?.length || options.paths?.length || options.fingerprints?.length);
+    if (!hasFilters) {
+      await prisma.repositoryBaseline.delete({ where: { id: baseline.id } });
+      return baseline.findings.length;
+    }
+
+    const ids = baseline.findings
+      .filter((finding) =>
+        (!options.ruleIds?.length || options.ruleIds.includes(finding.ruleId)) &&
+        (!options.paths?.length || matchesPath(finding.filePath, options.paths)) &&
+        (!options.fingerprints?.length || options.fingerprints.includes(finding.fingerprint))
+      )
+      .map((finding) => finding.id);
+
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.baselineFinding.deleteMany({ where: { id: { in: ids } } });
+      const remaining = await tx.baselineFinding.aggregate({
+        where: { baselineId: baseline.id },
+        _sum: { occurrences: true },
+      });
+      await tx.repositoryBaseline.update({
+        where: { id: baseline.id },
+        data: { findingCount: remaining._sum.occurrences ?? 0 },
+      });
+    });
+
+    return ids.length;
+  }
+
+  /**
+   * Load the baseline for evaluation, or null if the repository has none
+   */
+  async load(repositoryId: string): Promise<BaselineSnapshot | null> {
+    const baseline = await prisma.repositoryBaseline.findUnique({
+      where: { repositoryId },
+      include: { findings: true },
+    });
+
+    if (!baseline) {
+      return null;
+    }
+
+    return {
+      id: baseline.id,
+      branch: baseline.branch,
+      commitSha: baseline.commitSha,
+      entries: new Map(
+        baseline.findings.map((finding) => [
+          finding.fingerprint,
+          {
+            fingerprint: finding.fingerprint,
+            ruleId: finding.ruleId,
+            filePath: finding.filePath,
+            severity: finding.severity,
+            line: finding.line,
+            occurrences: finding.occurrences,
+          },
+        ])
+      ),
+    };
+  }
+
+  /**
+   * Baseline metadata with per-rule counts
+   */
+  async getSummary(repositoryId: string): Promise<BaselineSummary | null> {
+    const baseline = await prisma.repositoryBaseline.findUnique({ where: { repositoryId } });
+    if (!baseline) {
+      return null;
+    }
+
+    const groups = await prisma.baselineFinding.groupBy({
+      by: ['ruleId'],
+      where: { baselineId: baseline.id },
+      _sum: { occurrences: true },
+    });
+
+    return {
+      id: baseline.id,
+      repositoryId: baseline.repositoryId,
+      branch: baseline.branch,
+      commitSha: baseline.commitSha,
+      findingCount: baseline.findingCount,
+      byRule: Object.fromEntries(groups.map((group) => [group.ruleId, group._sum.occurrences ?? 0])),
+      generatedBy: baseline.generatedBy,
+      createdAt: baseline.createdAt,
+      updatedAt: baseline.updatedAt,
+    };
+  }
+}
+
+export const baselineService = new BaselineService();
@@ -19,6 +19,22 @@ export interface BudgetConfig {
   degradedMode?: boolean; // Skip AI if cap reached
 }
 
+export type BudgetStage = 'review' | 'test_generation' | 'doc_sync';
+
+/**
+ * Token budget for a single LLM call of a stage
+ */
+export interface PromptBudget {
+  promptTokens: number; // Instructions, code and evidence together
+  maxOutputTokens: number;
+}
+
+const DEFAULT_PROMPT_BUDGETS: Record<BudgetStage, PromptBudget> = {
+  review: { promptTokens: 24_000, maxOutputTokens: 4_000 },
+  test_generation: { promptTokens: 16_000, maxOutputTokens: 6_000 },
+  doc_sync: { promptTokens: 16_000, maxOutputTokens: 4_000 },
+};
+
 export interface BudgetCheckResult {
   allowed: boolean;
   reason?: string;
@@ -37,7 +53,7 @@ export class BudgetService {
   async checkBudget(
     organizationId: string,
     repositoryId: string | undefined,
-    service: 'review' | 'test_generation' | 'doc_sync',
+    service: BudgetStage,
     estimatedTokens: number
   ): Promise<BudgetCheckResult> {
     const log = logger.child({ organizationId, repositoryId, service });
@@ -95,6 +111,20 @@ export class BudgetService {
     }
   }
 
+  /**
+   * Per-call prompt budget for a stage. LLM_<STAGE>_PROMPT_TOKENS (e.g.
+   * LLM_REVIEW_PROMPT_TOKENS) overrides the default to fit the deployed
+   * model's context window.
+   */
+  getPromptBudget(stage: BudgetStage): PromptBudget {
+    const budget = DEFAULT_PROMPT_BUDGETS[stage];
+    const override = Number(process.env[`LLM_${stage.toUpperCase()}_PROMPT_TOKENS`]);
+    return {
+      promptTokens: override > 0 ? override : budget.promptTokens,
+      maxOutputTokens: budget.maxOutputTokens,
+    };
+  }
+
   /**
    * Get budget status for organization
    */
@@ -0,0 +1,62 @@
+/**
+ * Checkout Tests
+ *
+ * A checkout holds the requested commit's files, keeps symlinks from
+ * pointing outside it, and is removed by cleanup
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, lstatSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fetchCheckout } from '../index';
+
+describe('fetchCheckout', () => {
+  let origin: string;
+  let firstSha: string;
+  const git = (...args: string[]) => execFileSync('git', ['-C', origin, ...args], { encoding: 'utf8' }).trim();
+
+  beforeAll(() => {
+    origin = mkdtempSync(path.join(os.tmpdir(), 'checkout-origin-'));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    // Hosted providers serve any reachable commit by SHA
+    git('config', 'uploadpack.allowReachableSHA1InWant', 'true');
+    writeFileSync(path.join(origin, 'a.js'), 'first\n');
+    symlinkSync('/etc/passwd', path.join(origin, 'link'));
+    git('add', '.');
+    git('commit', '-q', '-m', 'first');
+    firstSha = git('rev-parse', 'HEAD');
+    writeFileSync(path.join(origin, 'a.js'), 'second\n');
+    git('commit', '-q', '-am', 'second');
+  });
+
+  afterAll(() => {
+    rmSync(origin, { recursive: true, force: true });
+  });
+
+  const source = () => ({ url: `file://${origin}`, username: 'x-access-token' });
+
+  it('checks out a commit by SHA and removes it on cleanup', async () => {
+    const checkout = await fetchCheckout(source(), 'token', firstSha);
+
+    expect(checkout.commitSha).toBe(firstSha);
+    expect(readFileSync(path.join(checkout.dir, 'a.js'), 'utf8')).toBe('first\n');
+    expect(lstatSync(path.join(checkout.dir, 'link')).isSymbolicLink()).toBe(false);
+
+    await checkout.cleanup();
+    expect(existsSync(checkout.dir)).toBe(false);
+  });
+
+  it('checks out a branch', async () => {
+    const checkout = await fetchCheckout(source(), 'token', 'main');
+
+    expect(readFileSync(path.join(checkout.dir, 'a.js'), 'utf8')).toBe('second\n');
+    await checkout.cleanup();
+  });
+
+  it('throws for an unknown ref', async () => {
+    await expect(fetchCheckout(source(), 'token', 'missing')).rejects.toThrow();
+  });
+});
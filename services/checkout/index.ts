@@ -0,0 +1,127 @@
+/**
+ * Checkout Service
+ *
+ * Fetches a repository at one commit or branch into a temporary working
+ * tree, for work that needs the files on disk: running generated tests and
+ * regenerating baselines. Checkouts are shallow, authenticate with the
+ * organization's installation token, and write symlinks as plain files so
+ * nothing in the tree points outside it.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { getGitProviderPRAdapter, type CloneSource } from '../../integrations/git-provider-pr-adapter';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../observability/logging';
+import { getInstallationWithDecryptedToken } from '../../lib/secrets/installation-helpers';
+
+const execFileAsync = promisify(execFile);
+
+const FETCH_TIMEOUT_MS = parseInt(process.env.CHECKOUT_TIMEOUT_MS || '300000', 10);
+
+export interface Checkout {
+  dir: string;
+  commitSha: string;
+  cleanup(): Promise<void>;
+}
+
+export interface CheckoutOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Shallow-fetch `ref` (a commit SHA or branch name) from `source` into a new
+ * temporary directory. The token never appears in a command line or in the
+ * checkout's git config. Throws when the fetch fails; the directory is
+ * removed first.
+ */
+export async function fetchCheckout(
+  source: CloneSource,
+  token: string,
+  ref: string,
+  options: CheckoutOptions = {}
+): Promise<Checkout> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'readylayer-checkout-'));
+  const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+
+  const env: NodeJS.ProcessEnv = {
+    PATH: process.env.PATH,
+    NODE_ENV: process.env.NODE_ENV,
+    HOME: dir,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_CONFIG_COUNT: '1',
+    GIT_CONFIG_KEY_0: 'http.extraHeader',
+    GIT_CONFIG_VALUE_0: `Authorization: Basic ${Buffer.from(`${source.username}:${token}`).toString('base64')}`,
+  };
+  const git = (...args: string[]) =>
+    execFileAsync('git', ['-C', dir, ...args], { env, timeout: FETCH_TIMEOUT_MS, signal: options.signal, maxBuffer: 1024 * 1024 });
+
+  try {
+    await git('init', '-q');
+    await git('fetch', '-q', '--depth', '1', '--no-tags', source.url, ref);
+    await git('-c', 'core.symlinks=false', 'checkout', '-q', '--detach', 'FETCH_HEAD');
+    const { stdout } = await git('rev-parse', 'HEAD');
+    return { dir, commitSha: stdout.trim(), cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Checkout Service
+ */
+export class CheckoutService {
+  /**
+   * Check out a repository at `ref` through its git provider
+   *
+   * Never throws: null when the repository has no usable installation or the
+   * fetch fails. The caller removes the checkout with cleanup().
+   */
+  async create(repositoryId: string, ref: string, options: CheckoutOptions = {}): Promise<Checkout | null> {
+    const log = logger.child({ repositoryId, ref, service: 'checkout' });
+
+    try {
+      const repository = await prisma.repository.findUnique({
+        where: { id: repositoryId },
+        select: { fullName: true, provider: true, organizationId: true },
+      });
+      if (!repository) {
+        log.warn('Repository not found');
+        return null;
+      }
+
+      const installationRecord = await prisma.installation.findFirst({
+        where: {
+          organizationId: repository.organizationId,
+          provider: repository.provider,
+          isActive: true,
+        },
+      });
+      const installation = installationRecord
+        ? await getInstallationWithDecryptedToken(installationRecord.id)
+        : null;
+      if (!installation || !installation.accessToken) {
+        log.warn('No usable installation; no checkout');
+        return null;
+      }
+
+      const adapter = getGitProviderPRAdapter(repository.provider as 'github' | 'gitlab' | 'bitbucket');
+      const checkout = await fetchCheckout(adapter.getCloneSource(repository.fullName), installation.accessToken, ref, options);
+      log.info({ commitSha: checkout.commitSha }, 'Checked out repository');
+      return checkout;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return null;
+      }
+      log.error({ err: error }, 'Checkout failed');
+      return null;
+    }
+  }
+}
+
+export const checkoutService = new CheckoutService();
@@ -0,0 +1,56 @@
+/**
+ * Symbol Diff Tests
+ *
+ * parseDiff should report each changed symbol, not the whole file
+ */
+
+import { codeParserService } from '../index';
+
+describe('Symbol-level parseDiff', () => {
+  it('reports renames, signature changes and removals with line ranges', async () => {
+    const before = [
+      'export function load(id: string) {',
+      "  return fetch('/users/' + id);",
+      '}',
+      'export const save = async (user) => {',
+      '  return user;',
+      '};',
+      'export class Repo {',
+      '  find(id) { return id; }',
+      '  remove(id) { return id; }',
+      '}',
+    ].join('\n');
+    const after = [
+      'export function load(id: string, options: Options) {',
+      "  return fetch('/users/' + id);",
+      '}',
+      'export class Repo {',
+      '  find(id) { return id; }',
+      '}',
+      'export const persist = async (user) => {',
+      '  return user;',
+      '};',
+    ].join('\n');
+
+    const diff = await codeParserService.parseDiff('src/users.ts', before, after);
+    const summary = diff.changes
+      .filter((change) => change.kind !== 'export' && change.kind !== 'class')
+      .map((change) => [change.kind, change.change, change.name, change.before?.start, change.after?.start]);
+
+    expect(summary).toEqual([
+      ['function', 'signature-changed', 'load', 1, 1],
+      ['function', 'renamed', 'persist', 4, 7],
+      ['method', 'removed', 'Repo.remove', 9, undefined],
+    ]);
+    expect(diff.changes.find((change) => change.name === 'persist' && change.kind === 'function')?.previousName).toBe('save');
+  });
+
+  it('ignores symbols that only moved', async () => {
+    const before = 'def a():\n    return 1\n\ndef b():\n    return 2\n';
+    const after = 'def b():\n    return 2\n\ndef a():\n    return 1\n';
+
+    const diff = await codeParserService.parseDiff('app/util.py', before, after);
+
+    expect(diff.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tree-sitter Parser Tests
+ *
+ * Grammar-based languages should populate the same symbol shape as JS/TS
+ */
+
+import { codeParserService } from '../index';
+
+describe('Tree-sitter Parsing', () => {
+  it('extracts Python functions, methods, imports and __all__ exports', async () => {
+    const code = [
+      'from .models import User, Admin as A',
+      "__all__ = ['load']",
+      'async def load(a, b: int = 2, *rest) -> str:',
+      '    return a',
+      'class Repo(Base):',
+      '    def find(self, id):',
+      '        pass',
+    ].join('\n');
+
+    const result = await codeParserService.parse('svc/repo.py', code);
+
+    expect(result.imports).toEqual([{ source: '.models', specifiers: ['User', 'Admin'], line: 1 }]);
+    expect(result.functions.map((f) => [f.name, f.parameters, f.isAsync, f.returnType])).toEqual([
+      ['load', ['a', 'b', 'rest'], true, 'str'],
+    ]);
+    expect(result.classes[0].extends).toBe('Base');
+    expect(result.classes[0].methods.map((m) => [m.name, m.parameters])).toEqual([['find', ['id']]]);
+    expect(result.exports.map((e) => e.name)).toEqual(['load']);
+  });
+
+  it('attaches Go methods to their receiver types', async () => {
+    const code = [
+      'package server',
+      'import h "net/http"',
+      'type Server struct{}',
+      'func (s *Server) Start(addr string) error {',
+      '  if addr == "" || s == nil { return nil }',
+      '  return nil',
+      '}',
+      'func helper(a, b int) int { return a }',
+    ].join('\n');
+
+    const result = await codeParserService.parse('server.go', code);
+
+    expect(result.imports).toEqual([{ source: 'net/http', specifiers: ['h'], line: 2 }]);
+    expect(result.classes[0].methods.map((m) => [m.name, m.parameters, m.complexity])).toEqual([
+      ['Start', ['addr'], 3],
+    ]);
+    expect(result.functions.map((f) => [f.name, f.isExported])).toEqual([['helper', false]]);
+    expect(result.exports.map((e) => e.name)).toEqual(['Server']);
+  });
+});
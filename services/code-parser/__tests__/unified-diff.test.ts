@@ -0,0 +1,57 @@
+/**
+ * Unified Diff Tests
+ *
+ * Line classification drives which findings count as new in a review
+ */
+
+import { diffLineChanges, parseUnifiedDiff } from '../index';
+
+describe('Unified diff parsing', () => {
+  const diff = [
+    'diff --git a/src/db.ts b/src/db.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/db.ts',
+    '+++ b/src/db.ts',
+    '@@ -1,4 +1,5 @@',
+    ' import { db } from "./client";',
+    '-const limit = 10;',
+    '+const limit = 20;',
+    '+const offset = 0;',
+    ' ',
+    '--- legacy query',
+    '+-- reviewed query',
+    'diff --git a/src/new.ts b/src/new.ts',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/src/new.ts',
+    '@@ -0,0 +1,2 @@',
+    '+export const a = 1;',
+    '+export const b = 2;',
+  ].join('\n');
+
+  it('splits files and hunks, including removed lines that look like headers', () => {
+    const files = parseUnifiedDiff(diff);
+
+    expect(files.map((file) => [file.oldPath, file.newPath, file.hunks.length])).toEqual([
+      ['src/db.ts', 'src/db.ts', 1],
+      [null, 'src/new.ts', 1],
+    ]);
+    expect(files[0].hunks[0].lines.filter((line) => line.type === 'removed').map((line) => line.content)).toEqual([
+      'const limit = 10;',
+      '-- legacy query',
+    ]);
+  });
+
+  it('classifies new-file lines as modified, added or context', () => {
+    const lines = diffLineChanges(diff);
+
+    expect(Array.from(lines.get('src/db.ts')!.entries())).toEqual([
+      [1, 'context'],
+      [2, 'modified'],
+      [3, 'added'],
+      [4, 'context'],
+      [5, 'modified'],
+    ]);
+    expect(Array.from(lines.get('src/new.ts')!.values())).toEqual(['added', 'added']);
+  });
+});
@@ -0,0 +1,624 @@
+/**
+ * Tree-sitter Extractors
+ *
+ * Map tree-sitter syntax trees for Python, Java, Go, Rust and Ruby onto the
+ * language-neutral ParseResult shape (functions, classes, imports, exports).
+ */
+
+import type { ClassInfo, ExportInfo, FunctionInfo, ParseResult } from './index';
+import type { SyntaxNode, TreeSitterLanguage } from './tree-sitter';
+
+export type ExtractedSymbols = Pick<ParseResult, 'functions' | 'classes' | 'imports' | 'exports'>;
+
+interface ComplexitySpec {
+  /** Node types that add a decision point */
+  decisions: Set<string>;
+  /** Binary expression node types whose && / || operators add a decision point */
+  binaryTypes: Set<string>;
+  /** Nested function-like nodes that are measured separately */
+  functionTypes: Set<string>;
+}
+
+const LOGICAL_OPERATORS = new Set(['&&', '||', 'and', 'or']);
+
+const COMPLEXITY: Record<TreeSitterLanguage, ComplexitySpec> = {
+  python: {
+    decisions: new Set([
+      'if_statement', 'elif_clause', 'for_statement', 'while_statement', 'except_clause',
+      'conditional_expression', 'case_clause', 'for_in_clause', 'if_clause', 'boolean_operator',
+    ]),
+    binaryTypes: new Set(),
+    functionTypes: new Set(['function_definition', 'lambda']),
+  },
+  java: {
+    decisions: new Set([
+      'if_statement', 'for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement',
+      'catch_clause', 'ternary_expression',
+    ]),
+    binaryTypes: new Set(['binary_expression']),
+    functionTypes: new Set(['method_declaration', 'constructor_declaration', 'lambda_expression']),
+  },
+  go: {
+    decisions: new Set(['if_statement', 'for_statement', 'expression_case', 'type_case', 'communication_case']),
+    binaryTypes: new Set(['binary_expression']),
+    functionTypes: new Set(['function_declaration', 'method_declaration', 'func_literal']),
+  },
+  rust: {
+    decisions: new Set([
+      'if_expression', 'if_let_expression', 'for_expression', 'while_expression',
+      'while_let_expression', 'match_arm',
+    ]),
+    binaryTypes: new Set(['binary_expression']),
+    functionTypes: new Set(['function_item', 'closure_expression']),
+  },
+  ruby: {
+    decisions: new Set([
+      'if', 'elsif', 'unless', 'while', 'until', 'for', 'when', 'rescue', 'conditional',
+      'if_modifier', 'unless_modifier', 'while_modifier', 'until_modifier', 'rescue_modifier',
+    ]),
+    binaryTypes: new Set(['binary']),
+    functionTypes: new Set(['method', 'singleton_method', 'lambda']),
+  },
+};
+
+function emptySymbols(): ExtractedSymbols {
+  return { functions: [], classes: [], imports: [], exports: [] };
+}
+
+function lineOf(node: SyntaxNode): number {
+  return node.startPosition.row + 1;
+}
+
+function fieldText(node: SyntaxNode, field: string): string | undefined {
+  return node.childForFieldName(field)?.text;
+}
+
+function unquote(text: string): string {
+  return text.replace(/^['"`]|['"`]$/g, '');
+}
+
+/**
+ * Cyclomatic complexity of a function node (nested functions excluded)
+ */
+function complexityOf(fn: SyntaxNode, spec: ComplexitySpec): number {
+  let complexity = 1;
+  const stack = [...fn.namedChildren];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (spec.functionTypes.has(node.type)) {
+      continue;
+    }
+    if (node.type === 'switch_label' && node.text.startsWith('case')) {
+      complexity++; // Java switch cases (default excluded)
+    } else if (spec.decisions.has(node.type)) {
+      complexity++;
+    } else if (spec.binaryTypes.has(node.type) && LOGICAL_OPERATORS.has(fieldText(node, 'operator') || '')) {
+      complexity++;
+    }
+    stack.push(...node.namedChildren);
+  }
+
+  return complexity;
+}
+
+function functionInfo(
+  node: SyntaxNode,
+  language: TreeSitterLanguage,
+  info: Pick<FunctionInfo, 'name' | 'parameters' | 'isExported'> & Partial<FunctionInfo>
+): FunctionInfo {
+  return {
+    line: lineOf(node),
+    column: node.startPosition.column,
+    endLine: node.endPosition.row + 1,
+    isAsync: false,
+    complexity: complexityOf(node, COMPLEXITY[language]),
+    ...info,
+  };
+}
+
+function classInfo(node: SyntaxNode, name: string, extendsName?: string): ClassInfo {
+  return {
+    name,
+    line: lineOf(node),
+    column: node.startPosition.column,
+    endLine: node.endPosition.row + 1,
+    methods: [],
+    extends: extendsName,
+  };
+}
+
+function namedExport(name: string, node: SyntaxNode): ExportInfo {
+  return { name, type: 'named', line: lineOf(node) };
+}
+
+// ============================================================================
+// Python
+// ============================================================================
+
+function pythonParameters(parameters: SyntaxNode | null, isMethod: boolean): string[] {
+  const names = (parameters?.namedChildren || []).map((param) => {
+    switch (param.type) {
+      case 'identifier':
+        return param.text;
+      case 'default_parameter':
+      case 'typed_default_parameter':
+        return fieldText(param, 'name') || '';
+      case 'typed_parameter':
+      case 'list_splat_pattern':
+      case 'dictionary_splat_pattern':
+        return param.namedChildren.find((child) => child.type === 'identifier')?.text || '';
+      default:
+        return '';
+    }
+  }).filter((name) => name.length > 0);
+
+  return isMethod && (names[0] === 'self' || names[0] === 'cls') ? names.slice(1) : names;
+}
+
+/**
+ * Names listed in a module-level `__all__ = [...]`, if present
+ */
+function pythonAllNames(root: SyntaxNode): Set<string> | null {
+  for (const statement of root.namedChildren) {
+    const assignment = statement.type === 'expression_statement' ? statement.namedChildren[0] : null;
+    if (assignment?.type === 'assignment' && fieldText(assignment, 'left') === '__all__') {
+      const value = assignment.childForFieldName('right');
+      return new Set((value?.namedChildren || []).filter((n) => n.type === 'string').map((n) => unquote(n.text)));
+    }
+  }
+  return null;
+}
+
+function extractPython(root: SyntaxNode): ExtractedSymbols {
+  const result = emptySymbols();
+  const allNames = pythonAllNames(root);
+  const isPublic = (name: string) => (allNames ? allNames.has(name) : !name.startsWith('_'));
+
+  const visit = (node: SyntaxNode, owner: ClassInfo | null, topLevel: boolean): void => {
+    for (const child of node.namedChildren) {
+      const definition = child.type === 'decorated_definition' ? child.childForFieldName('definition') || child : child;
+
+      if (definition.type === 'function_definition') {
+        const name = fieldText(definition, 'name') || 'anonymous';
+        const exported = owner ? !name.startsWith('_') || name.startsWith('__') : topLevel && isPublic(name);
+        const info = functionInfo(definition, 'python', {
+          name,
+          parameters: pythonParameters(definition.childForFieldName('parameters'), owner !== null),
+          returnType: fieldText(definition, 'return_type'),
+          isAsync: definition.text.startsWith('async'),
+          isExported: exported,
+        });
+        if (owner) {
+          owner.methods.push(info);
+        } else {
+          result.functions.push(info);
+          if (exported) {
+            result.exports.push(namedExport(name, definition));
+          }
+        }
+        visit(definition.childForFieldName('body') || definition, null, false);
+        continue;
+      }
+
+      if (definition.type === 'class_definition') {
+        const name = fieldText(definition, 'name') || 'anonymous';
+        const superclasses = definition.childForFieldName('superclasses');
+        const cls = classInfo(definition, name, superclasses?.namedChildren[0]?.text);
+        result.classes.push(cls);
+        if (topLevel && isPublic(name)) {
+          result.exports.push(namedExport(name, definition));
+        }
+        visit(definition.childForFieldName('body') || definition, cls, false);
+        continue;
+      }
+
+      if (child.type === 'import_statement') {
+        // import a.b, c as d
+        for (const name of child.namedChildren) {
+          const moduleName = name.type === 'aliased_import' ? fieldText(name, 'name') : name.text;
+          const alias = name.type === 'aliased_import' ? fieldText(name, 'alias') : undefined;
+          if (moduleName) {
+            result.imports.push({ source: moduleName, specifiers: [alias || moduleName], line: lineOf(child) });
+          }
+        }
+        continue;
+      }
+
+      if (child.type === 'import_from_statement') {
+        // from a.b import c, d as e / from . import x / from a import *
+        const moduleNode = child.childForFieldName('module_name');
+        const specifiers = child.namedChildren
+          .filter((n) => n.startIndex !== moduleNode?.startIndex)
+          .map((n) => (n.type === 'aliased_import' ? fieldText(n, 'name') || '' : n.type === 'wildcard_import' ? '*' : n.text))
+          .filter((name) => name.length > 0);
+        result.imports.push({ source: moduleNode?.text || '.', specifiers, line: lineOf(child) });
+        continue;
+      }
+
+      // Definitions nested in if/try blocks keep their enclosing context
+      visit(child, owner, topLevel);
+    }
+  };
+
+  visit(root, null, true);
+  return result;
+}
+
+// ============================================================================
+// Java
+// ============================================================================
+
+const JAVA_TYPE_DECLARATIONS = new Set([
+  'class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration',
+  'annotation_type_declaration',
+]);
+
+function javaModifiers(node: SyntaxNode): string {
+  return node.namedChildren.find((child) => child.type === 'modifiers')?.text || '';
+}
+
+function javaParameters(parameters: SyntaxNode | null): string[] {
+  return (parameters?.namedChildren || []).map((param) => {
+    if (param.type === 'formal_parameter' || param.type === 'receiver_parameter') {
+      return fieldText(param, 'name') || '';
+    }
+    if (param.type === 'spread_parameter') {
+      const declarator = param.namedChildren.find((child) => child.type === 'variable_declarator');
+      return declarator ? fieldText(declarator, 'name') || '' : '';
+    }
+    return '';
+  }).filter((name) => name.length > 0);
+}
+
+function extractJava(root: SyntaxNode): ExtractedSymbols {
+  const result = emptySymbols();
+
+  const visit = (node: SyntaxNode, owner: ClassInfo | null, ownerPublic: boolean): void => {
+    for (const child of node.namedChildren) {
+      if (child.type === 'import_declaration') {
+        // import java.util.List; / import static a.B.c; / import java.util.*;
+        const path = child.text.replace(/^import\s+(?:static\s+)?/, '').replace(/;\s*$/, '').replace(/\s+/g, '');
+        const lastDot = path.lastIndexOf('.');
+        result.imports.push({
+          source: lastDot > 0 ? path.slice(0, lastDot) : path,
+          specifiers: [lastDot > 0 ? path.slice(lastDot + 1) : path],
+          line: lineOf(child),
+        });
+        continue;
+      }
+
+      if (JAVA_TYPE_DECLARATIONS.has(child.type)) {
+        const name = fieldText(child, 'name') || 'anonymous';
+        const superclass = child.childForFieldName('superclass')?.text.replace(/^extends\s+/, '');
+        const isPublic = /\bpublic\b/.test(javaModifiers(child)) && (owner === null || ownerPublic);
+        const cls = classInfo(child, name, superclass);
+        result.classes.push(cls);
+        if (owner === null && isPublic) {
+          result.exports.push(namedExport(name, child));
+        }
+        visit(child.childForFieldName('body') || child, cls, isPublic);
+        continue;
+      }
+
+      if ((child.type === 'method_declaration' || child.type === 'constructor_declaration') && owner) {
+        const modifiers = javaModifiers(child);
+        owner.methods.push(functionInfo(child, 'java', {
+          name: fieldText(child, 'name') || owner.name,
+          parameters: javaParameters(child.childForFieldName('parameters')),
+          returnType: fieldText(child, 'type'),
+          isExported: ownerPublic && (/\b(?:public|protected)\b/.test(modifiers) || node.parent?.type === 'interface_declaration'),
+        }));
+        continue;
+      }
+
+      visit(child, owner, ownerPublic);
+    }
+  };
+
+  visit(root, null, false);
+  return result;
+}
+
+// ============================================================================
+// Go
+// ============================================================================
+
+function isGoExported(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+function goParameters(parameters: SyntaxNode | null): string[] {
+  return (parameters?.namedChildren || []).flatMap((param) => {
+    if (param.type === 'variadic_parameter_declaration') {
+      return [fieldText(param, 'name') || ''];
+    }
+    // a, b int -> names are the direct identifier children
+    return param.namedChildren.filter((child) => child.type === 'identifier').map((child) => child.text);
+  }).filter((name) => name.length > 0);
+}
+
+function extractGo(root: SyntaxNode): ExtractedSymbols {
+  const result = emptySymbols();
+  const types = new Map<string, ClassInfo>();
+  const methods: Array<{ receiver: string; info: FunctionInfo }> = [];
+
+  for (const child of root.namedChildren) {
+    switch (child.type) {
+      case 'import_declaration':
+        for (const spec of child.descendantsOfType('import_spec')) {
+          const source = unquote(fieldText(spec, 'path') || '');
+          const alias = fieldText(spec, 'name');
+          result.imports.push({ source, specifiers: [alias || source.split('/').pop() || source], line: lineOf(spec) });
+        }
+        break;
+      case 'function_declaration': {
+        const name = fieldText(child, 'name') || 'anonymous';
+        result.functions.push(functionInfo(child, 'go', {
+          name,
+          parameters: goParameters(child.childForFieldName('parameters')),
+          returnType: fieldText(child, 'result'),
+          isExported: isGoExported(name),
+        }));
+        if (isGoExported(name)) {
+          result.exports.push(namedExport(name, child));
+        }
+        break;
+      }
+      case 'method_declaration': {
+        const name = fieldText(child, 'name') || 'anonymous';
+        const receiverType = child.childForFieldName('receiver')?.descendantsOfType('type_identifier')[0]?.text || '';
+        methods.push({
+          receiver: receiverType,
+          info: functionInfo(child, 'go', {
+            name,
+            parameters: goParameters(child.childForFieldName('parameters')),
+            returnType: fieldText(child, 'result'),
+            isExported: isGoExported(name) && isGoExported(receiverType),
+          }),
+        });
+        break;
+      }
+      case 'type_declaration':
+        for (const spec of child.namedChildren.filter((n) => n.type === 'type_spec')) {
+          const name = fieldText(spec, 'name') || 'anonymous';
+          const kind = spec.childForFieldName('type')?.type;
+          if (kind === 'struct_type' || kind === 'interface_type') {
+            const cls = classInfo(spec, name);
+            types.set(name, cls);
+            result.classes.push(cls);
+          }
+          if (isGoExported(name)) {
+            result.exports.push(namedExport(name, spec));
+          }
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  // Methods attach to receiver types declared in this file; others stay qualified functions
+  for (const { receiver, info } of methods) {
+    const owner = types.get(receiver);
+    if (owner) {
+      owner.methods.push(info);
+    } else {
+      result.functions.push({ ...info, name: receiver ? `${receiver}.${info.name}` : info.name });
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Rust
+// ============================================================================
+
+const RUST_TYPE_ITEMS = new Set(['struct_item', 'enum_item', 'trait_item', 'union_item']);
+
+function isRustPublic(node: SyntaxNode): boolean {
+  return node.namedChildren.some((child) => child.type === 'visibility_modifier');
+}
+
+function rustParameters(parameters: SyntaxNode | null): string[] {
+  return (parameters?.namedChildren || [])
+    .filter((param) => param.type === 'parameter')
+    .map((param) => fieldText(param, 'pattern') || '')
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * Split `a::b::{c, d::e}` into a source path and imported names
+ */
+function rustUse(text: string): { source: string; specifiers: string[] } {
+  const cleaned = text.replace(/\s+/g, '');
+  const brace = cleaned.indexOf('::{');
+  if (brace >= 0 && cleaned.endsWith('}')) {
+    const inner = cleaned.slice(brace + 3, -1);
+    const specifiers: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of inner) {
+      if (char === ',' && depth === 0) {
+        specifiers.push(current);
+        current = '';
+        continue;
+      }
+      depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+      current += char;
+    }
+    specifiers.push(current);
+    return { source: cleaned.slice(0, brace), specifiers: specifiers.filter((s) => s.length > 0) };
+  }
+  const path = cleaned.replace(/as\w+$/, '');
+  const separator = path.lastIndexOf('::');
+  return separator >= 0
+    ? { source: path.slice(0, separator), specifiers: [path.slice(separator + 2)] }
+    : { source: path, specifiers: [path] };
+}
+
+function extractRust(root: SyntaxNode): ExtractedSymbols {
+  const result = emptySymbols();
+  const types = new Map<string, ClassInfo>();
+
+  const rustFunction = (node: SyntaxNode, isExported: boolean): FunctionInfo => functionInfo(node, 'rust', {
+    name: fieldText(node, 'name') || 'anonymous',
+    parameters: rustParameters(node.childForFieldName('parameters')),
+    returnType: fieldText(node, 'return_type'),
+    isAsync: /^(?:pub(?:\([^)]*\))?\s+)?(?:const\s+)?async\b/.test(node.text),
+    isExported,
+  });
+
+  const typeFor = (node: SyntaxNode, name: string): ClassInfo => {
+    let cls = types.get(name);
+    if (!cls) {
+      cls = classInfo(node, name);
+      types.set(name, cls);
+      result.classes.push(cls);
+    }
+    return cls;
+  };
+
+  const visit = (node: SyntaxNode, topLevel: boolean): void => {
+    for (const child of node.namedChildren) {
+      switch (child.type) {
+        case 'use_declaration': {
+          const argument = child.childForFieldName('argument');
+          if (argument) {
+            result.imports.push({ ...rustUse(argument.text), line: lineOf(child) });
+          }
+          break;
+        }
+        case 'function_item': {
+          const exported = topLevel && isRustPublic(child);
+          const info = rustFunction(child, exported);
+          result.functions.push(info);
+          if (exported) {
+            result.exports.push(namedExport(info.name, child));
+          }
+          break;
+        }
+        case 'impl_item': {
+          // impl Type / impl Trait for Type - methods belong to Type
+          const typeNode = child.childForFieldName('type');
+          const typeName = (typeNode?.type === 'generic_type' ? fieldText(typeNode, 'type') : typeNode?.text) || 'anonymous';
+          const owner = typeFor(child, typeName);
+          const isTraitImpl = child.childForFieldName('trait') !== null;
+          for (const member of child.childForFieldName('body')?.namedChildren || []) {
+            if (member.type === 'function_item') {
+              owner.methods.push(rustFunction(member, isTraitImpl || isRustPublic(member)));
+            }
+          }
+          break;
+        }
+        case 'mod_item':
+          visit(child.childForFieldName('body') || child, topLevel && isRustPublic(child));
+          break;
+        default:
+          if (RUST_TYPE_ITEMS.has(child.type)) {
+            const name = fieldText(child, 'name') || 'anonymous';
+            const cls = typeFor(child, name);
+            Object.assign(cls, { line: lineOf(child), column: child.startPosition.column, endLine: child.endPosition.row + 1 });
+            if (child.type === 'trait_item') {
+              for (const member of child.childForFieldName('body')?.namedChildren || []) {
+                if (member.type === 'function_item' || member.type === 'function_signature_item') {
+                  cls.methods.push(rustFunction(member, isRustPublic(child)));
+                }
+              }
+            }
+            if (topLevel && isRustPublic(child)) {
+              result.exports.push(namedExport(name, child));
+            }
+          }
+          break;
+      }
+    }
+  };
+
+  visit(root, true);
+  return result;
+}
+
+// ============================================================================
+// Ruby
+// ============================================================================
+
+function rubyParameters(parameters: SyntaxNode | null): string[] {
+  return (parameters?.namedChildren || []).map((param) =>
+    param.type === 'identifier' ? param.text : fieldText(param, 'name') || ''
+  ).filter((name) => name.length > 0);
+}
+
+function extractRuby(root: SyntaxNode): ExtractedSymbols {
+  const result = emptySymbols();
+
+  const rubyMethod = (node: SyntaxNode, isExported: boolean): FunctionInfo => functionInfo(node, 'ruby', {
+    name: node.type === 'singleton_method' ? `self.${fieldText(node, 'name') || ''}` : fieldText(node, 'name') || 'anonymous',
+    parameters: rubyParameters(node.childForFieldName('parameters')),
+    isExported,
+  });
+
+  const visit = (node: SyntaxNode, owner: ClassInfo | null, topLevel: boolean): void => {
+    let visibility = 'public';
+
+    for (const child of node.namedChildren) {
+      switch (child.type) {
+        case 'class':
+        case 'module': {
+          const name = fieldText(child, 'name') || 'anonymous';
+          const superclass = child.childForFieldName('superclass')?.text.replace(/^<\s*/, '');
+          const cls = classInfo(child, name, superclass);
+          result.classes.push(cls);
+          if (topLevel) {
+            result.exports.push(namedExport(name, child));
+          }
+          visit(child.childForFieldName('body') || child, cls, false);
+          break;
+        }
+        case 'method':
+        case 'singleton_method':
+          if (owner) {
+            owner.methods.push(rubyMethod(child, visibility === 'public'));
+          } else {
+            const info = rubyMethod(child, topLevel);
+            result.functions.push(info);
+            if (topLevel) {
+              result.exports.push(namedExport(info.name, child));
+            }
+          }
+          break;
+        case 'identifier':
+          // Bare `private` / `protected` / `public` switches visibility for following methods
+          if (['private', 'protected', 'public'].includes(child.text)) {
+            visibility = child.text;
+          }
+          break;
+        case 'call': {
+          const method = fieldText(child, 'method');
+          const argument = child.childForFieldName('arguments')?.namedChildren[0];
+          if (method && ['require', 'require_relative', 'load'].includes(method) && argument?.type === 'string') {
+            result.imports.push({ source: unquote(argument.text), specifiers: [], line: lineOf(child) });
+            break;
+          }
+          visit(child, owner, topLevel);
+          break;
+        }
+        default:
+          visit(child, owner, topLevel);
+          break;
+      }
+    }
+  };
+
+  visit(root, null, true);
+  return result;
+}
+
+export const EXTRACTORS: Record<TreeSitterLanguage, (root: SyntaxNode) => ExtractedSymbols> = {
+  python: extractPython,
+  java: extractJava,
+  go: extractGo,
+  rust: extractRust,
+  ruby: extractRuby,
+};
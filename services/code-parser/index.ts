@@ -2,10 +2,19 @@
  * Code Parser Service
  * 
  * Multi-language code parsing and AST generation
- * Supports TypeScript/JavaScript, Python, Java, Go, etc.
+ * TypeScript/JavaScript use Babel; Python, Java, Go, Rust and Ruby use
+ * tree-sitter grammars (see tree-sitter.ts and extractors.ts)
  */
 
 import * as babel from '@babel/parser';
+import { withSyntaxTree, type TreeSitterLanguage } from './tree-sitter';
+import { EXTRACTORS } from './extractors';
+import { diffSymbols, type SymbolChange } from './symbol-diff';
+
+export { diffSymbols, formatSignature } from './symbol-diff';
+export type { LineRange, SymbolChange, SymbolChangeType, SymbolKind } from './symbol-diff';
+export { parseUnifiedDiff, classifyLines, diffLineChanges } from './unified-diff';
+export type { DiffHunk, DiffLine, FileDiff, LineChange } from './unified-diff';
 
 export interface ParseResult {
   language: string;
@@ -14,6 +23,7 @@ export interface ParseResult {
   classes: ClassInfo[];
   imports: ImportInfo[];
   exports: ExportInfo[];
+  hasSyntaxErrors?: boolean; // Tree-sitter recovers from syntax errors where Babel throws
 }
 
 export interface FunctionInfo {
@@ -24,6 +34,8 @@ export interface FunctionInfo {
   returnType?: string;
   isAsync: boolean;
   isExported: boolean;
+  endLine?: number;
+  complexity?: number; // Cyclomatic complexity, set by grammar-based parsers
 }
 
 export interface ClassInfo {
@@ -32,6 +44,7 @@ export interface ClassInfo {
   column: number;
   methods: FunctionInfo[];
   extends?: string;
+  endLine?: number;
 }
 
 export interface ImportInfo {
@@ -47,9 +60,9 @@ export interface ExportInfo {
 }
 
 export interface DiffParseResult {
-  added: ParseResult[];
-  removed: ParseResult[];
-  modified: Array<{ before: ParseResult; after: ParseResult }>;
+  before: ParseResult | null;
+  after: ParseResult;
+  changes: SymbolChange[];
 }
 
 export class CodeParserService {
@@ -64,27 +77,25 @@ export class CodeParserService {
       case 'javascript':
         return this.parseJavaScript(content, language);
       case 'python':
-        return this.parsePython(content);
       case 'java':
-        return this.parseJava(content);
       case 'go':
-        return this.parseGo(content);
+      case 'rust':
+      case 'ruby':
+        return this.parseWithTreeSitter(language, content);
       default:
         throw new Error(`Unsupported language: ${language}`);
     }
   }
 
   /**
-   * Parse diff
+   * Parse diff into symbol-level changes (added, removed, renamed,
+   * signature-changed and modified functions, classes, methods, exports and imports)
    */
   async parseDiff(
     filePath: string,
     beforeContent: string | null,
     afterContent: string
   ): Promise<DiffParseResult> {
-    // Language detection for future use
-    this.detectLanguage(filePath, afterContent);
-
     const after = afterContent ? await this.parse(filePath, afterContent) : null;
     const before = beforeContent ? await this.parse(filePath, beforeContent) : null;
 
@@ -92,42 +103,11 @@ export class CodeParserService {
       throw new Error('After content is required');
     }
 
-    if (!before) {
-      return {
-        added: [after],
-        removed: [],
-        modified: [],
-      };
-    }
-
-    // Compare before and after
-    const added: ParseResult[] = [];
-    const removed: ParseResult[] = [];
-    const modified: Array<{ before: ParseResult; after: ParseResult }> = [];
-
-    // Simple comparison (in production, would do deeper AST comparison)
-    const beforeFunctions = new Map(before.functions.map(f => [f.name, f]));
-    const afterFunctions = new Map(after.functions.map(f => [f.name, f]));
-
-    for (const [name, afterFunc] of afterFunctions) {
-      const beforeFunc = beforeFunctions.get(name);
-      if (!beforeFunc) {
-        added.push(after);
-        break;
-      } else if (JSON.stringify(beforeFunc) !== JSON.stringify(afterFunc)) {
-        modified.push({ before, after });
-        break;
-      }
-    }
-
-    for (const [name] of beforeFunctions) {
-      if (!afterFunctions.has(name)) {
-        removed.push(before);
-        break;
-      }
-    }
-
-    return { added, removed, modified };
+    return {
+      before,
+      after,
+      changes: diffSymbols(before, beforeContent || '', after, afterContent),
+    };
   }
 
   /**
@@ -180,17 +160,31 @@ export class CodeParserService {
       const imports: ImportInfo[] = [];
       const exports: ExportInfo[] = [];
 
+      const functionInfo = (node: any, name: string): FunctionInfo => ({
+        name,
+        line: node.loc?.start.line || 0,
+        column: node.loc?.start.column || 0,
+        parameters: node.params.map((p: any) => p.name || p.left?.name || p.argument?.name || ''),
+        returnType: node.returnType?.typeAnnotation?.typeName?.name,
+        isAsync: node.async || false,
+        isExported: false, // Resolved against exports below
+        endLine: node.loc?.end.line,
+      });
+
       this.traverseAST(ast, {
         FunctionDeclaration: (node: any) => {
-          functions.push({
-            name: node.id?.name || 'anonymous',
-            line: node.loc?.start.line || 0,
-            column: node.loc?.start.column || 0,
-            parameters: node.params.map((p: any) => p.name || p.left?.name || ''),
-            returnType: node.returnType?.typeAnnotation?.typeName?.name,
-            isAsync: node.async || false,
-            isExported: false, // Would check parent
-          });
+          functions.push(functionInfo(node, node.id?.name || 'anonymous'));
+        },
+        VariableDeclarator: (node: any) => {
+          // const handler = async (req) => { ... }
+          if (node.id?.type === 'Identifier' &&
+            (node.init?.type === 'ArrowFunctionExpression' || node.init?.type === 'FunctionExpression')) {
+            functions.push({
+              ...functionInfo(node.init, node.id.name),
+              line: node.loc?.start.line || 0,
+              column: node.loc?.start.column || 0,
+            });
+          }
         },
         ClassDeclaration: (node: any) => {
           const methods: FunctionInfo[] = [];
@@ -200,9 +194,11 @@ export class CodeParserService {
                 name: member.key?.name || 'anonymous',
                 line: member.loc?.start.line || 0,
                 column: member.loc?.start.column || 0,
-                parameters: member.value?.params?.map((p: any) => p.name || '') || [],
-                isAsync: member.value?.async || false,
-                isExported: false,
+                parameters: (member.value?.params || member.params)?.map((p: any) => p.name || p.left?.name || '') || [],
+                returnType: member.returnType?.typeAnnotation?.typeName?.name,
+                isAsync: member.value?.async || member.async || false,
+                isExported: member.accessibility !== 'private', // Public surface if the class is exported
+                endLine: member.loc?.end.line,
               });
             }
           });
@@ -213,6 +209,7 @@ export class CodeParserService {
             column: node.loc?.start.column || 0,
             methods,
             extends: node.superClass?.name,
+            endLine: node.loc?.end.line,
           });
         },
         ImportDeclaration: (node: any) => {
@@ -223,13 +220,26 @@ export class CodeParserService {
           });
         },
         ExportNamedDeclaration: (node: any) => {
-          if (node.declaration) {
+          const line = node.loc?.start.line || 0;
+          if (node.declaration?.type === 'VariableDeclaration') {
+            node.declaration.declarations.forEach((declarator: any) => {
+              exports.push({ name: declarator.id?.name || 'default', type: 'named', line });
+            });
+          } else if (node.declaration) {
             exports.push({
               name: node.declaration.id?.name || 'default',
               type: 'named',
-              line: node.loc?.start.line || 0,
+              line,
             });
           }
+          // export { a, b as c } / export * as ns from './x'
+          node.specifiers?.forEach((specifier: any) => {
+            exports.push({
+              name: specifier.exported?.name || specifier.exported?.value || 'default',
+              type: specifier.type === 'ExportNamespaceSpecifier' ? 'namespace' : 'named',
+              line,
+            });
+          });
         },
         ExportDefaultDeclaration: (node: any) => {
           exports.push({
@@ -240,6 +250,19 @@ export class CodeParserService {
         },
       });
 
+      // Local names behind `export { local as exported }` count as exported too
+      const exportedNames = new Set(exports.map((exp) => exp.name));
+      this.traverseAST(ast, {
+        ExportSpecifier: (node: any) => {
+          if (node.local?.name) {
+            exportedNames.add(node.local.name);
+          }
+        },
+      });
+      functions.forEach((func) => {
+        func.isExported = exportedNames.has(func.name);
+      });
+
       return {
         language,
         ast,
@@ -254,101 +277,25 @@ export class CodeParserService {
   }
 
   /**
-   * Parse Python
+   * Parse Python, Java, Go, Rust and Ruby with tree-sitter.
+   * The syntax tree is freed after extraction, so `ast` is null for these languages.
    */
-  private parsePython(content: string): ParseResult {
+  private async parseWithTreeSitter(language: TreeSitterLanguage, content: string): Promise<ParseResult> {
     try {
-      // Simplified Python parsing (would use actual Python AST parser in production)
-      const functions: FunctionInfo[] = [];
-      const classes: ClassInfo[] = [];
-      const imports: ImportInfo[] = [];
-      const exports: ExportInfo[] = [];
-
-      const lines = content.split('\n');
-      lines.forEach((line, index) => {
-        const trimmed = line.trim();
-
-        // Function detection
-        if (trimmed.startsWith('def ')) {
-          const match = trimmed.match(/def\s+(\w+)\s*\(/);
-          if (match) {
-            functions.push({
-              name: match[1],
-              line: index + 1,
-              column: 0,
-              parameters: [],
-              isAsync: trimmed.includes('async def'),
-              isExported: false,
-            });
-          }
-        }
-
-        // Class detection
-        if (trimmed.startsWith('class ')) {
-          const match = trimmed.match(/class\s+(\w+)/);
-          if (match) {
-            classes.push({
-              name: match[1],
-              line: index + 1,
-              column: 0,
-              methods: [],
-            });
-          }
-        }
-
-        // Import detection
-        if (trimmed.startsWith('import ') || trimmed.startsWith('from ')) {
-          imports.push({
-            source: trimmed,
-            specifiers: [],
-            line: index + 1,
-          });
-        }
-      });
-
+      const symbols = await withSyntaxTree(language, content, (root) => ({
+        ...EXTRACTORS[language](root),
+        hasSyntaxErrors: root.hasError,
+      }));
       return {
-        language: 'python',
-        ast: {}, // Would use actual Python AST parser (e.g., tree-sitter-python) in production
-        functions,
-        classes,
-        imports,
-        exports,
+        language,
+        ast: null,
+        ...symbols,
       };
     } catch (error) {
-      throw new Error(`Failed to parse Python: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to parse ${language}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  /**
-   * Parse Java (simplified)
-   */
-  private parseJava(_content: string): ParseResult {
-    // Simplified Java parsing
-    return {
-      language: 'java',
-      ast: {},
-      functions: [],
-      classes: [],
-      imports: [],
-      exports: [],
-    };
-  }
-
-  /**
-   * Parse Go (simplified)
-   */
-  private parseGo(_content: string): ParseResult {
-    // Simplified Go parsing
-    return {
-      language: 'go',
-      ast: {},
-      functions: [],
-      classes: [],
-      imports: [],
-      exports: [],
-    };
-  }
-
   /**
    * Traverse AST with visitor pattern
    */
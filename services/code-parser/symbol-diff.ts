@@ -0,0 +1,268 @@
+/**
+ * Symbol Diff
+ *
+ * Compares two ParseResults symbol by symbol: functions, classes, methods,
+ * exports and imports are matched by name, renames are paired by body, and
+ * every change carries the line range it covers in each version.
+ */
+
+import type { ClassInfo, ExportInfo, FunctionInfo, ImportInfo, ParseResult } from './index';
+
+export type SymbolKind = 'function' | 'class' | 'method' | 'export' | 'import';
+
+export type SymbolChangeType = 'added' | 'removed' | 'renamed' | 'signature-changed' | 'modified';
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface SymbolChange {
+  kind: SymbolKind;
+  change: SymbolChangeType;
+  name: string; // Name in the after version (before version for removals)
+  previousName?: string; // Set for renames
+  before?: LineRange;
+  after?: LineRange;
+  beforeSignature?: string;
+  afterSignature?: string;
+  isExported: boolean; // Part of the public surface in the before version (after version for additions)
+}
+
+interface SymbolEntry {
+  kind: SymbolKind;
+  name: string;
+  range: LineRange;
+  signature?: string;
+  body?: string; // Normalized source with the symbol's own name masked, used for rename pairing
+  isExported: boolean;
+}
+
+interface SourceFile {
+  result: ParseResult;
+  lines: string[];
+}
+
+/**
+ * Human-readable signature, e.g. `async load(id, options): Promise<User>`
+ */
+export function formatSignature(func: FunctionInfo): string {
+  const returnType = func.returnType ? `: ${func.returnType}` : '';
+  return `${func.isAsync ? 'async ' : ''}${func.name}(${func.parameters.join(', ')})${returnType}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function rangeOf(item: { line: number; endLine?: number }): LineRange {
+  return { start: item.line, end: item.endLine ?? item.line };
+}
+
+function bodyOf(file: SourceFile, range: LineRange, name: string): string {
+  const source = file.lines.slice(range.start - 1, range.end).join('\n');
+  const shortName = name.split('.').pop() || name;
+  return source
+    .replace(new RegExp(`\\b${escapeRegExp(shortName)}\\b`, 'g'), '<name>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function functionEntry(file: SourceFile, kind: SymbolKind, name: string, func: FunctionInfo, exported: boolean): SymbolEntry {
+  const range = rangeOf(func);
+  return {
+    kind,
+    name,
+    range,
+    signature: formatSignature(func),
+    body: bodyOf(file, range, func.name),
+    isExported: exported,
+  };
+}
+
+function classEntry(file: SourceFile, cls: ClassInfo, exportedNames: Set<string>): SymbolEntry {
+  const range = rangeOf(cls);
+  return {
+    kind: 'class',
+    name: cls.name,
+    range,
+    signature: cls.extends ? `${cls.name} extends ${cls.extends}` : cls.name,
+    body: bodyOf(file, range, cls.name),
+    isExported: exportedNames.has(cls.name),
+  };
+}
+
+function importEntry(imp: ImportInfo): SymbolEntry {
+  return {
+    kind: 'import',
+    name: imp.source,
+    range: { start: imp.line, end: imp.line },
+    signature: [...imp.specifiers].sort().join(', '),
+    isExported: false,
+  };
+}
+
+function exportEntry(exp: ExportInfo): SymbolEntry {
+  return {
+    kind: 'export',
+    name: exp.type === 'default' ? 'default' : exp.name,
+    range: { start: exp.line, end: exp.line },
+    isExported: true,
+  };
+}
+
+function byName(entries: SymbolEntry[]): Map<string, SymbolEntry> {
+  const map = new Map<string, SymbolEntry>();
+  for (const entry of entries) {
+    // First declaration wins for overloads and redeclarations
+    if (!map.has(entry.name)) {
+      map.set(entry.name, entry);
+    }
+  }
+  return map;
+}
+
+/**
+ * Match two symbol tables by name, then pair leftover removals/additions
+ * with identical bodies as renames
+ */
+function diffEntries(before: SymbolEntry[], after: SymbolEntry[], detectRenames: boolean): SymbolChange[] {
+  const beforeByName = byName(before);
+  const afterByName = byName(after);
+  const changes: SymbolChange[] = [];
+  const removed: SymbolEntry[] = [];
+  const added: SymbolEntry[] = [];
+
+  for (const [name, oldEntry] of beforeByName) {
+    const newEntry = afterByName.get(name);
+    if (!newEntry) {
+      removed.push(oldEntry);
+      continue;
+    }
+
+    const signatureChanged = oldEntry.signature !== newEntry.signature;
+    if (signatureChanged || oldEntry.body !== newEntry.body) {
+      changes.push({
+        kind: newEntry.kind,
+        change: signatureChanged && newEntry.kind !== 'import' ? 'signature-changed' : 'modified',
+        name,
+        before: oldEntry.range,
+        after: newEntry.range,
+        beforeSignature: oldEntry.signature,
+        afterSignature: newEntry.signature,
+        isExported: oldEntry.isExported,
+      });
+    }
+  }
+
+  for (const [name, newEntry] of afterByName) {
+    if (!beforeByName.has(name)) {
+      added.push(newEntry);
+    }
+  }
+
+  for (const oldEntry of removed) {
+    const renameIndex = detectRenames && oldEntry.body
+      ? added.findIndex((newEntry) => newEntry.body === oldEntry.body)
+      : -1;
+
+    if (renameIndex >= 0) {
+      const [newEntry] = added.splice(renameIndex, 1);
+      changes.push({
+        kind: newEntry.kind,
+        change: 'renamed',
+        name: newEntry.name,
+        previousName: oldEntry.name,
+        before: oldEntry.range,
+        after: newEntry.range,
+        beforeSignature: oldEntry.signature,
+        afterSignature: newEntry.signature,
+        isExported: oldEntry.isExported,
+      });
+    } else {
+      changes.push({
+        kind: oldEntry.kind,
+        change: 'removed',
+        name: oldEntry.name,
+        before: oldEntry.range,
+        beforeSignature: oldEntry.signature,
+        isExported: oldEntry.isExported,
+      });
+    }
+  }
+
+  for (const newEntry of added) {
+    changes.push({
+      kind: newEntry.kind,
+      change: 'added',
+      name: newEntry.name,
+      after: newEntry.range,
+      afterSignature: newEntry.signature,
+      isExported: newEntry.isExported,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Methods keyed as `Class.method`; classes renamed in this diff are keyed
+ * by their new name on the before side so their methods still line up
+ */
+function methodEntries(file: SourceFile, classNames: Map<string, string>, exportedNames: Set<string>): SymbolEntry[] {
+  return file.result.classes.flatMap((cls) => {
+    const owner = classNames.get(cls.name) ?? cls.name;
+    const classExported = exportedNames.has(cls.name);
+    return cls.methods.map((method) =>
+      functionEntry(file, 'method', `${owner}.${method.name}`, method, classExported && method.isExported)
+    );
+  });
+}
+
+/**
+ * Diff the symbols of two versions of a file.
+ * A null `before` (new file) reports every symbol as added.
+ */
+export function diffSymbols(
+  before: ParseResult | null,
+  beforeContent: string,
+  after: ParseResult,
+  afterContent: string
+): SymbolChange[] {
+  const empty: ParseResult = { language: after.language, ast: null, functions: [], classes: [], imports: [], exports: [] };
+  const oldFile: SourceFile = { result: before ?? empty, lines: beforeContent.split('\n') };
+  const newFile: SourceFile = { result: after, lines: afterContent.split('\n') };
+  const oldExports = new Set(oldFile.result.exports.map((exp) => exp.name));
+  const newExports = new Set(newFile.result.exports.map((exp) => exp.name));
+
+  const classChanges = diffEntries(
+    oldFile.result.classes.map((cls) => classEntry(oldFile, cls, oldExports)),
+    newFile.result.classes.map((cls) => classEntry(newFile, cls, newExports)),
+    true
+  );
+
+  // Methods are only compared for classes present in both versions
+  const renamedClasses = new Map(
+    classChanges.filter((c) => c.change === 'renamed').map((c) => [c.previousName!, c.name] as [string, string])
+  );
+  const unpaired = new Set(classChanges.filter((c) => c.change === 'added' || c.change === 'removed').map((c) => c.name));
+  const methodChanges = diffEntries(
+    methodEntries(oldFile, renamedClasses, oldExports),
+    methodEntries(newFile, new Map(), newExports),
+    true
+  ).filter((change) => !unpaired.has(change.name.split('.')[0]) && !unpaired.has(change.previousName?.split('.')[0] || ''));
+
+  const changes = [
+    ...diffEntries(
+      oldFile.result.functions.map((func) => functionEntry(oldFile, 'function', func.name, func, func.isExported || oldExports.has(func.name))),
+      newFile.result.functions.map((func) => functionEntry(newFile, 'function', func.name, func, func.isExported || newExports.has(func.name))),
+      true
+    ),
+    ...classChanges,
+    ...methodChanges,
+    ...diffEntries(oldFile.result.exports.map(exportEntry), newFile.result.exports.map(exportEntry), false),
+    ...diffEntries(oldFile.result.imports.map(importEntry), newFile.result.imports.map(importEntry), false),
+  ];
+
+  return changes.sort((a, b) => (a.after?.start ?? a.before?.start ?? 0) - (b.after?.start ?? b.before?.start ?? 0));
+}
@@ -0,0 +1,76 @@
+/**
+ * Tree-sitter Runtime
+ *
+ * Lazily initializes web-tree-sitter and loads the prebuilt WASM grammars
+ * shipped in tree-sitter-wasms. Everything is read from local disk; no
+ * network access is needed at runtime.
+ */
+
+import Parser from 'web-tree-sitter';
+import path from 'path';
+
+export type SyntaxNode = Parser.SyntaxNode;
+export type TreeSitterLanguage = 'python' | 'java' | 'go' | 'rust' | 'ruby';
+
+// tree-sitter-wasms grammars are built with tree-sitter-cli 0.20; web-tree-sitter
+// 0.22 still accepts that ABI and exports the C++ symbols Ruby's scanner needs
+const GRAMMAR_FILES: Record<TreeSitterLanguage, string> = {
+  python: 'tree-sitter-python.wasm',
+  java: 'tree-sitter-java.wasm',
+  go: 'tree-sitter-go.wasm',
+  rust: 'tree-sitter-rust.wasm',
+  ruby: 'tree-sitter-ruby.wasm',
+};
+
+let runtime: Promise<void> | null = null;
+const grammars = new Map<TreeSitterLanguage, Promise<Parser.Language>>();
+
+function grammarPath(language: TreeSitterLanguage): string {
+  const dir = process.env.TREE_SITTER_WASM_DIR ||
+    path.join(process.cwd(), 'node_modules', 'tree-sitter-wasms', 'out');
+  return path.join(dir, GRAMMAR_FILES[language]);
+}
+
+async function loadLanguage(language: TreeSitterLanguage): Promise<Parser.Language> {
+  if (!runtime) {
+    runtime = Parser.init().catch((error) => {
+      runtime = null; // Allow retry on next parse
+      throw error;
+    });
+  }
+  await runtime;
+
+  let grammar = grammars.get(language);
+  if (!grammar) {
+    grammar = Parser.Language.load(grammarPath(language)).catch((error) => {
+      grammars.delete(language);
+      throw error;
+    });
+    grammars.set(language, grammar);
+  }
+  return grammar;
+}
+
+/**
+ * Parse source and pass the root node to `extract`.
+ * Trees live in WASM memory, so they are freed as soon as extraction completes.
+ */
+export async function withSyntaxTree<T>(
+  language: TreeSitterLanguage,
+  content: string,
+  extract: (root: SyntaxNode) => T
+): Promise<T> {
+  const grammar = await loadLanguage(language);
+  const parser = new Parser();
+  try {
+    parser.setLanguage(grammar);
+    const tree = parser.parse(content);
+    try {
+      return extract(tree.rootNode);
+    } finally {
+      tree.delete();
+    }
+  } finally {
+    parser.delete();
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Unified Diff
+ *
+ * Parses `git diff` / provider patch output into per-file hunks and
+ * classifies every line of the new file as added, modified, context or
+ * unchanged (outside all hunks).
+ */
+
+export type LineChange = 'added' | 'modified' | 'context' | 'unchanged';
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'context';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  oldPath: string | null; // null for added files
+  newPath: string | null; // null for deleted files
+  hunks: DiffHunk[];
+  isBinary: boolean;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function stripPrefix(path: string): string | null {
+  const trimmed = path.trim().replace(/^"(.*)"$/, '$1').split('\t')[0];
+  if (trimmed === '/dev/null') {
+    return null;
+  }
+  return trimmed.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff covering one or more files
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  const startFile = (): FileDiff => {
+    const created: FileDiff = { oldPath: null, newPath: null, hunks: [], isBinary: false };
+    files.push(created);
+    return created;
+  };
+
+  for (const line of diff.split('\n')) {
+    // Hunk bodies are consumed by line count, so removed "-- x" lines are never headers
+    if (hunk && (remainingOld > 0 || remainingNew > 0)) {
+      if (line.startsWith('+')) {
+        hunk.lines.push({ type: 'added', content: line.slice(1), newLine: newLine++ });
+        remainingNew--;
+      } else if (line.startsWith('-')) {
+        hunk.lines.push({ type: 'removed', content: line.slice(1), oldLine: oldLine++ });
+        remainingOld--;
+      } else if (line.startsWith(' ') || line === '') {
+        hunk.lines.push({ type: 'context', content: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+        remainingOld--;
+        remainingNew--;
+      }
+      // "\ No newline at end of file" carries no line
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      file = file || startFile();
+      hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      remainingOld = hunk.oldLines;
+      remainingNew = hunk.newLines;
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      file = startFile();
+      hunk = null;
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      file.oldPath = match ? match[1] : null;
+      file.newPath = match ? match[2] : null;
+    } else if (line.startsWith('--- ')) {
+      // Plain `diff -u` output has no "diff --git" line
+      if (!file || file.hunks.length > 0) {
+        file = startFile();
+      }
+      hunk = null;
+      file.oldPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('+++ ') && file) {
+      file.newPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('new file mode') && file) {
+      file.oldPath = null;
+    } else if (line.startsWith('deleted file mode') && file) {
+      file.newPath = null;
+    } else if (line.startsWith('Binary files ') && file) {
+      file.isBinary = true;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Classify new-file lines touched by a diff. Within each run of changes,
+ * added lines paired with removed lines count as modified; the remainder
+ * are added. Lines absent from the map are unchanged.
+ */
+export function classifyLines(file: FileDiff): Map<number, LineChange> {
+  const lines = new Map<number, LineChange>();
+
+  for (const hunk of file.hunks) {
+    let removed = 0;
+    let paired = 0;
+
+    for (const line of hunk.lines) {
+      if (line.type === 'context') {
+        lines.set(line.newLine!, 'context');
+        removed = 0;
+        paired = 0;
+      } else if (line.type === 'removed') {
+        removed++;
+      } else {
+        lines.set(line.newLine!, paired < removed ? 'modified' : 'added');
+        paired++;
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Line classification per new-file path for a whole diff
+ */
+export function diffLineChanges(diff: string): Map<string, Map<number, LineChange>> {
+  const files = new Map<string, Map<number, LineChange>>();
+  for (const file of parseUnifiedDiff(diff)) {
+    if (file.newPath && !file.isBinary) {
+      files.set(file.newPath, classifyLines(file));
+    }
+  }
+  return files;
+}
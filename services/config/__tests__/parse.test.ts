@@ -0,0 +1,36 @@
+/**
+ * Config Parsing Tests
+ *
+ * The snake_case keys documented for .readylayer.yml must reach the
+ * camelCase config the services read
+ */
+
+import { configService } from '../index';
+
+describe('parseConfig', () => {
+  it('maps snake_case keys to camelCase', () => {
+    const config = configService.parseConfig([
+      'test:',
+      '  coverage:',
+      '    threshold: 85',
+      '    fail_on_below: true',
+      '  mutation:',
+      '    enabled: true',
+      '    max_mutants: 10',
+      '  excluded_paths:',
+      '    - src/generated_code/**',
+    ].join('\n'));
+
+    expect(config.test).toEqual({
+      coverage: { threshold: 85, failOnBelow: true },
+      mutation: { enabled: true, maxMutants: 10 },
+      excludedPaths: ['src/generated_code/**'],
+    });
+  });
+
+  it('keeps prompt IDs as written', () => {
+    const config = configService.parseConfig('prompts:\n  test.generate:\n    version: "2"\n');
+
+    expect(Object.keys(config.prompts!)).toEqual(['test.generate']);
+  });
+});
@@ -6,6 +6,7 @@
 
 import yaml from 'js-yaml';
 import { prisma } from '../../lib/prisma';
+import { validatePromptOverrides } from '../prompts/templates';
 
 export interface ReviewConfig {
   enabled: boolean;
@@ -31,9 +32,15 @@ export interface TestConfig {
   coverage?: {
     threshold: number; // Minimum 80
     metric?: 'lines' | 'branches' | 'functions';
+    scope?: 'total' | 'diff'; // diff: gate only the lines a PR changes
     enforceOn?: 'pr' | 'merge' | 'both';
     failOnBelow: boolean; // REQUIRED: Always true
   };
+  mutation?: {
+    enabled: boolean; // Mutation-test changed JS/TS functions against generated tests
+    threshold?: number; // Minimum mutation score (%)
+    maxMutants?: number;
+  };
   excludedPaths?: string[];
 }
 
@@ -59,10 +66,43 @@ export interface DocSyncConfig {
   excludedPaths?: string[];
 }
 
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'openai-compatible', 'stub'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+/**
+ * Organization-level LLM selection. Unset uses the deployment default.
+ * Provider endpoints and keys come from the environment, never from here.
+ */
+export interface LLMConfig {
+  provider?: LLMProviderName;
+  model?: string; // Provider's default model when unset
+  consensus?: ConsensusModel[]; // Two or more enable consensus review
+}
+
+/**
+ * One model of a consensus review; every reviewed file goes to each
+ */
+export interface ConsensusModel {
+  provider: LLMProviderName;
+  model?: string;
+}
+
+/**
+ * Organization override of a built-in prompt (see services/prompts): pin
+ * one of its versions, or replace its wording keeping its variables
+ */
+export interface PromptOverride {
+  version?: string;
+  template?: string;
+}
+
 export interface ReadyLayerConfig {
   review?: ReviewConfig;
   test?: TestConfig;
   docs?: DocSyncConfig;
+  llm?: LLMConfig; // Organization config only
+  prompts?: Record<string, PromptOverride>; // Organization config only, keyed by prompt ID
 }
 
 export interface ConfigValidationResult {
@@ -71,14 +111,32 @@ export interface ConfigValidationResult {
   warnings?: string[];
 }
 
+/**
+ * .readylayer.yml keys are snake_case (fail_on_below, max_mutants); config
+ * objects are camelCase. Keys of `prompts` are prompt IDs and kept as is.
+ */
+function camelCaseKeys(value: unknown, parentKey?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => camelCaseKeys(item));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => {
+      const name = parentKey === 'prompts' ? key : key.replace(/_([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+      return [name, camelCaseKeys(child, name)];
+    })
+  );
+}
+
 export class ConfigService {
   /**
    * Parse .readylayer.yml file
    */
   parseConfig(content: string): ReadyLayerConfig {
     try {
-      const config = yaml.load(content) as ReadyLayerConfig;
-      return config;
+      return camelCaseKeys(yaml.load(content)) as ReadyLayerConfig;
     } catch (error) {
       throw new Error(`Failed to parse config: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -112,6 +170,15 @@ export class ConfigService {
         if (config.test.coverage.failOnBelow === false) {
           errors.push('test.coverage.fail_on_below cannot be disabled. Coverage enforcement is required.');
         }
+
+        if (config.test.coverage.scope && !['total', 'diff'].includes(config.test.coverage.scope)) {
+          errors.push(`test.coverage.scope must be 'total' or 'diff'. Current: ${config.test.coverage.scope}`);
+        }
+      }
+
+      const mutationThreshold = config.test?.mutation?.threshold;
+      if (mutationThreshold !== undefined && (mutationThreshold < 0 || mutationThreshold > 100)) {
+        errors.push(`test.mutation.threshold must be between 0 and 100. Current: ${mutationThreshold}`);
       }
     }
 
@@ -126,6 +193,42 @@ export class ConfigService {
       }
     }
 
+    // Validate LLM selection
+    if (config.llm) {
+      if (config.llm.provider !== undefined && !LLM_PROVIDERS.includes(config.llm.provider)) {
+        errors.push(`llm.provider must be one of ${LLM_PROVIDERS.join(', ')}. Current: ${String(config.llm.provider)}`);
+      }
+      if (config.llm.model !== undefined && (typeof config.llm.model !== 'string' || !config.llm.model.trim())) {
+        errors.push('llm.model must be a non-empty string');
+      }
+      if (config.llm.consensus !== undefined) {
+        if (!Array.isArray(config.llm.consensus) || config.llm.consensus.length < 2) {
+          errors.push('llm.consensus must list at least two models');
+        } else {
+          config.llm.consensus.forEach((entry, index) => {
+            if (!entry || !LLM_PROVIDERS.includes(entry.provider)) {
+              errors.push(`llm.consensus[${index}].provider must be one of ${LLM_PROVIDERS.join(', ')}`);
+            } else if (config.llm?.provider && entry.provider !== config.llm.provider) {
+              // A pinned provider is the only place the organization's code may go
+              errors.push(`llm.consensus[${index}].provider must be ${config.llm.provider}, the organization's pinned provider`);
+            }
+            if (entry?.model !== undefined && (typeof entry.model !== 'string' || !entry.model.trim())) {
+              errors.push(`llm.consensus[${index}].model must be a non-empty string`);
+            }
+          });
+          const keys = config.llm.consensus.map((entry) => `${entry?.provider}:${entry?.model ?? ''}`);
+          if (new Set(keys).size !== keys.length) {
+            errors.push('llm.consensus must not list the same model twice');
+          }
+        }
+      }
+    }
+
+    // Validate prompt overrides
+    if (config.prompts !== undefined) {
+      errors.push(...validatePromptOverrides(config.prompts));
+    }
+
     return {
       valid: errors.length === 0,
       errors: errors.length > 0 ? errors : undefined,
@@ -196,9 +299,11 @@ export class ConfigService {
       coverage: {
         threshold: config.test?.coverage?.threshold || 80,
         metric: config.test?.coverage?.metric || 'lines',
+        scope: config.test?.coverage?.scope || 'total',
         enforceOn: config.test?.coverage?.enforceOn || 'pr',
         failOnBelow: true, // REQUIRED: Cannot disable
       },
+      mutation: config.test?.mutation,
       excludedPaths: config.test?.excludedPaths,
     };
 
@@ -244,8 +349,12 @@ test:
   coverage:
     threshold: 80  # Minimum 80%, cannot go below
     metric: lines
+    scope: total   # 'diff' gates only the lines a PR changes
     enforce_on: pr
     fail_on_below: true  # REQUIRED: Cannot disable
+  mutation:
+    enabled: false  # Mutation-test changed JS/TS functions once generated tests pass
+    threshold: 60
 
 docs:
   enabled: true
@@ -318,6 +427,32 @@ docs:
       },
     });
   }
+
+  /**
+   * Get organization config (org-wide defaults and LLM selection)
+   */
+  async getOrganizationConfig(organizationId: string): Promise<ReadyLayerConfig> {
+    const orgConfig = await prisma.organizationConfig.findUnique({
+      where: { organizationId },
+    });
+    return (orgConfig?.config as ReadyLayerConfig | undefined) || {};
+  }
+
+  /**
+   * Update organization config
+   */
+  async updateOrganizationConfig(organizationId: string, config: ReadyLayerConfig): Promise<void> {
+    const validation = this.validateConfig(config);
+    if (!validation.valid) {
+      throw new Error(`Invalid configuration:\n${validation.errors?.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    await prisma.organizationConfig.upsert({
+      where: { organizationId },
+      update: { config: config as any }, // Prisma Json type
+      create: { organizationId, config: config as any }, // Prisma Json type
+    });
+  }
 }
 
 export const configService = new ConfigService();
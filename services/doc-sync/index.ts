@@ -7,8 +7,11 @@
 
 import { prisma } from '../../lib/prisma';
 import { llmService, LLMRequest } from '../llm';
+import { promptRegistryService, type PromptRef } from '../prompts';
+import { usageAccountingService } from '../usage-accounting';
 import { queryEvidence, formatEvidenceForPrompt, isQueryEnabled } from '../../lib/rag';
 import { policyEngineService } from '../policy-engine';
+import { frameworkDetectionService } from '../framework-detection';
 import { createHash } from 'crypto';
 import { Issue } from '../static-analysis';
 
@@ -17,6 +20,7 @@ export interface DocGenerationRequest {
   ref: string; // Branch or commit SHA
   format: 'openapi' | 'markdown';
   config?: DocSyncConfig;
+  signal?: AbortSignal; // Cancels generation (e.g. its run was superseded)
 }
 
 export interface DocSyncConfig {
@@ -147,13 +151,24 @@ export class DocSyncService {
 
     try {
       // Detect framework if not specified
-      const framework = config.framework || (await this.detectFramework(request.repositoryId));
+      const framework = config.framework || (await this.detectFramework(request.repositoryId, request.ref));
 
       // Extract API endpoints from code
       const endpoints = await this.extractEndpoints(request.repositoryId, request.ref, framework);
 
+      // Get organization ID for prompt selection and policy evaluation
+      const repo = await prisma.repository.findUnique({
+        where: { id: request.repositoryId },
+        select: { organizationId: true },
+      });
+
+      if (!repo) {
+        throw new Error(`Repository ${request.repositoryId} not found`);
+      }
+
       let content: string;
       let spec: any;
+      let prompt: PromptRef | undefined;
 
       if (request.format === 'openapi') {
         // Generate OpenAPI spec
@@ -161,10 +176,13 @@ export class DocSyncService {
           endpoints,
           config.openapi?.version || '3.1',
           config.openapi?.enhanceWithLLM !== false,
-          request.repositoryId
+          repo.organizationId,
+          request.repositoryId,
+          request.signal
         );
         content = openapiResult.content;
         spec = openapiResult.spec;
+        prompt = openapiResult.prompt;
       } else {
         // Generate Markdown
         content = await this.generateMarkdown(endpoints, request.repositoryId);
@@ -175,16 +193,6 @@ export class DocSyncService {
 
       const completedAt = new Date();
 
-      // Get organization ID for policy evaluation
-      const repo = await prisma.repository.findUnique({
-        where: { id: request.repositoryId },
-        select: { organizationId: true },
-      });
-      
-      if (!repo) {
-        throw new Error(`Repository ${request.repositoryId} not found`);
-      }
-
       // Load effective policy
       const policy = await policyEngineService.loadEffectivePolicy(
         repo.organizationId,
@@ -194,7 +202,7 @@ export class DocSyncService {
       );
 
       // Check for drift (policy-aware)
-      const driftResult = await this.checkDrift(request.repositoryId, request.ref, config);
+      const driftResult = await this.checkDrift(request.repositoryId, request.ref, config, { signal: request.signal });
 
       // Create findings based on drift
       const findings: Issue[] = [];
@@ -259,6 +267,7 @@ export class DocSyncService {
           format: request.format,
           contentHash,
           driftDetected: driftResult.driftDetected,
+          prompt,
         },
         {
           findings,
@@ -282,6 +291,9 @@ export class DocSyncService {
         completedAt,
       };
     } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
       // Generation failures MUST block PR
       throw new Error(
         `Documentation generation failed: ${error instanceof Error ? error.message : 'Unknown error'}. ` +
@@ -307,6 +319,7 @@ export class DocSyncService {
    * @param repositoryId - Repository ID
    * @param ref - Branch or commit SHA to check
    * @param config - Optional config (uses defaults if not provided)
+   * @param options - Optional signal to cancel the check
    * @returns Drift check result with missing/extra/changed endpoints and blocking status
    * 
    * @example
@@ -326,7 +339,8 @@ export class DocSyncService {
   async checkDrift(
     repositoryId: string,
     ref: string,
-    config?: DocSyncConfig
+    config?: DocSyncConfig,
+    options: { signal?: AbortSignal } = {}
   ): Promise<DriftCheckResult> {
     const docConfig = config || this.getDefaultConfig();
 
@@ -354,8 +368,9 @@ export class DocSyncService {
     }
 
     // Extract current endpoints from code
-    const framework = docConfig.framework || (await this.detectFramework(repositoryId));
+    const framework = docConfig.framework || (await this.detectFramework(repositoryId, ref));
     const currentEndpoints = await this.extractEndpoints(repositoryId, ref, framework);
+    options.signal?.throwIfAborted();
 
     // Compare with documented endpoints
     const documentedEndpoints = this.extractEndpointsFromOpenAPI(latestDoc.spec);
@@ -520,8 +535,10 @@ export class DocSyncService {
     endpoints: any[],
     version: '3.0' | '3.1',
     enhanceWithLLM: boolean,
-    organizationId: string
-  ): Promise<{ content: string; spec: any }> {
+    organizationId: string,
+    repoId: string,
+    signal?: AbortSignal
+  ): Promise<{ content: string; spec: any; prompt?: PromptRef }> {
     let spec: any = {
       openapi: version,
       info: {
@@ -547,14 +564,13 @@ export class DocSyncService {
       };
     }
 
+    let promptRef: PromptRef | undefined;
+
     // Enhance with LLM if enabled
     if (enhanceWithLLM) {
       // Query evidence if RAG is enabled
       let evidenceSection = '';
       if (isQueryEnabled()) {
-        // Get repository ID from endpoints if available
-        const repoId = endpoints.length > 0 ? endpoints[0].file?.split('/')[0] : undefined;
-        
         try {
           const evidenceQueries = [
             `prior API docs patterns`,
@@ -590,27 +606,43 @@ export class DocSyncService {
         }
       }
 
-      const prompt = `Enhance the following OpenAPI spec with detailed descriptions, parameters, and examples.
-
-OpenAPI Spec:
-\`\`\`json
-${JSON.stringify(spec, null, 2)}
-\`\`\`
-${evidenceSection}
-
-Return the enhanced OpenAPI spec as JSON.`;
+      const template = await promptRegistryService.resolve('docs.enhance-openapi', organizationId);
+      const prompt = promptRegistryService.render(template, {
+        spec: JSON.stringify(spec, null, 2),
+        evidence: evidenceSection,
+      });
+      promptRef = prompt.ref;
 
       const llmRequest: LLMRequest = {
-        prompt,
-        model: 'gpt-4-turbo-preview',
+        prompt: prompt.text,
         organizationId,
         cache: true,
+        signal,
+        promptRef,
       };
 
       try {
         const response = await llmService.complete(llmRequest);
+        if (!response.cached) {
+          const inputTokens = Math.ceil(prompt.text.length / 4); // Estimate (~4 chars per token)
+          await usageAccountingService.recordUsage({
+            repositoryId: repoId,
+            organizationId,
+            service: 'doc_sync',
+            provider: response.provider,
+            model: response.model,
+            inputTokens,
+            outputTokens: Math.max(0, response.tokensUsed - inputTokens),
+            totalTokens: response.tokensUsed,
+            cost: response.cost,
+            metadata: { prompt: prompt.ref },
+          });
+        }
         spec = JSON.parse(response.content);
       } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
         // LLM enhancement failed, use basic spec
         // Error is handled gracefully, basic spec is used
       }
@@ -619,6 +651,7 @@ Return the enhanced OpenAPI spec as JSON.`;
     return {
       content: JSON.stringify(spec, null, 2),
       spec,
+      prompt: promptRef,
     };
   }
 
@@ -655,11 +688,11 @@ Return the enhanced OpenAPI spec as JSON.`;
   }
 
   /**
-   * Detect framework
+   * Detect API framework from the repository's manifests (Express when none is recognized)
    */
-  private async detectFramework(_repositoryId: string): Promise<string> {
-    // Would check repo config or package.json in production
-    return 'express';
+  private async detectFramework(repositoryId: string, ref: string): Promise<string> {
+    const detected = await frameworkDetectionService.detect(repositoryId, { ref });
+    return detected.apiFramework || 'express';
   }
 
   /**
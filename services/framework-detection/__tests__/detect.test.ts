@@ -0,0 +1,82 @@
+/**
+ * Framework Detection Tests
+ *
+ * Manifests decide the framework per language; existing test files decide
+ * where new tests go and how they are named
+ */
+
+import { detectFrameworks, testFilePath, testingFor, withTestConventions } from '../detect';
+
+describe('detectFrameworks', () => {
+  it('prefers a Vitest config over package.json dependencies', () => {
+    const detected = detectFrameworks({
+      'package.json': JSON.stringify({ devDependencies: { jest: '^29.0.0' } }),
+      'vitest.config.ts': 'export default {}',
+    });
+
+    expect(detected.testing.javascript!.framework).toBe('vitest');
+  });
+
+  it('reads the test script before dependencies', () => {
+    const detected = detectFrameworks({
+      'package.json': JSON.stringify({
+        scripts: { test: 'mocha "test/**/*.spec.js"' },
+        dependencies: { express: '^4.18.0' },
+        devDependencies: { jest: '^29.0.0', mocha: '^10.0.0' },
+      }),
+    });
+
+    expect(detected.testing.javascript!.framework).toBe('mocha');
+    expect(detected.apiFramework).toBe('express');
+  });
+
+  it('detects pytest, Go and JUnit alongside each other', () => {
+    const detected = detectFrameworks({
+      'pyproject.toml': '[project]\ndependencies = ["fastapi"]\n\n[tool.pytest.ini_options]\naddopts = "-q"\n',
+      'go.mod': 'module github.com/acme/api\n\nrequire github.com/gin-gonic/gin v1.9.1\n',
+      'pom.xml': '<dependency><groupId>org.junit.jupiter</groupId><artifactId>junit-jupiter</artifactId></dependency>',
+      'package.json': null,
+    });
+
+    expect(detected.testing.python!.evidence).toBe('pyproject.toml [tool.pytest]');
+    expect(detected.testing.go!.framework).toBe('go');
+    expect(detected.testing.java!.framework).toBe('junit5');
+    expect(detected.testing.javascript).toBeUndefined();
+    expect(detected.apiFramework).toBe('fastapi');
+    expect(detected.manifests).toEqual(['go.mod', 'pom.xml', 'pyproject.toml']);
+  });
+
+  it('follows existing test file conventions', () => {
+    const detected = detectFrameworks(
+      { 'package.json': '{}', 'requirements.txt': 'pytest\n' },
+      ['src/api/__tests__/users.spec.ts', 'src/api/users.ts', 'tests/test_models.py']
+    );
+
+    expect(testFilePath('src/api/orders.ts', detected.testing.javascript!.conventions)).toBe('src/api/__tests__/orders.spec.ts');
+    expect(testFilePath('app/models.py', detected.testing.python!.conventions)).toBe('tests/test_models.py');
+  });
+
+  it('keeps cached conventions when no test files are known', () => {
+    const detected = detectFrameworks({ 'package.json': '{}' }, ['src/a.spec.ts']);
+
+    expect(withTestConventions(detected, ['src/b.ts']).testing.javascript!.conventions.fileSuffix).toBe('.spec');
+  });
+});
+
+describe('testFilePath', () => {
+  it('places tests by language when nothing was detected', () => {
+    expect(testFilePath('src/auth.ts', testingFor(null, 'src/auth.ts').conventions)).toBe('src/auth.test.ts');
+    expect(testFilePath('pkg/auth/token.go', testingFor(null, 'pkg/auth/token.go').conventions)).toBe('pkg/auth/token_test.go');
+    expect(testFilePath('app/auth.py', testingFor(null, 'app/auth.py').conventions)).toBe('tests/test_auth.py');
+    expect(
+      testFilePath('src/main/java/com/acme/Auth.java', testingFor(null, 'src/main/java/com/acme/Auth.java').conventions)
+    ).toBe('src/test/java/com/acme/AuthTest.java');
+  });
+
+  it('applies configured placement over detected conventions', () => {
+    const conventions = testingFor(null, 'src/lib/auth.ts').conventions;
+
+    expect(testFilePath('src/lib/auth.ts', conventions, { placement: 'mirror' })).toBe('tests/lib/auth.test.ts');
+    expect(testFilePath('src/lib/auth.ts', conventions, { placement: 'separate', testDir: 'spec' })).toBe('spec/auth.test.ts');
+  });
+});
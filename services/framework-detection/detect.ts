@@ -0,0 +1,303 @@
+/**
+ * Framework Detection
+ *
+ * Works out a repository's test frameworks, per language, and its API
+ * framework from its manifests (package.json, pyproject.toml, go.mod,
+ * pom.xml, ...) and the test files it already has, along with where and
+ * how it names tests.
+ */
+
+import path from 'path';
+
+export type ProjectLanguage = 'javascript' | 'python' | 'go' | 'java';
+
+/**
+ * Where a language's tests live and how they are named. A test for
+ * src/auth.ts is `${filePrefix}auth${fileSuffix}.ts`.
+ */
+export interface TestConventions {
+  placement: 'co-located' | 'separate' | 'mirror';
+  testDir: string; // Root for separate and mirror placement
+  subdirectory?: string; // Co-located tests in a subdirectory, e.g. __tests__
+  sourceRoot: string; // Prefix mirror placement swaps for testDir, e.g. src or src/main/java
+  filePrefix: string;
+  fileSuffix: string;
+}
+
+export interface LanguageTesting {
+  framework: string; // jest, vitest, mocha, pytest, go, junit5, junit4, testng
+  conventions: TestConventions;
+  evidence: string; // What decided the framework, e.g. "package.json devDependencies"
+}
+
+export interface DetectedFrameworks {
+  testing: Partial<Record<ProjectLanguage, LanguageTesting>>;
+  apiFramework?: string; // express, fastify, nestjs, flask, fastapi, gin, spring, ...
+  manifests: string[]; // Manifest files found
+  ref: string; // Commit or branch the manifests were read at
+  detectedAt: string; // ISO timestamp
+}
+
+/**
+ * Repository-root files read for detection; a change to any of them
+ * invalidates a cached detection
+ */
+export const MANIFEST_FILES = [
+  'package.json',
+  'vitest.config.ts', 'vitest.config.mts', 'vitest.config.js', 'vitest.config.mjs',
+  'jest.config.ts', 'jest.config.js', 'jest.config.cjs', 'jest.config.mjs',
+  'pytest.ini', 'pyproject.toml', 'setup.cfg', 'tox.ini', 'requirements.txt', 'requirements-dev.txt',
+  'go.mod',
+  'pom.xml', 'build.gradle', 'build.gradle.kts',
+];
+
+const LANGUAGE_EXTENSIONS: Record<string, ProjectLanguage> = {
+  '.ts': 'javascript', '.tsx': 'javascript', '.mts': 'javascript', '.cts': 'javascript',
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.java': 'java', '.kt': 'java',
+};
+
+const DEFAULT_TESTING: Record<ProjectLanguage, LanguageTesting> = {
+  javascript: {
+    framework: 'jest',
+    conventions: { placement: 'co-located', testDir: 'tests', sourceRoot: 'src', filePrefix: '', fileSuffix: '.test' },
+    evidence: 'default',
+  },
+  python: {
+    framework: 'pytest',
+    conventions: { placement: 'separate', testDir: 'tests', sourceRoot: 'src', filePrefix: 'test_', fileSuffix: '' },
+    evidence: 'default',
+  },
+  go: {
+    framework: 'go',
+    conventions: { placement: 'co-located', testDir: '', sourceRoot: '', filePrefix: '', fileSuffix: '_test' },
+    evidence: 'default',
+  },
+  java: {
+    framework: 'junit5',
+    conventions: { placement: 'mirror', testDir: 'src/test/java', sourceRoot: 'src/main/java', filePrefix: '', fileSuffix: 'Test' },
+    evidence: 'default',
+  },
+};
+
+// First match wins
+const JS_API_FRAMEWORKS: Array<[string, string]> = [
+  ['@nestjs/core', 'nestjs'], ['fastify', 'fastify'], ['@hapi/hapi', 'hapi'], ['koa', 'koa'], ['express', 'express'], ['next', 'next'],
+];
+const PYTHON_API_FRAMEWORKS: Array<[RegExp, string]> = [
+  [/\bfastapi\b/i, 'fastapi'], [/\bflask\b/i, 'flask'], [/\bdjango\b/i, 'django'],
+];
+const GO_API_FRAMEWORKS: Array<[string, string]> = [
+  ['github.com/gin-gonic/gin', 'gin'], ['github.com/labstack/echo', 'echo'], ['github.com/gofiber/fiber', 'fiber'], ['github.com/go-chi/chi', 'chi'],
+];
+
+export function languageOf(filePath: string): ProjectLanguage | null {
+  return LANGUAGE_EXTENSIONS[path.posix.extname(filePath).toLowerCase()] || null;
+}
+
+function parseJson(text: string | null | undefined): Record<string, any> | null {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function detectJavaScript(files: Record<string, string | null>): LanguageTesting | null {
+  const packageJson = parseJson(files['package.json']);
+  const hasFile = (prefix: string) => Object.keys(files).some((name) => name.startsWith(prefix) && files[name] !== null);
+  if (!packageJson && !hasFile('vitest.config.') && !hasFile('jest.config.')) {
+    return null;
+  }
+
+  const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  const testScript: string = packageJson?.scripts?.test || '';
+  const defaults = DEFAULT_TESTING.javascript;
+  const pick = (framework: string, evidence: string): LanguageTesting => ({ ...defaults, framework, evidence });
+
+  if (hasFile('vitest.config.')) return pick('vitest', 'vitest.config');
+  if (hasFile('jest.config.') || packageJson?.jest) return pick('jest', hasFile('jest.config.') ? 'jest.config' : 'package.json jest');
+  for (const framework of ['vitest', 'jest', 'mocha']) {
+    if (new RegExp(`\\b${framework}\\b`).test(testScript)) return pick(framework, 'package.json scripts.test');
+  }
+  for (const framework of ['vitest', 'jest', 'mocha']) {
+    if (dependencies[framework]) return pick(framework, 'package.json dependencies');
+  }
+  return defaults;
+}
+
+function detectPython(files: Record<string, string | null>): LanguageTesting | null {
+  const manifests = ['pytest.ini', 'pyproject.toml', 'setup.cfg', 'tox.ini', 'requirements.txt', 'requirements-dev.txt'];
+  if (manifests.every((name) => files[name] == null)) {
+    return null;
+  }
+
+  const defaults = DEFAULT_TESTING.python;
+  const pick = (framework: string, evidence: string): LanguageTesting => ({ ...defaults, framework, evidence });
+  if (files['pytest.ini'] != null) return pick('pytest', 'pytest.ini');
+  if (/^\[tool\.pytest/m.test(files['pyproject.toml'] || '')) return pick('pytest', 'pyproject.toml [tool.pytest]');
+  if (/^\[tool:pytest\]/m.test(files['setup.cfg'] || '')) return pick('pytest', 'setup.cfg [tool:pytest]');
+  if (/^\[pytest\]/m.test(files['tox.ini'] || '')) return pick('pytest', 'tox.ini [pytest]');
+  for (const name of ['pyproject.toml', 'requirements-dev.txt', 'requirements.txt']) {
+    if (/^\s*["']?pytest\b/m.test(files[name] || '')) return pick('pytest', name);
+  }
+  return defaults;
+}
+
+function detectGo(files: Record<string, string | null>): LanguageTesting | null {
+  return files['go.mod'] ? { ...DEFAULT_TESTING.go, evidence: 'go.mod' } : null;
+}
+
+function detectJava(files: Record<string, string | null>): LanguageTesting | null {
+  for (const name of ['pom.xml', 'build.gradle', 'build.gradle.kts']) {
+    const manifest = files[name];
+    if (!manifest) continue;
+    const pick = (framework: string): LanguageTesting => ({ ...DEFAULT_TESTING.java, framework, evidence: name });
+    if (/junit-jupiter|org\.junit\.jupiter/.test(manifest)) return pick('junit5');
+    if (/testng/i.test(manifest)) return pick('testng');
+    if (/\bjunit\b/.test(manifest)) return pick('junit4');
+    return { ...DEFAULT_TESTING.java, evidence: name };
+  }
+  return null;
+}
+
+function detectApiFramework(files: Record<string, string | null>): string | undefined {
+  const packageJson = parseJson(files['package.json']);
+  const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  for (const [dependency, framework] of JS_API_FRAMEWORKS) {
+    if (dependencies[dependency]) return framework;
+  }
+  const pythonManifests = ['pyproject.toml', 'requirements.txt'].map((name) => files[name] || '').join('\n');
+  for (const [pattern, framework] of PYTHON_API_FRAMEWORKS) {
+    if (pattern.test(pythonManifests)) return framework;
+  }
+  for (const [module, framework] of GO_API_FRAMEWORKS) {
+    if ((files['go.mod'] || '').includes(module)) return framework;
+  }
+  if (/spring-boot-starter-web/.test(`${files['pom.xml'] || ''}${files['build.gradle'] || ''}${files['build.gradle.kts'] || ''}`)) {
+    return 'spring';
+  }
+  return undefined;
+}
+
+/**
+ * Naming and placement implied by test files the repository already has
+ */
+function conventionsFromTestFiles(language: ProjectLanguage, base: TestConventions, knownPaths: string[]): TestConventions {
+  if (language === 'javascript') {
+    const tests = knownPaths.filter((file) => /\.(test|spec)\.[cm]?[jt]sx?$/.test(file));
+    if (tests.length === 0) return base;
+    const spec = tests.filter((file) => /\.spec\./.test(file)).length > tests.length / 2;
+    const conventions = { ...base, fileSuffix: spec ? '.spec' : '.test' };
+    const inTestRoot = tests.find((file) => /^(tests?|__tests__)\//.test(file));
+    if (tests.some((file) => /(^|\/)__tests__\//.test(file) && !file.startsWith('__tests__/'))) {
+      return { ...conventions, placement: 'co-located', subdirectory: '__tests__' };
+    }
+    if (inTestRoot) {
+      return { ...conventions, placement: 'mirror', testDir: inTestRoot.split('/')[0] };
+    }
+    return conventions;
+  }
+
+  if (language === 'python') {
+    const tests = knownPaths.filter((file) => /(^|\/)(test_[^/]+|[^/]+_test)\.py$/.test(file));
+    if (tests.length === 0) return base;
+    const suffixStyle = tests.filter((file) => /_test\.py$/.test(file)).length > tests.length / 2;
+    const naming = suffixStyle ? { filePrefix: '', fileSuffix: '_test' } : { filePrefix: 'test_', fileSuffix: '' };
+    const inTestRoot = tests.find((file) => /^tests?\//.test(file));
+    return inTestRoot
+      ? { ...base, ...naming, placement: 'separate', testDir: inTestRoot.split('/')[0] }
+      : { ...base, ...naming, placement: 'co-located' };
+  }
+
+  return base;
+}
+
+/**
+ * Detect frameworks from manifest contents
+ *
+ * @param files Manifest path -> content, null when the file doesn't exist
+ * @param knownPaths Repository paths seen elsewhere (e.g. a PR's files), for test conventions
+ */
+export function detectFrameworks(
+  files: Record<string, string | null>,
+  knownPaths: string[] = [],
+  ref = 'HEAD'
+): DetectedFrameworks {
+  const detectors: Record<ProjectLanguage, (files: Record<string, string | null>) => LanguageTesting | null> = {
+    javascript: detectJavaScript,
+    python: detectPython,
+    go: detectGo,
+    java: detectJava,
+  };
+
+  const testing: DetectedFrameworks['testing'] = {};
+  for (const [language, detector] of Object.entries(detectors) as Array<[ProjectLanguage, typeof detectJavaScript]>) {
+    const detected = detector(files);
+    if (detected) {
+      testing[language] = detected;
+    }
+  }
+
+  return withTestConventions({
+    testing,
+    apiFramework: detectApiFramework(files),
+    manifests: Object.keys(files).filter((name) => files[name] !== null).sort(),
+    ref,
+    detectedAt: new Date().toISOString(),
+  }, knownPaths);
+}
+
+/**
+ * Adjust each detected language's test conventions to the test files among
+ * knownPaths; languages without any keep theirs
+ */
+export function withTestConventions(detected: DetectedFrameworks, knownPaths: string[]): DetectedFrameworks {
+  const testing: DetectedFrameworks['testing'] = {};
+  for (const [language, languageTesting] of Object.entries(detected.testing) as Array<[ProjectLanguage, LanguageTesting]>) {
+    testing[language] = {
+      ...languageTesting,
+      conventions: conventionsFromTestFiles(language, languageTesting.conventions, knownPaths),
+    };
+  }
+  return { ...detected, testing };
+}
+
+/**
+ * Test framework and conventions for a source file: the repository's for
+ * the file's language, else that language's defaults (Jest for unknown files)
+ */
+export function testingFor(detected: DetectedFrameworks | null | undefined, filePath: string): LanguageTesting {
+  const language = languageOf(filePath) || 'javascript';
+  return detected?.testing[language] || DEFAULT_TESTING[language];
+}
+
+/**
+ * Where the test for a source file goes
+ *
+ * @param overrides Placement and test directory from the repository's config
+ */
+export function testFilePath(
+  sourcePath: string,
+  conventions: TestConventions,
+  overrides: { placement?: TestConventions['placement']; testDir?: string } = {}
+): string {
+  const { dir, name, ext } = path.posix.parse(sourcePath);
+  const fileName = `${conventions.filePrefix}${name}${conventions.fileSuffix}${ext}`;
+  const testDir = overrides.testDir || conventions.testDir || 'tests';
+
+  switch (overrides.placement || conventions.placement) {
+    case 'separate':
+      return path.posix.join(testDir, fileName);
+    case 'mirror': {
+      const root = conventions.sourceRoot;
+      const relativeDir = root && (dir === root || dir.startsWith(`${root}/`)) ? dir.slice(root.length + 1) : dir;
+      return path.posix.join(testDir, relativeDir, fileName);
+    }
+    default:
+      return path.posix.join(dir, conventions.subdirectory || '', fileName);
+  }
+}
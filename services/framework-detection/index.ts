@@ -0,0 +1,119 @@
+/**
+ * Framework Detection Service
+ *
+ * Reads a repository's manifests through its git provider, detects its test
+ * and API frameworks, and caches the default branch's result on its
+ * RepositoryConfig.
+ */
+
+import { Prisma } from '@prisma/client';
+import { getGitProviderPRAdapter } from '../../integrations/git-provider-pr-adapter';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../observability/logging';
+import { getInstallationWithDecryptedToken } from '../../lib/secrets/installation-helpers';
+import { detectFrameworks, MANIFEST_FILES, withTestConventions, type DetectedFrameworks } from './detect';
+
+export * from './detect';
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface DetectionOptions {
+  ref?: string; // PR head; read when changedPaths touch a manifest or aren't given, else the default branch is
+  changedPaths?: string[]; // Detect from ref, uncached, when these touch a manifest
+  knownPaths?: string[]; // Paths for test naming conventions; defaults to changedPaths
+  force?: boolean;
+}
+
+/**
+ * Framework Detection Service
+ */
+export class FrameworkDetectionService {
+  /**
+   * Detected frameworks for a repository, from cache when it is fresh
+   *
+   * Only the default branch's frameworks are cached. A PR that changes a
+   * manifest is detected from its own head and never overwrites them.
+   *
+   * Never throws: when the manifests can't be read this detects from
+   * nothing, which yields each language's defaults, and caches nothing.
+   */
+  async detect(repositoryId: string, options: DetectionOptions = {}): Promise<DetectedFrameworks> {
+    const log = logger.child({ repositoryId, service: 'framework-detection' });
+    const knownPaths = options.knownPaths || options.changedPaths || [];
+    const manifestChanged = (options.changedPaths || []).some((file) => MANIFEST_FILES.includes(file));
+
+    try {
+      const cached = await prisma.repositoryConfig.findUnique({
+        where: { repositoryId },
+        select: { detectedFrameworks: true, frameworksDetectedAt: true },
+      });
+      if (!options.force && cached?.detectedFrameworks && cached.frameworksDetectedAt && !manifestChanged && this.isFresh(cached.frameworksDetectedAt)) {
+        return withTestConventions(cached.detectedFrameworks as unknown as DetectedFrameworks, knownPaths);
+      }
+
+      const repository = await prisma.repository.findUnique({
+        where: { id: repositoryId },
+        select: { fullName: true, provider: true, organizationId: true, defaultBranch: true },
+      });
+      if (!repository) {
+        log.warn('Repository not found');
+        return detectFrameworks({}, knownPaths);
+      }
+
+      const installationRecord = await prisma.installation.findFirst({
+        where: {
+          organizationId: repository.organizationId,
+          provider: repository.provider,
+          isActive: true,
+        },
+      });
+      const installation = installationRecord
+        ? await getInstallationWithDecryptedToken(installationRecord.id)
+        : null;
+      if (!installation || !installation.accessToken) {
+        log.warn('No usable installation; using default frameworks');
+        return detectFrameworks({}, knownPaths);
+      }
+
+      // A PR that leaves the manifests alone has the default branch's frameworks
+      const ref = options.ref && (manifestChanged || !options.changedPaths) ? options.ref : repository.defaultBranch;
+      const adapter = getGitProviderPRAdapter(repository.provider as 'github' | 'gitlab' | 'bitbucket');
+      const contents = await Promise.all(
+        MANIFEST_FILES.map((file) =>
+          // Providers throw on missing files
+          adapter.getFileContent(repository.fullName, file, ref, installation.accessToken).catch(() => null)
+        )
+      );
+      const files = Object.fromEntries(MANIFEST_FILES.map((file, index) => [file, contents[index]]));
+      const detected = detectFrameworks(files, knownPaths, ref);
+
+      if (ref === repository.defaultBranch) {
+        await prisma.repositoryConfig.upsert({
+          where: { repositoryId },
+          create: {
+            repositoryId,
+            config: {},
+            detectedFrameworks: detected as unknown as Prisma.InputJsonValue,
+            frameworksDetectedAt: new Date(detected.detectedAt),
+          },
+          update: {
+            detectedFrameworks: detected as unknown as Prisma.InputJsonValue,
+            frameworksDetectedAt: new Date(detected.detectedAt),
+          },
+        });
+      }
+
+      log.info({ ref, testing: Object.keys(detected.testing), apiFramework: detected.apiFramework }, 'Detected frameworks');
+      return detected;
+    } catch (error) {
+      log.error({ err: error }, 'Framework detection failed; using default frameworks');
+      return detectFrameworks({}, knownPaths);
+    }
+  }
+
+  private isFresh(detectedAt: Date): boolean {
+    return Date.now() - detectedAt.getTime() <= CACHE_TTL_MS;
+  }
+}
+
+export const frameworkDetectionService = new FrameworkDetectionService();
@@ -0,0 +1,27 @@
+/**
+ * LLM Cache Key Tests
+ *
+ * Re-sent prompts must hit the same entry; anything that changes the
+ * completion must not
+ */
+
+import { cacheKey } from '../cache';
+
+describe('LLM cache keys', () => {
+  const base = { provider: 'openai', model: 'gpt-4-turbo-preview', prompt: 'Review:\n\nconst a = 1;', temperature: 0.7 };
+
+  it('ignore line endings and trailing whitespace', () => {
+    expect(cacheKey({ ...base, prompt: 'Review:  \r\n\r\nconst a = 1;\n' })).toBe(cacheKey(base));
+  });
+
+  it('differ by provider, model, temperature and prompt content', () => {
+    const keys = new Set([
+      cacheKey(base),
+      cacheKey({ ...base, provider: 'anthropic' }),
+      cacheKey({ ...base, model: 'gpt-4' }),
+      cacheKey({ ...base, temperature: 0.2 }),
+      cacheKey({ ...base, prompt: 'Review:\n\nconst  a = 1;' }),
+    ]);
+    expect(keys.size).toBe(5);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Prompt Context Builder Tests
+ *
+ * Oversized files are cut down around the focus lines, never past the budget
+ */
+
+import type { ParseResult } from '../../code-parser';
+import { buildFileContext, rankEvidence } from '../context-builder';
+import type { RagResult } from '../../../lib/rag';
+
+describe('Prompt context builder', () => {
+  // 8 functions of 50 lines after one import
+  const lines = ["import { db } from './db';"];
+  const functions: ParseResult['functions'] = [];
+  for (let f = 0; f < 8; f++) {
+    functions.push({ name: `step${f}`, line: lines.length + 1, endLine: lines.length + 50, column: 0, parameters: [], isAsync: false, isExported: true });
+    lines.push(`export function step${f}() {`);
+    for (let i = 0; i < 48; i++) {
+      lines.push(`  const value${i} = db.read('step${f}', ${i});`);
+    }
+    lines.push('}');
+  }
+  const content = lines.join('\n');
+  const parseResult: ParseResult = { language: 'typescript', ast: null, functions, classes: [], imports: [{ source: './db', specifiers: ['db'], line: 1 }], exports: [] };
+
+  it('sends files that fit unchanged', () => {
+    expect(buildFileContext({ filePath: 'src/steps.ts', content, budgetTokens: 100_000 })).toEqual({
+      text: content,
+      tokens: Math.ceil(content.length / 4),
+      truncated: false,
+      shownLines: 401,
+      totalLines: 401,
+    });
+  });
+
+  it('keeps the changed symbol and imports, numbered, within budget', () => {
+    const context = buildFileContext({ filePath: 'src/steps.ts', content, parseResult, focusLines: [180], budgetTokens: 1_000 });
+    const shown = context.text.split('\n').slice(1);
+
+    expect(context.truncated).toBe(true);
+    expect(context.tokens).toBeLessThan(1_001);
+    expect(shown[0]).toBe("  1 | import { db } from './db';");
+    expect(shown[1]).toBe('    | ... lines 2-151 omitted ...');
+    expect(shown).toContain('152 | export function step3() {');
+    expect(shown).toContain('201 | }');
+    expect(shown[shown.length - 1]).toMatch(/^ {4}\| \.\.\. lines \d+-401 omitted \.\.\.$/);
+  });
+
+  it('ranks evidence by similarity without duplicates', () => {
+    const result = (id: string, similarity: number): RagResult => ({
+      id, documentId: 'doc', chunkIndex: 0, content: id, sourceType: 'repo_file', sourceRef: id, similarity, metadata: {},
+    });
+    expect(rankEvidence([result('a', 0.2), result('b', 0.9), result('a', 0.5)]).map((r) => [r.id, r.similarity])).toEqual([
+      ['b', 0.9],
+      ['a', 0.5],
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events Tests
+ *
+ * Streamed completions arrive in arbitrary network chunks; events must come
+ * out whole and in order regardless of where the chunks split
+ */
+
+import { readServerSentEvents, type ServerSentEvent } from '../streaming';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(body)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('reassembles events split across chunks', async () => {
+    const events = await collect(streamOf([
+      ': keep-alive\n\nevent: content_block_delta\r\nda',
+      'ta: {"text":"Hel"}\r\n\r\ndata: {"text":"lo"}\n',
+      '\ndata: line one\ndata: line two\n\ndata: [DONE]',
+    ]));
+
+    expect(events).toEqual([
+      { event: 'content_block_delta', data: '{"text":"Hel"}' },
+      { data: '{"text":"lo"}' },
+      { data: 'line one\nline two' },
+      { data: '[DONE]' },
+    ]);
+  });
+
+  it('stops reading when the consumer stops', async () => {
+    const body = streamOf(['data: first\n\n', 'data: second\n\n']);
+
+    for await (const event of readServerSentEvents(body)) {
+      expect(event.data).toBe('first');
+      break;
+    }
+
+    expect(body.locked).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Stub Provider Tests
+ *
+ * The offline provider must answer the same prompt the same way, without
+ * network or database access
+ */
+
+import { StubProvider } from '../index';
+
+describe('StubProvider', () => {
+  const request = { prompt: 'Review:\n\nconst a = 1;', organizationId: 'org_1' };
+
+  it('answers deterministically at no cost', async () => {
+    const provider = new StubProvider((req) => `[{"line":1,"message":"${req.prompt.length}"}]`);
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(second).toEqual(first);
+    expect(first).toEqual({
+      content: '[{"line":1,"message":"21"}]',
+      provider: 'stub',
+      model: 'stub',
+      tokensUsed: 12,
+      cost: 0,
+      cached: false,
+    });
+  });
+
+  it('reports no findings by default', async () => {
+    const response = await new StubProvider().complete({ ...request, model: 'local-test' });
+
+    expect(response.content).toBe('[]');
+    expect(response.model).toBe('local-test');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * LLM Response Cache
+ *
+ * Content-addressed completions keyed on provider, model, normalized prompt
+ * and temperature. Postgres is the durable tier; when REDIS_URL is set,
+ * Redis fronts it. Entries are isolated per organization and expire after
+ * LLM_CACHE_TTL_SECONDS (default 7 days).
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from 'redis';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../observability/logging';
+import { metrics } from '../../observability/metrics';
+
+export interface CacheKeyInput {
+  provider: string;
+  model: string;
+  prompt: string;
+  temperature: number;
+}
+
+export interface CachedCompletion {
+  content: string;
+  model: string;
+  tokensUsed: number; // Tokens the original completion cost
+  cost: number; // What the original completion cost, saved on every hit
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const REDIS_KEY_PREFIX = 'llm_cache';
+
+/**
+ * Line endings and surrounding whitespace don't change the completion
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+export function cacheKey(input: CacheKeyInput): string {
+  return createHash('sha256')
+    .update(JSON.stringify([input.provider, input.model, input.temperature, normalizePrompt(input.prompt)]), 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Entries reference their organization; a foreign key failure means the
+ * caller passed some other id, which is a bug rather than a passing outage
+ */
+function isForeignKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'P2003';
+}
+
+export class LLMCache {
+  private redis: ReturnType<typeof createClient> | null = null;
+  private redisConnecting: Promise<void> | null = null;
+  private ttlSeconds = Number(process.env.LLM_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+  /**
+   * Look up a completion; a hit is accounted as saved cost for the organization
+   */
+  async get(organizationId: string, key: string, provider: string): Promise<CachedCompletion | null> {
+    const redis = await this.getRedis();
+    const redisKey = `${REDIS_KEY_PREFIX}:${organizationId}:${key}`;
+
+    if (redis) {
+      try {
+        const hit = await redis.get(redisKey);
+        if (hit) {
+          const completion = JSON.parse(hit) as CachedCompletion;
+          await this.recordHit(organizationId, key, provider, completion, 'redis');
+          return completion;
+        }
+      } catch (error) {
+        logger.warn({ error }, 'LLM cache Redis read failed, falling back to Postgres');
+      }
+    }
+
+    const entry = await prisma.llmCacheEntry.findUnique({
+      where: { organizationId_cacheKey: { organizationId, cacheKey: key } },
+    });
+    if (!entry || entry.expiresAt <= new Date()) {
+      metrics.increment('llm.cache.miss', { provider });
+      return null;
+    }
+
+    const completion: CachedCompletion = {
+      content: entry.content,
+      model: entry.model,
+      tokensUsed: entry.tokensUsed,
+      cost: Number(entry.cost),
+    };
+    await this.writeRedis(redisKey, completion, entry.expiresAt);
+    await this.recordHit(organizationId, key, provider, completion, 'postgres');
+    return completion;
+  }
+
+  /**
+   * Store a completion in both tiers. Failures are logged, never thrown:
+   * the completion was already paid for and must still reach the caller.
+   * An organizationId that isn't an organization is logged as an error.
+   */
+  async set(organizationId: string, key: string, provider: string, completion: CachedCompletion): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.ttlSeconds * 1000);
+
+    try {
+      await prisma.llmCacheEntry.upsert({
+        where: { organizationId_cacheKey: { organizationId, cacheKey: key } },
+        update: { ...completion, provider, expiresAt, hits: 0, lastHitAt: null, createdAt: new Date() },
+        create: { organizationId, cacheKey: key, provider, ...completion, expiresAt },
+      });
+    } catch (error) {
+      if (isForeignKeyError(error)) {
+        // Caching under an unknown id would split the organization's cache
+        logger.error({ error, organizationId }, 'LLM cache entry rejected: organization does not exist');
+        return;
+      }
+      logger.warn({ error, organizationId }, 'Failed to store LLM cache entry');
+    }
+
+    await this.writeRedis(`${REDIS_KEY_PREFIX}:${organizationId}:${key}`, completion, expiresAt);
+  }
+
+  private async recordHit(
+    organizationId: string,
+    key: string,
+    provider: string,
+    completion: CachedCompletion,
+    tier: 'redis' | 'postgres'
+  ): Promise<void> {
+    metrics.increment('llm.cache.hit', { provider, tier });
+    metrics.add('llm.cache.cost_saved', completion.cost, { provider });
+    metrics.add('llm.cache.tokens_saved', completion.tokensUsed, { provider });
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    try {
+      await Promise.all([
+        prisma.llmCacheEntry.update({
+          where: { organizationId_cacheKey: { organizationId, cacheKey: key } },
+          data: { hits: { increment: 1 }, lastHitAt: new Date() },
+        }),
+        // Kept apart from `llm` spend, which usage limits and budgets sum
+        prisma.costTracking.upsert({
+          where: {
+            organizationId_date_service_provider: {
+              organizationId,
+              date: today,
+              service: 'llm-cache',
+              provider,
+            },
+          },
+          update: {
+            amount: { increment: completion.cost },
+            units: { increment: completion.tokensUsed },
+          },
+          create: {
+            organizationId,
+            date: today,
+            service: 'llm-cache',
+            provider,
+            amount: completion.cost,
+            units: completion.tokensUsed,
+            metadata: { description: 'Spend avoided by cache hits' },
+          },
+        }),
+      ]);
+    } catch (error) {
+      if (isForeignKeyError(error)) {
+        logger.error({ error, organizationId }, 'LLM cache hit not recorded: organization does not exist');
+        return;
+      }
+      logger.warn({ error, organizationId }, 'Failed to record LLM cache hit');
+    }
+  }
+
+  private async writeRedis(redisKey: string, completion: CachedCompletion, expiresAt: Date): Promise<void> {
+    const redis = await this.getRedis();
+    const ttl = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+    if (!redis || ttl <= 0) {
+      return;
+    }
+    try {
+      await redis.set(redisKey, JSON.stringify(completion), { EX: ttl });
+    } catch (error) {
+      logger.warn({ error }, 'Failed to write LLM cache entry to Redis');
+    }
+  }
+
+  /**
+   * Redis client, or null when unconfigured or unreachable (Postgres only)
+   */
+  private async getRedis(): Promise<ReturnType<typeof createClient> | null> {
+    if (!process.env.REDIS_URL) {
+      return null;
+    }
+    if (!this.redisConnecting) {
+      this.redisConnecting = (async () => {
+        try {
+          const client = createClient({ url: process.env.REDIS_URL });
+          client.on('error', (error) => {
+            logger.warn({ error }, 'LLM cache Redis error');
+          });
+          await client.connect();
+          this.redis = client;
+        } catch (error) {
+          logger.warn({ error }, 'Failed to connect LLM cache to Redis, using Postgres only');
+        }
+      })();
+    }
+    await this.redisConnecting;
+    return this.redis?.isReady ? this.redis : null;
+  }
+}
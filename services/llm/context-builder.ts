@@ -0,0 +1,209 @@
+/**
+ * Prompt Context Builder
+ *
+ * Fits a file and RAG evidence into a prompt token budget. Files that fit
+ * are sent whole; larger ones are cut down to the symbols around the focus
+ * lines (changed hunks, or what a stage cares about), then imports, then the
+ * nearest other symbols, with line numbers so findings still point at the
+ * right place.
+ */
+
+import { estimateTokenCount } from '../../lib/rag/chunking';
+import { formatEvidenceForPrompt, type RagResult } from '../../lib/rag';
+import type { ParseResult } from '../code-parser';
+
+export interface FileContextInput {
+  filePath: string;
+  content: string;
+  parseResult?: ParseResult | null; // Symbol boundaries; without it, windows around focus lines
+  focusLines?: number[]; // 1-based lines that must be shown if anything is
+  budgetTokens: number;
+}
+
+export interface FileContext {
+  text: string;
+  tokens: number;
+  truncated: boolean;
+  shownLines: number;
+  totalLines: number;
+}
+
+export interface PromptContextInput {
+  budgetTokens: number; // Whole prompt
+  reservedTokens: number; // Instructions and anything else outside the packed context
+  file: Omit<FileContextInput, 'budgetTokens'>;
+  evidence?: RagResult[];
+  evidenceShare?: number; // Most of the remaining budget evidence may take (default 0.25)
+}
+
+export interface PromptContext {
+  file: FileContext;
+  evidenceSection: string;
+}
+
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+const FOCUS_WINDOW = 10; // Lines either side of a focus line outside any symbol
+const HEADER_TOKENS = 40;
+const MARKER_TOKENS = 8;
+const MIN_FILE_TOKENS = 500;
+const DEFAULT_EVIDENCE_SHARE = 0.25;
+
+function symbolRanges(parseResult: ParseResult | null | undefined): LineRange[] {
+  if (!parseResult) {
+    return [];
+  }
+  const functions = [...parseResult.functions, ...parseResult.classes.flatMap((cls) => cls.methods)];
+  return [...functions, ...parseResult.classes].map((symbol) => ({
+    start: symbol.line,
+    end: Math.max(symbol.line, symbol.endLine ?? symbol.line),
+  }));
+}
+
+function innermost(ranges: LineRange[], line: number): LineRange | null {
+  let best: LineRange | null = null;
+  for (const range of ranges) {
+    if (range.start <= line && line <= range.end && (!best || range.end - range.start < best.end - best.start)) {
+      best = range;
+    }
+  }
+  return best;
+}
+
+/**
+ * Lines in the order they should be included: around focus lines first,
+ * then imports, then whole symbols nearest the focus, then the rest
+ */
+function prioritizeLines(totalLines: number, parseResult: ParseResult | null | undefined, focus: number[]): number[] {
+  const symbols = symbolRanges(parseResult);
+
+  // Distance to the nearest focus line (without focus, top of file first)
+  const nearest = new Float64Array(totalLines + 2).fill(Infinity);
+  for (const line of focus) {
+    nearest[line] = 0;
+  }
+  for (let line = 2; line <= totalLines; line++) {
+    nearest[line] = Math.min(nearest[line], nearest[line - 1] + 1);
+  }
+  for (let line = totalLines - 1; line >= 1; line--) {
+    nearest[line] = Math.min(nearest[line], nearest[line + 1] + 1);
+  }
+  const distance = (line: number) => (focus.length ? nearest[Math.min(Math.max(line, 1), totalLines)] : line);
+
+  const tier = new Uint8Array(totalLines + 1).fill(3);
+  const symbolDistance = new Float64Array(totalLines + 1).fill(Infinity);
+
+  for (const range of [...symbols].sort((a, b) => (b.end - b.start) - (a.end - a.start))) {
+    // Narrower symbols are visited last, so each line keeps its innermost symbol
+    for (let line = range.start; line <= Math.min(range.end, totalLines); line++) {
+      tier[line] = 2;
+      symbolDistance[line] = distance(range.start);
+    }
+  }
+
+  const lastImport = Math.max(0, ...(parseResult?.imports || []).map((imp) => imp.line));
+  for (let line = 1; line <= Math.min(lastImport, totalLines); line++) {
+    tier[line] = 1;
+  }
+
+  for (const line of focus) {
+    const range = innermost(symbols, line) ||
+      { start: Math.max(1, line - FOCUS_WINDOW), end: Math.min(totalLines, line + FOCUS_WINDOW) };
+    for (let n = range.start; n <= Math.min(range.end, totalLines); n++) {
+      tier[n] = 0;
+    }
+  }
+
+  const lines = Array.from({ length: totalLines }, (_, index) => index + 1);
+  const key = (line: number) => (tier[line] === 2 ? symbolDistance[line] : distance(line));
+  return lines.sort((a, b) => tier[a] - tier[b] || key(a) - key(b) || a - b);
+}
+
+/**
+ * The file, or as much of it as fits the budget
+ */
+export function buildFileContext(input: FileContextInput): FileContext {
+  const lines = input.content.split('\n');
+  const fullTokens = estimateTokenCount(input.content);
+  if (fullTokens <= input.budgetTokens) {
+    return { text: input.content, tokens: fullTokens, truncated: false, shownLines: lines.length, totalLines: lines.length };
+  }
+
+  const width = String(lines.length).length;
+  const render = (line: number) => `${String(line).padStart(width)} | ${lines[line - 1]}`;
+  const focus = Array.from(new Set(input.focusLines || []))
+    .filter((line) => line >= 1 && line <= lines.length)
+    .sort((a, b) => a - b);
+
+  // Greedy by priority; each run of shown lines may need an omission marker on both sides
+  const taken = new Uint8Array(lines.length + 2);
+  let tokens = HEADER_TOKENS + MARKER_TOKENS;
+  for (const line of prioritizeLines(lines.length, input.parseResult, focus)) {
+    const runDelta = taken[line - 1] && taken[line + 1] ? -1 : !taken[line - 1] && !taken[line + 1] ? 1 : 0;
+    const cost = estimateTokenCount(`${render(line)}\n`) + runDelta * MARKER_TOKENS;
+    if (tokens + cost > input.budgetTokens) {
+      break;
+    }
+    taken[line] = 1;
+    tokens += cost;
+  }
+
+  const body: string[] = [];
+  let shownLines = 0;
+  for (let line = 1; line <= lines.length; line++) {
+    if (taken[line]) {
+      body.push(render(line));
+      shownLines++;
+      continue;
+    }
+    const gapStart = line;
+    while (line < lines.length && !taken[line + 1]) {
+      line++;
+    }
+    body.push(`${' '.repeat(width)} | ... lines ${gapStart}-${line} omitted ...`);
+  }
+
+  const header = `(Excerpt: ${shownLines} of ${lines.length} lines of ${input.filePath} fit the prompt budget. ` +
+    'Lines are prefixed with their line numbers; quote code without the prefix.)';
+  const text = `${header}\n${body.join('\n')}`;
+  return { text, tokens: estimateTokenCount(text), truncated: true, shownLines, totalLines: lines.length };
+}
+
+/**
+ * Evidence deduplicated across queries, most relevant first
+ */
+export function rankEvidence(results: RagResult[]): RagResult[] {
+  const best = new Map<string, RagResult>();
+  for (const result of results) {
+    const existing = best.get(result.id);
+    if (!existing || result.similarity > existing.similarity) {
+      best.set(result.id, result);
+    }
+  }
+  return Array.from(best.values()).sort((a, b) =>
+    b.similarity - a.similarity ||
+    a.sourceRef.localeCompare(b.sourceRef) ||
+    a.chunkIndex - b.chunkIndex
+  );
+}
+
+/**
+ * Split the budget left after the reserved part between evidence (up to
+ * its share) and the file (the rest)
+ */
+export function buildPromptContext(input: PromptContextInput): PromptContext {
+  const available = Math.max(0, input.budgetTokens - input.reservedTokens);
+  const evidenceBudget = Math.floor(available * (input.evidenceShare ?? DEFAULT_EVIDENCE_SHARE));
+  const evidenceSection = input.evidence?.length && evidenceBudget > 0
+    ? formatEvidenceForPrompt(rankEvidence(input.evidence), evidenceBudget)
+    : '';
+
+  const file = buildFileContext({
+    ...input.file,
+    budgetTokens: Math.max(MIN_FILE_TOKENS, available - estimateTokenCount(evidenceSection)),
+  });
+  return { file, evidenceSection };
+}
@@ -2,25 +2,37 @@
  * LLM Service
  * 
  * Centralized LLM interaction and prompt management
- * Supports OpenAI and Anthropic APIs with caching and cost tracking
+ * Supports OpenAI, Anthropic and OpenAI-compatible (self-hosted) APIs with
+ * caching and cost tracking. Organizations can pin a provider in their config.
+ * Completions can be streamed (onToken) and cancelled (signal).
  */
 
 import { prisma } from '../../lib/prisma';
 import { usageEnforcementService } from '../../lib/usage-enforcement';
-// import { createHash } from 'crypto'; // Reserved for future caching
+import { configService, type LLMConfig } from '../config';
+import { cacheKey, LLMCache } from './cache';
+import { readServerSentEvents } from './streaming';
+import type { PromptRef } from '../prompts';
+
+export { cacheKey, normalizePrompt } from './cache';
 
 export interface LLMRequest {
   prompt: string;
+  promptRef?: PromptRef; // Registry template the prompt was rendered from, recorded with usage
+  provider?: string; // Explicit provider (e.g. a consensus model); never falls back to another
   model?: string;
   temperature?: number;
   maxTokens?: number;
   organizationId: string;
   userId?: string;
-  cache?: boolean;
+  cache?: boolean; // Default true; cached per organization, see ./cache
+  signal?: AbortSignal; // Aborts the call, e.g. when its run is cancelled; rejects with the signal's reason
+  onToken?: (text: string) => void; // Streams the completion; called with each chunk as it arrives
 }
 
 export interface LLMResponse {
   content: string;
+  provider: string; // Provider that answered, after any fallback; record usage under this
   model: string;
   tokensUsed: number;
   cost: number;
@@ -32,13 +44,33 @@ export interface LLMProvider {
   complete(request: LLMRequest): Promise<LLMResponse>;
 }
 
+// Models used when a request doesn't name one
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-4-turbo-preview',
+  anthropic: 'claude-3-opus-20240229',
+  'openai-compatible': process.env.OPENAI_COMPATIBLE_MODEL || 'llama3',
+  stub: 'stub',
+};
+const DEFAULT_TEMPERATURE = 0.7;
+const REQUEST_TIMEOUT_MS = 60000; // 60 second timeout for LLM
+
+/**
+ * The request's own signal, if any, combined with the timeout
+ */
+function requestSignal(request: LLMRequest): AbortSignal {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  return request.signal ? AbortSignal.any([request.signal, timeout]) : timeout;
+}
+
 // OpenAI Provider
 class OpenAIProvider implements LLMProvider {
   name = 'openai';
+  protected label = 'OpenAI';
+  protected baseUrl = 'https://api.openai.com/v1';
+  protected defaultModel = DEFAULT_MODELS.openai;
   private apiKey: string | null = null;
-  private baseUrl = 'https://api.openai.com/v1';
 
-  private getApiKey(): string {
+  protected getApiKey(): string {
     if (!this.apiKey) {
       this.apiKey = process.env.OPENAI_API_KEY || '';
       if (!this.apiKey) {
@@ -50,7 +82,7 @@ class OpenAIProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const apiKey = this.getApiKey();
-    const model = request.model || 'gpt-4-turbo-preview';
+    const model = request.model || this.defaultModel;
     const url = `${this.baseUrl}/chat/completions`;
 
     let response: Response;
@@ -59,22 +91,26 @@ class OpenAIProvider implements LLMProvider {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
         },
         body: JSON.stringify({
           model,
           messages: [{ role: 'user', content: request.prompt }],
-          temperature: request.temperature || 0.7,
+          temperature: request.temperature || DEFAULT_TEMPERATURE,
           max_tokens: request.maxTokens || 2000,
+          ...(request.onToken ? { stream: true, stream_options: { include_usage: true } } : {}),
         }),
-        signal: AbortSignal.timeout(60000), // 60 second timeout for LLM
+        signal: requestSignal(request),
       });
     } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
       if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
-        throw new Error('OpenAI API request timed out');
+        throw new Error(`${this.label} API request timed out`);
       }
       if (error instanceof Error && error.message.includes('fetch')) {
-        throw new Error(`OpenAI API network error: ${error.message}`);
+        throw new Error(`${this.label} API network error: ${error.message}`);
       }
       throw error;
     }
@@ -88,25 +124,15 @@ class OpenAIProvider implements LLMProvider {
       } catch {
         errorMessage = `${response.status} ${response.statusText}`;
       }
-      throw new Error(`OpenAI API error: ${errorMessage}`);
+      throw new Error(`${this.label} API error: ${errorMessage}`);
     }
 
-    let data: {
-      choices?: Array<{ message?: { content?: string } }>;
-      usage?: { total_tokens?: number; prompt_tokens?: number; completion_tokens?: number };
-    };
-    try {
-      const jsonData = await response.json() as unknown;
-      data = jsonData as typeof data;
-    } catch (error) {
-      throw new Error('Failed to parse OpenAI API response as JSON');
-    }
-
-    const content = data.choices?.[0]?.message?.content || '';
-    const tokensUsed = data.usage?.total_tokens || 0;
+    const { content, tokensUsed } = request.onToken
+      ? await this.readStream(response, request)
+      : await this.readJson(response);
 
     if (!content) {
-      throw new Error('OpenAI API returned empty response');
+      throw new Error(`${this.label} API returned empty response`);
     }
 
     // Calculate cost (approximate, varies by model)
@@ -122,6 +148,7 @@ class OpenAIProvider implements LLMProvider {
 
     return {
       content,
+      provider: this.name,
       model,
       tokensUsed,
       cost,
@@ -129,7 +156,69 @@ class OpenAIProvider implements LLMProvider {
     };
   }
 
-  private calculateCost(model: string, tokens: number): number {
+  private async readJson(response: Response): Promise<{ content: string; tokensUsed: number }> {
+    let data: {
+      choices?: Array<{ message?: { content?: string } }>;
+      usage?: { total_tokens?: number; prompt_tokens?: number; completion_tokens?: number };
+    };
+    try {
+      const jsonData = await response.json() as unknown;
+      data = jsonData as typeof data;
+    } catch (error) {
+      throw new Error(`Failed to parse ${this.label} API response as JSON`);
+    }
+
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      tokensUsed: data.usage?.total_tokens || 0,
+    };
+  }
+
+  private async readStream(response: Response, request: LLMRequest): Promise<{ content: string; tokensUsed: number }> {
+    if (!response.body) {
+      throw new Error(`${this.label} API returned empty response`);
+    }
+
+    let content = '';
+    let tokensUsed = 0;
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.data === '[DONE]') {
+          break;
+        }
+        const chunk = JSON.parse(event.data) as {
+          choices?: Array<{ delta?: { content?: string } }>;
+          usage?: { total_tokens?: number } | null;
+          error?: { message?: string };
+        };
+        if (chunk.error) {
+          throw new Error(`${this.label} API error: ${chunk.error.message || 'stream error'}`);
+        }
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) {
+          content += text;
+          request.onToken?.(text);
+        }
+        tokensUsed = chunk.usage?.total_tokens || tokensUsed;
+      }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
+      if (error instanceof SyntaxError) {
+        throw new Error(`Failed to parse ${this.label} API stream event as JSON`);
+      }
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw new Error(`${this.label} API request timed out`);
+      }
+      throw error;
+    }
+
+    // Servers that ignore stream_options send no usage; estimate (~4 chars per token)
+    return { content, tokensUsed: tokensUsed || Math.ceil((request.prompt.length + content.length) / 4) };
+  }
+
+  protected calculateCost(model: string, tokens: number): number {
     // Pricing per 1K tokens (as of 2024)
     const pricing: Record<string, { input: number; output: number }> = {
       'gpt-4-turbo-preview': { input: 0.01, output: 0.03 },
@@ -157,7 +246,7 @@ class OpenAIProvider implements LLMProvider {
           organizationId,
           date: today,
           service: 'llm',
-          provider: 'openai',
+          provider: this.name,
         },
       },
       update: {
@@ -169,7 +258,7 @@ class OpenAIProvider implements LLMProvider {
         organizationId,
         date: today,
         service: 'llm',
-        provider: 'openai',
+        provider: this.name,
         amount: cost,
         units: tokens,
         metadata: { model },
@@ -178,6 +267,47 @@ class OpenAIProvider implements LLMProvider {
   }
 }
 
+// OpenAI-compatible Provider (Ollama, LocalAI, vLLM, LM Studio, ...)
+class OpenAICompatibleProvider extends OpenAIProvider {
+  name = 'openai-compatible';
+  protected label = 'OpenAI-compatible';
+  protected baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL || '').replace(/\/+$/, '');
+  protected defaultModel = DEFAULT_MODELS['openai-compatible'];
+
+  protected getApiKey(): string {
+    // Self-hosted servers often run without auth
+    return process.env.OPENAI_COMPATIBLE_API_KEY || '';
+  }
+
+  protected calculateCost(): number {
+    // Self-hosted: tokens still count toward usage limits, spend is zero
+    return 0;
+  }
+}
+
+// Stub Provider (deterministic and offline, for tests)
+export class StubProvider implements LLMProvider {
+  name = 'stub';
+
+  constructor(
+    private respond: (request: LLMRequest) => string = () => process.env.LLM_STUB_RESPONSE || '[]'
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    request.signal?.throwIfAborted();
+    const content = this.respond(request);
+    request.onToken?.(content);
+    return {
+      content,
+      provider: this.name,
+      model: request.model || DEFAULT_MODELS.stub,
+      tokensUsed: Math.ceil((request.prompt.length + content.length) / 4),
+      cost: 0,
+      cached: false,
+    };
+  }
+}
+
 // Anthropic Provider
 class AnthropicProvider implements LLMProvider {
   name = 'anthropic';
@@ -196,7 +326,7 @@ class AnthropicProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const apiKey = this.getApiKey();
-    const model = request.model || 'claude-3-opus-20240229';
+    const model = request.model || DEFAULT_MODELS.anthropic;
     const url = `${this.baseUrl}/messages`;
 
     let response: Response;
@@ -211,12 +341,16 @@ class AnthropicProvider implements LLMProvider {
         body: JSON.stringify({
           model,
           messages: [{ role: 'user', content: request.prompt }],
-          temperature: request.temperature || 0.7,
+          temperature: request.temperature || DEFAULT_TEMPERATURE,
           max_tokens: request.maxTokens || 2000,
+          ...(request.onToken ? { stream: true } : {}),
         }),
-        signal: AbortSignal.timeout(60000), // 60 second timeout for LLM
+        signal: requestSignal(request),
       });
     } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
       if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
         throw new Error('Anthropic API request timed out');
       }
@@ -238,19 +372,9 @@ class AnthropicProvider implements LLMProvider {
       throw new Error(`Anthropic API error: ${errorMessage}`);
     }
 
-    let data: {
-      content?: Array<{ text?: string; type?: string }>;
-      usage?: { input_tokens?: number; output_tokens?: number };
-    };
-    try {
-      const jsonData = await response.json() as unknown;
-      data = jsonData as typeof data;
-    } catch (error) {
-      throw new Error('Failed to parse Anthropic API response as JSON');
-    }
-
-    const content = data.content?.[0]?.text || '';
-    const tokensUsed = (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0);
+    const { content, tokensUsed } = request.onToken
+      ? await this.readStream(response, request)
+      : await this.readJson(response);
 
     if (!content) {
       throw new Error('Anthropic API returned empty response');
@@ -269,6 +393,7 @@ class AnthropicProvider implements LLMProvider {
 
     return {
       content,
+      provider: this.name,
       model,
       tokensUsed,
       cost,
@@ -276,6 +401,72 @@ class AnthropicProvider implements LLMProvider {
     };
   }
 
+  private async readJson(response: Response): Promise<{ content: string; tokensUsed: number }> {
+    let data: {
+      content?: Array<{ text?: string; type?: string }>;
+      usage?: { input_tokens?: number; output_tokens?: number };
+    };
+    try {
+      const jsonData = await response.json() as unknown;
+      data = jsonData as typeof data;
+    } catch (error) {
+      throw new Error('Failed to parse Anthropic API response as JSON');
+    }
+
+    return {
+      content: data.content?.[0]?.text || '',
+      tokensUsed: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+    };
+  }
+
+  private async readStream(response: Response, request: LLMRequest): Promise<{ content: string; tokensUsed: number }> {
+    if (!response.body) {
+      throw new Error('Anthropic API returned empty response');
+    }
+
+    let content = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        const data = JSON.parse(event.data) as {
+          type?: string;
+          message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+          delta?: { type?: string; text?: string };
+          usage?: { output_tokens?: number };
+          error?: { message?: string };
+        };
+        if (data.type === 'error') {
+          throw new Error(`Anthropic API error: ${data.error?.message || 'stream error'}`);
+        }
+        if (data.type === 'message_start') {
+          inputTokens = data.message?.usage?.input_tokens || 0;
+          outputTokens = data.message?.usage?.output_tokens || 0;
+        } else if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta' && data.delta.text) {
+          content += data.delta.text;
+          request.onToken?.(data.delta.text);
+        } else if (data.type === 'message_delta') {
+          outputTokens = data.usage?.output_tokens || outputTokens;
+        } else if (data.type === 'message_stop') {
+          break;
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
+      if (error instanceof SyntaxError) {
+        throw new Error('Failed to parse Anthropic API stream event as JSON');
+      }
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw new Error('Anthropic API request timed out');
+      }
+      throw error;
+    }
+
+    return { content, tokensUsed: inputTokens + outputTokens };
+  }
+
   private calculateCost(model: string, tokens: number): number {
     const pricing: Record<string, { input: number; output: number }> = {
       'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
@@ -323,10 +514,56 @@ class AnthropicProvider implements LLMProvider {
   }
 }
 
+const ORG_LLM_CONFIG_TTL_MS = 60 * 1000;
+
+export interface ProviderSelection {
+  providerName: string;
+  model: string;
+  pinned: boolean; // Never falls back to another provider
+}
+
+/**
+ * Provider and model for a request. An explicit provider wins, then the
+ * organization's `llm` config, then the request's model hint and the
+ * deployment default.
+ */
+export function selectProvider(
+  request: Pick<LLMRequest, 'provider' | 'model'>,
+  orgConfig: LLMConfig,
+  defaultProvider: string
+): ProviderSelection {
+  if (request.provider) {
+    if (orgConfig.provider && request.provider !== orgConfig.provider) {
+      throw new Error(`Provider ${request.provider} not allowed: organization is pinned to ${orgConfig.provider}`);
+    }
+    return {
+      providerName: request.provider,
+      model: request.model || DEFAULT_MODELS[request.provider] || '',
+      pinned: true,
+    };
+  }
+  if (orgConfig.provider) {
+    return {
+      providerName: orgConfig.provider,
+      model: orgConfig.model || DEFAULT_MODELS[orgConfig.provider] || '',
+      pinned: true,
+    };
+  }
+
+  const providerName = request.model?.includes('claude') ? 'anthropic' : defaultProvider;
+  return {
+    providerName,
+    model: request.model || DEFAULT_MODELS[providerName] || '',
+    pinned: false,
+  };
+}
+
 // LLM Service with caching
 export class LLMService {
   private providers: Map<string, LLMProvider> = new Map();
   private defaultProvider: string;
+  private cache = new LLMCache();
+  private orgLLMConfigs = new Map<string, { config: LLMConfig; expiresAt: number }>();
 
   constructor() {
     this.defaultProvider = process.env.DEFAULT_LLM_PROVIDER || 'openai';
@@ -345,6 +582,12 @@ export class LLMService {
     if (process.env.ANTHROPIC_API_KEY) {
       this.providers.set('anthropic', new AnthropicProvider());
     }
+    if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+      this.providers.set('openai-compatible', new OpenAICompatibleProvider());
+    }
+    if (process.env.LLM_STUB_ENABLED === 'true' || this.defaultProvider === 'stub') {
+      this.providers.set('stub', new StubProvider());
+    }
 
     // During build time, skip validation
     const isBuildTime = process.env.NEXT_PHASE === 'phase-production-build' || 
@@ -356,17 +599,51 @@ export class LLMService {
     }
   }
 
+  /**
+   * Register or replace a provider (e.g. a StubProvider with a fixed responder in tests)
+   */
+  registerProvider(provider: LLMProvider): void {
+    this.initializeProviders();
+    this.providers.set(provider.name, provider);
+  }
+
+  private async resolveProvider(request: LLMRequest): Promise<ProviderSelection> {
+    const orgConfig = await this.getOrganizationLLMConfig(request.organizationId);
+    return selectProvider(request, orgConfig, this.defaultProvider);
+  }
+
+  private async getOrganizationLLMConfig(organizationId: string): Promise<LLMConfig> {
+    const entry = this.orgLLMConfigs.get(organizationId);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.config;
+    }
+    const config = (await configService.getOrganizationConfig(organizationId)).llm || {};
+    this.orgLLMConfigs.set(organizationId, { config, expiresAt: Date.now() + ORG_LLM_CONFIG_TTL_MS });
+    return config;
+  }
+
   /**
    * Complete a prompt with caching support
    */
   async complete(request: LLMRequest): Promise<LLMResponse> {
     // Initialize providers lazily
     this.initializeProviders();
+    request.signal?.throwIfAborted();
+
+    // Get provider
+    const { providerName, model, pinned } = await this.resolveProvider(request);
 
-    // Check cache if enabled
+    // Check cache if enabled (hits cost nothing, so they skip usage limits)
+    const key = cacheKey({
+      provider: providerName,
+      model,
+      prompt: request.prompt,
+      temperature: request.temperature || DEFAULT_TEMPERATURE,
+    });
     if (request.cache !== false) {
-      const cached = await this.getCachedResponse(request);
+      const cached = await this.getCachedResponse(request, key, providerName);
       if (cached) {
+        request.onToken?.(cached.content);
         return cached;
       }
     }
@@ -386,25 +663,25 @@ export class LLMService {
       throw error;
     }
 
-    // Get provider
-    const providerName = request.model?.includes('claude') ? 'anthropic' : this.defaultProvider;
     const provider = this.providers.get(providerName);
     if (!provider) {
       throw new Error(`Provider ${providerName} not available`);
     }
 
     try {
-      const response = await provider.complete(request);
+      const response = await provider.complete({ ...request, model: model || undefined });
 
       // Cache response if enabled
       if (request.cache !== false) {
-        await this.cacheResponse(request, response);
+        await this.cacheResponse(request, key, providerName, response);
       }
 
       return response;
     } catch (error) {
-      // If primary provider fails, try fallback
-      if (providerName !== this.defaultProvider && this.providers.has(this.defaultProvider)) {
+      // If primary provider fails, try fallback. Never for a pinned provider:
+      // an air-gapped organization's code must not reach another provider,
+      // and never for a cancelled request.
+      if (!pinned && !request.signal?.aborted && providerName !== this.defaultProvider && this.providers.has(this.defaultProvider)) {
         const fallbackProvider = this.providers.get(this.defaultProvider)!;
         return fallbackProvider.complete(request);
       }
@@ -415,20 +692,44 @@ export class LLMService {
   // Removed checkBudget - now handled by usageEnforcementService
 
   /**
-   * Get cached response
-   * TODO: Implement Redis caching
+   * Get cached response. Cache failures degrade to a miss.
    */
-  private async getCachedResponse(_request: LLMRequest): Promise<LLMResponse | null> {
-    // Caching not yet implemented
-    return null;
+  private async getCachedResponse(request: LLMRequest, key: string, providerName: string): Promise<LLMResponse | null> {
+    try {
+      const cached = await this.cache.get(request.organizationId, key, providerName);
+      if (!cached) {
+        return null;
+      }
+      // Nothing was spent on this call; the original spend is in cost tracking
+      return {
+        content: cached.content,
+        provider: providerName,
+        model: cached.model,
+        tokensUsed: 0,
+        cost: 0,
+        cached: true,
+      };
+    } catch (error) {
+      console.error('LLM cache lookup failed:', error);
+      return null;
+    }
   }
 
   /**
    * Cache response
-   * TODO: Implement Redis caching
    */
-  private async cacheResponse(_request: LLMRequest, _response: LLMResponse): Promise<void> {
-    // Caching not yet implemented
+  private async cacheResponse(
+    request: LLMRequest,
+    key: string,
+    providerName: string,
+    response: LLMResponse
+  ): Promise<void> {
+    await this.cache.set(request.organizationId, key, providerName, {
+      content: response.content,
+      model: response.model,
+      tokensUsed: response.tokensUsed,
+      cost: response.cost,
+    });
   }
 }
 
@@ -0,0 +1,77 @@
+/**
+ * Server-Sent Events
+ *
+ * Minimal reader for the `text/event-stream` bodies OpenAI-style and
+ * Anthropic APIs return when a completion is streamed.
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Events in a stream body, in order. Multi-line data fields are joined with
+ * newlines; comments and events without data are skipped.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+  let finished = false;
+
+  const dispatch = (): ServerSentEvent | null => {
+    const result = data.length > 0 ? { event, data: data.join('\n') } : null;
+    event = undefined;
+    data = [];
+    return result;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          const dispatched = dispatch();
+          if (dispatched) {
+            yield dispatched;
+          }
+          continue;
+        }
+        if (line.startsWith(':')) {
+          continue;
+        }
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') {
+          event = value;
+        } else if (field === 'data') {
+          data.push(value);
+        }
+      }
+
+      if (done) {
+        finished = true;
+        const dispatched = dispatch();
+        if (dispatched) {
+          yield dispatched;
+        }
+        return;
+      }
+    }
+  } finally {
+    // Stopped early (e.g. at a [DONE] marker): close the connection
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
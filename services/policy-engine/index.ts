@@ -7,7 +7,9 @@
 
 import { prisma } from '../../lib/prisma';
 import { createHash } from 'crypto';
-import { Issue } from '../static-analysis';
+import { Issue, CustomRuleDefinition, parseCustomRules, staticAnalysisService } from '../static-analysis';
+import { logger } from '../../observability/logging';
+import { baselineService, BaselineSnapshot } from '../baseline';
 
 export interface PolicyPack {
   id: string;
@@ -31,22 +33,52 @@ export interface EffectivePolicy {
   pack: PolicyPack;
   rules: Map<string, PolicyRule>;
   waivers: Waiver[];
+  baseline: BaselineSnapshot | null; // Default-branch findings treated as legacy debt
+  customRules: CustomRuleDefinition[]; // Declarative detections from the pack source
 }
 
 export interface Waiver {
   id: string;
   ruleId: string;
-  scope: 'repo' | 'branch' | 'path';
+  scope: 'repo' | 'branch' | 'path' | 'fingerprint';
   scopeValue?: string;
   expiresAt?: Date;
 }
 
+/**
+ * How findings on unchanged or context lines of a PR diff are treated.
+ * Set via `params.preExisting` on a rule (or the '*' rule) as a single action
+ * or per severity, e.g. { "critical": "block", "high": "warn" }.
+ */
+export type PreExistingAction = 'block' | 'warn' | 'hide';
+
+export interface FindingBreakdown {
+  new: number; // On added/modified lines, or with no diff position
+  baseline: number; // Pre-existing, still reported
+  hidden: number; // Pre-existing, hidden by policy
+}
+
+export interface BaselineComparison {
+  baselineId: string;
+  commitSha: string | null;
+  new: number; // Not in the baseline
+  existing: number; // Matched a baseline fingerprint
+  fixed: number; // Baseline occurrences in reviewed files that no longer appear
+}
+
+export interface EvaluateOptions {
+  reviewedFiles?: string[]; // Files fully analyzed; required to count fixed baseline findings
+}
+
 export interface EvaluationResult {
   blocked: boolean;
   score: number; // 0-100 deterministic score
   rulesFired: string[];
   waivedFindings: Issue[];
   nonWaivedFindings: Issue[];
+  hiddenFindings: Issue[]; // Pre-existing findings hidden by policy
+  breakdown: FindingBreakdown;
+  baselineComparison?: BaselineComparison; // Set when the repository has a baseline
   blockingReason?: string;
 }
 
@@ -152,9 +184,11 @@ export class PolicyEngineService {
     // Use repo policy if available, otherwise org policy
     const activePack = repoPolicyPack || orgPolicyPack;
 
+    const baseline = repositoryId ? await baselineService.load(repositoryId) : null;
+
     if (!activePack) {
       // Return safe defaults if no policy configured (respects tier enforcement strength)
-      return await this.getDefaultPolicy(organizationId, repositoryId);
+      return { ...(await this.getDefaultPolicy(organizationId, repositoryId)), baseline };
     }
 
     // Load active waivers
@@ -172,23 +206,46 @@ export class PolicyEngineService {
       pack: activePack,
       rules: rulesMap,
       waivers,
+      baseline,
+      customRules: this.loadCustomRules(activePack),
     };
   }
 
+  /**
+   * Per-rule params for `AnalyzeOptions.ruleParams`, so built-in rules run
+   * with the thresholds and allowlists the pack configures
+   */
+  getRuleParams(policy: EffectivePolicy): Record<string, Record<string, unknown>> {
+    const params: Record<string, Record<string, unknown>> = {};
+    for (const [ruleId, rule] of policy.rules) {
+      if (rule.params) {
+        params[ruleId] = rule.params;
+      }
+    }
+    return params;
+  }
+
   /**
    * Evaluate findings against policy
    * Deterministic: same inputs + same policy = same result
    */
-  evaluate(findings: Issue[], policy: EffectivePolicy): EvaluationResult {
+  evaluate(findings: Issue[], policy: EffectivePolicy, options: EvaluateOptions = {}): EvaluationResult {
     const waivedFindings: Issue[] = [];
     const nonWaivedFindings: Issue[] = [];
+    const hiddenFindings: Issue[] = [];
     const rulesFired = new Set<string>();
+    const baselineComparison = policy.baseline
+      ? this.compareWithBaseline(findings, policy.baseline, options.reviewedFiles)
+      : undefined;
+    const classified = baselineComparison ? baselineComparison.findings : findings;
 
-    // Apply waivers
-    for (const finding of findings) {
+    // Apply waivers, then hide pre-existing findings the policy doesn't want reported
+    for (const finding of classified) {
       const waiver = this.findApplicableWaiver(finding, policy.waivers);
       if (waiver) {
         waivedFindings.push(finding);
+      } else if (this.isPreExisting(finding) && this.getPreExistingAction(finding, policy) === 'hide') {
+        hiddenFindings.push(finding);
       } else {
         nonWaivedFindings.push(finding);
         rulesFired.add(finding.ruleId);
@@ -201,11 +258,18 @@ export class PolicyEngineService {
     let totalScore = 100; // Start at 100, deduct for issues
 
     for (const finding of nonWaivedFindings) {
+      // Pre-existing findings only block (and cost score) when the policy says so
+      if (this.isPreExisting(finding) && this.getPreExistingAction(finding, policy) !== 'block') {
+        continue;
+      }
+
       // Try to find specific rule for this ruleId, fallback to wildcard rule
       const rule = policy.rules.get(finding.ruleId) || policy.rules.get('*');
-      const action = rule
+      const mapped = rule
         ? rule.severityMapping[finding.severity] || 'block'
         : this.getDefaultActionSync(finding.severity);
+      // A finding only one consensus model reported is a warning at most
+      const action = mapped === 'block' && this.isUnconfirmed(finding) ? 'warn' : mapped;
 
       if (action === 'block') {
         blocked = true;
@@ -227,12 +291,21 @@ export class PolicyEngineService {
     // Ensure score is in valid range
     const score = Math.max(0, Math.min(100, totalScore));
 
+    const baseline = nonWaivedFindings.filter((finding) => this.isPreExisting(finding)).length;
+
     return {
       blocked,
       score,
       rulesFired: Array.from(rulesFired),
       waivedFindings,
       nonWaivedFindings,
+      hiddenFindings,
+      breakdown: {
+        new: nonWaivedFindings.length - baseline,
+        baseline,
+        hidden: hiddenFindings.length,
+      },
+      baselineComparison: baselineComparison?.comparison,
       blockingReason,
     };
   }
@@ -359,6 +432,31 @@ export class PolicyEngineService {
     };
   }
 
+  /**
+   * Custom rule definitions from the pack source. Packs are validated when
+   * authored; definitions that no longer validate are skipped, not fatal.
+   */
+  private loadCustomRules(pack: PolicyPack): CustomRuleDefinition[] {
+    let document: unknown;
+    try {
+      document = JSON.parse(pack.source);
+    } catch {
+      return [];
+    }
+    if (typeof document !== 'object' || document === null) {
+      return [];
+    }
+
+    const { rules, errors } = parseCustomRules(
+      (document as { customRules?: unknown }).customRules,
+      staticAnalysisService.getRules().map((rule) => rule.id)
+    );
+    if (errors.length > 0) {
+      logger.warn({ policyPackId: pack.id, errors }, 'Skipping invalid custom rules in policy pack');
+    }
+    return rules;
+  }
+
   /**
    * Load active waivers
    */
@@ -382,7 +480,7 @@ export class PolicyEngineService {
     return waivers.map((w) => ({
       id: w.id,
       ruleId: w.ruleId,
-      scope: w.scope as 'repo' | 'branch' | 'path',
+      scope: w.scope as 'repo' | 'branch' | 'path' | 'fingerprint',
       scopeValue: w.scopeValue || undefined,
       expiresAt: w.expiresAt || undefined,
     }));
@@ -408,6 +506,13 @@ export class PolicyEngineService {
         return waiver;
       }
 
+      if (waiver.scope === 'fingerprint' && waiver.scopeValue) {
+        // Follows one finding wherever it moves in the file
+        if (finding.fingerprint === waiver.scopeValue) {
+          return waiver;
+        }
+      }
+
       if (waiver.scope === 'path' && waiver.scopeValue) {
         // Simple pattern matching
         const pattern = new RegExp(waiver.scopeValue.replace(/\*/g, '.*'));
@@ -420,6 +525,90 @@ export class PolicyEngineService {
     return null;
   }
 
+  /**
+   * Mark findings whose fingerprint is in the baseline as existing. Each
+   * baseline entry absorbs at most its recorded number of occurrences, so a
+   * PR that duplicates a legacy pattern still surfaces the copy as new.
+   */
+  private compareWithBaseline(
+    findings: Issue[],
+    baseline: BaselineSnapshot,
+    reviewedFiles?: string[]
+  ): { findings: Issue[]; comparison: BaselineComparison } {
+    const remaining = new Map<string, number>();
+    for (const [fingerprint, entry] of baseline.entries) {
+      remaining.set(fingerprint, entry.occurrences);
+    }
+
+    const classified = findings.map((finding): Issue => {
+      const left = finding.fingerprint ? remaining.get(finding.fingerprint) ?? 0 : 0;
+      if (left > 0) {
+        remaining.set(finding.fingerprint!, left - 1);
+        return { ...finding, baselineStatus: 'existing' };
+      }
+      return { ...finding, baselineStatus: 'new' };
+    });
+
+    // Only files that were analyzed in full can prove a baseline finding is gone
+    const reviewed = new Set(reviewedFiles || []);
+    let fixed = 0;
+    for (const [fingerprint, count] of remaining) {
+      if (reviewed.has(baseline.entries.get(fingerprint)!.filePath)) {
+        fixed += count;
+      }
+    }
+
+    const existing = classified.filter((finding) => finding.baselineStatus === 'existing').length;
+
+    return {
+      findings: classified,
+      comparison: {
+        baselineId: baseline.id,
+        commitSha: baseline.commitSha,
+        new: classified.length - existing,
+        existing,
+        fixed,
+      },
+    };
+  }
+
+  /**
+   * Finding sits on a line the PR did not add or modify, or is recorded in the baseline
+   */
+  private isPreExisting(finding: Issue): boolean {
+    return finding.baselineStatus === 'existing' || finding.lineChange === 'context' || finding.lineChange === 'unchanged';
+  }
+
+  /**
+   * AI finding from a consensus review that no second model reported
+   */
+  private isUnconfirmed(finding: Issue): boolean {
+    return !!finding.consensus && finding.consensus.models.length < 2;
+  }
+
+  /**
+   * Resolve the pre-existing action from the finding's rule, then the '*' rule.
+   * Baseline findings read `params.baseline` and default to warnings; other
+   * pre-existing findings read `params.preExisting` and keep critical findings blocking.
+   */
+  private getPreExistingAction(finding: Issue, policy: EffectivePolicy): PreExistingAction {
+    const valid = new Set<PreExistingAction>(['block', 'warn', 'hide']);
+    const inBaseline = finding.baselineStatus === 'existing';
+
+    for (const rule of [policy.rules.get(finding.ruleId), policy.rules.get('*')]) {
+      const setting = inBaseline ? rule?.params?.baseline : rule?.params?.preExisting;
+      const action = typeof setting === 'object' && setting !== null ? setting[finding.severity] : setting;
+      if (valid.has(action)) {
+        return action;
+      }
+    }
+
+    if (inBaseline) {
+      return 'warn';
+    }
+    return finding.severity === 'critical' ? 'block' : 'warn';
+  }
+
   /**
    * Get default action for severity (synchronous version for evaluate method)
    * Note: This uses conservative defaults. Tier-specific enforcement is handled
@@ -510,6 +699,8 @@ export class PolicyEngineService {
       },
       rules: rulesMap,
       waivers: [],
+      baseline: null,
+      customRules: [],
     };
   }
 
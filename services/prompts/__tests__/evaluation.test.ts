@@ -0,0 +1,78 @@
+/**
+ * Prompt Template and Evaluation Tests
+ *
+ * Rendering must not expand placeholders inside values, organization
+ * overrides must keep the variables a prompt needs, and the replayed
+ * corpus must show the precision gain that motivated review.analyze v2
+ */
+
+import { PROMPT_TEMPLATES, customTemplate, renderPrompt, validatePromptOverrides } from '../templates';
+import { evaluateReviewPrompts, replayCompletion } from '../evaluation';
+import { reviewCorpus } from '../../../content/prompt-eval/reviewCorpus';
+
+const reviewTemplate = (version: string) =>
+  PROMPT_TEMPLATES.find((template) => template.id === 'review.analyze' && template.version === version)!;
+
+describe('renderPrompt', () => {
+  it('fills variables in one pass and reports the template version', () => {
+    const rendered = renderPrompt(reviewTemplate('v1'), {
+      filePath: 'src/a.ts',
+      code: 'const s = "{{evidence}}";',
+      evidence: '',
+      outputFormat: 'JSON',
+    });
+
+    expect(rendered.text).toContain('const s = "{{evidence}}";');
+    expect(rendered.ref).toEqual({ id: 'review.analyze', version: 'v1' });
+  });
+
+  it('rejects missing variables', () => {
+    expect(() => renderPrompt(reviewTemplate('v1'), { code: 'x' })).toThrow('missing variables');
+  });
+});
+
+describe('validatePromptOverrides', () => {
+  it('accepts a known version or wording that keeps required variables', () => {
+    expect(validatePromptOverrides({
+      'review.analyze': { version: 'v2' },
+      'test.generate': { template: 'Tests for {{code}}' },
+    })).toEqual([]);
+  });
+
+  it('rejects unknown prompts, versions and variables', () => {
+    const errors = validatePromptOverrides({
+      'review.unknown': { version: 'v1' },
+      'review.analyze': { version: 'v9' },
+      'docs.enhance-openapi': { template: 'Improve {{spec}} for {{audience}}' },
+      'test.generate': { template: 'Write tests' },
+    });
+
+    expect(errors.length).toBe(4);
+    expect(errors[2]).toContain('unknown variables: audience');
+    expect(errors[3]).toContain('must include {{code}}');
+  });
+
+  it('names custom wording by its text', () => {
+    const first = customTemplate(reviewTemplate('v1'), 'Review {{code}} {{outputFormat}}');
+    const second = customTemplate(reviewTemplate('v1'), 'Check {{code}} {{outputFormat}}');
+
+    expect(first.version).toMatch(/^custom-[0-9a-f]{8}$/);
+    expect(second.version).not.toBe(first.version);
+  });
+});
+
+describe('evaluateReviewPrompts', () => {
+  it('replays recorded output and scores v2 as more precise at equal recall', async () => {
+    const evaluation = await evaluateReviewPrompts({
+      baseline: reviewTemplate('v1'),
+      candidate: reviewTemplate('v2'),
+      corpus: reviewCorpus,
+      complete: replayCompletion(),
+    });
+
+    expect(evaluation.baseline.falsePositives).toBe(4);
+    expect(evaluation.candidate.falsePositives).toBe(0);
+    expect(evaluation.recallDelta).toBe(0);
+    expect(evaluation.precisionDelta).toBeGreaterThan(0.05);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Review Prompt Evaluation
+ *
+ * Replays a labeled corpus of changed files against two versions of the
+ * review prompt and compares finding precision and recall. Model output
+ * goes through the same parsing and grounding as a real review. Offline,
+ * a stub provider replays the output recorded for each version.
+ */
+
+import { StubProvider } from '../llm';
+import { AI_FINDINGS_INSTRUCTIONS, groundAIFindings, parseAIFindings, salvageAIFindings } from '../review-guard/ai-findings';
+import { renderPrompt, type PromptRef, type PromptTemplate } from './templates';
+
+export interface PromptEvalCase {
+  id: string;
+  filePath: string;
+  content: string; // The file as changed
+  expected: Array<{ ruleId: string; line: number }>; // Issues a correct review reports
+  recorded?: Record<string, string>; // Prompt version -> model output, replayed offline
+}
+
+export interface PromptCaseScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  invalidOutput: boolean; // Nothing in the output matched the findings schema
+}
+
+export interface PromptVariantScore extends Omit<PromptCaseScore, 'invalidOutput'> {
+  ref: PromptRef;
+  precision: number; // 1 when nothing was reported
+  recall: number; // 1 when nothing was expected
+  invalidOutputs: number;
+}
+
+export interface PromptEvaluation {
+  baseline: PromptVariantScore;
+  candidate: PromptVariantScore;
+  precisionDelta: number; // Candidate minus baseline
+  recallDelta: number;
+  cases: Array<{ caseId: string; baseline: PromptCaseScore; candidate: PromptCaseScore }>;
+}
+
+/**
+ * Model output for one rendered prompt
+ */
+export type EvalCompletion = (prompt: string, ref: PromptRef, evalCase: PromptEvalCase) => Promise<string>;
+
+const DEFAULT_LINE_TOLERANCE = 2;
+
+/**
+ * Offline completion: the output recorded for the prompt's version, through
+ * a stub provider; no recording means no findings
+ */
+export function replayCompletion(): EvalCompletion {
+  return async (prompt, ref, evalCase) => {
+    const stub = new StubProvider(() => evalCase.recorded?.[ref.version] ?? '[]');
+    return (await stub.complete({ prompt, organizationId: 'prompt-eval' })).content;
+  };
+}
+
+/**
+ * Match reported issues to expected ones by rule and nearby line, each
+ * expected issue at most once
+ */
+function scoreCase(
+  evalCase: PromptEvalCase,
+  output: string,
+  lineTolerance: number
+): PromptCaseScore {
+  const parsed = parseAIFindings(output);
+  const findings = parsed.success ? parsed.findings : salvageAIFindings(output);
+  const { issues } = groundAIFindings(evalCase.filePath, evalCase.content, findings);
+
+  const unmatched = [...evalCase.expected];
+  let truePositives = 0;
+  for (const issue of issues) {
+    const index = unmatched.findIndex((expected) =>
+      expected.ruleId === issue.ruleId && Math.abs(expected.line - issue.line) <= lineTolerance
+    );
+    if (index !== -1) {
+      unmatched.splice(index, 1);
+      truePositives++;
+    }
+  }
+
+  return {
+    truePositives,
+    falsePositives: issues.length - truePositives,
+    falseNegatives: unmatched.length,
+    invalidOutput: !parsed.success && findings.length === 0 && output.trim() !== '[]',
+  };
+}
+
+function summarize(ref: PromptRef, scores: PromptCaseScore[]): PromptVariantScore {
+  const sum = (pick: (score: PromptCaseScore) => number) => scores.reduce((total, score) => total + pick(score), 0);
+  const truePositives = sum((score) => score.truePositives);
+  const falsePositives = sum((score) => score.falsePositives);
+  const falseNegatives = sum((score) => score.falseNegatives);
+  return {
+    ref,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives),
+    recall: truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives),
+    invalidOutputs: scores.filter((score) => score.invalidOutput).length,
+  };
+}
+
+/**
+ * Compare two review prompt templates on a corpus
+ */
+export async function evaluateReviewPrompts(input: {
+  baseline: PromptTemplate;
+  candidate: PromptTemplate;
+  corpus: PromptEvalCase[];
+  complete: EvalCompletion;
+  lineTolerance?: number;
+}): Promise<PromptEvaluation> {
+  const lineTolerance = input.lineTolerance ?? DEFAULT_LINE_TOLERANCE;
+  const run = async (template: PromptTemplate, evalCase: PromptEvalCase) => {
+    const { text, ref } = renderPrompt(template, {
+      filePath: evalCase.filePath,
+      code: evalCase.content,
+      evidence: '',
+      outputFormat: AI_FINDINGS_INSTRUCTIONS,
+    });
+    return scoreCase(evalCase, await input.complete(text, ref, evalCase), lineTolerance);
+  };
+
+  const cases: PromptEvaluation['cases'] = [];
+  for (const evalCase of input.corpus) {
+    cases.push({
+      caseId: evalCase.id,
+      baseline: await run(input.baseline, evalCase),
+      candidate: await run(input.candidate, evalCase),
+    });
+  }
+
+  const baseline = summarize({ id: input.baseline.id, version: input.baseline.version }, cases.map((entry) => entry.baseline));
+  const candidate = summarize({ id: input.candidate.id, version: input.candidate.version }, cases.map((entry) => entry.candidate));
+  return {
+    baseline,
+    candidate,
+    precisionDelta: candidate.precision - baseline.precision,
+    recallDelta: candidate.recall - baseline.recall,
+    cases,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Prompt Registry Service
+ *
+ * Named, versioned prompt templates (./templates) with per-organization
+ * overrides from the organization config. Every rendered prompt carries a
+ * PromptRef, which LLM callers record with token usage and evidence.
+ */
+
+import { prisma } from '../../lib/prisma';
+import { configService, type PromptOverride } from '../config';
+import {
+  PROMPT_TEMPLATES,
+  DEFAULT_PROMPT_VERSIONS,
+  customTemplate,
+  renderPrompt,
+  templatePlaceholders,
+  type PromptTemplate,
+  type RenderedPrompt,
+} from './templates';
+import type { PromptEvaluation } from './evaluation';
+
+export type { PromptTemplate, PromptRef, RenderedPrompt } from './templates';
+export { renderPrompt } from './templates';
+
+const ORG_OVERRIDES_TTL_MS = 60 * 1000;
+
+// An evaluation suggests the candidate when it is this much more precise...
+const MIN_PRECISION_GAIN = 0.05;
+// ...without losing more than this much recall
+const MAX_RECALL_LOSS = 0.05;
+
+export class PromptRegistryService {
+  private templates = new Map<string, PromptTemplate>();
+  private orgOverrides = new Map<string, { overrides: Record<string, PromptOverride>; expiresAt: number }>();
+
+  constructor(templates: PromptTemplate[] = PROMPT_TEMPLATES) {
+    for (const template of templates) {
+      this.register(template);
+    }
+  }
+
+  /**
+   * Add a template version (e.g. a candidate under evaluation). Released
+   * versions are immutable: registering different text under one fails.
+   */
+  register(template: PromptTemplate): void {
+    const key = `${template.id}@${template.version}`;
+    const existing = this.templates.get(key);
+    if (existing && existing.template !== template.template) {
+      throw new Error(`Prompt ${key} is already registered with different text; use a new version`);
+    }
+    const undeclared = templatePlaceholders(template.template).filter((name) => !template.variables.includes(name));
+    if (undeclared.length > 0) {
+      throw new Error(`Prompt ${key} uses undeclared variables: ${undeclared.join(', ')}`);
+    }
+    this.templates.set(key, template);
+  }
+
+  /**
+   * A template version; the default version when none is given
+   */
+  get(id: string, version?: string): PromptTemplate {
+    const resolvedVersion = version || DEFAULT_PROMPT_VERSIONS[id];
+    const template = resolvedVersion ? this.templates.get(`${id}@${resolvedVersion}`) : undefined;
+    if (!template) {
+      throw new Error(`Unknown prompt ${id}${version ? `@${version}` : ''}`);
+    }
+    return template;
+  }
+
+  versions(id: string): string[] {
+    return Array.from(this.templates.values())
+      .filter((template) => template.id === id)
+      .map((template) => template.version);
+  }
+
+  /**
+   * The template an organization's calls use: its override (a pinned
+   * version or its own wording), else the default version
+   */
+  async resolve(id: string, organizationId?: string): Promise<PromptTemplate> {
+    const override = organizationId ? (await this.getOrganizationOverrides(organizationId))[id] : undefined;
+    if (override?.template) {
+      return customTemplate(this.get(id), override.template);
+    }
+    return this.get(id, override?.version);
+  }
+
+  render(template: PromptTemplate, variables: Record<string, string>): RenderedPrompt {
+    return renderPrompt(template, variables);
+  }
+
+  /**
+   * Turn an evaluation the candidate clearly won into an optimization
+   * suggestion for the organization
+   *
+   * @returns The suggestion's ID, or null when the candidate didn't win
+   */
+  async recordEvaluation(organizationId: string, evaluation: PromptEvaluation): Promise<string | null> {
+    if (evaluation.precisionDelta < MIN_PRECISION_GAIN || evaluation.recallDelta < -MAX_RECALL_LOSS) {
+      return null;
+    }
+
+    const { baseline, candidate } = evaluation;
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const suggestion = await prisma.aIOptimizationSuggestion.create({
+      data: {
+        organizationId,
+        type: 'system_prompt',
+        difficulty: 'easy',
+        title: `Use ${candidate.ref.id} prompt ${candidate.ref.version}`,
+        description:
+          `On ${evaluation.cases.length} evaluation cases, ${candidate.ref.version} reached ${percent(candidate.precision)} ` +
+          `finding precision against ${percent(baseline.precision)} for ${baseline.ref.version} ` +
+          `(recall ${percent(candidate.recall)} vs ${percent(baseline.recall)}).`,
+        impact: evaluation.precisionDelta >= 0.15 ? 'high' : 'medium',
+        effort: 'low',
+        stack: [],
+        llmAccess: [],
+        codeExample: JSON.stringify({ prompts: { [candidate.ref.id]: { version: candidate.ref.version } } }, null, 2),
+        steps: [
+          `Review the ${candidate.ref.version} wording of ${candidate.ref.id}`,
+          `Set prompts.${candidate.ref.id}.version to "${candidate.ref.version}" in the organization config`,
+          'Watch false positive rates on the next reviews',
+        ],
+      },
+    });
+    return suggestion.id;
+  }
+
+  private async getOrganizationOverrides(organizationId: string): Promise<Record<string, PromptOverride>> {
+    const entry = this.orgOverrides.get(organizationId);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.overrides;
+    }
+    const overrides = (await configService.getOrganizationConfig(organizationId)).prompts || {};
+    this.orgOverrides.set(organizationId, { overrides, expiresAt: Date.now() + ORG_OVERRIDES_TTL_MS });
+    return overrides;
+  }
+}
+
+export const promptRegistryService = new PromptRegistryService();
@@ -0,0 +1,198 @@
+/**
+ * Prompt Templates
+ *
+ * Built-in LLM prompts, versioned. Variables are written `{{name}}`; a new
+ * wording is a new version, never an edit of a released one, so token usage
+ * and evidence bundles that cite a version keep meaning what they said.
+ */
+
+import { createHash } from 'crypto';
+import type { PromptOverride } from '../config';
+
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  description: string;
+  variables: string[]; // Every variable the template may use
+  required: string[]; // Variables an organization's own wording must keep
+  template: string;
+}
+
+/**
+ * Which template produced a prompt; recorded with its token usage and
+ * evidence
+ */
+export interface PromptRef {
+  id: string;
+  version: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  ref: PromptRef;
+}
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'review.analyze',
+    version: 'v1',
+    description: 'AI review of one file',
+    variables: ['filePath', 'code', 'evidence', 'outputFormat'],
+    required: ['code', 'outputFormat'],
+    template: `Analyze the following code for security vulnerabilities, quality issues, and potential bugs.
+
+File: {{filePath}}
+
+\`\`\`
+{{code}}
+\`\`\`
+{{evidence}}
+
+{{outputFormat}}`,
+  },
+  {
+    id: 'review.analyze',
+    version: 'v2',
+    description: 'AI review of one file, asking only for issues visible in the code shown',
+    variables: ['filePath', 'code', 'evidence', 'outputFormat'],
+    required: ['code', 'outputFormat'],
+    template: `Review the following code for security vulnerabilities and bugs that would cause incorrect behavior at runtime.
+
+File: {{filePath}}
+
+\`\`\`
+{{code}}
+\`\`\`
+{{evidence}}
+
+Report only issues you can point to in the code above. Skip style preferences, speculative problems and anything that depends on code you cannot see. When unsure, leave the issue out.
+
+{{outputFormat}}`,
+  },
+  {
+    id: 'test.generate',
+    version: 'v1',
+    description: 'Test generation for one file',
+    variables: ['framework', 'filePath', 'code', 'functions', 'evidence'],
+    required: ['code'],
+    template: `Generate comprehensive tests for the following code using {{framework}}.
+
+File: {{filePath}}
+
+Code:
+\`\`\`
+{{code}}
+\`\`\`
+
+Functions to test:
+{{functions}}
+{{evidence}}
+
+Requirements:
+1. Cover all functions and edge cases
+2. Include error cases
+3. Match existing test style if present
+4. Use {{framework}} syntax and best practices
+
+Return only the test code, no explanations.`,
+  },
+  {
+    id: 'docs.enhance-openapi',
+    version: 'v1',
+    description: 'Descriptions, parameters and examples for a generated OpenAPI spec',
+    variables: ['spec', 'evidence'],
+    required: ['spec'],
+    template: `Enhance the following OpenAPI spec with detailed descriptions, parameters, and examples.
+
+OpenAPI Spec:
+\`\`\`json
+{{spec}}
+\`\`\`
+{{evidence}}
+
+Return the enhanced OpenAPI spec as JSON.`,
+  },
+];
+
+// Version used when an organization doesn't choose one; moves only after an evaluation
+export const DEFAULT_PROMPT_VERSIONS: Record<string, string> = {
+  'review.analyze': 'v1',
+  'test.generate': 'v1',
+  'docs.enhance-openapi': 'v1',
+};
+
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), (match) => match[1])));
+}
+
+/**
+ * Fill in a template's variables in one pass, so values (e.g. code that
+ * itself contains `{{...}}`) are never expanded
+ */
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string>): RenderedPrompt {
+  const missing = template.variables.filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Prompt ${template.id}@${template.version} is missing variables: ${missing.join(', ')}`);
+  }
+  return {
+    text: template.template.replace(PLACEHOLDER, (_match, name: string) => variables[name] ?? ''),
+    ref: { id: template.id, version: template.version },
+  };
+}
+
+/**
+ * An organization's own wording of a built-in prompt; its version names
+ * the text, so a changed override is a new version
+ */
+export function customTemplate(base: PromptTemplate, template: string): PromptTemplate {
+  const digest = createHash('sha256').update(template, 'utf8').digest('hex').slice(0, 8);
+  return { ...base, version: `custom-${digest}`, description: `${base.description} (organization override)`, template };
+}
+
+/**
+ * Problems with a config's `prompts` section, for config validation
+ */
+export function validatePromptOverrides(overrides: Record<string, PromptOverride>): string[] {
+  const errors: string[] = [];
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return ['prompts must be an object keyed by prompt ID'];
+  }
+
+  for (const [id, override] of Object.entries(overrides)) {
+    const versions = PROMPT_TEMPLATES.filter((template) => template.id === id);
+    if (versions.length === 0) {
+      errors.push(`prompts.${id} is not a known prompt. Known: ${Object.keys(DEFAULT_PROMPT_VERSIONS).join(', ')}`);
+      continue;
+    }
+    if (!override || typeof override !== 'object') {
+      errors.push(`prompts.${id} must be an object with a version or a template`);
+      continue;
+    }
+    if ((override.version === undefined) === (override.template === undefined)) {
+      errors.push(`prompts.${id} must set exactly one of version or template`);
+      continue;
+    }
+    if (override.version !== undefined && !versions.some((template) => template.version === override.version)) {
+      errors.push(`prompts.${id}.version must be one of ${versions.map((template) => template.version).join(', ')}`);
+    }
+    if (override.template !== undefined) {
+      if (typeof override.template !== 'string' || !override.template.trim()) {
+        errors.push(`prompts.${id}.template must be a non-empty string`);
+        continue;
+      }
+      const base = versions[0];
+      const used = templatePlaceholders(override.template);
+      const unknown = used.filter((name) => !base.variables.includes(name));
+      const dropped = base.required.filter((name) => !used.includes(name));
+      if (unknown.length > 0) {
+        errors.push(`prompts.${id}.template uses unknown variables: ${unknown.join(', ')}. Available: ${base.variables.join(', ')}`);
+      }
+      if (dropped.length > 0) {
+        errors.push(`prompts.${id}.template must include ${dropped.map((name) => `{{${name}}}`).join(', ')}`);
+      }
+    }
+  }
+  return errors;
+}
@@ -31,6 +31,8 @@ export interface StageStatusUpdate {
         high: number;
         medium: number;
         low: number;
+        new?: number;
+        baseline?: number;
       };
     };
     testEngine?: {
@@ -49,6 +51,24 @@ export interface StageStatusUpdate {
   };
 }
 
+function isPreExisting(issue: Issue): boolean {
+  return issue.lineChange === 'context' || issue.lineChange === 'unchanged';
+}
+
+/**
+ * Annotation details: suggested fix and, for data-flow findings, the source -> sink trace
+ */
+function formatIssueDetails(issue: Issue): string | undefined {
+  const sections: string[] = [];
+  if (issue.fix) {
+    sections.push(`Suggested fix: ${issue.fix}`);
+  }
+  if (issue.trace && issue.trace.length > 0) {
+    sections.push(['Data flow:', ...issue.trace.map((step) => `  line ${step.line}: ${step.message}`)].join('\n'));
+  }
+  return sections.length > 0 ? sections.join('\n\n') : undefined;
+}
+
 /**
  * Convert issues to check-run annotations (max 50 for GitHub)
  */
@@ -79,8 +99,8 @@ function issuesToAnnotations(issues: Issue[]): CheckRunAnnotation[] {
       end_column: issue.column,
       annotation_level: annotationLevel,
       message: issue.message,
-      title: `${issue.ruleId}: ${issue.severity}`,
-      raw_details: issue.fix ? `Suggested fix: ${issue.fix}` : undefined,
+      title: `${issue.ruleId}: ${issue.severity}${isPreExisting(issue) ? ' (pre-existing)' : ''}`,
+      raw_details: formatIssueDetails(issue),
     });
   }
 
@@ -97,10 +117,11 @@ function generateSummary(stage: string, details?: StageStatusUpdate['details']):
 
   if (stage === 'review_guard' && details.reviewGuard) {
     const { issuesFound, isBlocked, summary } = details.reviewGuard;
+    const scope = summary.baseline ? `; ${summary.new ?? 0} new, ${summary.baseline} pre-existing` : '';
     if (isBlocked) {
-      return `Policy check failed: ${issuesFound} issue(s) found (${summary.critical} critical, ${summary.high} high)`;
+      return `Policy check failed: ${issuesFound} issue(s) found (${summary.critical} critical, ${summary.high} high${scope})`;
     }
-    return `Policy check passed: ${issuesFound} issue(s) found`;
+    return `Policy check passed: ${issuesFound} issue(s) found${scope ? ` (${scope.slice(2)})` : ''}`;
   }
 
   if (stage === 'test_engine' && details.testEngine) {
@@ -0,0 +1,52 @@
+/**
+ * AI Findings Contract Tests
+ *
+ * Malformed output is reported for repair; findings must quote code that
+ * exists and are anchored where the quote is
+ */
+
+import { groundAIFindings, parseAIFindings, salvageAIFindings, type AIFinding } from '../ai-findings';
+
+describe('AI findings contract', () => {
+  const finding: AIFinding = {
+    ruleId: 'security.sql-injection',
+    severity: 'high',
+    line: 3,
+    evidence: 'db.query(`SELECT * FROM users WHERE id = ${id}`)',
+    message: 'SQL built from user input',
+    confidence: 0.9,
+  };
+
+  it('parses fenced output and reports schema violations by path', () => {
+    expect(parseAIFindings(`Here you go:\n\`\`\`json\n${JSON.stringify([finding])}\n\`\`\``)).toEqual({
+      success: true,
+      findings: [finding],
+    });
+
+    const invalid = parseAIFindings(JSON.stringify([{ ...finding, severity: 'urgent', evidence: ' ' }]));
+    expect(invalid.success).toBe(false);
+    expect(invalid.success ? [] : invalid.errors.map((error) => error.split(':')[0])).toEqual(['0.severity', '0.evidence']);
+
+    expect(salvageAIFindings(JSON.stringify([finding, { ...finding, line: 0 }]))).toEqual([finding]);
+  });
+
+  it('re-anchors findings to their quote and rejects ungrounded ones', () => {
+    const content = [
+      'export async function load(id: string) {',
+      '',
+      '  const rows = await db.query(`SELECT * FROM users WHERE id = ${id}`);',
+      '  return rows;',
+      '}',
+    ].join('\n');
+
+    const { issues, rejected } = groundAIFindings('src/load.ts', content, [
+      finding,
+      { ...finding, line: 2 },
+      { ...finding, line: 40 },
+      { ...finding, evidence: 'eval(id)' },
+    ]);
+
+    expect(issues.map((issue) => [issue.file, issue.line])).toEqual([['src/load.ts', 3], ['src/load.ts', 3]]);
+    expect(rejected.map((entry) => entry.reason)).toEqual(['line_out_of_range', 'evidence_not_found']);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Consensus Merge Tests
+ *
+ * Agreement raises confidence; a finding only one model reported is capped
+ * and marked so the policy engine won't let it block
+ */
+
+import type { Issue } from '../../static-analysis';
+import { mergeConsensusFindings } from '../consensus';
+
+describe('Consensus merge', () => {
+  const issue = (fingerprint: string, overrides: Partial<Issue> = {}): Issue => ({
+    ruleId: 'security.sql-injection',
+    severity: 'high',
+    file: 'src/db.ts',
+    line: 3,
+    message: 'SQL built from user input',
+    confidence: 0.8,
+    fingerprint,
+    ...overrides,
+  });
+
+  it('merges by fingerprint and counts agreement per model and category', () => {
+    const { issues, agreement } = mergeConsensusFindings([
+      { modelId: 'gpt-4o', issues: [issue('a'), issue('b', { ruleId: 'quality.naming', confidence: 0.9 })] },
+      { modelId: 'llama3', issues: [issue('a', { severity: 'critical', confidence: 0.5 })] },
+    ], (modelId) => (modelId === 'gpt-4o' ? 0.6 : 0.3));
+
+    expect(issues.map(({ fingerprint, severity, confidence, consensus }) => ({ fingerprint, severity, confidence, consensus }))).toEqual([
+      { fingerprint: 'a', severity: 'critical', confidence: 0.9, consensus: { models: ['gpt-4o', 'llama3'], total: 2 } },
+      { fingerprint: 'b', severity: 'high', confidence: 0.6, consensus: { models: ['gpt-4o'], total: 2 } },
+    ]);
+    expect(Object.fromEntries(agreement)).toEqual({
+      'gpt-4o': { security: { agreed: 1, total: 1 }, quality: { agreed: 0, total: 1 } },
+      llama3: { security: { agreed: 1, total: 1 } },
+    });
+  });
+});
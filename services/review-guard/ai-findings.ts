@@ -0,0 +1,178 @@
+/**
+ * AI Findings Contract
+ *
+ * Schema the model's review output must satisfy, repair prompts for output
+ * that doesn't, and grounding of each finding in the reviewed file: a
+ * finding must quote code that exists, and is anchored where the quote is.
+ */
+
+import { z } from 'zod';
+import type { Issue } from '../static-analysis';
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const textEditSchema = z.object({
+  startLine: z.number().int().min(1),
+  startColumn: z.number().int().min(0),
+  endLine: z.number().int().min(1),
+  endColumn: z.number().int().min(0),
+  text: z.string(),
+});
+
+export const aiFindingSchema = z.object({
+  ruleId: z.string().min(1),
+  severity: z.enum(['critical', 'high', 'medium', 'low']),
+  line: z.number().int().min(1),
+  evidence: z.string().refine((value) => value.trim().length > 0, 'evidence must quote the offending code'),
+  message: z.string().min(1),
+  fix: z.string().optional(),
+  edits: z.array(textEditSchema).optional(),
+  confidence: z.number().min(0).max(1),
+});
+
+export const aiFindingsSchema = z.array(aiFindingSchema);
+
+export type AIFinding = z.infer<typeof aiFindingSchema>;
+
+export type AIFindingsParseResult =
+  | { success: true; findings: AIFinding[] }
+  | { success: false; errors: string[] };
+
+/**
+ * Output contract appended to review prompts
+ */
+export const AI_FINDINGS_INSTRUCTIONS = `Return ONLY a JSON array (no prose, no markdown) of issues found, each with:
+- ruleId: string, dotted lowercase (e.g., "security.sql-injection")
+- severity: "critical" | "high" | "medium" | "low"
+- line: number (1-based line of the offending code)
+- evidence: string (exact quote of the offending code from that line, copied verbatim)
+- message: string
+- fix: string (actionable fix instruction)
+- edits: optional array of exact text edits implementing the fix, each {"startLine": number (1-based), "startColumn": number (0-based), "endLine": number, "endColumn": number (exclusive), "text": string (replacement)}; omit when unsure
+- confidence: number (0-1)
+
+Return [] when there are no issues.
+
+Format: [{"ruleId": "...", "severity": "...", "line": 1, "evidence": "...", "message": "...", "fix": "...", "edits": [{"startLine": 1, "startColumn": 0, "endLine": 1, "endColumn": 5, "text": "..."}], "confidence": 0.9}]`;
+
+/**
+ * The JSON array in a completion, tolerating markdown fences and prose
+ * around it
+ */
+function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : content).trim();
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+export function parseAIFindings(content: string): AIFindingsParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(content));
+  } catch (error) {
+    return { success: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+  }
+
+  const result = aiFindingsSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`),
+    };
+  }
+  return { success: true, findings: result.data };
+}
+
+/**
+ * Findings that individually satisfy the schema, for when repair attempts
+ * are exhausted and only some entries are malformed
+ */
+export function salvageAIFindings(content: string): AIFinding[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(content));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  return data.flatMap((entry) => {
+    const result = aiFindingSchema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  });
+}
+
+/**
+ * Follow-up prompt asking the model to fix its own output
+ */
+export function buildRepairPrompt(prompt: string, previousResponse: string, errors: string[]): string {
+  return `${prompt}
+
+Your previous response did not match the required format:
+
+${previousResponse}
+
+Problems:
+${errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}
+
+Respond again with only the corrected JSON array.`;
+}
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Line (1-based) where the quote starts, choosing the occurrence nearest
+ * to `line`; null when the file doesn't contain it
+ */
+function locateEvidence(lines: string[], evidence: string, line: number): number | null {
+  const quote = normalizeWhitespace(evidence);
+  const span = evidence.trim().split('\n').length;
+  let best: number | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const window = normalizeWhitespace(lines.slice(index, index + span).join('\n'));
+    if (!window.includes(quote)) {
+      continue;
+    }
+    if (best === null || Math.abs(index + 1 - line) < Math.abs(best - line)) {
+      best = index + 1;
+    }
+  }
+  return best;
+}
+
+export interface GroundedFindings {
+  issues: Issue[];
+  rejected: Array<{ finding: AIFinding; reason: 'line_out_of_range' | 'evidence_not_found' }>;
+}
+
+/**
+ * Keep findings whose evidence quote exists in the file, anchored to the
+ * quote's line. Models misnumber lines; they rarely invent code they quote
+ * verbatim, so the quote is trusted over the cited line.
+ */
+export function groundAIFindings(filePath: string, content: string, findings: AIFinding[]): GroundedFindings {
+  const lines = content.split('\n');
+  const issues: Issue[] = [];
+  const rejected: GroundedFindings['rejected'] = [];
+
+  for (const finding of findings) {
+    if (finding.line > lines.length) {
+      rejected.push({ finding, reason: 'line_out_of_range' });
+      continue;
+    }
+    const line = locateEvidence(lines, finding.evidence, finding.line);
+    if (line === null) {
+      rejected.push({ finding, reason: 'evidence_not_found' });
+      continue;
+    }
+
+    const { evidence: _evidence, ...issue } = finding;
+    issues.push({ ...issue, file: filePath, line });
+  }
+
+  return { issues, rejected };
+}
@@ -0,0 +1,81 @@
+/**
+ * Consensus Review
+ *
+ * Merges the findings several models reported for the same file. Findings
+ * match by fingerprint; agreement raises confidence, and a finding only one
+ * model reported is capped at what that model has earned for the rule
+ * category (the policy engine also keeps it from blocking).
+ */
+
+import type { Issue } from '../static-analysis';
+import type { ModelAgreement } from '../self-learning';
+
+export interface ConsensusRun {
+  modelId: string;
+  issues: Issue[]; // Fingerprinted
+}
+
+export interface ConsensusResult {
+  issues: Issue[];
+  agreement: Map<string, Record<string, ModelAgreement>>; // modelId -> rule category -> counts
+}
+
+const SEVERITY_RANK: Record<Issue['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const MAX_CONFIDENCE = 0.99;
+
+export function ruleCategory(ruleId: string): string {
+  return ruleId.split('.')[0];
+}
+
+/**
+ * @param singleModelCap Highest confidence a finding reported by only this
+ *   model may keep, e.g. its learned trust for the rule category
+ */
+export function mergeConsensusFindings(
+  runs: ConsensusRun[],
+  singleModelCap: (modelId: string, category: string) => number
+): ConsensusResult {
+  const groups = new Map<string, Array<{ modelId: string; issue: Issue }>>();
+  for (const run of runs) {
+    for (const issue of run.issues) {
+      const key = issue.fingerprint || `${issue.ruleId}:${issue.line}`;
+      const group = groups.get(key) || [];
+      if (!group.some((entry) => entry.modelId === run.modelId)) {
+        group.push({ modelId: run.modelId, issue });
+        groups.set(key, group);
+      }
+    }
+  }
+
+  const agreement = new Map<string, Record<string, ModelAgreement>>(runs.map((run) => [run.modelId, {}]));
+  const issues: Issue[] = [];
+
+  for (const group of groups.values()) {
+    const agreed = group.length > 1;
+    for (const { modelId, issue } of group) {
+      const counts = agreement.get(modelId)!;
+      const category = ruleCategory(issue.ruleId);
+      counts[category] = counts[category] || { agreed: 0, total: 0 };
+      counts[category].total++;
+      if (agreed) {
+        counts[category].agreed++;
+      }
+    }
+
+    // Most severe report wins; ties go to the earlier model
+    const base = group.reduce((best, entry) =>
+      SEVERITY_RANK[entry.issue.severity] > SEVERITY_RANK[best.issue.severity] ? entry : best
+    );
+    const confidence = agreed
+      ? Math.min(MAX_CONFIDENCE, 1 - group.reduce((doubt, { issue }) => doubt * (1 - issue.confidence), 1))
+      : Math.min(base.issue.confidence, singleModelCap(base.modelId, ruleCategory(base.issue.ruleId)));
+
+    issues.push({
+      ...base.issue,
+      confidence,
+      consensus: { models: group.map((entry) => entry.modelId), total: runs.length },
+    });
+  }
+
+  return { issues, agreement };
+}
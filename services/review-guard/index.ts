@@ -8,15 +8,36 @@
 import { prisma } from '../../lib/prisma';
 import { llmService, LLMRequest, LLMResponse } from '../llm';
 import { staticAnalysisService, Issue } from '../static-analysis';
+import { codeParserService, diffLineChanges, type LineChange } from '../code-parser';
 import { schemaReconciliationService } from '../schema-reconciliation';
-import { queryEvidence, formatEvidenceForPrompt, isQueryEnabled } from '../../lib/rag';
-import { policyEngineService } from '../policy-engine';
+import { queryEvidence, isQueryEnabled, type RagResult } from '../../lib/rag';
+import { estimateTokenCount } from '../../lib/rag/chunking';
+import { budgetService } from '../budget';
+import { buildPromptContext, type FileContext } from '../llm/context-builder';
+import { policyEngineService, BaselineComparison } from '../policy-engine';
+import { assignFingerprints, buildPatch, createUnifiedDiff } from '../static-analysis';
 import { createHash } from 'crypto';
 import { UsageLimitExceededError } from '../../lib/usage-enforcement';
 // import { aiAnomalyDetectionService } from '../ai-anomaly-detection'; // Reserved for future use
 import { selfLearningService } from '../self-learning';
 import { predictiveDetectionService } from '../predictive-detection';
 import { failureIntelligenceService } from '../failure-intelligence';
+import { metrics } from '../../observability/metrics';
+import { configService, type ConsensusModel } from '../config';
+import { promptRegistryService, type PromptRef, type PromptTemplate, type RenderedPrompt } from '../prompts';
+import { mergeConsensusFindings, ruleCategory, type ConsensusRun } from './consensus';
+import {
+  AI_FINDINGS_INSTRUCTIONS,
+  MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  groundAIFindings,
+  parseAIFindings,
+  salvageAIFindings,
+  type AIFinding,
+} from './ai-findings';
+
+// Bump when analysis output changes, so findings from older reviews aren't reused
+const ANALYSIS_VERSION = 1;
 
 export interface ReviewRequest {
   repositoryId: string;
@@ -26,6 +47,31 @@ export interface ReviewRequest {
   diff?: string;
   files: Array<{ path: string; content: string; beforeContent?: string | null }>;
   config?: ReviewConfig;
+  externalFindings?: ExternalFindings;
+  signal?: AbortSignal; // Cancels the review (e.g. its run was superseded); nothing is persisted
+}
+
+/**
+ * Results from third-party analyzers (see sarifService.fromSarif)
+ */
+export interface ExternalFindings {
+  issues: Issue[];
+  tools: Record<string, string>; // Tool name -> version
+}
+
+/**
+ * Per-file findings of one review, reused by the next review of the same
+ * PR when the file's input hash is unchanged
+ */
+interface FileAnalysis {
+  hash: string; // See hashFileInput
+  issues: Issue[]; // Static and AI findings, before diff positioning
+}
+
+export interface PackedFile {
+  path: string;
+  shownLines: number;
+  totalLines: number;
 }
 
 export interface ReviewConfig {
@@ -48,7 +94,17 @@ export interface ReviewResult {
     high: number;
     medium: number;
     low: number;
+    new: number; // On lines added or modified by the PR
+    baseline: number; // Pre-existing, reported but non-blocking per policy
+    hidden: number; // Pre-existing, hidden per policy
+  };
+  baselineComparison?: BaselineComparison; // Present when the repository has a baseline
+  autofixPatch?: string; // Unified diff applying every validated fix; '' when there are none
+  incremental?: {
+    previousReviewId: string; // Earlier review of the PR whose per-file findings were reusable
+    reusedFiles: string[]; // Unchanged files whose findings were carried over instead of re-analyzed
   };
+  packedFiles?: PackedFile[]; // Files too large for the review prompt budget, sent as excerpts
   isBlocked: boolean;
   blockedReason?: string;
   startedAt: Date;
@@ -132,39 +188,88 @@ export class ReviewGuardService {
         return !config.excludedPaths.some((pattern) => this.matchesPattern(file.path, pattern));
       });
 
+      // Get organization ID for policy evaluation
+      const repo = await prisma.repository.findUnique({
+        where: { id: request.repositoryId },
+        select: { organizationId: true },
+      });
+      const organizationId = repo?.organizationId || '';
+
+      // Load effective policy up front: its custom rules run during analysis
+      const policy = await policyEngineService.loadEffectivePolicy(
+        organizationId,
+        request.repositoryId,
+        request.prSha,
+        undefined // branch not available in request
+      );
+      const customRuleSet = staticAnalysisService.registerOrganizationRules(organizationId, policy.customRules);
+      const consensusModels = (await configService.getOrganizationConfig(organizationId)).llm?.consensus || [];
+      const reviewPrompt = await promptRegistryService.resolve('review.analyze', organizationId);
+      const reviewPromptRef: PromptRef = { id: reviewPrompt.id, version: reviewPrompt.version };
+      const ruleParams = policyEngineService.getRuleParams(policy);
+
       // Analyze each file
       const allIssues: Issue[] = [];
 
       // FOUNDER-SPECIFIC: Diff-level analysis for overconfident refactors
+      // (these describe the change itself, so they always count as new)
       const diffIssues = await this.analyzeDiffForLargeRefactors(filesToReview);
-      allIssues.push(...diffIssues);
+      allIssues.push(...diffIssues.map((issue) => ({ ...issue, lineChange: 'modified' as const })));
+
+      // Files unchanged since the PR's previous review reuse its findings (and its LLM spend)
+      const previous = await this.loadPreviousAnalyses(request.repositoryId, request.prNumber, policy.pack.checksum);
+      const fileAnalyses: Record<string, FileAnalysis> = {};
+      const reusedFiles: string[] = [];
+      const packedFiles: PackedFile[] = [];
+      const lineChanges = request.diff ? diffLineChanges(request.diff) : null;
 
       for (const file of filesToReview) {
+        request.signal?.throwIfAborted();
+        const hash = this.hashFileInput(file, consensusModels, reviewPromptRef, { customRuleSet, ruleParams });
+        const reused = previous?.analyses[file.path];
+        if (reused?.hash === hash) {
+          fileAnalyses[file.path] = reused;
+          allIssues.push(...reused.issues.map((issue) => ({ ...issue })));
+          reusedFiles.push(file.path);
+          continue;
+        }
+
         try {
           // Static analysis (includes founder-specific rules)
-          const staticIssues = await staticAnalysisService.analyze(file.path, file.content);
-          allIssues.push(...staticIssues);
+          const staticIssues = await staticAnalysisService.analyze(file.path, file.content, {
+            beforeContent: file.beforeContent,
+            customRuleSet,
+            ruleParams,
+          });
 
           // AI analysis (if LLM available)
+          let aiIssues: Issue[];
           try {
-            // Get organization ID from repository
-            const repo = await prisma.repository.findUnique({
-              where: { id: request.repositoryId },
-              select: { organizationId: true },
-            });
-            const organizationId = repo?.organizationId || '';
-            
-            const aiIssues = await this.analyzeWithAI(
+            const analysis = await this.analyzeWithAI(
               file.path,
               file.content,
               request.repositoryId,
-              organizationId
+              organizationId,
+              {
+                consensusModels,
+                prompt: reviewPrompt,
+                beforeContent: file.beforeContent,
+                lineChanges: lineChanges?.get(file.path),
+                signal: request.signal,
+              }
             );
-            allIssues.push(...aiIssues);
+            aiIssues = analysis.issues;
+            if (analysis.context.truncated) {
+              packedFiles.push({
+                path: file.path,
+                shownLines: analysis.context.shownLines,
+                totalLines: analysis.context.totalLines,
+              });
+            }
           } catch (error) {
             // Handle usage limit errors with clear messaging
-            if (error instanceof UsageLimitExceededError) {
-              // Re-throw as-is to preserve error type and HTTP status
+            if (error instanceof UsageLimitExceededError || request.signal?.aborted) {
+              // Re-throw as-is to preserve error type and HTTP status (or the cancellation)
               throw error;
             }
             
@@ -176,7 +281,15 @@ export class ReviewGuardService {
               `Action: Retry in 60 seconds or contact support@readylayer.com`
             );
           }
+
+          // Stored before diff positioning mutates them, for the next push to reuse
+          const fileIssues = [...staticIssues, ...aiIssues];
+          fileAnalyses[file.path] = { hash, issues: fileIssues.map((issue) => ({ ...issue })) };
+          allIssues.push(...fileIssues);
         } catch (error) {
+          if (request.signal?.aborted) {
+            throw error;
+          }
           // Parse errors MUST block PR
           throw new Error(
             `Failed to analyze ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}. ` +
@@ -185,6 +298,16 @@ export class ReviewGuardService {
         }
       }
 
+      // Third-party findings on reviewed files are gated like native ones
+      if (request.externalFindings) {
+        allIssues.push(...await this.prepareExternalFindings(request.externalFindings.issues, filesToReview));
+      }
+
+      // Position findings against the PR diff so policy can treat pre-existing ones separately
+      if (request.diff) {
+        this.applyDiffPositions(allIssues, request.diff);
+      }
+
       // FOUNDER-SPECIFIC: Schema reconciliation check
       const migrationFiles = filesToReview.filter(f => 
         f.path.includes('migration') || f.path.includes('migrations') || f.path.endsWith('.sql')
@@ -213,23 +336,13 @@ export class ReviewGuardService {
         }
       }
 
-      // Get organization ID for policy evaluation
-      const repo = await prisma.repository.findUnique({
-        where: { id: request.repositoryId },
-        select: { organizationId: true },
-      });
-      const organizationId = repo?.organizationId || '';
-
-      // Load effective policy
-      const policy = await policyEngineService.loadEffectivePolicy(
-        organizationId,
-        request.repositoryId,
-        request.prSha,
-        undefined // branch not available in request
-      );
+      // Diff-level and schema findings don't pass through analyze; fingerprint them here
+      this.applyFingerprints(allIssues, filesToReview);
 
       // Evaluate findings against policy
-      const evaluationResult = policyEngineService.evaluate(allIssues, policy);
+      const evaluationResult = policyEngineService.evaluate(allIssues, policy, {
+        reviewedFiles: filesToReview.map((f) => f.path),
+      });
 
       // Calculate summary (use non-waived findings)
       const summary = {
@@ -238,9 +351,12 @@ export class ReviewGuardService {
         high: evaluationResult.nonWaivedFindings.filter((i) => i.severity === 'high').length,
         medium: evaluationResult.nonWaivedFindings.filter((i) => i.severity === 'medium').length,
         low: evaluationResult.nonWaivedFindings.filter((i) => i.severity === 'low').length,
+        ...evaluationResult.breakdown,
       };
 
       // Use policy engine decision
+      const autofixPatch = buildPatch(filesToReview, evaluationResult.nonWaivedFindings);
+
       const isBlocked = evaluationResult.blocked;
       const blockedReason = evaluationResult.blockingReason;
 
@@ -273,7 +389,11 @@ export class ReviewGuardService {
           result: {
             issues: evaluationResult.nonWaivedFindings,
             waivedIssues: evaluationResult.waivedFindings,
+            hiddenIssues: evaluationResult.hiddenFindings,
             summary,
+            baselineComparison: evaluationResult.baselineComparison,
+            autofixPatch,
+            fileAnalyses,
             blocking: isBlocked,
             policyScore: evaluationResult.score,
             reviewIdSignature, // Include signature in result
@@ -300,6 +420,21 @@ export class ReviewGuardService {
           commitSha: request.prSha,
           prNumber: request.prNumber,
           files: filesToReview.map(f => ({ path: f.path, size: f.content.length })),
+          findingScope: request.diff ? 'diff' : 'full-file',
+          findingBreakdown: evaluationResult.breakdown,
+          baselineComparison: evaluationResult.baselineComparison,
+          toolVersions: request.externalFindings?.tools,
+          incremental: previous
+            ? {
+                previousReviewId: previous.reviewId,
+                reusedFiles,
+                carriedOverFindings: reusedFiles.flatMap((path) =>
+                  fileAnalyses[path].issues.map((issue) => issue.fingerprint || `${issue.ruleId}:${path}:${issue.line}`)
+                ),
+              }
+            : undefined,
+          contextPacking: packedFiles.length > 0 ? { packedFiles } : undefined,
+          prompt: reviewPromptRef,
         },
         {
           findings: allIssues,
@@ -311,7 +446,7 @@ export class ReviewGuardService {
       );
 
       // Track violations for pattern detection (only non-waived)
-      await this.trackViolations(request.repositoryId, review.id, evaluationResult.nonWaivedFindings);
+      await this.trackViolations(request.repositoryId, review.id, request.prNumber, evaluationResult.nonWaivedFindings);
 
       // Record failure patterns for intelligence (anonymized)
       for (const finding of evaluationResult.nonWaivedFindings) {
@@ -403,12 +538,21 @@ export class ReviewGuardService {
         status: isBlocked ? 'blocked' : 'completed',
         issues: evaluationResult.nonWaivedFindings,
         summary,
+        baselineComparison: evaluationResult.baselineComparison,
+        autofixPatch,
+        incremental: previous ? { previousReviewId: previous.reviewId, reusedFiles } : undefined,
+        packedFiles: packedFiles.length > 0 ? packedFiles : undefined,
         isBlocked,
         blockedReason,
         startedAt,
         completedAt,
       };
     } catch (error) {
+      // A cancelled review has no outcome to record; whoever cancelled it reports that
+      if (request.signal?.aborted) {
+        throw error;
+      }
+
       // All failures MUST block PR
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -422,7 +566,7 @@ export class ReviewGuardService {
           isBlocked: true,
           blockedReason: errorMessage,
           issuesFound: [] as any, // Empty array for failed reviews
-          summary: { total: 0, critical: 0, high: 0, medium: 0, low: 0 } as any,
+          summary: { total: 0, critical: 0, high: 0, medium: 0, low: 0, new: 0, baseline: 0, hidden: 0 } as any,
           startedAt,
         },
       });
@@ -475,16 +619,25 @@ export class ReviewGuardService {
   }
 
   /**
-   * Analyze code with AI
+   * Analyze code with AI; with two or more consensus models, each reviews
+   * the file and their findings are merged. Files over the review prompt
+   * budget are sent as excerpts around the PR's changes.
    */
   private async analyzeWithAI(
     filePath: string,
     content: string,
     repositoryId: string,
-    organizationId: string
-  ): Promise<Issue[]> {
+    organizationId: string,
+    options: {
+      consensusModels?: ConsensusModel[];
+      prompt?: PromptTemplate; // Organization's review prompt; resolved here when not given
+      beforeContent?: string | null;
+      lineChanges?: Map<number, LineChange>; // From the PR diff
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<{ issues: Issue[]; context: FileContext }> {
     // Query evidence if RAG is enabled
-    let evidenceSection = '';
+    const allEvidence: RagResult[] = [];
     if (isQueryEnabled()) {
       try {
         const evidenceQueries = [
@@ -493,7 +646,6 @@ export class ReviewGuardService {
           `repo config constraints`,
         ];
 
-        const allEvidence = [];
         for (const queryText of evidenceQueries) {
           const results = await queryEvidence({
             organizationId,
@@ -506,10 +658,6 @@ export class ReviewGuardService {
           });
           allEvidence.push(...results);
         }
-
-        if (allEvidence.length > 0) {
-          evidenceSection = formatEvidenceForPrompt(allEvidence);
-        }
       } catch (error) {
         // Evidence retrieval failed - proceed without it (graceful degradation)
         // Use structured logger instead of console.warn for observability
@@ -522,54 +670,52 @@ export class ReviewGuardService {
       }
     }
 
-    const codeBlockStart = '```';
-    const codeBlockEnd = '```';
-    const prompt = `Analyze the following code for security vulnerabilities, quality issues, and potential bugs.
-
-File: ${filePath}
-
-${codeBlockStart}
-${content}
-${codeBlockEnd}
-${evidenceSection}
-
-Return a JSON array of issues found, each with:
-- ruleId: string (e.g., "security.sql-injection")
-- severity: "critical" | "high" | "medium" | "low"
-- file: string
-- line: number
-- message: string
-- fix: string (actionable fix instruction)
-- confidence: number (0-1)
-
-Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message": "...", "fix": "...", "confidence": 0.9}]`;
-
-    const llmRequest: LLMRequest = {
-      prompt,
-      model: 'gpt-4-turbo-preview',
-      organizationId,
-      cache: true,
-    };
+    const template = options.prompt || await promptRegistryService.resolve('review.analyze', organizationId);
+    const buildPrompt = (code: string, evidenceSection: string) => promptRegistryService.render(template, {
+      filePath,
+      code,
+      evidence: evidenceSection,
+      outputFormat: AI_FINDINGS_INSTRUCTIONS,
+    });
+
+    // Fit code and evidence into the stage budget; symbols only matter when the file doesn't fit
+    const budget = budgetService.getPromptBudget('review');
+    const reservedTokens = estimateTokenCount(buildPrompt('', '').text);
+    const oversized = estimateTokenCount(content) > budget.promptTokens - reservedTokens;
+    const parseResult = oversized ? await codeParserService.parse(filePath, content).catch(() => null) : null;
+    const { file: context, evidenceSection } = buildPromptContext({
+      budgetTokens: budget.promptTokens,
+      reservedTokens,
+      file: {
+        filePath,
+        content,
+        parseResult,
+        focusLines: oversized ? this.changedLines(filePath, content, options.beforeContent, options.lineChanges) : [],
+      },
+      evidence: allEvidence,
+    });
+    if (context.truncated) {
+      metrics.increment('review.ai.context_packed');
+      const { logger } = await import('../../observability/logging');
+      logger.warn({
+        repositoryId,
+        filePath,
+        shownLines: context.shownLines,
+        totalLines: context.totalLines,
+      }, 'File exceeds review prompt budget, sending an excerpt');
+    }
+    const prompt = buildPrompt(context.text, evidenceSection);
 
     try {
-      const response = await llmService.complete(llmRequest);
-      
-      // Track token usage for anomaly detection
-      await this.recordTokenUsage(response, llmRequest.prompt, repositoryId, organizationId, 'review');
-
-      const issues = JSON.parse(response.content) as Issue[];
-
-      // Validate AI output
-      return issues.filter((issue) => {
-        return (
-          issue.ruleId &&
-          issue.severity &&
-          ['critical', 'high', 'medium', 'low'].includes(issue.severity) &&
-          issue.message &&
-          issue.line > 0
-        );
-      });
+      const consensusModels = options.consensusModels || [];
+      const issues = consensusModels.length >= 2
+        ? await this.analyzeWithConsensus(filePath, content, prompt, budget.maxOutputTokens, repositoryId, organizationId, consensusModels, options.signal)
+        : (await this.analyzeWithModel(filePath, content, prompt, budget.maxOutputTokens, repositoryId, organizationId, undefined, options.signal)).issues;
+      return { issues, context };
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
       // LLM failures MUST block PR
       throw new Error(
         `LLM analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}. ` +
@@ -578,19 +724,189 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
     }
   }
 
+  /**
+   * Lines the PR added or modified: from its diff, else by diffing against
+   * the file's previous content; none for new files
+   */
+  private changedLines(
+    filePath: string,
+    content: string,
+    beforeContent: string | null | undefined,
+    lineChanges: Map<number, LineChange> | undefined
+  ): number[] {
+    const changes = lineChanges ||
+      (beforeContent ? diffLineChanges(createUnifiedDiff(filePath, beforeContent, content)).get(filePath) : undefined);
+    if (!changes) {
+      return [];
+    }
+    return Array.from(changes)
+      .filter(([, change]) => change === 'added' || change === 'modified')
+      .map(([line]) => line);
+  }
+
+  /**
+   * One model's grounded, fix-validated and fingerprinted findings
+   */
+  private async analyzeWithModel(
+    filePath: string,
+    content: string,
+    prompt: RenderedPrompt,
+    maxTokens: number,
+    repositoryId: string,
+    organizationId: string,
+    target?: ConsensusModel,
+    signal?: AbortSignal
+  ): Promise<{ issues: Issue[]; model: string; cached: boolean }> {
+    const { findings, model, cached } = await this.completeAIFindings(prompt, maxTokens, repositoryId, organizationId, target, signal);
+
+    // Hallucinated lines and quotes never become annotations
+    const { issues, rejected } = groundAIFindings(filePath, content, findings);
+    if (rejected.length > 0) {
+      for (const { reason } of rejected) {
+        metrics.increment('review.ai.findings_rejected', { reason });
+      }
+      const { logger } = await import('../../observability/logging');
+      logger.warn({
+        repositoryId,
+        filePath,
+        model,
+        rejected: rejected.map(({ finding, reason }) => ({ ruleId: finding.ruleId, line: finding.line, reason })),
+      }, 'Rejected AI findings not grounded in the file');
+    }
+
+    // Fingerprints are ours to assign, never the model's; its edits must re-parse
+    const fixedIssues = await staticAnalysisService.validateFixes(filePath, content, issues);
+    return { issues: await staticAnalysisService.fingerprintIssues(filePath, content, fixedIssues), model, cached };
+  }
+
+  /**
+   * Review the file with every consensus model and merge by fingerprint.
+   * Each model's agreement per rule category feeds self-learning, which in
+   * turn caps the confidence of findings that model reports alone.
+   */
+  private async analyzeWithConsensus(
+    filePath: string,
+    content: string,
+    prompt: RenderedPrompt,
+    maxTokens: number,
+    repositoryId: string,
+    organizationId: string,
+    models: ConsensusModel[],
+    signal?: AbortSignal
+  ): Promise<Issue[]> {
+    const results = await Promise.all(
+      models.map((target) => this.analyzeWithModel(filePath, content, prompt, maxTokens, repositoryId, organizationId, target, signal))
+    );
+    const runs: ConsensusRun[] = results.map((result) => ({ modelId: result.model, issues: result.issues }));
+
+    const caps = new Map<string, number>();
+    for (const run of runs) {
+      for (const category of new Set(run.issues.map((issue) => ruleCategory(issue.ruleId)))) {
+        const score = await selfLearningService.calculateConfidenceScore('ai_finding', {
+          organizationId,
+          modelId: run.modelId,
+          ruleCategory: category,
+        });
+        caps.set(`${run.modelId}|${category}`, score.finalConfidence);
+      }
+    }
+
+    const { issues, agreement } = mergeConsensusFindings(runs, (modelId, category) => caps.get(`${modelId}|${category}`) ?? 1);
+
+    // Cached completions were already learned from when first reviewed
+    for (const [index, result] of results.entries()) {
+      if (result.cached) {
+        continue;
+      }
+      try {
+        await selfLearningService.recordModelAgreement(
+          organizationId,
+          result.model,
+          models[index].provider,
+          agreement.get(result.model) || {}
+        );
+      } catch (error) {
+        // Don't fail review if performance tracking fails
+        console.error('Failed to record model agreement:', error);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Complete a review prompt until the output satisfies the findings schema,
+   * re-prompting with the validation errors. Once repairs are exhausted,
+   * schema-valid entries are kept; output with none fails the analysis.
+   */
+  private async completeAIFindings(
+    prompt: RenderedPrompt,
+    maxTokens: number,
+    repositoryId: string,
+    organizationId: string,
+    target?: ConsensusModel,
+    signal?: AbortSignal
+  ): Promise<{ findings: AIFinding[]; model: string; cached: boolean }> {
+    let currentPrompt = prompt.text;
+    let lastContent = '';
+    let lastErrors: string[] = [];
+    let model = target?.model || '';
+    let cached = true;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const llmRequest: LLMRequest = {
+        prompt: currentPrompt,
+        promptRef: prompt.ref,
+        provider: target?.provider,
+        model: target?.model, // Otherwise the selected provider's default
+        maxTokens,
+        organizationId,
+        cache: true,
+        signal,
+      };
+      const response = await llmService.complete(llmRequest);
+      model = response.model;
+      cached = cached && response.cached;
+
+      // Track token usage for anomaly detection (cache hits spent none)
+      if (!response.cached) {
+        await this.recordTokenUsage(response, llmRequest, repositoryId, organizationId, 'review');
+      }
+
+      const parsed = parseAIFindings(response.content);
+      if (parsed.success) {
+        if (attempt > 0) {
+          metrics.increment('review.ai.output_repaired', { attempts: String(attempt) });
+        }
+        return { findings: parsed.findings, model, cached };
+      }
+
+      metrics.increment('review.ai.output_invalid');
+      lastContent = response.content;
+      lastErrors = parsed.errors;
+      currentPrompt = buildRepairPrompt(prompt.text, response.content, parsed.errors);
+    }
+
+    const salvaged = salvageAIFindings(lastContent);
+    if (salvaged.length === 0) {
+      throw new Error(`AI output did not match the findings schema: ${lastErrors.slice(0, 3).join('; ')}`);
+    }
+    return { findings: salvaged, model, cached };
+  }
+
   /**
    * Record token usage for anomaly detection
    */
   private async recordTokenUsage(
     response: LLMResponse,
-    prompt: string,
+    request: LLMRequest,
     repositoryId: string,
     organizationId: string,
     service: string
   ): Promise<void> {
     try {
       // Estimate input tokens (rough: ~4 chars per token)
-      const estimatedInputTokens = Math.ceil(prompt.length / 4);
+      const estimatedInputTokens = Math.ceil(request.prompt.length / 4);
       
       // Calculate waste percentage (simplified - would need more sophisticated analysis)
       const totalTokens = response.tokensUsed;
@@ -601,19 +917,21 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
           repositoryId,
           organizationId,
           service,
-          provider: response.model.includes('claude') ? 'anthropic' : 'openai',
+          provider: response.provider,
           model: response.model,
           inputTokens: estimatedInputTokens,
           outputTokens: response.tokensUsed - estimatedInputTokens,
           totalTokens: response.tokensUsed,
           cost: response.cost,
           wastePercentage,
+          metadata: request.promptRef
+            ? { prompt: { id: request.promptRef.id, version: request.promptRef.version } }
+            : undefined,
         },
       });
 
       // Record model performance for self-learning
-      await selfLearningService.recordModelPerformance(organizationId, response.model, 
-        response.model.includes('claude') ? 'anthropic' : 'openai', {
+      await selfLearningService.recordModelPerformance(organizationId, response.model, response.provider, {
         success: true,
         responseTime: 0, // Would track actual response time
         tokensUsed: response.tokensUsed,
@@ -707,15 +1025,90 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
     return languageMap[topExt || ''] || 'unknown';
   }
 
+  /**
+   * Hash of everything a file's findings depend on besides the policy
+   * source. Rule params and custom rules are included: rule edits change
+   * them without changing the pack checksum.
+   */
+  private hashFileInput(
+    file: { content: string; beforeContent?: string | null },
+    consensusModels: ConsensusModel[],
+    prompt: PromptRef,
+    rules: { customRuleSet: string; ruleParams: Record<string, Record<string, unknown>> }
+  ): string {
+    return createHash('sha256')
+      .update(JSON.stringify([
+        ANALYSIS_VERSION,
+        file.content,
+        file.beforeContent ?? null,
+        consensusModels,
+        prompt,
+        rules.customRuleSet,
+        rules.ruleParams,
+      ]), 'utf8')
+      .digest('hex');
+  }
+
+  /**
+   * Per-file findings of the PR's latest successful review, if it ran
+   * under the same policy
+   */
+  private async loadPreviousAnalyses(
+    repositoryId: string,
+    prNumber: number,
+    policyChecksum: string
+  ): Promise<{ reviewId: string; analyses: Record<string, FileAnalysis> } | null> {
+    const previous = await prisma.review.findFirst({
+      where: { repositoryId, prNumber, status: { in: ['completed', 'blocked'] } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, result: true },
+    });
+    const result = previous?.result as { fileAnalyses?: Record<string, FileAnalysis>; policyChecksum?: string } | null;
+    if (!previous || !result?.fileAnalyses || result.policyChecksum !== policyChecksum) {
+      return null;
+    }
+    return { reviewId: previous.id, analyses: result.fileAnalyses };
+  }
+
   /**
    * Track violations for pattern detection
    */
   private async trackViolations(
     repositoryId: string,
     reviewId: string,
+    prNumber: number,
     issues: Issue[]
   ): Promise<void> {
+    // Findings already recorded by an earlier push of this PR move to the new review
+    const fingerprints = issues.map((issue) => issue.fingerprint).filter((fp): fp is string => Boolean(fp));
+    const existing = fingerprints.length > 0
+      ? await prisma.violation.findMany({
+          where: {
+            repositoryId,
+            fingerprint: { in: fingerprints },
+            review: { prNumber },
+          },
+          select: { id: true, fingerprint: true },
+        })
+      : [];
+    const existingIds = new Map(existing.map((violation) => [violation.fingerprint!, violation.id]));
+
     for (const issue of issues) {
+      const existingId = issue.fingerprint ? existingIds.get(issue.fingerprint) : undefined;
+      if (existingId) {
+        await prisma.violation.update({
+          where: { id: existingId },
+          data: {
+            reviewId,
+            severity: issue.severity,
+            file: issue.file,
+            line: issue.line,
+            message: issue.message,
+          },
+        });
+        continue;
+      }
+
       await prisma.violation.create({
         data: {
           repositoryId,
@@ -725,6 +1118,7 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
           file: issue.file,
           line: issue.line,
           message: issue.message,
+          fingerprint: issue.fingerprint,
         },
       });
     }
@@ -753,6 +1147,55 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
     return regex.test(path);
   }
 
+  /**
+   * Tag each finding with where its line sits in the unified diff. Files the
+   * diff doesn't cover keep no position and are treated as new.
+   */
+  private applyDiffPositions(issues: Issue[], diff: string): void {
+    const lineChanges = diffLineChanges(diff);
+    for (const issue of issues) {
+      const fileLines = lineChanges.get(issue.file);
+      if (fileLines && !issue.lineChange) {
+        issue.lineChange = fileLines.get(issue.line) ?? 'unchanged';
+      }
+    }
+  }
+
+  /**
+   * Keep external findings for files under review and fingerprint them
+   * against the file content, like AI findings
+   */
+  private async prepareExternalFindings(
+    issues: Issue[],
+    files: Array<{ path: string; content: string }>
+  ): Promise<Issue[]> {
+    const prepared: Issue[] = [];
+    for (const file of files) {
+      const fileIssues = issues
+        .filter((issue) => issue.file === file.path)
+        .map(({ fingerprint: _fingerprint, ...issue }) => issue);
+      if (fileIssues.length > 0) {
+        prepared.push(...await staticAnalysisService.fingerprintIssues(file.path, file.content, fileIssues));
+      }
+    }
+    return prepared;
+  }
+
+  /**
+   * Fingerprint findings that don't have one yet, per file. Findings outside
+   * the reviewed files are anchored by their message.
+   */
+  private applyFingerprints(issues: Issue[], files: Array<{ path: string; content: string }>): void {
+    const contents = new Map(files.map((file) => [file.path, file.content]));
+    const byFile = new Map<string, Issue[]>();
+    for (const issue of issues.filter((i) => !i.fingerprint)) {
+      byFile.set(issue.file, [...(byFile.get(issue.file) || []), issue]);
+    }
+    for (const [file, fileIssues] of byFile) {
+      assignFingerprints(fileIssues, contents.get(file) ?? '', null);
+    }
+  }
+
   /**
    * FOUNDER-SPECIFIC: Analyze diff for large refactors (overconfident AI changes)
    */
@@ -774,8 +1217,9 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
         const afterLines = file.content.split('\n').length;
         const changeRatio = Math.abs(afterLines - beforeLines) / beforeLines;
 
-        // Flag files with >30% change as potentially risky refactor
-        if (changeRatio > 0.3) {
+        // Flag files with >30% change as potentially risky refactor. Files with
+        // functions are left to the founder.large-refactor rule's symbol diff.
+        if (changeRatio > 0.3 && !(await this.hasFunctions(file.path, file.beforeContent))) {
           issues.push({
             ruleId: 'founder.large-refactor',
             severity: 'high',
@@ -788,7 +1232,7 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
         }
 
         // Analyze diff for common AI refactor patterns
-        const diffAnalysis = this.analyzeDiffPatterns(file.beforeContent, file.content);
+        const diffAnalysis = this.analyzeDiffPatterns(file.path, file.beforeContent, file.content);
         issues.push(...diffAnalysis);
       }
     }
@@ -796,29 +1240,26 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
     return issues;
   }
 
+  /**
+   * Whether the file parses and declares functions or methods
+   */
+  private async hasFunctions(filePath: string, content: string): Promise<boolean> {
+    try {
+      const parsed = await codeParserService.parse(filePath, content);
+      return parsed.functions.length > 0 || parsed.classes.some((cls) => cls.methods.length > 0);
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Analyze diff for common AI refactor anti-patterns
+   * (function-level churn is reported by the founder.large-refactor rule from the symbol diff)
    */
-  private analyzeDiffPatterns(before: string, after: string): Issue[] {
+  private analyzeDiffPatterns(filePath: string, before: string, after: string): Issue[] {
     const issues: Issue[] = [];
 
-    // Pattern 1: Many functions changed at once
-    const beforeFunctions = (before.match(/(?:function|const\s+\w+\s*=\s*(?:async\s+)?\(|export\s+(?:async\s+)?function)/g) || []).length;
-    const afterFunctions = (after.match(/(?:function|const\s+\w+\s*=\s*(?:async\s+)?\(|export\s+(?:async\s+)?function)/g) || []).length;
-    
-    if (Math.abs(afterFunctions - beforeFunctions) > 5) {
-      issues.push({
-        ruleId: 'founder.large-refactor',
-        severity: 'medium',
-        file: 'diff',
-        line: 1,
-        message: `Many functions changed (${beforeFunctions} → ${afterFunctions}) - verify all functions still work correctly`,
-        fix: 'Test each changed function individually',
-        confidence: 0.7,
-      });
-    }
-
-    // Pattern 2: Type changes (type erosion or over-typing)
+    // Pattern 1: Type changes (type erosion or over-typing)
     const beforeAnyCount = (before.match(/\b:\s*any\b/g) || []).length;
     const afterAnyCount = (after.match(/\b:\s*any\b/g) || []).length;
     
@@ -826,7 +1267,7 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
       issues.push({
         ruleId: 'founder.type-erosion',
         severity: 'high',
-        file: 'diff',
+        file: filePath,
         line: 1,
         message: `Type safety regression: 'any' types increased (${beforeAnyCount} → ${afterAnyCount})`,
         fix: 'Replace any types with proper types',
@@ -834,7 +1275,7 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
       });
     }
 
-    // Pattern 3: Error handling removed
+    // Pattern 2: Error handling removed
     const beforeTryCatch = (before.match(/\btry\s*\{/g) || []).length;
     const afterTryCatch = (after.match(/\btry\s*\{/g) || []).length;
     
@@ -842,7 +1283,7 @@ Format: [{"ruleId": "...", "severity": "...", "file": "...", "line": 1, "message
       issues.push({
         ruleId: 'founder.error-handling',
         severity: 'high',
-        file: 'diff',
+        file: filePath,
         line: 1,
         message: `Error handling removed: try/catch blocks decreased (${beforeTryCatch} → ${afterTryCatch})`,
         fix: 'Ensure error handling is not removed without proper replacement',
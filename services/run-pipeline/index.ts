@@ -10,6 +10,8 @@
  * - Webhook-triggered runs (from PR events)
  * - Manual runs (user-initiated)
  * - Sandbox runs (demo mode with sample repo)
+ * - Cancellation (superseded pushes, the cancel endpoint), which aborts
+ *   in-flight LLM calls
  */
 
 import { prisma } from '../../lib/prisma';
@@ -39,6 +41,7 @@ export interface RunRequest {
     skipTestEngine?: boolean;
     skipDocSync?: boolean;
   };
+  signal?: AbortSignal; // Caller's own cancellation, alongside cancelRun
 }
 
 export interface RunResult {
@@ -64,7 +67,11 @@ export interface RunResult {
       high: number;
       medium: number;
       low: number;
+      new?: number;
+      baseline?: number;
+      hidden?: number;
     };
+    reusedFiles?: number; // Unchanged since the PR's previous review, findings carried over
   };
   testEngineResult?: {
     testsGenerated: number;
@@ -101,6 +108,22 @@ export interface RunResult {
   docSyncCompletedAt?: Date;
 }
 
+/**
+ * Reason a cancelled run's signal is aborted with
+ */
+export class RunCancelledError extends Error {
+  constructor(
+    public runId: string,
+    public reason: string
+  ) {
+    super(`Run ${runId} cancelled: ${reason}`);
+    this.name = 'RunCancelledError';
+  }
+}
+
+// How often a run checks whether it was cancelled from another process
+const CANCEL_POLL_INTERVAL_MS = 5000;
+
 /**
  * ReadyLayer Run Pipeline Service
  * 
@@ -108,6 +131,8 @@ export interface RunResult {
  * Each run goes through three stages: Review Guard → Test Engine → Doc Sync
  */
 export class RunPipelineService {
+  private activeRuns = new Map<string, AbortController>();
+
   /**
    * Execute a ReadyLayer Run
    * 
@@ -117,6 +142,8 @@ export class RunPipelineService {
    * - AI-touched file detection
    * - Policy gate evaluation
    * - Complete audit trail
+   * - Cancellation: a cancelled run stops at once and returns with status
+   *   `cancelled`
    * 
    * @param request - Run request with trigger and metadata
    * @returns Run result with all stage outputs
@@ -145,6 +172,16 @@ export class RunPipelineService {
 
     log.info({ runId: run.id }, 'Starting ReadyLayer Run');
 
+    // cancelRun aborts runs in this process directly; runs in other processes
+    // notice their cancelled status on the next poll
+    const controller = new AbortController();
+    this.activeRuns.set(run.id, controller);
+    const signal = request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal;
+    const cancelPoll = setInterval(() => {
+      void this.pollCancellation(run.id, controller);
+    }, CANCEL_POLL_INTERVAL_MS);
+    cancelPoll.unref?.();
+
     try {
       // Stage 1: Review Guard
       let reviewGuardResult: RunResult['reviewGuardResult'] | undefined;
@@ -193,6 +230,7 @@ export class RunPipelineService {
             prTitle: request.triggerMetadata.prTitle,
             diff: request.triggerMetadata.diff,
             files: request.triggerMetadata.files,
+            signal,
           };
 
           const reviewResult = await reviewGuardService.review(reviewRequest);
@@ -205,6 +243,7 @@ export class RunPipelineService {
             issuesFound: reviewResult.issues.length,
             isBlocked: reviewResult.isBlocked,
             summary: reviewResult.summary,
+            reusedFiles: reviewResult.incremental?.reusedFiles.length,
           };
 
           // Link review to run
@@ -246,6 +285,9 @@ export class RunPipelineService {
 
           metrics.increment('runs.stage.completed', { stage: 'review_guard', status: reviewGuardStatus });
         } catch (error) {
+          if (signal.aborted) {
+            throw error;
+          }
           reviewGuardCompletedAt = new Date();
           reviewGuardStatus = 'failed';
           
@@ -266,6 +308,7 @@ export class RunPipelineService {
       }
 
       // Stage 2: Test Engine (only if files available)
+      signal.throwIfAborted();
       let testEngineResult: RunResult['testEngineResult'] | undefined;
       let testEngineStatus: RunResult['testEngineStatus'] = 'skipped';
       let testEngineStartedAt: Date | undefined;
@@ -324,27 +367,46 @@ export class RunPipelineService {
             },
           });
 
+          // Generated tests are run against a checkout of the PR head before being proposed
+          const checkout = aiTouchedFiles.length > 0 && request.repositoryId && request.triggerMetadata.prSha
+            ? await testEngineService.prepareCheckout(request.repositoryId, request.triggerMetadata.prSha, signal)
+            : null;
+
           // Generate tests for AI-touched files
           let testsGenerated = 0;
-          for (const file of aiTouchedFiles) {
-            const fileContent = request.triggerMetadata.files?.find(f => f.path === file.path)?.content;
-            if (fileContent) {
-              try {
-                const testRequest: TestGenerationRequest = {
-                  repositoryId: request.repositoryId || 'sandbox',
-                  prNumber: request.triggerMetadata.prNumber,
-                  prSha: request.triggerMetadata.prSha || 'sandbox',
-                  filePath: file.path,
-                  fileContent,
-                };
-
-                await testEngineService.generateTests(testRequest);
-                testsGenerated++;
-              } catch (error) {
-                log.warn({ err: error, filePath: file.path }, 'Test generation failed for file');
-                // Continue with other files
+          try {
+            for (const file of aiTouchedFiles) {
+              signal.throwIfAborted();
+              const fileContent = request.triggerMetadata.files?.find(f => f.path === file.path)?.content;
+              if (fileContent) {
+                try {
+                  const testRequest: TestGenerationRequest = {
+                    repositoryId: request.repositoryId || 'sandbox',
+                    prNumber: request.triggerMetadata.prNumber,
+                    prSha: request.triggerMetadata.prSha || 'sandbox',
+                    filePath: file.path,
+                    fileContent,
+                    changedPaths: request.triggerMetadata.files?.map(f => f.path),
+                    diff: request.triggerMetadata.diff,
+                    signal,
+                    checkoutDir: checkout?.dir,
+                  };
+
+                  const testResult = await testEngineService.generateTests(testRequest);
+                  if (testResult.status !== 'failed') {
+                    testsGenerated++;
+                  }
+                } catch (error) {
+                  if (signal.aborted) {
+                    throw error;
+                  }
+                  log.warn({ err: error, filePath: file.path }, 'Test generation failed for file');
+                  // Continue with other files
+                }
               }
             }
+          } finally {
+            await checkout?.cleanup();
           }
 
           testEngineCompletedAt = new Date();
@@ -352,7 +414,7 @@ export class RunPipelineService {
           
           testEngineResult = {
             testsGenerated,
-            meetsThreshold: true, // Would check actual coverage
+            meetsThreshold: true, // Until CI coverage artifacts are evaluated on ci.completed
           };
 
           await prisma.readyLayerRun.update({
@@ -391,6 +453,9 @@ export class RunPipelineService {
 
           metrics.increment('runs.stage.completed', { stage: 'test_engine', status: testEngineStatus });
         } catch (error) {
+          if (signal.aborted) {
+            throw error;
+          }
           testEngineCompletedAt = new Date();
           testEngineStatus = 'failed';
           
@@ -409,6 +474,7 @@ export class RunPipelineService {
       }
 
       // Stage 3: Doc Sync
+      signal.throwIfAborted();
       let docSyncResult: RunResult['docSyncResult'] | undefined;
       let docSyncStatus: RunResult['docSyncStatus'] = 'skipped';
       let docSyncStartedAt: Date | undefined;
@@ -460,7 +526,8 @@ export class RunPipelineService {
               },
               updateStrategy: 'pr',
               branch: 'main',
-            }
+            },
+            { signal }
           );
 
           docSyncCompletedAt = new Date();
@@ -508,6 +575,9 @@ export class RunPipelineService {
 
           metrics.increment('runs.stage.completed', { stage: 'doc_sync', status: docSyncStatus });
         } catch (error) {
+          if (signal.aborted) {
+            throw error;
+          }
           docSyncCompletedAt = new Date();
           docSyncStatus = 'failed';
           
@@ -526,6 +596,7 @@ export class RunPipelineService {
       }
 
       // Evaluate policy gates
+      signal.throwIfAborted();
       const gatesFailed: Array<{ gate: string; reason: string }> = [];
       let gatesPassed = true;
 
@@ -563,9 +634,9 @@ export class RunPipelineService {
 
       const completedAt = new Date();
 
-      // Update final status
-      await prisma.readyLayerRun.update({
-        where: { id: run.id },
+      // Update final status, unless the run was cancelled from another process meanwhile
+      const { count: completed } = await prisma.readyLayerRun.updateMany({
+        where: { id: run.id, status: 'running' },
         data: {
           status: 'completed',
           conclusion,
@@ -574,6 +645,9 @@ export class RunPipelineService {
           completedAt,
         },
       });
+      if (completed === 0) {
+        throw new RunCancelledError(run.id, 'cancelled from another process');
+      }
 
       // Create outbox intent for final completion status (idempotent)
       if (request.repositoryId && request.triggerMetadata?.prNumber && request.triggerMetadata?.prSha) {
@@ -655,6 +729,16 @@ export class RunPipelineService {
         docSyncCompletedAt,
       };
     } catch (error) {
+      if (signal.aborted || error instanceof RunCancelledError) {
+        const cancellation = signal.aborted ? signal.reason : error;
+        return this.finishCancelledRun(
+          run.id,
+          request,
+          cancellation instanceof RunCancelledError ? cancellation.reason : 'aborted by caller',
+          log
+        );
+      }
+
       const completedAt = new Date();
       
       log.error({ err: error }, 'Run execution failed');
@@ -671,7 +755,180 @@ export class RunPipelineService {
       metrics.increment('runs.failed', { trigger: request.trigger });
 
       throw error;
+    } finally {
+      clearInterval(cancelPoll);
+      this.activeRuns.delete(run.id);
+    }
+  }
+
+  /**
+   * Cancel a pending or running run. Its status is set first, so whichever
+   * process executes it stops; in this process its in-flight LLM calls are
+   * aborted right away.
+   *
+   * @returns false if the run doesn't exist or already finished
+   */
+  async cancelRun(runId: string, options: { reason: string; userId?: string }): Promise<boolean> {
+    const { count } = await prisma.readyLayerRun.updateMany({
+      where: { id: runId, status: { in: ['pending', 'running'] } },
+      data: {
+        status: 'cancelled',
+        conclusion: 'cancelled',
+        completedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    this.activeRuns.get(runId)?.abort(new RunCancelledError(runId, options.reason));
+
+    // Audit log
+    try {
+      const run = await prisma.readyLayerRun.findUnique({
+        where: { id: runId },
+        select: { repositoryId: true, correlationId: true },
+      });
+      await createAuditLog({
+        organizationId: run?.repositoryId ? await this.getOrganizationId(run.repositoryId) : null,
+        userId: options.userId || null,
+        action: AuditActions.RUN_CANCELLED,
+        resourceType: 'run',
+        resourceId: runId,
+        details: {
+          correlationId: run?.correlationId,
+          reason: options.reason,
+        },
+        runId,
+      });
+    } catch (error) {
+      logger.warn({ err: error, runId }, 'Failed to create audit log');
     }
+
+    return true;
+  }
+
+  /**
+   * Cancel the runs still in flight for earlier pushes to a PR, so a new
+   * push doesn't wait on (or pay for) reviews of commits nobody will merge
+   *
+   * @returns IDs of the cancelled runs
+   */
+  async cancelSupersededRuns(repositoryId: string, prNumber: number, prSha: string): Promise<string[]> {
+    const inFlight = await prisma.readyLayerRun.findMany({
+      where: {
+        repositoryId,
+        status: { in: ['pending', 'running'] },
+        triggerMetadata: { path: ['prNumber'], equals: prNumber },
+      },
+      select: { id: true, triggerMetadata: true },
+    });
+
+    const cancelled: string[] = [];
+    for (const run of inFlight) {
+      const metadata = run.triggerMetadata as RunRequest['triggerMetadata'];
+      if (metadata?.prSha === prSha) {
+        continue; // Same push, e.g. a redelivered webhook
+      }
+      if (await this.cancelRun(run.id, { reason: `superseded by ${prSha.slice(0, 7)}` })) {
+        cancelled.push(run.id);
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Abort a run executing here once another process has cancelled it
+   */
+  private async pollCancellation(runId: string, controller: AbortController): Promise<void> {
+    try {
+      const run = await prisma.readyLayerRun.findUnique({
+        where: { id: runId },
+        select: { status: true },
+      });
+      if (run?.status === 'cancelled') {
+        controller.abort(new RunCancelledError(runId, 'cancelled from another process'));
+      }
+    } catch {
+      // Best effort; the final status update checks again
+    }
+  }
+
+  /**
+   * Record a cancelled run: stages that didn't finish are skipped, and the
+   * PR's status is closed out as cancelled
+   */
+  private async finishCancelledRun(
+    runId: string,
+    request: RunRequest,
+    reason: string,
+    log: ReturnType<typeof logger.child>
+  ): Promise<RunResult> {
+    const current = await prisma.readyLayerRun.findUniqueOrThrow({ where: { id: runId } });
+    const unfinished = (status: string) => (status === 'pending' || status === 'running' ? 'skipped' : status);
+
+    const run = await prisma.readyLayerRun.update({
+      where: { id: runId },
+      data: {
+        status: 'cancelled',
+        conclusion: 'cancelled',
+        reviewGuardStatus: unfinished(current.reviewGuardStatus),
+        testEngineStatus: unfinished(current.testEngineStatus),
+        docSyncStatus: unfinished(current.docSyncStatus),
+        completedAt: current.completedAt || new Date(),
+      },
+    });
+
+    // Create outbox intent for final cancelled status (idempotent)
+    if (request.repositoryId && request.triggerMetadata?.prNumber && request.triggerMetadata?.prSha) {
+      try {
+        await outboxService.createIntent({
+          runId,
+          repositoryId: request.repositoryId,
+          sandboxId: request.sandboxId,
+          update: {
+            runId,
+            repositoryId: request.repositoryId,
+            prNumber: request.triggerMetadata.prNumber,
+            prSha: request.triggerMetadata.prSha,
+            stage: 'complete',
+            status: 'completed',
+            conclusion: 'cancelled',
+          },
+        });
+      } catch (error) {
+        log.warn({ err: error }, 'Failed to create outbox intent for run cancellation (non-critical)');
+      }
+    }
+
+    metrics.increment('runs.cancelled', { trigger: request.trigger });
+
+    log.info({ runId, reason }, 'ReadyLayer Run cancelled');
+
+    return {
+      id: run.id,
+      correlationId: run.correlationId,
+      sandboxId: run.sandboxId,
+      status: 'cancelled',
+      conclusion: 'cancelled',
+      reviewGuardStatus: run.reviewGuardStatus as RunResult['reviewGuardStatus'],
+      testEngineStatus: run.testEngineStatus as RunResult['testEngineStatus'],
+      docSyncStatus: run.docSyncStatus as RunResult['docSyncStatus'],
+      reviewGuardResult: run.reviewGuardResult as any,
+      testEngineResult: run.testEngineResult as any,
+      docSyncResult: run.docSyncResult as any,
+      aiTouchedDetected: run.aiTouchedDetected,
+      aiTouchedFiles: run.aiTouchedFiles as any,
+      gatesPassed: false,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt || undefined,
+      reviewGuardStartedAt: run.reviewGuardStartedAt || undefined,
+      reviewGuardCompletedAt: run.reviewGuardCompletedAt || undefined,
+      testEngineStartedAt: run.testEngineStartedAt || undefined,
+      testEngineCompletedAt: run.testEngineCompletedAt || undefined,
+      docSyncStartedAt: run.docSyncStartedAt || undefined,
+      docSyncCompletedAt: run.docSyncCompletedAt || undefined,
+    };
   }
 
   /**
@@ -0,0 +1,98 @@
+/**
+ * SARIF Tests
+ *
+ * Third-party results should become policy-ready issues, and exported logs
+ * should hand imported findings back under their tool's own rule ids
+ */
+
+import { sarifService } from '../index';
+
+const codeqlLog = {
+  version: '2.1.0',
+  runs: [{
+    tool: {
+      driver: {
+        name: 'CodeQL',
+        semanticVersion: '2.15.0',
+        rules: [
+          { id: 'js/sql-injection', properties: { 'security-severity': '8.8', precision: 'high' } },
+          { id: 'js/unused-local-variable', defaultConfiguration: { level: 'note' } },
+        ],
+      },
+    },
+    results: [
+      {
+        ruleId: 'js/sql-injection',
+        ruleIndex: 0,
+        message: { text: 'This query depends on a [user-provided value](1).' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///home/runner/work/app/src/db.ts' }, region: { startLine: 12, startColumn: 5 } } }],
+        codeFlows: [{ threadFlows: [{ locations: [
+          { location: { physicalLocation: { region: { startLine: 3 } }, message: { text: 'req.query' } } },
+          { location: { physicalLocation: { region: { startLine: 12 } } } },
+        ] }] }],
+      },
+      {
+        ruleIndex: 1,
+        message: { text: 'Unused variable tmp.' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: './src/util.ts' }, region: { startLine: 4 } } }],
+      },
+      {
+        ruleId: 'js/unused-local-variable',
+        message: { text: 'Unused variable old.' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/util.ts' }, region: { startLine: 9 } } }],
+        suppressions: [{ kind: 'inSource' }],
+      },
+    ],
+  }],
+};
+
+describe('SARIF', () => {
+  it('imports results as namespaced issues and reports invalid logs', () => {
+    const { issues, tools, errors } = sarifService.fromSarif([codeqlLog], { rootPath: '/home/runner/work/app' });
+
+    expect(errors).toEqual([]);
+    expect(tools).toEqual({ CodeQL: '2.15.0' });
+    expect(issues).toHaveLength(2); // The suppressed result is skipped
+    expect(issues[0]).toMatchObject({
+      ruleId: 'codeql:js/sql-injection',
+      severity: 'high',
+      file: 'src/db.ts',
+      line: 12,
+      column: 4,
+      confidence: 0.9,
+      tool: 'CodeQL',
+    });
+    expect(issues[0].trace?.map((step) => step.line)).toEqual([3, 12]);
+    expect(issues[1]).toMatchObject({ ruleId: 'codeql:js/unused-local-variable', severity: 'low', file: 'src/util.ts' });
+
+    const invalid = sarifService.fromSarif([{ version: '2.0.0', runs: [] }]);
+    expect(invalid.issues).toEqual([]);
+    expect(invalid.errors[0].path).toBe('sarif[0].version');
+  });
+
+  it('exports one run per tool with waived findings suppressed', () => {
+    const { issues } = sarifService.fromSarif([codeqlLog], { rootPath: '/home/runner/work/app' });
+    const native = {
+      ruleId: 'security.secrets',
+      severity: 'critical' as const,
+      file: 'src/config.ts',
+      line: 2,
+      message: 'Potential secret or API key exposed in code',
+      confidence: 0.8,
+      fingerprint: 'abc123',
+    };
+
+    const log = sarifService.toSarif([native, issues[0]], { waivedFindings: [issues[1]] });
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs.map((run) => run.tool.driver.name)).toEqual(['ReadyLayer', 'CodeQL']);
+    expect(log.runs[0].tool.driver.rules[0]).toMatchObject({ id: 'security.secrets', name: 'Secrets in Code' });
+    expect(log.runs[0].results[0]).toMatchObject({
+      ruleId: 'security.secrets',
+      level: 'error',
+      partialFingerprints: { 'readylayer/v1': 'abc123' },
+    });
+    expect(log.runs[1].results.map((result) => result.ruleId)).toEqual(['js/sql-injection', 'js/unused-local-variable']);
+    expect(log.runs[1].results[1].suppressions).toEqual([{ kind: 'external', status: 'accepted' }]);
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * SARIF Service
+ *
+ * Converts review findings to SARIF 2.1.0 for code-scanning UIs, and
+ * third-party SARIF (CodeQL, Semgrep, ESLint, ...) into `Issue`s so those
+ * results are gated by policy like native rules
+ */
+
+import { z } from 'zod';
+import { Issue, TraceStep, staticAnalysisService } from '../static-analysis';
+
+const SARIF_VERSION = '2.1.0';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const FINGERPRINT_KEY = 'readylayer/v1';
+const MAX_RESULTS_PER_LOG = 10000;
+
+const messageSchema = z.object({
+  text: z.string().optional(),
+  id: z.string().optional(),
+  arguments: z.array(z.string()).optional(),
+}).passthrough();
+
+const locationSchema = z.object({
+  physicalLocation: z.object({
+    artifactLocation: z.object({
+      uri: z.string().optional(),
+      index: z.number().int().optional(),
+    }).passthrough().optional(),
+    region: z.object({
+      startLine: z.number().int().min(1).optional(),
+      startColumn: z.number().int().min(1).optional(),
+    }).passthrough().optional(),
+  }).passthrough().optional(),
+  message: messageSchema.optional(),
+}).passthrough();
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  shortDescription: messageSchema.optional(),
+  messageStrings: z.record(z.object({ text: z.string() }).passthrough()).optional(),
+  defaultConfiguration: z.object({
+    level: z.enum(['none', 'note', 'warning', 'error']).optional(),
+  }).passthrough().optional(),
+  properties: z.record(z.unknown()).optional(),
+}).passthrough();
+
+const resultSchema = z.object({
+  ruleId: z.string().optional(),
+  ruleIndex: z.number().int().min(0).optional(),
+  rule: z.object({ id: z.string().optional(), index: z.number().int().optional() }).passthrough().optional(),
+  kind: z.enum(['notApplicable', 'pass', 'fail', 'review', 'open', 'informational']).optional(),
+  level: z.enum(['none', 'note', 'warning', 'error']).optional(),
+  message: messageSchema,
+  locations: z.array(locationSchema).optional(),
+  codeFlows: z.array(z.object({
+    threadFlows: z.array(z.object({
+      locations: z.array(z.object({ location: locationSchema.optional() }).passthrough()),
+    }).passthrough()),
+  }).passthrough()).optional(),
+  fixes: z.array(z.object({ description: messageSchema.optional() }).passthrough()).optional(),
+  suppressions: z.array(z.object({
+    status: z.enum(['accepted', 'underReview', 'rejected']).optional(),
+  }).passthrough()).optional(),
+  properties: z.record(z.unknown()).optional(),
+}).passthrough();
+
+const sarifLogSchema = z.object({
+  version: z.literal(SARIF_VERSION),
+  runs: z.array(z.object({
+    tool: z.object({
+      driver: z.object({
+        name: z.string().min(1),
+        version: z.string().optional(),
+        semanticVersion: z.string().optional(),
+        rules: z.array(ruleSchema).optional(),
+      }).passthrough(),
+    }).passthrough(),
+    artifacts: z.array(z.object({
+      location: z.object({ uri: z.string().optional() }).passthrough().optional(),
+    }).passthrough()).optional(),
+    results: z.array(resultSchema).max(MAX_RESULTS_PER_LOG).optional(),
+  }).passthrough()),
+}).passthrough();
+
+type SarifRule = z.infer<typeof ruleSchema>;
+type SarifResult = z.infer<typeof resultSchema>;
+type SarifLocation = z.infer<typeof locationSchema>;
+type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifLog {
+  version: typeof SARIF_VERSION;
+  $schema: string;
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri?: string;
+      rules: Array<{
+        id: string;
+        name?: string;
+        shortDescription?: { text: string };
+        defaultConfiguration: { level: SarifLevel };
+        properties?: Record<string, unknown>;
+      }>;
+    };
+  };
+  results: Array<Record<string, unknown>>;
+}
+
+export interface SarifExportOptions {
+  waivedFindings?: Issue[]; // Exported as suppressed results
+}
+
+export interface SarifImportOptions {
+  rootPath?: string; // Prefix stripped from absolute artifact URIs, e.g. the CI checkout dir
+}
+
+export interface SarifImportError {
+  path: string;
+  error: string;
+}
+
+export interface SarifImportResult {
+  issues: Issue[];
+  tools: Record<string, string>; // Tool name -> version, for evidence bundles
+  errors: SarifImportError[];
+}
+
+const LEVEL_BY_SEVERITY: Record<Issue['severity'], SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// Without a security-severity score, `error` stays below critical so only scored results always block
+const SEVERITY_BY_LEVEL: Record<Exclude<SarifLevel, 'none'>, Issue['severity']> = {
+  error: 'high',
+  warning: 'medium',
+  note: 'low',
+};
+
+const CONFIDENCE_BY_PRECISION: Record<string, number> = {
+  'very-high': 0.95,
+  high: 0.9,
+  medium: 0.7,
+  low: 0.5,
+};
+
+/**
+ * Namespace for a third-party tool's rule ids, e.g. `codeql:js/sql-injection`
+ */
+export function externalRuleId(toolName: string, ruleId: string): string {
+  const tool = toolName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${tool}:${ruleId}`;
+}
+
+function severityFromScore(score: number): Issue['severity'] {
+  if (score >= 9) {
+    return 'critical';
+  }
+  if (score >= 7) {
+    return 'high';
+  }
+  return score >= 4 ? 'medium' : 'low';
+}
+
+function securitySeverity(...sources: Array<Record<string, unknown> | undefined>): number | null {
+  for (const properties of sources) {
+    const value = Number(properties?.['security-severity']);
+    if (properties?.['security-severity'] !== undefined && Number.isFinite(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function formatMessage(message: z.infer<typeof messageSchema> | undefined, rule: SarifRule | undefined): string | null {
+  const template = message?.text ?? (message?.id ? rule?.messageStrings?.[message.id]?.text : undefined);
+  if (!template) {
+    return null;
+  }
+  const args = message?.arguments || [];
+  return template.replace(/\{(\d+)\}/g, (match, index: string) => args[Number(index)] ?? match);
+}
+
+function location(issue: Pick<Issue, 'file' | 'line' | 'column'>, message?: string): Record<string, unknown> {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: issue.file },
+      region: {
+        startLine: issue.line,
+        ...(issue.column !== undefined && { startColumn: issue.column + 1 }),
+      },
+    },
+    ...(message && { message: { text: message } }),
+  };
+}
+
+/**
+ * SARIF Service
+ */
+export class SarifService {
+  /**
+   * Build a SARIF log with one run per tool: ReadyLayer's own findings plus
+   * any imported ones, which keep their original rule ids
+   */
+  toSarif(findings: Issue[], options: SarifExportOptions = {}): SarifLog {
+    const ruleNames = new Map(staticAnalysisService.getRules().map((rule) => [rule.id, rule.name]));
+    const runs = new Map<string, SarifRun>();
+    const ruleIndexes = new Map<string, Map<string, number>>();
+
+    const runFor = (toolName: string): SarifRun => {
+      let run = runs.get(toolName);
+      if (!run) {
+        run = {
+          tool: {
+            driver: {
+              name: toolName,
+              ...(toolName === 'ReadyLayer' && { informationUri: 'https://readylayer.com' }),
+              rules: [],
+            },
+          },
+          results: [],
+        };
+        runs.set(toolName, run);
+        ruleIndexes.set(toolName, new Map());
+      }
+      return run;
+    };
+
+    const add = (issue: Issue, suppressed: boolean) => {
+      const toolName = issue.tool || 'ReadyLayer';
+      const run = runFor(toolName);
+      // Imported findings go back out under the tool's own rule id
+      const prefix = issue.tool ? externalRuleId(issue.tool, '') : '';
+      const ruleId = prefix && issue.ruleId.startsWith(prefix) ? issue.ruleId.slice(prefix.length) : issue.ruleId;
+      const indexes = ruleIndexes.get(toolName)!;
+      let ruleIndex = indexes.get(ruleId);
+      if (ruleIndex === undefined) {
+        ruleIndex = run.tool.driver.rules.length;
+        indexes.set(ruleId, ruleIndex);
+        const name = ruleNames.get(ruleId);
+        run.tool.driver.rules.push({
+          id: ruleId,
+          ...(name && { name, shortDescription: { text: name } }),
+          defaultConfiguration: { level: LEVEL_BY_SEVERITY[issue.severity] },
+        });
+      }
+
+      run.results.push({
+        ruleId,
+        ruleIndex,
+        level: LEVEL_BY_SEVERITY[issue.severity],
+        message: { text: issue.message },
+        locations: [location(issue)],
+        ...(issue.fingerprint && { partialFingerprints: { [FINGERPRINT_KEY]: issue.fingerprint } }),
+        ...(issue.trace?.length && {
+          codeFlows: [{
+            threadFlows: [{
+              locations: issue.trace.map((step) => ({
+                location: location({ file: issue.file, line: step.line, column: step.column }, step.message),
+              })),
+            }],
+          }],
+        }),
+        ...(suppressed && { suppressions: [{ kind: 'external', status: 'accepted' }] }),
+        properties: {
+          severity: issue.severity,
+          confidence: issue.confidence,
+          ...(issue.fix && { fix: issue.fix }),
+          ...(issue.lineChange && { lineChange: issue.lineChange }),
+          ...(issue.baselineStatus && { baselineStatus: issue.baselineStatus }),
+        },
+      });
+    };
+
+    findings.forEach((issue) => add(issue, false));
+    (options.waivedFindings || []).forEach((issue) => add(issue, true));
+
+    // An empty log still names the tool, so "no findings" is distinguishable from "not run"
+    if (runs.size === 0) {
+      runFor('ReadyLayer');
+    }
+
+    return {
+      version: SARIF_VERSION,
+      $schema: SARIF_SCHEMA,
+      runs: Array.from(runs.values()),
+    };
+  }
+
+  /**
+   * Convert third-party SARIF logs into issues. Passing, informational and
+   * suppressed results are skipped; invalid logs are reported, not thrown.
+   */
+  fromSarif(logs: unknown[], options: SarifImportOptions = {}): SarifImportResult {
+    const issues: Issue[] = [];
+    const tools: Record<string, string> = {};
+    const errors: SarifImportError[] = [];
+
+    logs.forEach((raw, logIndex) => {
+      const parsed = sarifLogSchema.safeParse(raw);
+      if (!parsed.success) {
+        for (const issue of parsed.error.errors.slice(0, 10)) {
+          errors.push({ path: [`sarif[${logIndex}]`, ...issue.path].join('.'), error: issue.message });
+        }
+        return;
+      }
+
+      for (const run of parsed.data.runs) {
+        const driver = run.tool.driver;
+        tools[driver.name] = driver.semanticVersion || driver.version || 'unknown';
+        const rules = driver.rules || [];
+        const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+        const artifactUri = (index?: number) => (index !== undefined ? run.artifacts?.[index]?.location?.uri : undefined);
+
+        for (const result of run.results || []) {
+          const issue = this.toIssue(driver.name, result, rules, rulesById, artifactUri, options);
+          if (issue) {
+            issues.push(issue);
+          }
+        }
+      }
+    });
+
+    return { issues, tools, errors };
+  }
+
+  private toIssue(
+    toolName: string,
+    result: SarifResult,
+    rules: SarifRule[],
+    rulesById: Map<string, SarifRule>,
+    artifactUri: (index?: number) => string | undefined,
+    options: SarifImportOptions
+  ): Issue | null {
+    if (result.kind && result.kind !== 'fail') {
+      return null;
+    }
+    if (result.suppressions?.some((suppression) => suppression.status !== 'underReview' && suppression.status !== 'rejected')) {
+      return null;
+    }
+
+    const ruleIndex = result.ruleIndex ?? result.rule?.index;
+    const rule = (ruleIndex !== undefined ? rules[ruleIndex] : undefined) ??
+      rulesById.get(result.ruleId ?? result.rule?.id ?? '');
+    const ruleId = result.ruleId ?? result.rule?.id ?? rule?.id;
+    const level = result.level ?? rule?.defaultConfiguration?.level ?? 'warning';
+    if (!ruleId || level === 'none') {
+      return null;
+    }
+
+    const score = securitySeverity(result.properties, rule?.properties);
+    const physical = result.locations?.[0]?.physicalLocation;
+    const file = this.normalizeUri(physical?.artifactLocation?.uri ?? artifactUri(physical?.artifactLocation?.index), options);
+    if (!file) {
+      return null;
+    }
+    const precision = rule?.properties?.precision;
+
+    return {
+      ruleId: externalRuleId(toolName, ruleId),
+      severity: score !== null ? severityFromScore(score) : SEVERITY_BY_LEVEL[level],
+      file,
+      line: physical?.region?.startLine ?? 1,
+      column: physical?.region?.startColumn !== undefined ? physical.region.startColumn - 1 : undefined,
+      message: formatMessage(result.message, rule) ?? formatMessage(rule?.shortDescription, rule) ?? ruleId,
+      fix: result.fixes?.[0]?.description?.text,
+      confidence: typeof precision === 'string' ? CONFIDENCE_BY_PRECISION[precision] ?? 0.8 : 0.8,
+      trace: this.toTrace(result),
+      tool: toolName,
+    };
+  }
+
+  private toTrace(result: SarifResult): TraceStep[] | undefined {
+    const steps = result.codeFlows?.[0]?.threadFlows?.[0]?.locations
+      .map((step) => step.location)
+      .filter((loc): loc is SarifLocation => !!loc?.physicalLocation?.region?.startLine)
+      .map((loc) => ({
+        line: loc.physicalLocation!.region!.startLine!,
+        column: loc.physicalLocation!.region!.startColumn !== undefined
+          ? loc.physicalLocation!.region!.startColumn - 1
+          : undefined,
+        message: loc.message?.text || 'Data flows through here',
+      }));
+    return steps && steps.length > 0 ? steps : undefined;
+  }
+
+  /**
+   * Repository-relative path from a SARIF artifact URI
+   */
+  private normalizeUri(uri: string | undefined, options: SarifImportOptions): string | null {
+    if (!uri) {
+      return null;
+    }
+    let path = uri.replace(/^file:\/\//, '');
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // Keep the raw URI
+    }
+    const root = options.rootPath?.replace(/\/+$/, '');
+    if (root && path.startsWith(`${root}/`)) {
+      path = path.slice(root.length + 1);
+    }
+    return path.replace(/^\.\//, '') || null;
+  }
+}
+
+export const sarifService = new SarifService();
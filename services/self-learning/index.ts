@@ -45,6 +45,11 @@ export interface AggregatedInsight {
   metadata: Record<string, unknown>;
 }
 
+export interface ModelAgreement {
+  agreed: number; // Findings at least one other consensus model also reported
+  total: number;
+}
+
 export interface ConfidenceScore {
   baseConfidence: number; // Initial confidence
   experienceMultiplier: number; // Increases with more data
@@ -103,6 +108,32 @@ export class SelfLearningService {
     await this.updateAggregatedMetrics(organizationId, modelId, provider);
   }
 
+  /**
+   * Record, per rule category, how many of a model's findings the other
+   * models of a consensus review confirmed
+   */
+  async recordModelAgreement(
+    organizationId: string,
+    modelId: string,
+    provider: string,
+    agreement: Record<string, ModelAgreement>,
+    predictionId?: string
+  ): Promise<void> {
+    await prisma.modelPerformance.create({
+      data: {
+        organizationId,
+        modelId,
+        provider,
+        success: true,
+        responseTimeMs: 0,
+        tokensUsed: 0, // Spend is recorded with the completions themselves
+        cost: 0,
+        predictionId,
+        metadata: { type: 'consensus', agreement } as any,
+      },
+    });
+  }
+
   /**
    * Record prediction feedback
    */
@@ -153,11 +184,13 @@ export class SelfLearningService {
   }
 
   /**
-   * Calculate confidence score for a prediction
+   * Calculate confidence score for a prediction. For 'ai_finding' with a
+   * context of { organizationId, modelId, ruleCategory }, history defaults
+   * to the model's consensus agreement in that category.
    */
   async calculateConfidenceScore(
-    _predictionType: string,
-    _context: Record<string, unknown>,
+    predictionType: string,
+    context: Record<string, unknown>,
     historicalData?: {
       similarPredictions: number;
       accuracyRate: number;
@@ -167,6 +200,15 @@ export class SelfLearningService {
     // Base confidence starts lower and increases with experience
     let baseConfidence = 0.5;
 
+    if (
+      !historicalData && predictionType === 'ai_finding' &&
+      typeof context.organizationId === 'string' &&
+      typeof context.modelId === 'string' &&
+      typeof context.ruleCategory === 'string'
+    ) {
+      historicalData = await this.getAgreementHistory(context.organizationId, context.modelId, context.ruleCategory);
+    }
+
     if (historicalData) {
       // More similar predictions = higher base confidence
       const experienceFactor = Math.min(historicalData.similarPredictions / 100, 1);
@@ -203,6 +245,57 @@ export class SelfLearningService {
     };
   }
 
+  /**
+   * Agreement rate of a model's findings in one rule category over the last
+   * 90 days; recent trend compares the last 30 days to that
+   */
+  private async getAgreementHistory(
+    organizationId: string,
+    modelId: string,
+    ruleCategory: string
+  ): Promise<{ similarPredictions: number; accuracyRate: number; recentTrend: number } | undefined> {
+    const day = 24 * 60 * 60 * 1000;
+    const records = await prisma.modelPerformance.findMany({
+      where: {
+        organizationId,
+        modelId,
+        timestamp: { gte: new Date(Date.now() - 90 * day) },
+        metadata: { path: ['type'], equals: 'consensus' },
+      },
+      orderBy: { timestamp: 'desc' },
+      take: 1000,
+      select: { metadata: true, timestamp: true },
+    });
+
+    const recentSince = Date.now() - 30 * day;
+    let agreed = 0;
+    let total = 0;
+    let recentAgreed = 0;
+    let recentTotal = 0;
+    for (const record of records) {
+      const entry = (record.metadata as { agreement?: Record<string, ModelAgreement> } | null)?.agreement?.[ruleCategory];
+      if (!entry) {
+        continue;
+      }
+      agreed += entry.agreed;
+      total += entry.total;
+      if (record.timestamp.getTime() >= recentSince) {
+        recentAgreed += entry.agreed;
+        recentTotal += entry.total;
+      }
+    }
+
+    if (total === 0) {
+      return undefined;
+    }
+    const accuracyRate = agreed / total;
+    return {
+      similarPredictions: total,
+      accuracyRate,
+      recentTrend: recentTotal > 0 && accuracyRate > 0 ? (recentAgreed / recentTotal) / accuracyRate : 1,
+    };
+  }
+
   /**
    * Get trust level from confidence score
    */
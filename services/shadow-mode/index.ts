@@ -87,7 +87,7 @@ export class ShadowModeService {
         id: 'shadow-error',
         status: 'failed',
         issues: [],
-        summary: { total: 0, critical: 0, high: 0, medium: 0, low: 0 },
+        summary: { total: 0, critical: 0, high: 0, medium: 0, low: 0, new: 0, baseline: 0, hidden: 0 },
         isBlocked: false,
         startedAt: new Date(),
         completedAt: new Date(),
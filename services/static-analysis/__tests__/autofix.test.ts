@@ -0,0 +1,63 @@
+/**
+ * Autofix Tests
+ *
+ * Rule fixes must produce code that still parses and a patch git can apply
+ */
+
+import { buildPatch, staticAnalysisService } from '../index';
+
+describe('Autofix', () => {
+  const source = [
+    "import { useState, useEffect, useMemo } from 'react';",
+    "import lodash from 'lodash';",
+    '',
+    'export function load(input: any): number {',
+    '  useState(0);',
+    '  useMemo(() => input, [input]);',
+    '  return 1;',
+    '}',
+    '',
+  ].join('\n');
+
+  it('removes unused imports and replaces any annotations', async () => {
+    const issues = await staticAnalysisService.analyze('src/load.ts', source);
+    const patch = buildPatch([{ path: 'src/load.ts', content: source }], issues);
+
+    expect(issues.find((issue) => issue.message.includes("'useEffect'"))?.suggestion).toEqual({
+      startLine: 1,
+      endLine: 1,
+      text: "import { useState, useMemo } from 'react';",
+    });
+    expect(patch).toBe([
+      'diff --git a/src/load.ts b/src/load.ts',
+      '--- a/src/load.ts',
+      '+++ b/src/load.ts',
+      '@@ -1,7 +1,6 @@',
+      "-import { useState, useEffect, useMemo } from 'react';",
+      "-import lodash from 'lodash';",
+      "+import { useState, useMemo } from 'react';",
+      ' ',
+      '-export function load(input: any): number {',
+      '+export function load(input: unknown): number {',
+      '   useState(0);',
+      '   useMemo(() => input, [input]);',
+      '   return 1;',
+      '',
+    ].join('\n'));
+  });
+
+  it('drops fixes that break the file', async () => {
+    const issues = await staticAnalysisService.validateFixes('src/load.ts', source, [{
+      ruleId: 'ai.example',
+      severity: 'low',
+      file: 'src/load.ts',
+      line: 4,
+      message: 'Example',
+      edits: [{ startLine: 4, startColumn: 0, endLine: 4, endColumn: 6, text: 'export {' }],
+      confidence: 0.5,
+    }]);
+
+    expect(issues[0].edits).toBeUndefined();
+    expect(issues[0].suggestion).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Custom Rule Tests
+ *
+ * Declarative rules from a policy pack should validate strictly and run
+ * alongside the built-in rules for their organization only
+ */
+
+import { staticAnalysisService, parseCustomRules } from '../index';
+
+describe('Custom rules', () => {
+  it('rejects invalid definitions and ids that shadow built-in rules', () => {
+    const { rules, errors } = parseCustomRules(
+      [
+        { id: 'acme.todo', severity: 'low', message: 'TODO left behind', pattern: { type: 'regex', regex: 'TODO' } },
+        { id: 'acme.bad-regex', severity: 'low', message: 'x', pattern: { type: 'regex', regex: '(' } },
+        { id: 'acme.bad-node', severity: 'low', message: 'x', pattern: { type: 'ast', node: 'NotANode' } },
+        { id: 'security.sql-injection', severity: 'low', message: 'x', pattern: { type: 'regex', regex: 'x' } },
+        { id: 'acme.backtracking', severity: 'low', message: 'x', pattern: { type: 'regex', regex: '(a+)+$' } },
+        { id: 'acme.backtracking-source', severity: 'low', message: 'x', pattern: { type: 'ast', node: 'Program', source: '(x+x+)+y' } },
+      ],
+      staticAnalysisService.getRules().map((rule) => rule.id)
+    );
+
+    expect(rules.map((rule) => rule.id)).toEqual(['acme.todo']);
+    expect(errors.map((error) => error.ruleId)).toEqual([
+      'acme.bad-regex',
+      'acme.bad-node',
+      'security.sql-injection',
+      'acme.backtracking',
+      'acme.backtracking-source',
+    ]);
+    expect(errors[0].error).toBe('pattern.regex: Invalid regular expression');
+    expect(errors[3].error).toContain('backtrack');
+  });
+
+  it('runs regex and AST patterns within their path filters', async () => {
+    const { rules } = parseCustomRules([
+      {
+        id: 'acme.no-child-process',
+        severity: 'high',
+        message: 'Spawn processes through the job runner',
+        paths: { include: ['src/**'], exclude: ['**/*.test.ts'] },
+        pattern: { type: 'ast', node: 'CallExpression', callee: 'child_process.*', notInside: 'TryStatement' },
+      },
+      {
+        id: 'acme.todo',
+        severity: 'low',
+        message: 'TODO left behind',
+        pattern: { type: 'regex', regex: 'TODO', flags: 'i' },
+      },
+    ]);
+    const content = [
+      '// todo: remove',
+      "child_process.exec('ls');",
+      'try {',
+      "  child_process.spawn('ls');",
+      '} catch (e) {}',
+    ].join('\n');
+
+    const customRuleSet = staticAnalysisService.registerOrganizationRules('org_acme', rules);
+    const lines = async (filePath: string, ruleSet?: string) =>
+      (await staticAnalysisService.analyze(filePath, content, { customRuleSet: ruleSet }))
+        .filter((issue) => issue.ruleId.startsWith('acme.'))
+        .map((issue) => [issue.ruleId, issue.line]);
+
+    expect(await lines('src/jobs/run.ts', customRuleSet)).toEqual([['acme.no-child-process', 2], ['acme.todo', 1]]);
+    expect(await lines('src/jobs/run.test.ts', customRuleSet)).toEqual([['acme.todo', 1]]);
+    expect(await lines('src/jobs/run.ts')).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Finding Fingerprint Tests
+ *
+ * The same finding must keep its fingerprint when unrelated code moves it
+ */
+
+import { staticAnalysisService } from '../index';
+
+describe('Finding fingerprints', () => {
+  const original = [
+    "import { db } from './db';",
+    '',
+    'export function findUser(id: string) {',
+    "  return db.query('SELECT * FROM users WHERE id = ' + id);",
+    '}',
+  ].join('\n');
+
+  it('survive imports added above and re-indentation', async () => {
+    const shifted = [
+      "import { db } from './db';",
+      "import { logger } from './logger';",
+      '',
+      '',
+      'export function findUser(id: string) {',
+      "    return db.query( 'SELECT * FROM users WHERE id = '  +  id );",
+      '}',
+    ].join('\n');
+
+    const before = await staticAnalysisService.analyze('src/users.ts', original);
+    const after = await staticAnalysisService.analyze('src/users.ts', shifted);
+    const injection = (issues: typeof before) => issues.find((issue) => issue.ruleId === 'security.sql-injection');
+
+    expect(injection(before)?.fingerprint).toBeDefined();
+    expect(injection(after)?.line).not.toBe(injection(before)?.line);
+    expect(injection(after)?.fingerprint).toBe(injection(before)?.fingerprint);
+  });
+
+  it('tell apart identical findings in other symbols', async () => {
+    const duplicated = original + '\n' + original.split('\n').slice(2).join('\n').replace('findUser', 'findAdmin');
+
+    const issues = (await staticAnalysisService.analyze('src/users.ts', duplicated))
+      .filter((issue) => issue.ruleId === 'security.sql-injection');
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].fingerprint).not.toBe(issues[1].fingerprint);
+  });
+});
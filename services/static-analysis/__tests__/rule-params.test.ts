@@ -0,0 +1,55 @@
+/**
+ * Rule Params Tests
+ *
+ * Policy params tune built-in rules and are validated against the
+ * schema each rule declares
+ */
+
+import { staticAnalysisService } from '../index';
+
+const branchy = `
+export function route(a: number, b: boolean, c?: string) {
+  if (a > 1) { return 1; }
+  if (a > 2) { return 2; }
+  if (b && c) { return 3; }
+  return c ?? 'none';
+}
+`;
+
+describe('Rule params', () => {
+  it('applies thresholds, extra patterns and allowlisted paths', async () => {
+    const complexity = async (filePath: string, ruleParams?: Record<string, Record<string, unknown>>) =>
+      (await staticAnalysisService.analyze(filePath, branchy, { ruleParams }))
+        .filter((issue) => issue.ruleId === 'quality.high-complexity');
+
+    expect(await complexity('src/route.ts')).toHaveLength(0);
+    expect(await complexity('src/route.ts', { 'quality.high-complexity': { threshold: 3 } })).toHaveLength(1);
+    expect(await complexity('src/route.ts', {
+      'quality.high-complexity': { threshold: 3, allowlistPaths: ['src/**'] },
+    })).toHaveLength(0);
+
+    const secret = `const id = 'acme_prod_0123456789abcdef';\n`;
+    const secrets = async (ruleParams?: Record<string, Record<string, unknown>>) =>
+      (await staticAnalysisService.analyze('src/config.ts', secret, { ruleParams }))
+        .filter((issue) => issue.ruleId === 'security.secrets');
+
+    expect(await secrets()).toHaveLength(0);
+    expect(await secrets({ 'security.secrets': { extraPatterns: ['^acme_prod_[0-9a-f]{16}$'] } })).toHaveLength(1);
+  });
+
+  it('rejects params that do not match the rule schema', () => {
+    expect(staticAnalysisService.validateRuleParams('quality.high-complexity', { threshold: 10 })).toEqual([]);
+    expect(staticAnalysisService.validateRuleParams('quality.high-complexity', { threshold: 2.5 })).toEqual([
+      'threshold must be an integer',
+    ]);
+    expect(staticAnalysisService.validateRuleParams('security.secrets', {
+      extraPatterns: ['('],
+      typo: true,
+      preExisting: 'ignore',
+    })).toHaveLength(3);
+    expect(staticAnalysisService.validateRuleParams('security.secrets', { extraPatterns: ['(a+)+$'] })[0]).toMatch(/backtrack/);
+    expect(staticAnalysisService.validateRuleParams('*', { preExisting: { critical: 'block', low: 'hide' } })).toEqual([]);
+    // Rule ids the analyzer doesn't know (e.g. AI findings) only have policy params checked
+    expect(staticAnalysisService.validateRuleParams('ai.custom-check', { anything: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Autofix
+ *
+ * Structured fixes: text edits attached to a finding (`Issue.edits`),
+ * applied to the file content, and rendered as unified diffs or as
+ * whole-line suggestions for PR review comments.
+ */
+
+import type { Issue } from './index';
+
+export interface TextEdit {
+  startLine: number; // 1-based
+  startColumn: number; // 0-based
+  endLine: number;
+  endColumn: number; // Exclusive
+  text: string; // Replacement ('' deletes the range)
+}
+
+/**
+ * Whole-line replacement, the shape PR suggestion blocks need
+ */
+export interface SuggestedChange {
+  startLine: number;
+  endLine: number;
+  text: string; // Replaces lines startLine..endLine; '' deletes them
+}
+
+const DIFF_CONTEXT = 3;
+const MAX_LCS_CELLS = 4_000_000; // Larger changed regions are diffed as one replacement
+
+export function isTextEdit(value: unknown): value is TextEdit {
+  const edit = value as TextEdit;
+  return !!edit && typeof edit === 'object' &&
+    [edit.startLine, edit.startColumn, edit.endLine, edit.endColumn].every((n) => Number.isInteger(n) && n >= 0) &&
+    edit.startLine >= 1 && edit.endLine >= 1 &&
+    typeof edit.text === 'string';
+}
+
+function lineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function toOffset(starts: number[], content: string, line: number, column: number): number | null {
+  if (line > starts.length) {
+    return null;
+  }
+  const lineEnd = line < starts.length ? starts[line] - 1 : content.length;
+  const offset = starts[line - 1] + column;
+  // Column may point just past the newline only as the start of the next line
+  return offset <= lineEnd + (line < starts.length ? 1 : 0) ? offset : null;
+}
+
+/**
+ * Edit covering a character range, e.g. a Babel node's `start`/`end`
+ */
+export function editFromOffsets(content: string, start: number, end: number, text: string): TextEdit {
+  const starts = lineStarts(content);
+  const position = (offset: number) => {
+    let line = starts.length;
+    while (starts[line - 1] > offset) {
+      line--;
+    }
+    return { line, column: offset - starts[line - 1] };
+  };
+  const from = position(start);
+  const to = position(end);
+  return { startLine: from.line, startColumn: from.column, endLine: to.line, endColumn: to.column, text };
+}
+
+/**
+ * Edit deleting a node's lines when nothing else shares them, or just the
+ * node's text otherwise
+ */
+export function removalEdit(content: string, start: number, end: number): TextEdit {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const newline = content.indexOf('\n', end);
+  const lineEnd = newline === -1 ? content.length : newline + 1;
+  const ownsLines = !content.slice(lineStart, start).trim() && !content.slice(end, lineEnd).trim();
+  return ownsLines
+    ? editFromOffsets(content, lineStart, lineEnd, '')
+    : editFromOffsets(content, start, end, '');
+}
+
+function resolveRanges(content: string, edits: TextEdit[]): Array<{ start: number; end: number; text: string }> | null {
+  const starts = lineStarts(content);
+  const ranges: Array<{ start: number; end: number; text: string }> = [];
+  for (const edit of edits) {
+    const start = toOffset(starts, content, edit.startLine, edit.startColumn);
+    const end = toOffset(starts, content, edit.endLine, edit.endColumn);
+    if (start === null || end === null || end < start) {
+      return null;
+    }
+    ranges.push({ start, end, text: edit.text });
+  }
+  ranges.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i].start < ranges[i - 1].end) {
+      return null;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Apply edits to content; null if any edit is out of range or edits overlap
+ */
+export function applyEdits(content: string, edits: TextEdit[]): string | null {
+  const ranges = resolveRanges(content, edits);
+  if (!ranges) {
+    return null;
+  }
+  let result = content;
+  for (const range of [...ranges].reverse()) {
+    result = result.slice(0, range.start) + range.text + result.slice(range.end);
+  }
+  return result;
+}
+
+/**
+ * The lines touched by the edits, before and after applying them
+ */
+export function suggestedChange(content: string, edits: TextEdit[]): SuggestedChange | null {
+  const fixed = applyEdits(content, edits);
+  if (fixed === null || edits.length === 0) {
+    return null;
+  }
+
+  const before = content.split('\n');
+  const after = fixed.split('\n');
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  if (prefix === before.length && prefix === after.length) {
+    return null;
+  }
+
+  // Pure insertions still need a line to anchor the suggestion to
+  const startLine = Math.min(prefix + 1, before.length);
+  const endLine = Math.max(startLine, before.length - suffix);
+  const replaced = after.slice(startLine - 1, after.length - (before.length - endLine));
+  return { startLine, endLine, text: replaced.join('\n') };
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const middle: DiffOp[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    middle.push(...a.map((line) => ({ type: '-' as const, line })), ...b.map((line) => ({ type: '+' as const, line })));
+  } else {
+    // Longest common subsequence, walked from the front
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: ' ', line: a[i++] });
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        middle.push({ type: '-', line: a[i++] });
+      } else {
+        middle.push({ type: '+', line: b[j++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, prefix).map((line) => ({ type: ' ' as const, line })),
+    ...middle,
+    ...before.slice(before.length - suffix).map((line) => ({ type: ' ' as const, line })),
+  ];
+}
+
+// Marks a last line without a newline, so gaining or losing one is a change
+const NO_FINAL_NEWLINE = '\u0000';
+
+function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  const lines = content.split('\n');
+  if (content.endsWith('\n')) {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_FINAL_NEWLINE;
+  }
+  return lines;
+}
+
+/**
+ * Git-style unified diff of one file; '' when nothing changed
+ */
+export function createUnifiedDiff(filePath: string, before: string, after: string): string {
+  if (before === after) {
+    return '';
+  }
+
+  const ops = diffLines(splitLines(before), splitLines(after));
+
+  // Old and new lines preceding each op
+  const preceding: Array<{ old: number; new: number }> = [];
+  let oldLines = 0;
+  let newLines = 0;
+  for (const op of ops) {
+    preceding.push({ old: oldLines, new: newLines });
+    if (op.type !== '+') {
+      oldLines++;
+    }
+    if (op.type !== '-') {
+      newLines++;
+    }
+  }
+
+  const hunks: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.type === ' ') {
+      return;
+    }
+    const start = Math.max(0, index - DIFF_CONTEXT);
+    const end = Math.min(ops.length - 1, index + DIFF_CONTEXT);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  const output = [`diff --git a/${filePath} b/${filePath}`, `--- a/${filePath}`, `+++ b/${filePath}`];
+  for (const [start, end] of hunks) {
+    const slice = ops.slice(start, end + 1);
+    const oldCount = slice.filter((op) => op.type !== '+').length;
+    const newCount = slice.filter((op) => op.type !== '-').length;
+    // Empty ranges are numbered by the line before them
+    const oldStart = preceding[start].old + (oldCount > 0 ? 1 : 0);
+    const newStart = preceding[start].new + (newCount > 0 ? 1 : 0);
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+    for (const op of slice) {
+      if (op.line.endsWith(NO_FINAL_NEWLINE)) {
+        output.push(`${op.type}${op.line.slice(0, -1)}`, '\\ No newline at end of file');
+      } else {
+        output.push(`${op.type}${op.line}`);
+      }
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * One patch applying every finding's fix. Fixes that overlap an earlier
+ * finding's fix in the same file are left out.
+ */
+export function buildPatch(files: Array<{ path: string; content: string }>, issues: Issue[]): string {
+  const contents = new Map(files.map((file) => [file.path, file.content]));
+  const editsByFile = new Map<string, TextEdit[]>();
+
+  for (const issue of issues) {
+    const content = contents.get(issue.file);
+    if (!issue.edits?.length || content === undefined) {
+      continue;
+    }
+    const accepted = editsByFile.get(issue.file) || [];
+    if (applyEdits(content, [...accepted, ...issue.edits]) !== null) {
+      editsByFile.set(issue.file, [...accepted, ...issue.edits]);
+    }
+  }
+
+  return Array.from(editsByFile, ([path, edits]) => {
+    const content = contents.get(path)!;
+    return createUnifiedDiff(path, content, applyEdits(content, edits)!);
+  }).join('');
+}
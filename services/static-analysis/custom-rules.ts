@@ -0,0 +1,236 @@
+/**
+ * Custom Rules
+ *
+ * Declarative detections authored in a policy pack's `customRules` array.
+ * A definition is either a per-line regex or an AST pattern (node type plus
+ * optional callee/name/source/ancestor constraints), scoped by path globs,
+ * and compiles into an ordinary `Rule`.
+ */
+
+import { VISITOR_KEYS } from '@babel/types';
+import type * as t from '@babel/types';
+import safeRegex from 'safe-regex2';
+import { z } from 'zod';
+import { getFunctionName, getMemberChain, getSource, isFunctionNode, NodePath, Visitor } from './visitor';
+import { globToRegExp } from './rule-params';
+import type { Issue, Rule } from './index';
+
+const MAX_REGEX_LENGTH = 500;
+const MAX_LINE_LENGTH = 2000; // Longer lines (minified bundles) are skipped by regex rules
+const MAX_SOURCE_LENGTH = 10000; // Longer node sources (e.g. whole programs) are skipped by `source` patterns
+
+function isValidRegex(pattern: string, flags?: string): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Rules run synchronously on shared workers, so patterns with nested
+// quantifiers that can backtrack exponentially are rejected
+const regexString = z.string().min(1).max(MAX_REGEX_LENGTH)
+  .refine((value) => isValidRegex(value), 'Invalid regular expression')
+  .refine((value) => !isValidRegex(value) || safeRegex(value), 'Regular expression may backtrack catastrophically (nested quantifiers)');
+
+const regexPatternSchema = z.object({
+  type: z.literal('regex'),
+  regex: regexString,
+  flags: z.string().regex(/^[imsu]*$/, 'Only i, m, s and u flags are supported').optional(),
+});
+
+const astPatternSchema = z.object({
+  type: z.literal('ast'),
+  node: z.string().refine((value) => value in VISITOR_KEYS, 'Unknown AST node type'),
+  callee: z.string().min(1).optional(), // Dotted call target, `*` matches one segment: `child_process.*`
+  name: z.string().min(1).optional(), // Identifier, member property or function name
+  source: regexString.optional(), // Tested against the node's source text
+  inside: z.string().refine((value) => value in VISITOR_KEYS, 'Unknown AST node type').optional(),
+  notInside: z.string().refine((value) => value in VISITOR_KEYS, 'Unknown AST node type').optional(),
+});
+
+export const customRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Rule id must be dotted lowercase, e.g. acme.no-console'),
+  name: z.string().min(1).optional(),
+  category: z.enum(['security', 'quality', 'style', 'ai']).default('quality'),
+  severity: z.enum(['critical', 'high', 'medium', 'low']),
+  message: z.string().min(1),
+  fix: z.string().optional(),
+  confidence: z.number().min(0).max(1).default(0.8),
+  enabled: z.boolean().default(true),
+  paths: z.object({
+    include: z.array(z.string().min(1)).optional(),
+    exclude: z.array(z.string().min(1)).optional(),
+  }).optional(),
+  pattern: z.discriminatedUnion('type', [regexPatternSchema, astPatternSchema]),
+});
+
+export type CustomRuleDefinition = z.infer<typeof customRuleSchema>;
+
+export interface CustomRuleError {
+  ruleId: string;
+  error: string;
+}
+
+export interface ParsedCustomRules {
+  rules: CustomRuleDefinition[];
+  errors: CustomRuleError[];
+}
+
+/**
+ * Validate the `customRules` array of a parsed policy document. Ids that
+ * collide with built-in rules or repeat are rejected.
+ */
+export function parseCustomRules(value: unknown, builtInRuleIds: Iterable<string> = []): ParsedCustomRules {
+  const rules: CustomRuleDefinition[] = [];
+  const errors: CustomRuleError[] = [];
+
+  if (value === undefined) {
+    return { rules, errors };
+  }
+  if (!Array.isArray(value)) {
+    return { rules, errors: [{ ruleId: 'customRules', error: 'customRules must be an array' }] };
+  }
+
+  const taken = new Set(builtInRuleIds);
+  value.forEach((entry, index) => {
+    const ruleId = typeof entry?.id === 'string' ? entry.id : `customRules[${index}]`;
+    const result = customRuleSchema.safeParse(entry);
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        errors.push({ ruleId, error: `${issue.path.join('.') || 'rule'}: ${issue.message}` });
+      }
+      return;
+    }
+    if (taken.has(result.data.id)) {
+      errors.push({ ruleId, error: 'Rule id is already in use' });
+      return;
+    }
+    taken.add(result.data.id);
+    rules.push(result.data);
+  });
+
+  return { rules, errors };
+}
+
+function pathFilter(paths: CustomRuleDefinition['paths']): (filePath: string) => boolean {
+  const include = (paths?.include || []).map(globToRegExp);
+  const exclude = (paths?.exclude || []).map(globToRegExp);
+  return (filePath) =>
+    (include.length === 0 || include.some((glob) => glob.test(filePath))) &&
+    !exclude.some((glob) => glob.test(filePath));
+}
+
+function matchesCallee(pattern: string, chain: string[] | null): boolean {
+  const expected = pattern.split('.');
+  return !!chain && chain.length === expected.length && expected.every((part, i) => part === '*' || part === chain[i]);
+}
+
+function nodeName(path: NodePath): string | null {
+  const node = path.node;
+  if (node.type === 'Identifier' || node.type === 'JSXIdentifier') {
+    return node.name;
+  }
+  if ((node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') && node.property.type === 'Identifier') {
+    return node.property.name;
+  }
+  if (isFunctionNode(node)) {
+    return getFunctionName(path);
+  }
+  const id = (node as t.Node & { id?: t.Node | null }).id;
+  return id?.type === 'Identifier' ? id.name : null;
+}
+
+function astVisitor(
+  pattern: z.infer<typeof astPatternSchema>,
+  content: string,
+  report: (line: number, column?: number) => void
+): Visitor {
+  const source = pattern.source ? new RegExp(pattern.source) : null;
+  const hasType = (type: string) => (node: t.Node) => node.type === type;
+
+  return {
+    [pattern.node]: (path: NodePath) => {
+      const node = path.node;
+      if (pattern.callee) {
+        const callee = (node as t.Node & { callee?: t.Node }).callee;
+        if (!callee || !matchesCallee(pattern.callee, getMemberChain(callee))) {
+          return;
+        }
+      }
+      if (pattern.name && nodeName(path) !== pattern.name) {
+        return;
+      }
+      if (source) {
+        const text = getSource(node, content);
+        if (text.length > MAX_SOURCE_LENGTH || !source.test(text)) {
+          return;
+        }
+      }
+      if (pattern.inside && !path.findParent(hasType(pattern.inside))) {
+        return;
+      }
+      if (pattern.notInside && path.findParent(hasType(pattern.notInside))) {
+        return;
+      }
+      report(path.line, path.column);
+    },
+  };
+}
+
+/**
+ * Compile a validated definition into a rule the analyzer can run
+ */
+export function compileCustomRule(definition: CustomRuleDefinition): Rule {
+  const appliesTo = pathFilter(definition.paths);
+  const issueFor = (filePath: string, line: number, column?: number): Issue => ({
+    ruleId: definition.id,
+    severity: definition.severity,
+    file: filePath,
+    line,
+    column,
+    message: definition.message,
+    fix: definition.fix,
+    confidence: definition.confidence,
+  });
+  const rule: Rule = {
+    id: definition.id,
+    name: definition.name || definition.id,
+    category: definition.category,
+    severity: definition.severity,
+    enabled: definition.enabled,
+  };
+  const pattern = definition.pattern;
+
+  if (pattern.type === 'regex') {
+    const regex = new RegExp(pattern.regex, pattern.flags);
+    rule.evaluate = (_parseResult, filePath, content) => {
+      if (!appliesTo(filePath)) {
+        return [];
+      }
+      const issues: Issue[] = [];
+      content.split('\n').forEach((text, index) => {
+        if (text.length > MAX_LINE_LENGTH) {
+          return;
+        }
+        const match = regex.exec(text);
+        if (match) {
+          issues.push(issueFor(filePath, index + 1, match.index));
+        }
+      });
+      return issues;
+    };
+  } else {
+    rule.create = (context) => {
+      if (!appliesTo(context.filePath)) {
+        return {};
+      }
+      return astVisitor(pattern, context.content, (line, column) => {
+        context.report({ line, column, message: definition.message, fix: definition.fix, confidence: definition.confidence });
+      });
+    };
+  }
+
+  return rule;
+}
@@ -0,0 +1,105 @@
+/**
+ * Finding Fingerprints
+ *
+ * Content-anchored identity for findings: rule, file, enclosing symbol and
+ * the normalized tokens at the flagged line. Line numbers are deliberately
+ * left out, so a finding keeps its fingerprint when code above it moves.
+ */
+
+import { createHash } from 'crypto';
+import type { ParseResult } from '../code-parser';
+import type { Issue } from './index';
+
+// Short lines such as `}` or `return x;` are extended with the lines below
+const MIN_TOKENS = 4;
+const MAX_CONTEXT_LINES = 3;
+
+interface SymbolRange {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Whitespace-insensitive tokens: identifiers/numbers and single punctuation
+ */
+export function normalizeTokens(source: string): string {
+  return (source.match(/[\w$]+|[^\s\w$]/g) || []).join(' ');
+}
+
+function symbolRanges(parseResult: ParseResult | null): SymbolRange[] {
+  if (!parseResult) {
+    return [];
+  }
+
+  const ranges: SymbolRange[] = parseResult.functions.map((func) => ({
+    name: func.name,
+    start: func.line,
+    end: func.endLine ?? func.line,
+  }));
+  for (const cls of parseResult.classes) {
+    ranges.push({ name: cls.name, start: cls.line, end: cls.endLine ?? cls.line });
+    for (const method of cls.methods) {
+      ranges.push({ name: `${cls.name}.${method.name}`, start: method.line, end: method.endLine ?? method.line });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Innermost function, method or class containing the line ('' at module level)
+ */
+export function enclosingSymbol(parseResult: ParseResult | null, line: number): string {
+  let best: SymbolRange | null = null;
+  for (const range of symbolRanges(parseResult)) {
+    if (range.start <= line && line <= range.end && (!best || range.end - range.start < best.end - best.start)) {
+      best = range;
+    }
+  }
+  return best?.name ?? '';
+}
+
+function anchorTokens(lines: string[], line: number): string {
+  const tokens: string[] = [];
+  let used = 0;
+  for (let index = line - 1; index < lines.length && used < MAX_CONTEXT_LINES; index++) {
+    const normalized = normalizeTokens(lines[index]);
+    if (!normalized && index !== line - 1) {
+      continue;
+    }
+    if (normalized) {
+      tokens.push(normalized);
+    }
+    used++;
+    if (tokens.join(' ').split(' ').length >= MIN_TOKENS) {
+      break;
+    }
+  }
+  return tokens.join(' ');
+}
+
+/**
+ * Assign `fingerprint` to every issue of one file that lacks one. Identical
+ * findings in the same symbol are told apart by their order in the file.
+ */
+export function assignFingerprints(issues: Issue[], content: string, parseResult: ParseResult | null): Issue[] {
+  const lines = content.split('\n');
+  const seen = new Map<string, number>();
+  const ordered = issues
+    .filter((issue) => !issue.fingerprint)
+    .sort((a, b) => a.line - b.line);
+
+  for (const issue of ordered) {
+    // Findings with no source to anchor to (e.g. file-level) fall back to their message
+    const anchor = anchorTokens(lines, issue.line) || normalizeTokens(issue.message);
+    const key = [issue.ruleId, issue.file, enclosingSymbol(parseResult, issue.line), anchor].join('|');
+    const ordinal = (seen.get(key) ?? 0) + 1;
+    seen.set(key, ordinal);
+
+    issue.fingerprint = createHash('sha256')
+      .update(ordinal > 1 ? `${key}#${ordinal}` : key, 'utf8')
+      .digest('hex');
+  }
+
+  return issues;
+}
@@ -1,11 +1,51 @@
 /**
  * Static Analysis Service
- * 
+ *
  * Code pattern detection and rule evaluation
  * Security, quality, and style rules
+ *
+ * JS/TS rules are AST visitors (see ./visitor) that run in a single
+ * scope-aware traversal per file. File-level rules and languages without
+ * a Babel AST fall back to `evaluate`. When the previous version of a file
+ * is supplied, `evaluateDiff` rules also see its symbol-level diff.
+ * Every finding leaves with a content-anchored fingerprint (see ./fingerprint).
+ * Organizations add declarative rules from their policy packs (see ./custom-rules).
+ * Rules declare typed params that policy packs can tune (see ./rule-params).
  */
 
-import { CodeParserService, ParseResult } from '../code-parser';
+import type * as t from '@babel/types';
+import { createHash } from 'crypto';
+import { CodeParserService, DiffParseResult, LineChange, ParseResult, diffSymbols } from '../code-parser';
+import {
+  traverse,
+  walk,
+  functionVisitor,
+  getMemberChain,
+  getCalleeName,
+  getFunctionName,
+  NodePath,
+  Scope,
+  Visitor,
+} from './visitor';
+import { createTaintVisitor } from './taint';
+import { assignFingerprints } from './fingerprint';
+import { applyEdits, editFromOffsets, isTextEdit, removalEdit, suggestedChange, SuggestedChange, TextEdit } from './autofix';
+import { compileCustomRule, CustomRuleDefinition } from './custom-rules';
+import {
+  ALLOWLIST_PATHS_PARAM,
+  globToRegExp,
+  resolveRuleParams,
+  validateRuleParams,
+  RuleParams,
+  RuleParamSpec,
+} from './rule-params';
+
+export { assignFingerprints, enclosingSymbol, normalizeTokens } from './fingerprint';
+export { applyEdits, buildPatch, createUnifiedDiff } from './autofix';
+export type { SuggestedChange, TextEdit } from './autofix';
+export { compileCustomRule, customRuleSchema, parseCustomRules } from './custom-rules';
+export type { CustomRuleDefinition, CustomRuleError, ParsedCustomRules } from './custom-rules';
+export type { RuleParams, RuleParamSpec, RuleParamType, RuleParamValue } from './rule-params';
 
 export interface Rule {
   id: string;
@@ -13,7 +53,31 @@ export interface Rule {
   category: 'security' | 'quality' | 'style' | 'ai';
   severity: 'critical' | 'high' | 'medium' | 'low';
   enabled: boolean;
-  evaluate: (parseResult: ParseResult, filePath: string, content: string) => Issue[];
+  /**
+   * Tunable params beyond the shared `allowlistPaths`; resolved values
+   * reach the rule through `RuleContext.params` or its `params` argument
+   */
+  params?: RuleParamSpec[];
+  /**
+   * AST visitor factory, used when the file has a Babel AST (JS/TS)
+   */
+  create?: (context: RuleContext) => Visitor;
+  /**
+   * Whole-file evaluation for file-level rules, and the fallback for
+   * languages without a Babel AST
+   */
+  evaluate?: (parseResult: ParseResult, filePath: string, content: string, params: RuleParams) => Issue[];
+  /**
+   * Symbol-level diff evaluation, run in addition to the above when the
+   * previous version of the file is known
+   */
+  evaluateDiff?: (diff: DiffParseResult, filePath: string, params: RuleParams) => Issue[];
+}
+
+export interface AnalyzeOptions {
+  beforeContent?: string | null; // Previous version of the file, enables diff rules
+  customRuleSet?: string; // Key from registerOrganizationRules
+  ruleParams?: Record<string, Record<string, unknown>>; // Rule id -> policy params
 }
 
 export interface Issue {
@@ -24,11 +88,71 @@ export interface Issue {
   column?: number;
   message: string;
   fix?: string;
+  edits?: TextEdit[]; // Structured fix, see ./autofix; only kept if the result still parses
+  suggestion?: SuggestedChange; // Whole-line form of `edits` for PR suggestions
   confidence: number; // 0-1
+  trace?: TraceStep[]; // Data-flow path from source to sink
+  lineChange?: LineChange; // Position relative to the PR diff; unset means treated as new
+  fingerprint?: string; // Stable across line shifts, see ./fingerprint
+  baselineStatus?: 'new' | 'existing'; // Set by the policy engine when the repository has a baseline
+  tool?: string; // Third-party analyzer that reported it (SARIF import); unset for ReadyLayer's own findings
+  consensus?: ConsensusAgreement; // Set by consensus AI review
+}
+
+export interface ConsensusAgreement {
+  models: string[]; // Models that reported the finding
+  total: number; // Models that reviewed the file
+}
+
+export interface TraceStep {
+  line: number;
+  column?: number;
+  message: string;
+}
+
+export type IssueReport = Omit<Issue, 'ruleId' | 'file' | 'severity'> & {
+  severity?: Issue['severity'];
+};
+
+export interface RuleContext {
+  filePath: string;
+  content: string;
+  parseResult: ParseResult;
+  comments: t.Comment[];
+  params: RuleParams;
+  report: (issue: IssueReport) => void;
 }
 
+const SQL_PATTERN = /\b(?:SELECT\b[\s\S]*\bFROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i;
+const SECRET_VALUE_PATTERNS = [/sk_live_[a-zA-Z0-9]{32,}/, /AKIA[0-9A-Z]{16}/];
+const SECRET_KEY_PATTERNS: Array<{ pattern: RegExp; minLength: number }> = [
+  { pattern: /api[_-]?key/i, minLength: 20 },
+  { pattern: /secret/i, minLength: 20 },
+  { pattern: /password/i, minLength: 8 },
+  { pattern: /token/i, minLength: 20 },
+];
+const PLACEHOLDER_PATTERN = /^(?:x+|\*+|<[^>]*>|your[_-].*|changeme|example.*|placeholder.*)$/i;
+const PII_PATTERN = /(?:ssn|social_?security|credit_?card|card_?number|password|email|phone)/i;
+const HTTP_METHODS = new Set(['get', 'post', 'put', 'delete', 'patch']);
+const KNOWN_HTTP_GLOBALS = new Set([
+  'fetch', 'axios', 'request', 'Reflect', 'globalThis', 'window', 'self', 'navigator',
+  'caches', 'localStorage', 'sessionStorage',
+]);
+const AUTH_FUNCTIONS = new Set(['requireAuth', 'getAuthenticatedUser']);
+const AUTH_WRAPPERS = new Set(['createRouteHandler', 'withAuth']);
+const SYNC_OPERATIONS = new Set([
+  'readFileSync', 'writeFileSync', 'appendFileSync', 'readdirSync', 'execSync', 'spawnSync',
+]);
+const NODE_ONLY_MODULES = [
+  'fs', 'path', 'crypto', 'stream', 'util', 'os', 'http', 'https',
+  '@prisma/client', 'prisma', 'redis', 'pino', 'ioredis',
+  'rate-limiter-flexible', 'bull', 'kue'
+];
+const MAX_RULE_SETS_PER_ORG = 10;
+
 export class StaticAnalysisService {
   private rules: Map<string, Rule> = new Map();
+  private customRuleSets: Map<string, Rule[]> = new Map(); // `${organizationId}:${hash}` -> compiled rules
   private codeParser: CodeParserService;
 
   constructor() {
@@ -39,26 +163,154 @@ export class StaticAnalysisService {
   /**
    * Analyze code file
    */
-  async analyze(filePath: string, content: string): Promise<Issue[]> {
+  async analyze(filePath: string, content: string, options: AnalyzeOptions = {}): Promise<Issue[]> {
     // Parse code for AST analysis
     const parseResult = await this.codeParser.parse(filePath, content);
-    const issues: Issue[] = [];
-
-    for (const rule of this.rules.values()) {
+    const ast: t.File | null = parseResult.ast?.type === 'File' ? parseResult.ast : null;
+    const diff = options.beforeContent
+      ? await this.diffAgainst(filePath, options.beforeContent, parseResult, content)
+      : null;
+    const issuesByRule: Issue[][] = [];
+    const visitors: Visitor[] = [];
+    const customRules = options.customRuleSet ? this.customRuleSets.get(options.customRuleSet) || [] : [];
+
+    for (const rule of [...this.rules.values(), ...customRules]) {
       if (!rule.enabled) {
         continue;
       }
 
+      const params = resolveRuleParams(this.getParamSpecs(rule), options.ruleParams?.[rule.id]);
+      if ((params.allowlistPaths as string[]).some((glob) => globToRegExp(glob).test(filePath))) {
+        continue;
+      }
+
+      const ruleIssues: Issue[] = [];
+      issuesByRule.push(ruleIssues);
+
       try {
-        const ruleIssues = rule.evaluate(parseResult, filePath, content);
-        issues.push(...ruleIssues);
+        if (rule.create && ast) {
+          const context = this.createRuleContext(rule, filePath, content, parseResult, ast, params, ruleIssues);
+          visitors.push(this.guardVisitor(rule.create(context), ruleIssues));
+        } else if (rule.evaluate) {
+          ruleIssues.push(...rule.evaluate(parseResult, filePath, content, params));
+        }
+
+        if (rule.evaluateDiff && diff) {
+          // Diff findings describe the change itself, wherever they are anchored
+          ruleIssues.push(...rule.evaluateDiff(diff, filePath, params).map((issue) => ({
+            ...issue,
+            lineChange: issue.lineChange ?? 'modified' as const,
+          })));
+        }
       } catch (error) {
         // Log error but don't fail analysis
         // Error is handled gracefully, analysis continues with other rules
+        ruleIssues.length = 0;
+      }
+    }
+
+    // All AST rules share one traversal
+    if (ast && visitors.length > 0) {
+      traverse(ast, visitors);
+    }
+
+    // Keep output ordered by rule registration
+    const issues = await this.validateFixes(filePath, content, issuesByRule.flat(), parseResult);
+    return assignFingerprints(issues, content, parseResult);
+  }
+
+  /**
+   * Fingerprint findings produced outside the rule engine (e.g. AI review).
+   * Falls back to module-level anchoring when the file doesn't parse.
+   */
+  async fingerprintIssues(filePath: string, content: string, issues: Issue[]): Promise<Issue[]> {
+    let parseResult: ParseResult | null = null;
+    try {
+      parseResult = await this.codeParser.parse(filePath, content);
+    } catch {
+      // Token anchoring alone still survives line shifts
+    }
+    return assignFingerprints(issues, content, parseResult);
+  }
+
+  /**
+   * Keep only fixes that apply cleanly and leave the file parseable, and
+   * derive their PR suggestion. Used for rule fixes and AI-proposed ones.
+   */
+  async validateFixes(filePath: string, content: string, issues: Issue[], parseResult?: ParseResult): Promise<Issue[]> {
+    if (!issues.some((issue) => issue.edits)) {
+      return issues;
+    }
+
+    // Fixes may not introduce syntax errors; ones already there don't count
+    let originalHasErrors: boolean | undefined;
+    try {
+      originalHasErrors = (parseResult || await this.codeParser.parse(filePath, content)).hasSyntaxErrors;
+    } catch {
+      originalHasErrors = true;
+    }
+
+    return Promise.all(issues.map(async (issue) => {
+      const { edits, suggestion: _suggestion, ...rest } = issue;
+      if (!Array.isArray(edits) || edits.length === 0 || !edits.every(isTextEdit)) {
+        return rest;
+      }
+
+      const fixed = applyEdits(content, edits);
+      if (fixed === null) {
+        return rest;
+      }
+      try {
+        const reparsed = await this.codeParser.parse(filePath, fixed);
+        if (reparsed.hasSyntaxErrors && !originalHasErrors) {
+          return rest;
+        }
+      } catch {
+        // The fix breaks the file (or the language can't be checked)
+        return rest;
+      }
+
+      const suggestion = suggestedChange(content, edits);
+      return suggestion ? { ...rest, edits, suggestion } : { ...rest, edits };
+    }));
+  }
+
+  /**
+   * Diff against the previous version; null if that version no longer parses
+   */
+  private async diffAgainst(
+    filePath: string,
+    beforeContent: string,
+    after: ParseResult,
+    afterContent: string
+  ): Promise<DiffParseResult | null> {
+    try {
+      const before = await this.codeParser.parse(filePath, beforeContent);
+      return { before, after, changes: diffSymbols(before, beforeContent, after, afterContent) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Compile an organization's custom rules and return the key to pass as
+   * `AnalyzeOptions.customRuleSet`. Sets are cached by content, so repeat
+   * registrations of an unchanged policy are free; each organization keeps
+   * its most recent sets only.
+   */
+  registerOrganizationRules(organizationId: string, definitions: CustomRuleDefinition[]): string {
+    const hash = createHash('sha256').update(JSON.stringify(definitions), 'utf8').digest('hex');
+    const key = `${organizationId}:${hash}`;
+
+    if (!this.customRuleSets.has(key)) {
+      const owned = Array.from(this.customRuleSets.keys()).filter((k) => k.startsWith(`${organizationId}:`));
+      if (owned.length >= MAX_RULE_SETS_PER_ORG) {
+        this.customRuleSets.delete(owned[0]);
       }
+      this.customRuleSets.set(key, definitions.map(compileCustomRule));
     }
 
-    return issues;
+    return key;
   }
 
   /**
@@ -85,6 +337,23 @@ export class StaticAnalysisService {
     return Array.from(this.rules.values());
   }
 
+  /**
+   * Param specs of a built-in rule, including the shared `allowlistPaths`
+   */
+  getParamSpecs(rule: Rule): RuleParamSpec[] {
+    return [ALLOWLIST_PATHS_PARAM, ...(rule.params || [])];
+  }
+
+  /**
+   * Validate policy params for a rule id. `*` (pack-wide settings) only takes
+   * policy-engine params; unknown ids may be AI-reported and are not checked.
+   */
+  validateRuleParams(ruleId: string, params: Record<string, unknown>): string[] {
+    const rule = this.rules.get(ruleId);
+    const specs = rule ? this.getParamSpecs(rule) : ruleId === '*' ? [] : null;
+    return validateRuleParams(specs, params);
+  }
+
   /**
    * Register default security and quality rules
    */
@@ -96,6 +365,41 @@ export class StaticAnalysisService {
       category: 'security',
       severity: 'critical',
       enabled: true,
+      create: (context) => {
+        const report = (path: NodePath) => {
+          context.report({
+            line: path.line,
+            column: path.column,
+            message: 'Potential SQL injection vulnerability: unparameterized query detected',
+            fix: 'Use parameterized queries: db.query(\'SELECT * FROM users WHERE id = $1\', [userId])',
+            confidence: 0.9,
+          });
+        };
+
+        return {
+          TemplateLiteral: (path: NodePath<t.TemplateLiteral>) => {
+            // Tagged templates (sql`...`, Prisma.sql`...`) are parameterized by the tag
+            if (path.node.expressions.length === 0 || path.parent?.type === 'TaggedTemplateExpression') {
+              return;
+            }
+            const text = path.node.quasis.map((quasi) => quasi.value.cooked ?? quasi.value.raw).join('?');
+            if (SQL_PATTERN.test(text)) {
+              report(path);
+            }
+          },
+          BinaryExpression: (path: NodePath<t.BinaryExpression>) => {
+            // Only the outermost `+` of a concatenation chain
+            if (path.node.operator !== '+' || (path.parent?.type === 'BinaryExpression' && path.parent.operator === '+')) {
+              return;
+            }
+            const parts = flattenConcatenation(path.node);
+            const text = parts.map((part) => getStaticString(part) ?? '?').join('');
+            if (parts.some((part) => getStaticString(part) === null) && SQL_PATTERN.test(text)) {
+              report(path);
+            }
+          },
+        };
+      },
       evaluate: (_parseResult, filePath, content) => {
         const issues: Issue[] = [];
         const lines = content.split('\n');
@@ -130,7 +434,44 @@ export class StaticAnalysisService {
       category: 'security',
       severity: 'critical',
       enabled: true,
-      evaluate: (_parseResult, filePath, content) => {
+      params: [
+        {
+          name: 'extraPatterns',
+          type: 'regex[]',
+          label: 'Extra secret patterns',
+          description: 'Regular expressions for organization-specific credential formats',
+          default: [],
+        },
+      ],
+      create: (context) => {
+        const extraPatterns = (context.params.extraPatterns as string[]).map((pattern) => new RegExp(pattern));
+        const check = (path: NodePath<t.StringLiteral | t.TemplateLiteral>) => {
+          const value = getStaticString(path.node);
+          if (value === null) {
+            return;
+          }
+          const name = getAssignedName(path);
+          const namedSecret = name !== null && SECRET_KEY_PATTERNS.some(
+            ({ pattern, minLength }) => pattern.test(name) && value.length >= minLength
+          );
+          if ((namedSecret && !PLACEHOLDER_PATTERN.test(value)) ||
+              [...SECRET_VALUE_PATTERNS, ...extraPatterns].some((pattern) => pattern.test(value))) {
+            context.report({
+              line: path.line,
+              column: path.column,
+              message: 'Potential secret or API key exposed in code',
+              fix: 'Move secrets to environment variables: process.env.SECRET_KEY',
+              confidence: 0.8,
+            });
+          }
+        };
+
+        return {
+          StringLiteral: check,
+          TemplateLiteral: check,
+        };
+      },
+      evaluate: (_parseResult, filePath, content, params) => {
         const issues: Issue[] = [];
         const lines = content.split('\n');
 
@@ -140,8 +481,8 @@ export class StaticAnalysisService {
           /secret\s*[:=]\s*['"]([^'"]{20,})['"]/i,
           /password\s*[:=]\s*['"]([^'"]{8,})['"]/i,
           /token\s*[:=]\s*['"]([^'"]{20,})['"]/i,
-          /sk_live_[a-zA-Z0-9]{32,}/,
-          /AKIA[0-9A-Z]{16}/,
+          ...SECRET_VALUE_PATTERNS,
+          ...(params.extraPatterns as string[]).map((pattern) => new RegExp(pattern)),
         ];
 
         lines.forEach((line, index) => {
@@ -164,6 +505,16 @@ export class StaticAnalysisService {
       },
     });
 
+    // Taint Tracking (untrusted input -> injection sinks)
+    this.registerRule({
+      id: 'security.taint',
+      name: 'Untrusted Input Flow',
+      category: 'security',
+      severity: 'critical',
+      enabled: true,
+      create: (context) => createTaintVisitor(context),
+    });
+
     // High Complexity Detection
     this.registerRule({
       id: 'quality.high-complexity',
@@ -171,28 +522,50 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'high',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-
-        parseResult.functions.forEach((func) => {
-          // Count decision points (if, for, while, switch, catch, &&, ||, ?)
-          const funcContent = this.getFunctionContent(content, func);
-          const complexity = this.calculateComplexity(funcContent);
-
-          if (complexity > 15) {
-            issues.push({
-              ruleId: 'quality.high-complexity',
-              severity: 'high',
-              file: filePath,
-              line: func.line,
-              message: `Function '${func.name}' has high cyclomatic complexity (${complexity})`,
-              fix: 'Break down into smaller functions with single responsibility',
-              confidence: 0.9,
-            });
-          }
-        });
+      params: [
+        {
+          name: 'threshold',
+          type: 'integer',
+          label: 'Complexity threshold',
+          description: 'Functions above this cyclomatic complexity are flagged',
+          default: 15,
+          min: 1,
+          max: 100,
+        },
+      ],
+      create: (context) => functionVisitor((path) => {
+        // Count decision points (if, loops, case, catch, &&, ||, ??, ?:)
+        const complexity = this.calculateComplexity(path.node);
+
+        if (complexity > (context.params.threshold as number)) {
+          context.report({
+            line: path.line,
+            column: path.column,
+            message: `Function '${getFunctionName(path)}' has high cyclomatic complexity (${complexity})`,
+            fix: 'Break down into smaller functions with single responsibility',
+            confidence: 0.9,
+          });
+        }
+      }),
+      evaluate: (parseResult, filePath, _content, params) => {
+        // Grammar-based parsers (Python, Java, Go, Rust, Ruby) precompute complexity
+        const functions = [
+          ...parseResult.functions,
+          ...parseResult.classes.flatMap((cls) => cls.methods),
+        ];
 
-        return issues;
+        return functions
+          .filter((func) => (func.complexity || 0) > (params.threshold as number))
+          .map((func) => ({
+            ruleId: 'quality.high-complexity',
+            severity: 'high' as const,
+            file: filePath,
+            line: func.line,
+            column: func.column,
+            message: `Function '${func.name}' has high cyclomatic complexity (${func.complexity})`,
+            fix: 'Break down into smaller functions with single responsibility',
+            confidence: 0.9,
+          }));
       },
     });
 
@@ -203,72 +576,64 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'high',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-
-        parseResult.functions.forEach((func) => {
-          const funcContent = this.getFunctionContent(content, func);
-
-          // Check for async functions without try/catch
-          if (func.isAsync && !/try\s*\{/.test(funcContent) && /await|Promise/.test(funcContent)) {
-            issues.push({
-              ruleId: 'quality.missing-error-handling',
-              severity: 'high',
-              file: filePath,
-              line: func.line,
-              message: `Async function '${func.name}' lacks error handling`,
+      create: (context) => {
+        const reported = new Set<t.Node>();
+
+        return {
+          AwaitExpression: (path) => {
+            // Async functions awaiting outside any try block
+            const fn = path.getFunctionParent();
+            if (!fn || reported.has(fn.node) || path.isInsideTryBlock()) {
+              return;
+            }
+            reported.add(fn.node);
+            context.report({
+              line: fn.line,
+              column: fn.column,
+              message: `Async function '${getFunctionName(fn)}' lacks error handling`,
               fix: 'Wrap async operations in try/catch blocks',
-              confidence: 0.7,
+              confidence: 0.8,
             });
-          }
-        });
-
-        return issues;
+          },
+        };
       },
     });
 
-    // AI Hallucination Detection (pattern-based)
+    // AI Hallucination Detection
     this.registerRule({
       id: 'ai.hallucination',
       name: 'AI Hallucination Risk',
       category: 'ai',
       severity: 'high',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
+      create: (context) => ({
+        CallExpression: (path: NodePath<t.CallExpression>) => {
+          // Calls like `apiClient.get(...)` where `apiClient` is never declared or imported
+          const callee = path.node.callee;
+          if (
+            callee.type !== 'MemberExpression' ||
+            callee.computed ||
+            callee.object.type !== 'Identifier' ||
+            callee.property.type !== 'Identifier' ||
+            !HTTP_METHODS.has(callee.property.name)
+          ) {
+            return;
+          }
 
-        // Detect common AI hallucination patterns
-        // 1. Non-existent API calls
-        parseResult.functions.forEach((func) => {
-          const funcContent = this.getFunctionContent(content, func);
-
-          // Check for calls to APIs that don't exist in imports
-          const apiCalls = funcContent.match(/(\w+)\.(get|post|put|delete|patch)\(/g) || [];
-          apiCalls.forEach((call) => {
-            const match = call.match(/(\w+)\./);
-            if (match) {
-              const apiName = match[1];
-              const hasImport = parseResult.imports.some(
-                (imp) => imp.specifiers.includes(apiName) || imp.source.includes(apiName)
-              );
-
-              if (!hasImport && !['fetch', 'axios', 'request'].includes(apiName)) {
-                issues.push({
-                  ruleId: 'ai.hallucination',
-                  severity: 'high',
-                  file: filePath,
-                  line: func.line,
-                  message: `Potential AI hallucination: '${apiName}' API call not found in imports`,
-                  fix: 'Verify API exists and add proper import statement',
-                  confidence: 0.6,
-                });
-              }
-            }
-          });
-        });
+          const apiName = callee.object.name;
+          if (path.scope.hasBinding(apiName) || KNOWN_HTTP_GLOBALS.has(apiName)) {
+            return;
+          }
 
-        return issues;
-      },
+          context.report({
+            line: path.line,
+            column: path.column,
+            message: `Potential AI hallucination: '${apiName}' API call not found in imports`,
+            fix: 'Verify API exists and add proper import statement',
+            confidence: 0.75,
+          });
+        },
+      }),
     });
 
     // FOUNDER-SPECIFIC RULES (based on real pain events)
@@ -280,65 +645,81 @@ export class StaticAnalysisService {
       category: 'ai',
       severity: 'critical',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-
+      create: (context) => {
         // Check if this is middleware or Edge runtime code
-        const isEdgeCode = filePath.includes('middleware') || 
-                          filePath.includes('edge-') ||
-                          content.includes('export const runtime = \'edge\'') ||
-                          content.includes('export const config = { runtime: \'edge\' }');
-
-        if (!isEdgeCode) {
-          return issues; // Skip if not Edge code
-        }
-
-        // Node-only modules that break Edge runtime
-        const nodeOnlyModules = [
-          'fs', 'path', 'crypto', 'stream', 'util', 'os', 'http', 'https',
-          '@prisma/client', 'prisma', 'redis', 'pino', 'ioredis',
-          'rate-limiter-flexible', 'bull', 'kue'
-        ];
-
-        parseResult.imports.forEach((imp) => {
-          const importSource = imp.source;
-          
-          // Check for Node-only modules
-          nodeOnlyModules.forEach((module) => {
-            if (importSource.includes(module)) {
-              issues.push({
-                ruleId: 'founder.edge-runtime',
-                severity: 'critical',
-                file: filePath,
-                line: imp.line,
-                message: `Edge runtime incompatible: '${module}' is Node-only and will crash at runtime`,
-                fix: `Remove import of '${module}' or move this code to Node.js runtime (export const runtime = 'nodejs')`,
-                confidence: 0.95,
-              });
+        let isEdgeCode = context.filePath.includes('middleware') || context.filePath.includes('edge-');
+        const imports: Array<{ source: string; line: number }> = [];
+
+        return {
+          ImportDeclaration: (path: NodePath<t.ImportDeclaration>) => {
+            imports.push({ source: path.node.source.value, line: path.line });
+          },
+          CallExpression: (path: NodePath<t.CallExpression>) => {
+            // require('x') and import('x')
+            const { callee, arguments: args } = path.node;
+            const isRequire = callee.type === 'Identifier' && callee.name === 'require';
+            if ((isRequire || callee.type === 'Import') && args[0]?.type === 'StringLiteral') {
+              imports.push({ source: args[0].value, line: path.line });
             }
-          });
-
-          // Check for relative imports that might transitively import Node modules
-          if (importSource.startsWith('.') || importSource.startsWith('..')) {
-            // This would require transitive analysis - flag for manual review
-            if (importSource.includes('prisma') || 
-                importSource.includes('redis') || 
-                importSource.includes('rate-limit') ||
-                importSource.includes('logging') && !importSource.includes('edge-')) {
-              issues.push({
-                ruleId: 'founder.edge-runtime',
-                severity: 'high',
-                file: filePath,
-                line: imp.line,
-                message: `Potential Edge runtime issue: Import '${importSource}' may transitively import Node-only modules`,
-                fix: 'Verify this import chain is Edge-safe or use edge-safe alternatives',
-                confidence: 0.7,
-              });
+          },
+          ExportNamedDeclaration: (path: NodePath<t.ExportNamedDeclaration>) => {
+            // export const runtime = 'edge' / export const config = { runtime: 'edge' }
+            const declaration = path.node.declaration;
+            if (declaration?.type !== 'VariableDeclaration') {
+              return;
+            }
+            for (const declarator of declaration.declarations) {
+              if (declarator.id.type !== 'Identifier' || !declarator.init) {
+                continue;
+              }
+              if (declarator.id.name === 'runtime' && getStaticString(declarator.init) === 'edge') {
+                isEdgeCode = true;
+              }
+              if (declarator.id.name === 'config' && declarator.init.type === 'ObjectExpression') {
+                isEdgeCode = isEdgeCode || declarator.init.properties.some((property) =>
+                  property.type === 'ObjectProperty' &&
+                  getPropertyName(property.key) === 'runtime' &&
+                  getStaticString(property.value) === 'edge'
+                );
+              }
+            }
+          },
+          'Program:exit': () => {
+            if (!isEdgeCode) {
+              return; // Skip if not Edge code
             }
-          }
-        });
 
-        return issues;
+            for (const { source, line } of imports) {
+              // Check for Node-only modules
+              const nodeModule = NODE_ONLY_MODULES.find((name) =>
+                source === name || source.startsWith(`${name}/`) || source === `node:${name}`
+              ) || (source.startsWith('node:') ? source : undefined);
+
+              if (nodeModule) {
+                context.report({
+                  line,
+                  message: `Edge runtime incompatible: '${nodeModule}' is Node-only and will crash at runtime`,
+                  fix: `Remove import of '${nodeModule}' or move this code to Node.js runtime (export const runtime = 'nodejs')`,
+                  confidence: 0.95,
+                });
+                continue;
+              }
+
+              // Relative imports might transitively import Node modules - flag for manual review
+              if (source.startsWith('.') &&
+                  !source.includes('edge-') &&
+                  ['prisma', 'redis', 'rate-limit', 'logging'].some((name) => source.includes(name))) {
+                context.report({
+                  severity: 'high',
+                  line,
+                  message: `Potential Edge runtime issue: Import '${source}' may transitively import Node-only modules`,
+                  fix: 'Verify this import chain is Edge-safe or use edge-safe alternatives',
+                  confidence: 0.7,
+                });
+              }
+            }
+          },
+        };
       },
     });
 
@@ -349,57 +730,67 @@ export class StaticAnalysisService {
       category: 'ai',
       severity: 'high',
       enabled: true,
-      evaluate: (_parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-        const lines = content.split('\n');
-
-        lines.forEach((line, index) => {
-          const lineNum = index + 1;
-
-          // Detect unnecessary 'any' types
-          if (/\b:\s*any\b/.test(line) && !line.includes('// @ts-ignore') && !line.includes('// eslint-disable')) {
-            // Allow in specific contexts (type definitions, generics)
-            if (!line.includes('Record<') && !line.includes('Map<') && !line.includes('Set<')) {
-              issues.push({
-                ruleId: 'founder.type-erosion',
-                severity: 'high',
-                file: filePath,
-                line: lineNum,
-                message: `Type safety erosion: Unnecessary 'any' type detected`,
-                fix: 'Replace with proper type or use `unknown` if type is truly unknown',
-                confidence: 0.8,
-              });
-            }
+      create: (context) => {
+        const suppressedLines = new Set<number>();
+        context.comments.forEach((comment) => {
+          if (/@ts-ignore|@ts-expect-error|eslint-disable/.test(comment.value) && comment.loc) {
+            suppressedLines.add(comment.loc.start.line);
+            suppressedLines.add(comment.loc.end.line + 1);
           }
+        });
 
-          // Detect type assertions that might hide problems
-          if (/\bas\s+any\b/.test(line)) {
-            issues.push({
-              ruleId: 'founder.type-erosion',
-              severity: 'high',
-              file: filePath,
-              line: lineNum,
-              message: `Type safety erosion: 'as any' assertion hides type errors`,
-              fix: 'Fix the underlying type issue instead of using type assertion',
-              confidence: 0.9,
-            });
+        const reportAny = (path: NodePath) => {
+          if (suppressedLines.has(path.line)) {
+            return;
           }
+          const range = nodeRange(path.node);
+          context.report({
+            line: path.line,
+            column: path.column,
+            message: `Type safety erosion: Unnecessary 'any' type detected`,
+            fix: 'Replace with proper type or use `unknown` if type is truly unknown',
+            edits: range ? [editFromOffsets(context.content, range.start, range.end, 'unknown')] : undefined,
+            confidence: 0.8,
+          });
+        };
+
+        return {
+          TSAnyKeyword: (path) => {
+            const parent = path.parent;
+            const grandparent = path.ancestry[path.ancestry.length - 2]?.node;
+
+            // Type assertions that might hide problems
+            if (parent?.type === 'TSAsExpression' || parent?.type === 'TSTypeAssertion') {
+              context.report({
+                line: path.line,
+                column: path.column,
+                message: `Type safety erosion: 'as any' assertion hides type errors`,
+                fix: 'Fix the underlying type issue instead of using type assertion',
+                confidence: 0.9,
+              });
+              return;
+            }
 
-          // Detect loose object types
-          if (/\b:\s*\{\s*\[key:\s*string\]:\s*any\s*\}\b/.test(line)) {
-            issues.push({
-              ruleId: 'founder.type-erosion',
-              severity: 'medium',
-              file: filePath,
-              line: lineNum,
-              message: `Type safety erosion: Loose object type with string index signature`,
-              fix: 'Use Record<string, SpecificType> or define proper interface',
-              confidence: 0.7,
-            });
-          }
-        });
+            // Loose object types: { [key: string]: any }
+            if (parent?.type === 'TSTypeAnnotation' && grandparent?.type === 'TSIndexSignature') {
+              context.report({
+                severity: 'medium',
+                line: path.line,
+                column: path.column,
+                message: `Type safety erosion: Loose object type with string index signature`,
+                fix: 'Use Record<string, SpecificType> or define proper interface',
+                confidence: 0.7,
+              });
+              return;
+            }
 
-        return issues;
+            // `x: any` / `x: any[]` annotations (generic arguments like Record<string, any> are allowed)
+            if (parent?.type === 'TSTypeAnnotation' ||
+                (parent?.type === 'TSArrayType' && grandparent?.type === 'TSTypeAnnotation')) {
+              reportAny(path);
+            }
+          },
+        };
       },
     });
 
@@ -410,54 +801,53 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'medium',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-
-        parseResult.imports.forEach((imp) => {
-          // Check if imported symbols are actually used
-          imp.specifiers.forEach((specifier) => {
-            // Skip default imports and namespace imports
-            if (specifier === 'default' || specifier === '*') {
-              return;
-            }
-
-            // Check if specifier is used in code
-            const usagePattern = new RegExp(`\\b${specifier}\\b`);
-            const isUsed = usagePattern.test(content);
-
-            if (!isUsed && specifier.length > 0) {
-              issues.push({
-                ruleId: 'founder.unused-imports',
-                severity: 'medium',
-                file: filePath,
-                line: imp.line,
-                message: `Unused import: '${specifier}' is imported but never used`,
-                fix: `Remove '${specifier}' from import statement`,
-                confidence: 0.85,
-              });
-            }
-          });
+      create: (context) => {
+        let hasJsx = false;
+
+        return {
+          JSXElement: () => {
+            hasJsx = true;
+          },
+          JSXFragment: () => {
+            hasJsx = true;
+          },
+          'Program:exit': (path) => {
+            for (const binding of path.scope.bindings.values()) {
+              if (binding.kind !== 'import' || binding.references.length > 0) {
+                continue;
+              }
+              // Classic JSX runtime needs React in scope
+              if (binding.name === 'React' && hasJsx) {
+                continue;
+              }
 
-          // Check default imports
-          if (imp.specifiers.includes('default')) {
-            const defaultName = imp.source.split('/').pop()?.replace(/['"]/g, '') || '';
-            // This is heuristic - would need better analysis
-            const defaultUsagePattern = new RegExp(`\\b${defaultName}\\b|import\\s+${defaultName}`);
-            if (!defaultUsagePattern.test(content) && defaultName.length > 0) {
-              issues.push({
-                ruleId: 'founder.unused-imports',
-                severity: 'medium',
-                file: filePath,
-                line: imp.line,
-                message: `Potentially unused default import from '${imp.source}'`,
-                fix: 'Verify this import is actually used, remove if not',
-                confidence: 0.6,
-              });
+              const declaration = binding.declaration as t.ImportDeclaration;
+              const specifier = declaration.specifiers.find((s) => s.local === binding.identifier);
+              const line = specifier?.loc?.start.line || declaration.loc?.start.line || 1;
+              const edit = specifier && importRemovalEdit(context.content, declaration, specifier);
+
+              if (specifier?.type === 'ImportSpecifier') {
+                context.report({
+                  line,
+                  column: specifier.loc?.start.column,
+                  message: `Unused import: '${binding.name}' is imported but never used`,
+                  fix: `Remove '${binding.name}' from import statement`,
+                  edits: edit ? [edit] : undefined,
+                  confidence: 0.95,
+                });
+              } else {
+                context.report({
+                  line,
+                  column: specifier?.loc?.start.column,
+                  message: `Unused default import '${binding.name}' from '${binding.importSource}'`,
+                  fix: `Remove the unused import of '${binding.importSource}'`,
+                  edits: edit ? [edit] : undefined,
+                  confidence: 0.9,
+                });
+              }
             }
-          }
-        });
-
-        return issues;
+          },
+        };
       },
     });
 
@@ -468,63 +858,91 @@ export class StaticAnalysisService {
       category: 'security',
       severity: 'critical',
       enabled: true,
-      evaluate: (_parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-        const lines = content.split('\n');
-
-        // Check for common auth anti-patterns
-        lines.forEach((line, index) => {
-          const lineNum = index + 1;
+      create: (context) => {
+        const isApiRoute = /(?:^|\/)api\//.test(context.filePath);
+        // Functions (or the program) in which an auth check has already run
+        const authenticated = new Set<t.Node>();
 
+        const reportBodyUserId = (path: NodePath) => {
           // Pattern 1: userId from request body (should be from auth)
-          if (/userId.*=.*(?:req\.body|body\.|request\.body|params\.body)/i.test(line) &&
-              !line.includes('getAuthenticatedUser') &&
-              !line.includes('requireAuth') &&
-              !line.includes('// TODO') &&
-              !line.includes('// FIXME')) {
-            issues.push({
-              ruleId: 'founder.auth-patterns',
-              severity: 'critical',
-              file: filePath,
-              line: lineNum,
-              message: `CRITICAL: userId taken from request body - allows impersonation`,
-              fix: 'Use authenticated user ID from requireAuth() or getAuthenticatedUser()',
-              confidence: 0.95,
-            });
-          }
+          context.report({
+            line: path.line,
+            column: path.column,
+            message: `CRITICAL: userId taken from request body - allows impersonation`,
+            fix: 'Use authenticated user ID from requireAuth() or getAuthenticatedUser()',
+            confidence: 0.95,
+          });
+        };
 
+        const checkUserIdConfusion = (path: NodePath, target: string | null, value: t.Node) => {
           // Pattern 2: fromUserId/toUserId confusion
-          if (/fromUserId.*=.*toUserId/i.test(line) || /toUserId.*=.*fromUserId/i.test(line)) {
-            issues.push({
-              ruleId: 'founder.auth-patterns',
-              severity: 'critical',
-              file: filePath,
-              line: lineNum,
+          if (target && value.type === 'Identifier' && isUserIdSwap(target, value.name)) {
+            context.report({
+              line: path.line,
+              column: path.column,
               message: `CRITICAL: fromUserId/toUserId confusion - potential auth bug`,
               fix: 'Verify user ID assignment is correct',
               confidence: 0.9,
             });
           }
+        };
 
-          // Pattern 3: Missing auth check before resource access
-          if (/await\s+prisma\.\w+\.(?:find|create|update|delete)/i.test(line) &&
-              !content.substring(0, content.indexOf(line)).includes('requireAuth') &&
-              !content.substring(0, content.indexOf(line)).includes('getAuthenticatedUser') &&
-              filePath.includes('/api/')) {
-            // This is heuristic - would need better context analysis
-            issues.push({
-              ruleId: 'founder.auth-patterns',
-              severity: 'high',
-              file: filePath,
-              line: lineNum,
-              message: `Potential missing auth check: Database operation without visible auth check`,
-              fix: 'Ensure requireAuth() or getAuthenticatedUser() is called before database operations',
-              confidence: 0.6,
-            });
-          }
-        });
+        return {
+          VariableDeclarator: (path: NodePath<t.VariableDeclarator>) => {
+            const { id, init } = path.node;
+            if (!init) {
+              return;
+            }
+            const takesUserId = id.type === 'Identifier'
+              ? /userId/i.test(id.name)
+              : id.type === 'ObjectPattern' && id.properties.some((property) =>
+                  property.type === 'ObjectProperty' && /userId/i.test(getPropertyName(property.key) || '')
+                );
+            if (takesUserId && isRequestBody(init, path.scope)) {
+              reportBodyUserId(path);
+            }
+            checkUserIdConfusion(path, id.type === 'Identifier' ? id.name : null, init);
+          },
+          AssignmentExpression: (path: NodePath<t.AssignmentExpression>) => {
+            const chain = getMemberChain(path.node.left);
+            const target = chain ? chain[chain.length - 1] : null;
+            if (target && /userId/i.test(target) && isRequestBody(path.node.right, path.scope)) {
+              reportBodyUserId(path);
+            }
+            checkUserIdConfusion(path, target, path.node.right);
+          },
+          ObjectProperty: (path: NodePath<t.ObjectProperty>) => {
+            if (path.parent?.type === 'ObjectExpression') {
+              checkUserIdConfusion(path, getPropertyName(path.node.key), path.node.value);
+            }
+          },
+          CallExpression: (path: NodePath<t.CallExpression>) => {
+            const calleeName = getCalleeName(path.node);
+            if (calleeName && AUTH_FUNCTIONS.has(calleeName)) {
+              authenticated.add((path.getFunctionParent() || path.ancestry[0]).node);
+              return;
+            }
 
-        return issues;
+            // Pattern 3: Missing auth check before resource access
+            if (!isApiRoute || !isPrismaCall(path.node)) {
+              return;
+            }
+            const isAuthenticated = path.ancestry.some(({ node }) =>
+              authenticated.has(node) ||
+              (node.type === 'CallExpression' && AUTH_WRAPPERS.has(getCalleeName(node) || ''))
+            );
+            if (!isAuthenticated) {
+              context.report({
+                severity: 'high',
+                line: path.line,
+                column: path.column,
+                message: `Potential missing auth check: Database operation without visible auth check`,
+                fix: 'Ensure requireAuth() or getAuthenticatedUser() is called before database operations',
+                confidence: 0.7,
+              });
+            }
+          },
+        };
       },
     });
 
@@ -534,44 +952,44 @@ export class StaticAnalysisService {
       name: 'Error Handling Completeness',
       category: 'quality',
       severity: 'high',
-      enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-
-        parseResult.functions.forEach((func) => {
-          const funcContent = this.getFunctionContent(content, func);
-          const isAsync = func.isAsync;
-          const hasAwait = /await\s+/.test(funcContent);
-          const hasTryCatch = /try\s*\{/.test(funcContent);
-
-          // Async functions with await should have error handling
-          if (isAsync && hasAwait && !hasTryCatch) {
-            issues.push({
-              ruleId: 'founder.error-handling',
-              severity: 'high',
-              file: filePath,
-              line: func.line,
-              message: `Async function '${func.name}' has await but no try/catch error handling`,
-              fix: 'Wrap async operations in try/catch blocks',
-              confidence: 0.8,
-            });
-          }
+      enabled: true,
+      create: (context) => {
+        const reported = new Set<string>();
 
-          // Functions that call prisma should have error handling
-          if (/prisma\.\w+\.(?:find|create|update|delete|upsert)/.test(funcContent) && !hasTryCatch) {
-            issues.push({
-              ruleId: 'founder.error-handling',
-              severity: 'high',
-              file: filePath,
-              line: func.line,
-              message: `Function '${func.name}' calls Prisma without error handling`,
-              fix: 'Wrap database operations in try/catch blocks',
-              confidence: 0.75,
-            });
+        const reportOnce = (fn: NodePath, kind: 'await' | 'prisma') => {
+          const key = `${kind}:${fn.node.start}`;
+          if (reported.has(key)) {
+            return;
           }
-        });
+          reported.add(key);
+          const name = getFunctionName(fn);
+          context.report({
+            line: fn.line,
+            column: fn.column,
+            message: kind === 'await'
+              ? `Async function '${name}' has await but no try/catch error handling`
+              : `Function '${name}' calls Prisma without error handling`,
+            fix: kind === 'await' ? 'Wrap async operations in try/catch blocks' : 'Wrap database operations in try/catch blocks',
+            confidence: kind === 'await' ? 0.8 : 0.75,
+          });
+        };
 
-        return issues;
+        return {
+          // Async functions with await should have error handling
+          AwaitExpression: (path) => {
+            const fn = path.getFunctionParent();
+            if (fn && !path.isInsideTryBlock()) {
+              reportOnce(fn, 'await');
+            }
+          },
+          // Functions that call prisma should have error handling
+          CallExpression: (path: NodePath<t.CallExpression>) => {
+            const fn = path.getFunctionParent();
+            if (fn && isPrismaCall(path.node) && !path.isInsideTryBlock()) {
+              reportOnce(fn, 'prisma');
+            }
+          },
+        };
       },
     });
 
@@ -582,6 +1000,17 @@ export class StaticAnalysisService {
       category: 'ai',
       severity: 'medium',
       enabled: true,
+      params: [
+        {
+          name: 'maxChangedFunctions',
+          type: 'integer',
+          label: 'Max changed functions',
+          description: 'Existing functions a single diff may touch before it is flagged',
+          default: 5,
+          min: 1,
+          max: 1000,
+        },
+      ],
       evaluate: (parseResult, filePath, content) => {
         const issues: Issue[] = [];
 
@@ -605,6 +1034,29 @@ export class StaticAnalysisService {
 
         return issues;
       },
+      evaluateDiff: (diff, filePath, params) => {
+        // Existing functions touched at once (new functions are not a refactor)
+        const touched = diff.changes.filter(
+          (change) => (change.kind === 'function' || change.kind === 'method') && change.change !== 'added'
+        );
+        if (touched.length <= (params.maxChangedFunctions as number)) {
+          return [];
+        }
+
+        const counts = new Map<string, number>();
+        touched.forEach((change) => counts.set(change.change, (counts.get(change.change) || 0) + 1));
+        const breakdown = Array.from(counts, ([change, count]) => `${count} ${change}`).join(', ');
+
+        return [{
+          ruleId: 'founder.large-refactor',
+          severity: 'medium',
+          file: filePath,
+          line: touched[0].after?.start ?? 1,
+          message: `Many functions changed (${breakdown}) - verify all functions still work correctly`,
+          fix: 'Test each changed function individually',
+          confidence: 0.7,
+        }];
+      },
     });
 
     // ============================================================================
@@ -620,59 +1072,78 @@ export class StaticAnalysisService {
       category: 'security',
       severity: 'critical',
       enabled: true,
-      evaluate: (_parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-        const lines = content.split('\n');
-
-        lines.forEach((line, index) => {
-          const lineNum = index + 1;
-
-          // Detect PII handling without encryption
-          if (/(?:ssn|social.?security|credit.?card|password|email|phone)/i.test(line) &&
-              /(?:log|console|print|store|save)/i.test(line) &&
-              !/(?:encrypt|hash|bcrypt|scrypt|argon2)/i.test(line)) {
-            issues.push({
-              ruleId: 'enterprise.compliance',
-              severity: 'critical',
-              file: filePath,
-              line: lineNum,
-              message: `CRITICAL: PII handling detected without encryption - violates GDPR/HIPAA`,
-              fix: 'Encrypt PII before logging/storing, use hashing for passwords',
-              confidence: 0.85,
-            });
-          }
-
-          // Detect hardcoded secrets (compliance violation)
-          if (/(?:api.?key|secret|token|password)\s*[:=]\s*['"]([^'"]{10,})['"]/i.test(line) &&
-              !line.includes('process.env') &&
-              !line.includes('// TODO')) {
-            issues.push({
-              ruleId: 'enterprise.compliance',
-              severity: 'critical',
-              file: filePath,
-              line: lineNum,
-              message: `CRITICAL: Hardcoded secret detected - violates SOC2 compliance`,
-              fix: 'Move secrets to environment variables or secret management system',
-              confidence: 0.9,
-            });
+      create: (context) => {
+        // Sensitive mutations per function (or program), checked for audit logging at exit
+        const mutations = new Map<t.Node, { lines: number[]; audited: boolean }>();
+
+        const checkHardcodedSecret = (path: NodePath<t.StringLiteral | t.TemplateLiteral>) => {
+          const value = getStaticString(path.node);
+          const name = getAssignedName(path);
+          if (value === null || name === null || value.length < 10 || PLACEHOLDER_PATTERN.test(value) ||
+              !/(?:api.?key|secret|token|password)/i.test(name)) {
+            return;
           }
+          context.report({
+            line: path.line,
+            column: path.column,
+            message: `CRITICAL: Hardcoded secret detected - violates SOC2 compliance`,
+            fix: 'Move secrets to environment variables or secret management system',
+            confidence: 0.9,
+          });
+        };
+
+        return {
+          StringLiteral: checkHardcodedSecret,
+          TemplateLiteral: checkHardcodedSecret,
+          CallExpression: (path: NodePath<t.CallExpression>) => {
+            const chain = getMemberChain(path.node.callee);
+            if (!chain) {
+              return;
+            }
 
-          // Detect missing audit logging for sensitive operations
-          if (/(?:delete|update|modify|change).*(?:user|account|data|record)/i.test(line) &&
-              !/(?:log|audit|track)/i.test(content.substring(Math.max(0, index - 10), index + 10))) {
-            issues.push({
-              ruleId: 'enterprise.compliance',
-              severity: 'high',
-              file: filePath,
-              line: lineNum,
-              message: `Missing audit logging for sensitive operation - required for SOC2 compliance`,
-              fix: 'Add audit logging for all data modification operations',
-              confidence: 0.7,
-            });
-          }
-        });
+            // Detect PII logged or stored without encryption
+            const isLogOrStore = chain.some((segment) => /^(?:console|logger|log)$/.test(segment)) ||
+              /^(?:print|store|save)$/.test(chain[chain.length - 1]);
+            if (isLogOrStore && mentionsUnprotectedPII(path.node.arguments)) {
+              context.report({
+                line: path.line,
+                column: path.column,
+                message: `CRITICAL: PII handling detected without encryption - violates GDPR/HIPAA`,
+                fix: 'Encrypt PII before logging/storing, use hashing for passwords',
+                confidence: 0.85,
+              });
+            }
 
-        return issues;
+            // Track sensitive operations and audit logging in the same function
+            const owner = (path.getFunctionParent() || path.ancestry[0]).node;
+            const state = mutations.get(owner) || { lines: [], audited: false };
+            mutations.set(owner, state);
+            if (chain.some((segment) => /audit|log|track/i.test(segment))) {
+              state.audited = true;
+            }
+            if (/^(?:delete|deleteMany|update|updateMany|upsert)$/.test(chain[chain.length - 1]) &&
+                chain.slice(0, -1).some((segment) => /user|account|member|customer|profile|record|data/i.test(segment))) {
+              state.lines.push(path.line);
+            }
+          },
+          'Program:exit': () => {
+            // Detect missing audit logging for sensitive operations
+            for (const { lines, audited } of mutations.values()) {
+              if (audited) {
+                continue;
+              }
+              lines.forEach((line) => {
+                context.report({
+                  severity: 'high',
+                  line,
+                  message: `Missing audit logging for sensitive operation - required for SOC2 compliance`,
+                  fix: 'Add audit logging for all data modification operations',
+                  confidence: 0.7,
+                });
+              });
+            }
+          },
+        };
       },
     });
 
@@ -723,55 +1194,53 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'medium',
       enabled: true,
-      evaluate: (_parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-        const lines = content.split('\n');
-
-        lines.forEach((line, index) => {
-          const lineNum = index + 1;
-
-          // Detect console.log in production code
-          if (/console\.(log|debug|info)/.test(line) && !line.includes('// TODO') && !filePath.includes('.test.')) {
-            issues.push({
-              ruleId: 'junior.best-practices',
+      create: (context) => ({
+        // Detect console.log in production code
+        CallExpression: (path: NodePath<t.CallExpression>) => {
+          const chain = getMemberChain(path.node.callee);
+          if (chain?.length === 2 && chain[0] === 'console' && /^(?:log|debug|info)$/.test(chain[1]) &&
+              !context.filePath.includes('.test.')) {
+            context.report({
               severity: 'low',
-              file: filePath,
-              line: lineNum,
+              line: path.line,
+              column: path.column,
               message: `Consider using proper logging instead of console.log for production code`,
               fix: 'Use a logging library (e.g., pino, winston) instead of console.log',
               confidence: 0.7,
             });
           }
-
-          // Detect magic numbers
-          if (/\b\d{3,}\b/.test(line) && !/(?:id|timestamp|date|year|month|day)/i.test(line)) {
-            issues.push({
-              ruleId: 'junior.best-practices',
-              severity: 'low',
-              file: filePath,
-              line: lineNum,
-              message: `Magic number detected - consider using a named constant for clarity`,
-              fix: 'Extract magic numbers to named constants (e.g., const MAX_RETRIES = 3)',
-              confidence: 0.6,
-            });
+        },
+        // Detect magic numbers
+        NumericLiteral: (path: NodePath<t.NumericLiteral>) => {
+          if (!Number.isInteger(path.node.value) || path.node.value < 100 || isNamedNumber(path)) {
+            return;
           }
-
-          // Detect nested ternaries (hard to read)
-          if ((line.match(/\?/g) || []).length > 1) {
-            issues.push({
-              ruleId: 'junior.best-practices',
-              severity: 'low',
-              file: filePath,
-              line: lineNum,
-              message: `Nested ternary detected - consider using if/else for better readability`,
-              fix: 'Use if/else statements instead of nested ternaries for clarity',
-              confidence: 0.7,
-            });
+          context.report({
+            severity: 'low',
+            line: path.line,
+            column: path.column,
+            message: `Magic number detected - consider using a named constant for clarity`,
+            fix: 'Extract magic numbers to named constants (e.g., const MAX_RETRIES = 3)',
+            confidence: 0.6,
+          });
+        },
+        // Detect nested ternaries (hard to read)
+        ConditionalExpression: (path: NodePath<t.ConditionalExpression>) => {
+          const { test, consequent, alternate } = path.node;
+          if (path.parent?.type === 'ConditionalExpression' ||
+              ![test, consequent, alternate].some((node) => node.type === 'ConditionalExpression')) {
+            return;
           }
-        });
-
-        return issues;
-      },
+          context.report({
+            severity: 'low',
+            line: path.line,
+            column: path.column,
+            message: `Nested ternary detected - consider using if/else for better readability`,
+            fix: 'Use if/else statements instead of nested ternaries for clarity',
+            confidence: 0.7,
+          });
+        },
+      }),
     });
 
     // Pre-Review Validation
@@ -827,35 +1296,59 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'critical',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
+      create: (context) => ({
+        Program: () => {
+          // Detect removal of exported functions (marked in comments; full validation needs diff context)
+          context.comments.forEach((comment) => {
+            if (comment.type === 'CommentLine' && /^\s*(?:removed|deleted|deprecated)\s+export/i.test(comment.value)) {
+              context.report({
+                line: comment.loc?.start.line || 1,
+                message: `CRITICAL: Exported function removed - this is a breaking change`,
+                fix: 'Follow semantic versioning: major version bump required, add deprecation notice first',
+                confidence: 0.9,
+              });
+            }
+          });
+        },
+      }),
+      evaluateDiff: (diff, filePath) => {
         const issues: Issue[] = [];
-        const lines = content.split('\n');
+        const reported = new Set<string>();
+        const breaking = (line: number, message: string, confidence: number): void => {
+          issues.push({
+            ruleId: 'opensource.breaking-change',
+            severity: 'critical',
+            file: filePath,
+            line,
+            message: `CRITICAL: ${message} - this is a breaking change`,
+            fix: 'Follow semantic versioning: major version bump required, add deprecation notice first',
+            confidence,
+          });
+        };
 
-        lines.forEach((line, index) => {
-          const lineNum = index + 1;
-
-          // Detect function signature changes (potential breaking change)
-          if (/export\s+(?:async\s+)?function\s+(\w+)/.test(line)) {
-            const funcName = line.match(/export\s+(?:async\s+)?function\s+(\w+)/)?.[1];
-            if (funcName && parseResult.functions.some(f => f.name === funcName)) {
-              // Check if parameters changed (would need diff context for full validation)
-              // This is a simplified check - full validation requires diff context
-            }
+        for (const change of diff.changes) {
+          if (!change.isExported || change.kind === 'import' || change.kind === 'export') {
+            continue;
           }
-
-          // Detect removal of exported functions
-          if (/\/\/\s*(?:removed|deleted|deprecated)\s+export/i.test(line)) {
-            issues.push({
-              ruleId: 'opensource.breaking-change',
-              severity: 'critical',
-              file: filePath,
-              line: lineNum,
-              message: `CRITICAL: Exported function removed - this is a breaking change`,
-              fix: 'Follow semantic versioning: major version bump required, add deprecation notice first',
-              confidence: 0.9,
-            });
+          const name = change.previousName ?? change.name;
+          const subject = `Exported ${change.kind} '${name}'`;
+
+          if (change.change === 'removed') {
+            breaking(1, `${subject} removed (was line ${change.before?.start})`, 0.95);
+          } else if (change.change === 'renamed') {
+            breaking(change.after?.start ?? 1, `${subject} renamed to '${change.name}'`, 0.9);
+          } else if (change.change === 'signature-changed') {
+            breaking(change.after?.start ?? 1, `${subject} signature changed: ${change.beforeSignature} → ${change.afterSignature}`, 0.8);
+          } else {
+            continue;
           }
-        });
+          reported.add(name);
+        }
+
+        // Re-exports and aliases dropped without a matching declaration change
+        diff.changes
+          .filter((change) => change.kind === 'export' && change.change === 'removed' && !reported.has(change.name))
+          .forEach((change) => breaking(1, `Export '${change.name}' removed (was line ${change.before?.start})`, 0.9));
 
         return issues;
       },
@@ -902,67 +1395,87 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'high',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-
-        // Check for inconsistent patterns (would need codebase context for full validation)
-        // This is a simplified check for common inconsistencies
-
-        const functions = parseResult.functions;
-
+      create: (context) => {
         // Flag if mixing async/await with callbacks
-        const hasCallbacks = /\.then\(|\.catch\(|callback\(/i.test(content);
-        const hasAsyncAwait = /await\s+/.test(content);
-
-        if (hasCallbacks && hasAsyncAwait && functions.length > 3) {
-          issues.push({
-            ruleId: 'agency.consistency',
-            severity: 'medium',
-            file: filePath,
-            line: 1,
-            message: `Inconsistent async patterns detected - mixing callbacks with async/await`,
-            fix: 'Use consistent async pattern throughout (prefer async/await)',
-            confidence: 0.7,
-          });
-        }
-
-        return issues;
+        let firstCallbackLine = 0;
+        let hasAsyncAwait = false;
+
+        return {
+          CallExpression: (path: NodePath<t.CallExpression>) => {
+            const calleeName = getCalleeName(path.node);
+            const isPromiseChain = path.node.callee.type === 'MemberExpression' &&
+              (calleeName === 'then' || calleeName === 'catch');
+            if (!firstCallbackLine && (isPromiseChain || calleeName === 'callback')) {
+              firstCallbackLine = path.line;
+            }
+          },
+          AwaitExpression: () => {
+            hasAsyncAwait = true;
+          },
+          'Program:exit': () => {
+            if (firstCallbackLine && hasAsyncAwait && context.parseResult.functions.length > 3) {
+              context.report({
+                severity: 'medium',
+                line: firstCallbackLine,
+                message: `Inconsistent async patterns detected - mixing callbacks with async/await`,
+                fix: 'Use consistent async pattern throughout (prefer async/await)',
+                confidence: 0.7,
+              });
+            }
+          },
+        };
       },
     });
 
-    // Requirement Validation (simplified)
+    // Requirement Validation
     this.registerRule({
       id: 'agency.requirements',
       name: 'Requirement Validation',
       category: 'quality',
       severity: 'high',
       enabled: true,
-      evaluate: (_parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-
+      create: (context) => {
         // Check for incomplete implementations
-        const incompletePatterns = [
-          /\/\/\s*(?:TODO|FIXME|XXX).*implement/i,
-          /throw\s+new\s+Error\(['"]Not\s+implemented/i,
-          /return\s+null\s*;?\s*\/\/\s*(?:TODO|temporary)/i,
-        ];
-
-        incompletePatterns.forEach(pattern => {
-          const matches = content.match(pattern);
-          if (matches) {
-            issues.push({
-              ruleId: 'agency.requirements',
-              severity: 'high',
-              file: filePath,
-              line: 1,
-              message: `Incomplete implementation detected - may not meet client requirements`,
-              fix: 'Complete implementation before delivery',
-              confidence: 0.8,
+        const report = (line: number) => {
+          context.report({
+            line,
+            message: `Incomplete implementation detected - may not meet client requirements`,
+            fix: 'Complete implementation before delivery',
+            confidence: 0.8,
+          });
+        };
+        const temporaryCommentLines = new Set<number>();
+
+        return {
+          Program: () => {
+            context.comments.forEach((comment) => {
+              if (comment.type !== 'CommentLine' || !comment.loc) {
+                return;
+              }
+              if (/^\s*(?:TODO|FIXME|XXX).*implement/i.test(comment.value)) {
+                report(comment.loc.start.line);
+              } else if (/^\s*(?:TODO|temporary)/i.test(comment.value)) {
+                temporaryCommentLines.add(comment.loc.start.line);
+              }
             });
-          }
-        });
-
-        return issues;
+          },
+          // throw new Error('Not implemented')
+          ThrowStatement: (path: NodePath<t.ThrowStatement>) => {
+            const argument = path.node.argument;
+            if (argument.type === 'NewExpression' && getCalleeName(argument) === 'Error' && argument.arguments[0]) {
+              const message = getStaticString(argument.arguments[0]);
+              if (message && /^Not\s+implemented/i.test(message)) {
+                report(path.line);
+              }
+            }
+          },
+          // return null; // TODO
+          ReturnStatement: (path: NodePath<t.ReturnStatement>) => {
+            if (path.node.argument?.type === 'NullLiteral' && temporaryCommentLines.has(path.line)) {
+              report(path.line);
+            }
+          },
+        };
       },
     });
 
@@ -975,43 +1488,21 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'critical',
       enabled: true,
-      evaluate: (parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-        const lines = content.split('\n');
-
-        lines.forEach((line, index) => {
-          const lineNum = index + 1;
-
-          // Detect unhandled promise rejections
-          if (/await\s+\w+\(/i.test(line) && !/try\s*\{/.test(content.substring(Math.max(0, index - 5), index + 5))) {
-            const func = parseResult.functions.find(f => Math.abs(f.line - lineNum) < 5);
-            if (func && func.isAsync) {
-              const funcContent = this.getFunctionContent(content, func);
-              if (/await\s+/.test(funcContent) && !/try\s*\{/.test(funcContent)) {
-                issues.push({
-                  ruleId: 'startup.stability',
-                  severity: 'critical',
-                  file: filePath,
-                  line: lineNum,
-                  message: `CRITICAL: Unhandled promise rejection - will crash production`,
-                  fix: 'Wrap async operations in try/catch blocks',
-                  confidence: 0.9,
-                });
-              }
-            }
-          }
-
-          // Detect missing error boundaries
-          if (/export\s+(?:default\s+)?function/i.test(line) && filePath.includes('page.') || filePath.includes('layout.')) {
-            // React/Next.js error boundary check (simplified)
-            if (!content.includes('error') && !content.includes('ErrorBoundary')) {
-              // Would need more context for full validation
-            }
+      create: (context) => ({
+        // Detect unhandled promise rejections
+        AwaitExpression: (path) => {
+          if (!path.getFunctionParent() || path.isInsideTryBlock()) {
+            return;
           }
-        });
-
-        return issues;
-      },
+          context.report({
+            line: path.line,
+            column: path.column,
+            message: `CRITICAL: Unhandled promise rejection - will crash production`,
+            fix: 'Wrap async operations in try/catch blocks',
+            confidence: 0.9,
+          });
+        },
+      }),
     });
 
     // Scaling Readiness Check
@@ -1021,110 +1512,317 @@ export class StaticAnalysisService {
       category: 'quality',
       severity: 'high',
       enabled: true,
-      evaluate: (_parseResult, filePath, content) => {
-        const issues: Issue[] = [];
-        const lines = content.split('\n');
-
-        lines.forEach((line, index) => {
-          const lineNum = index + 1;
-
-          // Detect N+1 query patterns
-          if (/await\s+prisma\.\w+\.findMany/i.test(line)) {
-            const nextLines = lines.slice(index + 1, index + 10).join('\n');
-            if (/await\s+prisma\.\w+\.findUnique/i.test(nextLines) || /await\s+prisma\.\w+\.findFirst/i.test(nextLines)) {
-              issues.push({
-                ruleId: 'startup.scaling',
-                severity: 'high',
-                file: filePath,
-                line: lineNum,
-                message: `Potential N+1 query pattern detected - will not scale`,
-                fix: 'Use Prisma include/select to fetch related data in single query',
-                confidence: 0.7,
-              });
-            }
+      create: (context) => ({
+        CallExpression: (path: NodePath<t.CallExpression>) => {
+          // Detect N+1 query patterns: lookups issued once per loop iteration
+          if (isPrismaCall(path.node) && /^find/.test(getCalleeName(path.node) || '') && path.isInsideLoop()) {
+            context.report({
+              line: path.line,
+              column: path.column,
+              message: `Potential N+1 query pattern detected - will not scale`,
+              fix: 'Use Prisma include/select to fetch related data in single query',
+              confidence: 0.8,
+            });
+            return;
           }
 
           // Detect synchronous operations in async context
-          if (/await\s+.*\.(?:readFileSync|writeFileSync|execSync)/i.test(line)) {
-            issues.push({
-              ruleId: 'startup.scaling',
-              severity: 'high',
-              file: filePath,
-              line: lineNum,
+          const fn = path.getFunctionParent();
+          const calleeName = getCalleeName(path.node);
+          if (calleeName && SYNC_OPERATIONS.has(calleeName) && (fn?.node as t.Function | undefined)?.async) {
+            context.report({
+              line: path.line,
+              column: path.column,
               message: `Synchronous file operation detected - blocks event loop, won't scale`,
               fix: 'Use async file operations (fs.promises or async alternatives)',
               confidence: 0.9,
             });
           }
-        });
+        },
+      }),
+    });
+  }
 
-        return issues;
+  /**
+   * Build the context handed to AST rules
+   */
+  private createRuleContext(
+    rule: Rule,
+    filePath: string,
+    content: string,
+    parseResult: ParseResult,
+    ast: t.File,
+    params: RuleParams,
+    issues: Issue[]
+  ): RuleContext {
+    return {
+      filePath,
+      content,
+      parseResult,
+      comments: ast.comments || [],
+      params,
+      report: (issue) => {
+        issues.push({
+          ...issue,
+          ruleId: rule.id,
+          severity: issue.severity || rule.severity,
+          file: filePath,
+        });
       },
-    });
+    };
   }
 
   /**
-   * Get function content from file
+   * Isolate rule failures: a throwing visitor disables its rule for this file
    */
-  private getFunctionContent(content: string, func: any): string {
-    const lines = content.split('\n');
-    const startLine = func.line - 1;
-    
-    // Try to get function body by finding matching braces
-    let braceCount = 0;
-    let inFunction = false;
-    let endLine = startLine;
-    
-    for (let i = startLine; i < lines.length; i++) {
-      const line = lines[i];
-      const openBraces = (line.match(/\{/g) || []).length;
-      const closeBraces = (line.match(/\}/g) || []).length;
-      
-      if (openBraces > 0) {
-        inFunction = true;
-        braceCount += openBraces;
+  private guardVisitor(visitor: Visitor, issues: Issue[]): Visitor {
+    let failed = false;
+    const guarded: Visitor = {};
+
+    for (const [key, handler] of Object.entries(visitor)) {
+      if (!handler) {
+        continue;
       }
-      if (closeBraces > 0) {
-        braceCount -= closeBraces;
-        if (inFunction && braceCount === 0) {
-          endLine = i;
-          break;
+      guarded[key] = (path) => {
+        if (failed) {
+          return;
         }
-      }
+        try {
+          handler(path);
+        } catch (error) {
+          failed = true;
+          issues.length = 0;
+        }
+      };
     }
-    
-    // Return function body (or at least the function line if parsing fails)
-    return lines.slice(startLine, endLine + 1).join('\n') || lines[startLine] || '';
+
+    return guarded;
   }
 
   /**
-   * Calculate cyclomatic complexity
+   * Calculate cyclomatic complexity of a function (nested functions excluded)
    */
-  private calculateComplexity(content: string): number {
+  private calculateComplexity(fn: t.Node): number {
     let complexity = 1; // Base complexity
 
-    // Count decision points
-    const patterns = [
-      /\bif\s*\(/g,
-      /\belse\s*if\s*\(/g,
-      /\bfor\s*\(/g,
-      /\bwhile\s*\(/g,
-      /\bswitch\s*\(/g,
-      /\bcatch\s*\(/g,
-      /&&/g,
-      /\|\|/g,
-      /\?/g,
-    ];
-
-    patterns.forEach((pattern) => {
-      const matches = content.match(pattern);
-      if (matches) {
-        complexity += matches.length;
+    walk(fn, (node) => {
+      switch (node.type) {
+        case 'IfStatement':
+        case 'ForStatement':
+        case 'ForInStatement':
+        case 'ForOfStatement':
+        case 'WhileStatement':
+        case 'DoWhileStatement':
+        case 'CatchClause':
+        case 'ConditionalExpression':
+        case 'LogicalExpression':
+          complexity++;
+          break;
+        case 'SwitchCase':
+          if (node.test) {
+            complexity++;
+          }
+          break;
+        default:
+          break;
       }
-    });
+    }, { skipNestedFunctions: true });
 
     return complexity;
   }
 }
 
+/**
+ * Value of a string literal or expression-free template literal
+ */
+function getStaticString(node: t.Node): string | null {
+  if (node.type === 'StringLiteral') {
+    return node.value;
+  }
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0]?.value.cooked ?? null;
+  }
+  return null;
+}
+
+function getPropertyName(key: t.Node): string | null {
+  if (key.type === 'Identifier') {
+    return key.name;
+  }
+  return getStaticString(key);
+}
+
+/**
+ * Name a literal is assigned to: `const apiKey = '...'`, `{ token: '...' }`, `this.secret = '...'`
+ */
+function getAssignedName(path: NodePath): string | null {
+  const parent = path.parent;
+  if (!parent) {
+    return null;
+  }
+  switch (parent.type) {
+    case 'VariableDeclarator':
+      return path.key === 'init' && parent.id.type === 'Identifier' ? parent.id.name : null;
+    case 'ObjectProperty':
+    case 'ClassProperty':
+      return path.key === 'value' ? getPropertyName(parent.key) : null;
+    case 'AssignmentExpression':
+    case 'AssignmentPattern': {
+      if (path.key !== 'right') {
+        return null;
+      }
+      const chain = getMemberChain(parent.left);
+      return chain ? chain[chain.length - 1] : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function flattenConcatenation(node: t.Node): t.Node[] {
+  if (node.type === 'BinaryExpression' && node.operator === '+') {
+    return [...flattenConcatenation(node.left), ...flattenConcatenation(node.right)];
+  }
+  return [node];
+}
+
+/**
+ * prisma.<model>.<operation>(...) or this.prisma.<model>.<operation>(...)
+ */
+function isPrismaCall(call: t.CallExpression): boolean {
+  const chain = getMemberChain(call.callee);
+  if (!chain) {
+    return false;
+  }
+  const offset = chain[0] === 'this' ? 1 : 0;
+  return chain[offset] === 'prisma' &&
+    chain.length === offset + 3 &&
+    /^(?:find|create|update|delete|upsert)/.test(chain[offset + 2]);
+}
+
+function isUserIdSwap(target: string, source: string): boolean {
+  return (/^fromUserId$/i.test(target) && /^toUserId$/i.test(source)) ||
+    (/^toUserId$/i.test(target) && /^fromUserId$/i.test(source));
+}
+
+/**
+ * Whether an expression derives from the request body
+ * (req.body, body.x, await request.json(), or a variable holding one of those)
+ */
+function isRequestBody(node: t.Node, scope: Scope, depth = 0): boolean {
+  switch (node.type) {
+    case 'AwaitExpression':
+      return isRequestBody(node.argument, scope, depth);
+    case 'TSAsExpression':
+    case 'TSNonNullExpression':
+      return isRequestBody(node.expression, scope, depth);
+    case 'MemberExpression':
+    case 'OptionalMemberExpression': {
+      const chain = getMemberChain(node);
+      return chain ? chain.includes('body') || isRequestBody(node.object, scope, depth) : isRequestBody(node.object, scope, depth);
+    }
+    case 'CallExpression': {
+      const chain = getMemberChain(node.callee);
+      return !!chain && chain.length === 2 && /^req(?:uest)?$/i.test(chain[0]) && /^(?:json|formData)$/.test(chain[1]);
+    }
+    case 'Identifier': {
+      if (node.name === 'body') {
+        return true;
+      }
+      const binding = scope.getBinding(node.name);
+      return !!binding?.init && depth < 3 && isRequestBody(binding.init, binding.scope, depth + 1);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether call arguments reference PII fields without an encrypt/hash step
+ */
+function mentionsUnprotectedPII(args: t.Node[]): boolean {
+  let mentionsPII = false;
+  let isProtected = false;
+
+  for (const arg of args) {
+    walk(arg, (node) => {
+      if (node.type === 'Identifier' && PII_PATTERN.test(node.name)) {
+        mentionsPII = true;
+      } else if ((node.type === 'CallExpression' || node.type === 'NewExpression') &&
+                 /encrypt|hash|bcrypt|scrypt|argon2|redact|mask/i.test(getCalleeName(node) || '')) {
+        isProtected = true;
+        return false;
+      }
+      return undefined;
+    });
+  }
+
+  return mentionsPII && !isProtected;
+}
+
+/**
+ * Numbers that already have a name: const initializers, enum members,
+ * literal types, and id/date/status-like fields
+ */
+function isNamedNumber(path: NodePath): boolean {
+  for (let i = path.ancestry.length - 1; i >= 0; i--) {
+    const node = path.ancestry[i].node;
+    switch (node.type) {
+      case 'UnaryExpression':
+      case 'BinaryExpression':
+      case 'TSAsExpression':
+        continue;
+      case 'VariableDeclarator': {
+        const declaration = path.ancestry[i - 1]?.node;
+        const name = node.id.type === 'Identifier' ? node.id.name : '';
+        return (declaration?.type === 'VariableDeclaration' && declaration.kind === 'const') ||
+          /(?:id|timestamp|date|year|month|day|status|port)/i.test(name);
+      }
+      case 'ClassProperty':
+      case 'TSEnumMember':
+      case 'TSLiteralType':
+        return true;
+      case 'ObjectProperty':
+        return /(?:id|timestamp|date|year|month|day|status|port)/i.test(getPropertyName(node.key) || '');
+      default:
+        return false;
+    }
+  }
+  return false;
+}
+
+function nodeRange(node: t.Node): { start: number; end: number } | null {
+  return typeof node.start === 'number' && typeof node.end === 'number' ? { start: node.start, end: node.end } : null;
+}
+
+/**
+ * Edit removing one import specifier, or the whole declaration when it is
+ * the last one. Null when removal would leave empty braces behind.
+ */
+function importRemovalEdit(content: string, declaration: t.ImportDeclaration, specifier: t.ImportDeclaration['specifiers'][number]): TextEdit | null {
+  const specifiers = declaration.specifiers;
+  const declarationRange = nodeRange(declaration);
+  const range = nodeRange(specifier);
+  if (!declarationRange || !range) {
+    return null;
+  }
+  if (specifiers.length === 1) {
+    return removalEdit(content, declarationRange.start, declarationRange.end);
+  }
+
+  const named = specifiers.filter((s) => s.type === 'ImportSpecifier');
+  if (specifier.type === 'ImportSpecifier' && named.length === 1) {
+    return null;
+  }
+
+  const index = specifiers.indexOf(specifier);
+  if (index < specifiers.length - 1) {
+    // The specifier and its comma, up to whatever follows (next specifier, `{` or `* as`)
+    return editFromOffsets(content, range.start, range.end + content.slice(range.end).search(/[^\s,]/), '');
+  }
+  // Last of several: take the preceding comma with it
+  const previous = nodeRange(specifiers[index - 1]);
+  return previous ? editFromOffsets(content, previous.end, range.end, '') : null;
+}
+
 export const staticAnalysisService = new StaticAnalysisService();
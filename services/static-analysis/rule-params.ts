@@ -0,0 +1,174 @@
+/**
+ * Rule Parameters
+ *
+ * Typed knobs a rule exposes to policy packs (`PolicyRule.params`). Each
+ * rule declares its specs; the analyzer resolves a pack's values against
+ * them, and the policy API validates values before they are stored.
+ */
+
+import safeRegex from 'safe-regex2';
+
+export type RuleParamType = 'integer' | 'number' | 'boolean' | 'string' | 'string[]' | 'regex[]' | 'glob[]';
+
+export type RuleParamValue = number | boolean | string | string[];
+
+export type RuleParams = Record<string, RuleParamValue>;
+
+export interface RuleParamSpec {
+  name: string;
+  type: RuleParamType;
+  label: string;
+  description?: string;
+  default: RuleParamValue;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Accepted by every built-in rule: matching files are not analyzed by it
+ */
+export const ALLOWLIST_PATHS_PARAM: RuleParamSpec = {
+  name: 'allowlistPaths',
+  type: 'glob[]',
+  label: 'Allowlisted paths',
+  description: 'Files matching these globs are skipped by this rule, e.g. `test/**` or `**/*.fixture.ts`',
+  default: [],
+};
+
+// Read by the policy engine rather than the rule itself, valid on any rule
+const POLICY_PARAMS = new Set(['preExisting', 'baseline']);
+const POLICY_ACTIONS = ['block', 'warn', 'hide'];
+const SEVERITIES = ['critical', 'high', 'medium', 'low'];
+const MAX_LIST_LENGTH = 100;
+const MAX_REGEX_LENGTH = 500;
+
+/**
+ * Convert a path glob (`*`, `?`, `**`) into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateValue(spec: RuleParamSpec, value: unknown): string | null {
+  switch (spec.type) {
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number';
+      }
+      if (spec.type === 'integer' && !Number.isInteger(value)) {
+        return 'must be an integer';
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        return `must be at least ${spec.min}`;
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        return `must be at most ${spec.max}`;
+      }
+      return null;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    default: {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item.length === 0)) {
+        return 'must be an array of non-empty strings';
+      }
+      if (value.length > MAX_LIST_LENGTH) {
+        return `must have at most ${MAX_LIST_LENGTH} entries`;
+      }
+      if (spec.type === 'regex[]') {
+        const invalid = value.find((item) => item.length > MAX_REGEX_LENGTH || !isValidRegex(item));
+        if (invalid !== undefined) {
+          return `contains an invalid regular expression: ${invalid}`;
+        }
+        // Rules run synchronously on shared workers
+        const unsafe = value.find((item) => !safeRegex(item));
+        if (unsafe !== undefined) {
+          return `contains a regular expression that may backtrack catastrophically (nested quantifiers): ${unsafe}`;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+function validatePolicyParam(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return POLICY_ACTIONS.includes(value) ? null : `must be one of ${POLICY_ACTIONS.join(', ')}`;
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [severity, action] of Object.entries(value)) {
+      if (!SEVERITIES.includes(severity)) {
+        return `has unknown severity '${severity}'`;
+      }
+      if (typeof action !== 'string' || !POLICY_ACTIONS.includes(action)) {
+        return `must map severities to one of ${POLICY_ACTIONS.join(', ')}`;
+      }
+    }
+    return null;
+  }
+  return 'must be an action or a per-severity map of actions';
+}
+
+/**
+ * Validate stored params against a rule's specs. Pass `null` for rules the
+ * analyzer doesn't know (e.g. AI-reported rule ids), whose other keys pass.
+ */
+export function validateRuleParams(specs: RuleParamSpec[] | null, params: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const byName = new Map((specs || []).map((spec) => [spec.name, spec]));
+
+  for (const [name, value] of Object.entries(params)) {
+    const spec = byName.get(name);
+    const error = POLICY_PARAMS.has(name)
+      ? validatePolicyParam(value)
+      : spec
+        ? validateValue(spec, value)
+        : specs ? 'is not a parameter of this rule' : null;
+    if (error) {
+      errors.push(`${name} ${error}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Effective params for one run: declared defaults overlaid with valid values
+ */
+export function resolveRuleParams(specs: RuleParamSpec[], params: Record<string, unknown> = {}): RuleParams {
+  const resolved: RuleParams = {};
+  for (const spec of specs) {
+    const value = params[spec.name];
+    resolved[spec.name] = value !== undefined && validateValue(spec, value) === null
+      ? value as RuleParamValue
+      : spec.default;
+  }
+  return resolved;
+}
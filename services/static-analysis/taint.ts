@@ -0,0 +1,544 @@
+/**
+ * Taint Analysis
+ *
+ * Intra-file data-flow tracking from untrusted input (NextRequest bodies and
+ * params, Express req.*, process.argv) into injection sinks (raw SQL, shell
+ * commands, eval, fs paths, outbound request URLs).
+ *
+ * Flow-insensitive: assignments, calls and returns are collected during the
+ * shared traversal and resolved to a fixed point at Program:exit, which also
+ * carries taint through functions defined in the same file.
+ */
+
+import type * as t from '@babel/types';
+import type { Issue, RuleContext, TraceStep } from './index';
+import {
+  functionVisitor,
+  getMemberChain,
+  getCalleeName,
+  getFunctionName,
+  Binding,
+  NodePath,
+  Scope,
+  Visitor,
+} from './visitor';
+
+type SinkKind = 'sql' | 'command' | 'code' | 'path' | 'url';
+
+const SINKS: Record<SinkKind, { title: string; severity: Issue['severity']; fix: string }> = {
+  sql: {
+    title: 'SQL injection',
+    severity: 'critical',
+    fix: 'Use parameterized queries or tagged templates (prisma.$queryRaw`... ${value}`) instead of building SQL strings',
+  },
+  command: {
+    title: 'Command injection',
+    severity: 'critical',
+    fix: 'Avoid shell execution with user input; use execFile/spawn with a fixed command and validated arguments',
+  },
+  code: {
+    title: 'Code injection',
+    severity: 'critical',
+    fix: 'Never evaluate user input as code; parse it as data instead',
+  },
+  path: {
+    title: 'Path traversal',
+    severity: 'high',
+    fix: 'Resolve the path against a fixed base directory and reject paths that escape it (path.basename or allowlist)',
+  },
+  url: {
+    title: 'Server-side request forgery',
+    severity: 'high',
+    fix: 'Validate the URL host against an allowlist before making outbound requests',
+  },
+};
+
+const HTTP_HANDLER_NAMES = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+const REQUEST_TYPES = new Set(['NextRequest', 'Request', 'IncomingMessage']);
+const REQUEST_INPUT_PROPERTIES = new Set([
+  'body', 'query', 'params', 'headers', 'cookies', 'url', 'nextUrl', 'searchParams', 'files',
+]);
+const REQUEST_BODY_METHODS = new Set(['json', 'text', 'formData', 'arrayBuffer', 'blob']);
+const SANITIZERS = new Set([
+  'Number', 'parseInt', 'parseFloat', 'Boolean', 'encodeURIComponent', 'basename',
+]);
+const PASSTHROUGH_FUNCTIONS = new Set([
+  'String', 'decodeURIComponent', 'decodeURI', 'parse', 'join', 'resolve', 'normalize', 'format',
+]);
+const SQL_RAW_METHODS = new Set(['$queryRawUnsafe', '$executeRawUnsafe', '$queryRaw', '$executeRaw']);
+const SQL_QUERY_METHODS = new Set(['query', 'execute', 'raw']);
+const CHILD_PROCESS_FUNCTIONS = new Set([
+  'exec', 'execSync', 'spawn', 'spawnSync', 'execFile', 'execFileSync', 'fork',
+]);
+const VM_FUNCTIONS = new Set(['runInNewContext', 'runInThisContext', 'runInContext', 'Script', 'compileFunction']);
+const HTTP_CLIENT_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'request']);
+const FS_MODULES = new Set(['fs', 'fs/promises', 'node:fs', 'node:fs/promises', 'fs-extra']);
+const CHILD_PROCESS_MODULES = new Set(['child_process', 'node:child_process']);
+const HTTP_MODULES = new Set(['axios', 'got', 'http', 'https', 'node:http', 'node:https', 'node-fetch']);
+
+interface Flow {
+  targets: Binding[];
+  value: t.Node;
+  scope: Scope;
+  step: (target: Binding) => TraceStep;
+}
+
+interface PendingCall {
+  callee: t.Node;
+  args: t.Node[];
+  scope: Scope;
+  line: number;
+}
+
+/**
+ * Per-call evaluation state: functions on the stack (recursion guard) and
+ * parameter taint substituted from the current call site
+ */
+interface TraceEnv {
+  active: Set<t.Node>;
+  params: Map<Binding, TraceStep[] | null>;
+}
+
+interface Sink {
+  kind: SinkKind;
+  label: string;
+  argument: t.Node;
+  scope: Scope;
+  line: number;
+  column: number;
+}
+
+/**
+ * Build the visitor for the `security.taint` rule
+ */
+export function createTaintVisitor(context: RuleContext): Visitor {
+  const tainted = new Map<Binding, TraceStep[]>();
+  const requestObjects = new Set<Binding>();
+  const functionScopes = new Map<t.Node, Scope>();
+  const returns = new Map<t.Node, Array<{ value: t.Node; scope: Scope }>>();
+  const flows: Flow[] = [];
+  const calls: PendingCall[] = [];
+  const sinks: Sink[] = [];
+
+  const at = (node: t.Node, message: string): TraceStep => ({
+    line: node.loc?.start.line || 0,
+    column: node.loc?.start.column,
+    message,
+  });
+
+  /**
+   * Resolve a callee to a function defined in this file
+   */
+  const resolveLocalFunction = (callee: t.Node, scope: Scope): t.Node | null => {
+    if (callee.type !== 'Identifier') {
+      return null;
+    }
+    const binding = scope.getBinding(callee.name);
+    if (!binding) {
+      return null;
+    }
+    if (binding.kind === 'function') {
+      return binding.declaration;
+    }
+    const init = binding.init;
+    if (init && (init.type === 'ArrowFunctionExpression' || init.type === 'FunctionExpression')) {
+      return init;
+    }
+    return null;
+  };
+
+  /**
+   * Module a callee's root identifier was imported or required from
+   */
+  const resolveModule = (callee: t.Node, scope: Scope): string | null => {
+    const chain = getMemberChain(callee);
+    const binding = chain ? scope.getBinding(chain[0]) : undefined;
+    if (!binding) {
+      return null;
+    }
+    if (binding.importSource) {
+      return binding.importSource;
+    }
+    let init = binding.init;
+    while (init && (init.type === 'MemberExpression' || init.type === 'AwaitExpression')) {
+      init = init.type === 'MemberExpression' ? init.object : init.argument;
+    }
+    if (init?.type === 'CallExpression' && init.callee.type === 'Identifier' && init.callee.name === 'require' &&
+        init.arguments[0]?.type === 'StringLiteral') {
+      return init.arguments[0].value;
+    }
+    return null;
+  };
+
+  const isRequestObject = (node: t.Node, scope: Scope): node is t.Identifier => {
+    if (node.type !== 'Identifier') {
+      return false;
+    }
+    const binding = scope.getBinding(node.name);
+    return !!binding && requestObjects.has(binding);
+  };
+
+  /**
+   * Describe an expression that reads untrusted input directly
+   */
+  const describeSource = (node: t.Node, scope: Scope): string | null => {
+    if (node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') {
+      const property = !node.computed && node.property.type === 'Identifier' ? node.property.name : null;
+      if (property && REQUEST_INPUT_PROPERTIES.has(property) && isRequestObject(node.object, scope)) {
+        return `${node.object.name}.${property}`;
+      }
+      if (property === 'argv' && node.object.type === 'Identifier' && node.object.name === 'process' &&
+          !scope.hasBinding('process')) {
+        return 'process.argv';
+      }
+    }
+    if (node.type === 'CallExpression' || node.type === 'OptionalCallExpression') {
+      const callee = node.callee;
+      if ((callee.type === 'MemberExpression' || callee.type === 'OptionalMemberExpression') &&
+          !callee.computed && callee.property.type === 'Identifier' &&
+          REQUEST_BODY_METHODS.has(callee.property.name) && isRequestObject(callee.object, scope)) {
+        return `${callee.object.name}.${callee.property.name}()`;
+      }
+    }
+    return null;
+  };
+
+  const firstTainted = (nodes: Array<t.Node | null>, scope: Scope, env: TraceEnv): TraceStep[] | null => {
+    for (const node of nodes) {
+      const trace = node ? traceOf(node, scope, env) : null;
+      if (trace) {
+        return trace;
+      }
+    }
+    return null;
+  };
+
+  /**
+   * Trace from an untrusted source to this expression, or null if it is clean
+   */
+  const traceOf = (
+    node: t.Node,
+    scope: Scope,
+    env: TraceEnv = { active: new Set(), params: new Map() }
+  ): TraceStep[] | null => {
+    switch (node.type) {
+      case 'Identifier': {
+        const binding = scope.getBinding(node.name);
+        if (!binding) {
+          return null;
+        }
+        return env.params.has(binding) ? env.params.get(binding) || null : tainted.get(binding) || null;
+      }
+      case 'MemberExpression':
+      case 'OptionalMemberExpression': {
+        const source = describeSource(node, scope);
+        return source ? [at(node, `Untrusted input from ${source}`)] : traceOf(node.object, scope, env);
+      }
+      case 'CallExpression':
+      case 'OptionalCallExpression': {
+        const source = describeSource(node, scope);
+        if (source) {
+          return [at(node, `Untrusted input from ${source}`)];
+        }
+        const name = getCalleeName(node);
+        if (name && SANITIZERS.has(name)) {
+          return null;
+        }
+
+        // Values returned from functions in this file
+        const fn = resolveLocalFunction(node.callee, scope);
+        if (fn) {
+          if (env.active.has(fn)) {
+            return null;
+          }
+          // Evaluate returns with this call's arguments bound to the parameters
+          const params = new Map(env.params);
+          const fnScope = functionScopes.get(fn);
+          (fn as t.Function).params.forEach((param, index) => {
+            const arg = node.arguments[index];
+            const argTrace = arg && arg.type !== 'ArgumentPlaceholder' ? traceOf(arg, scope, env) : null;
+            if (fnScope) {
+              patternBindings(param.type === 'TSParameterProperty' ? param.parameter : param, fnScope)
+                .forEach((binding) => params.set(
+                  binding,
+                  argTrace && [...argTrace, at(arg, `Passed to '${name}' as '${binding.name}'`)]
+                ));
+            }
+          });
+          const inner: TraceEnv = { active: new Set([...env.active, fn]), params };
+          const returned = (returns.get(fn) || [])
+            .map(({ value, scope: returnScope }) => traceOf(value, returnScope, inner))
+            .find((trace) => trace !== null);
+          return returned ? [...returned, at(node, `Returned from '${name}'`)] : null;
+        }
+
+        // Methods on tainted values (body.trim(), searchParams.get('q'))
+        const callee = node.callee;
+        if (callee.type === 'MemberExpression' || callee.type === 'OptionalMemberExpression') {
+          const receiver = traceOf(callee.object, scope, env);
+          if (receiver) {
+            return receiver;
+          }
+        }
+        return name && PASSTHROUGH_FUNCTIONS.has(name) ? firstTainted(node.arguments, scope, env) : null;
+      }
+      case 'NewExpression':
+        return node.callee.type === 'Identifier' && (node.callee.name === 'URL' || node.callee.name === 'String')
+          ? firstTainted(node.arguments, scope, env)
+          : null;
+      case 'AwaitExpression':
+        return traceOf(node.argument, scope, env);
+      case 'TSAsExpression':
+      case 'TSSatisfiesExpression':
+      case 'TSNonNullExpression':
+      case 'ParenthesizedExpression':
+        return traceOf(node.expression, scope, env);
+      case 'TemplateLiteral':
+        return firstTainted(node.expressions, scope, env);
+      case 'BinaryExpression':
+        return node.operator === '+' ? firstTainted([node.left, node.right], scope, env) : null;
+      case 'LogicalExpression':
+        return firstTainted([node.left, node.right], scope, env);
+      case 'ConditionalExpression':
+        return firstTainted([node.consequent, node.alternate], scope, env);
+      case 'ArrayExpression':
+        return firstTainted(node.elements, scope, env);
+      case 'ObjectExpression':
+        return firstTainted(
+          node.properties.map((property) =>
+            property.type === 'ObjectProperty' ? property.value : property.type === 'SpreadElement' ? property.argument : null
+          ),
+          scope,
+          env
+        );
+      case 'SpreadElement':
+        return traceOf(node.argument, scope, env);
+      default:
+        return null;
+    }
+  };
+
+  const patternBindings = (pattern: t.Node, scope: Scope): Binding[] => {
+    const names: string[] = [];
+    const collect = (node: t.Node | null | undefined): void => {
+      if (!node) {
+        return;
+      }
+      switch (node.type) {
+        case 'Identifier':
+          names.push(node.name);
+          break;
+        case 'ObjectPattern':
+          node.properties.forEach((property) =>
+            collect(property.type === 'RestElement' ? property.argument : property.value)
+          );
+          break;
+        case 'ArrayPattern':
+          node.elements.forEach(collect);
+          break;
+        case 'AssignmentPattern':
+          collect(node.left);
+          break;
+        case 'RestElement':
+          collect(node.argument);
+          break;
+        case 'MemberExpression': {
+          // obj.field = tainted taints obj
+          const chain = getMemberChain(node);
+          if (chain && chain[0] !== 'this') {
+            names.push(chain[0]);
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    };
+    collect(pattern);
+    return names
+      .map((name) => scope.getBinding(name))
+      .filter((binding): binding is Binding => binding !== undefined);
+  };
+
+  const addFlow = (target: t.Node, value: t.Node, scope: Scope, node: t.Node) => {
+    const targets = patternBindings(target, scope);
+    if (targets.length > 0) {
+      flows.push({ targets, value, scope, step: (binding) => at(node, `Assigned to '${binding.name}'`) });
+    }
+  };
+
+  const addSink = (kind: SinkKind, label: string, argument: t.Node | undefined, path: NodePath) => {
+    if (argument && argument.type !== 'SpreadElement' && argument.type !== 'ArgumentPlaceholder') {
+      sinks.push({ kind, label, argument, scope: path.scope, line: path.line, column: path.column });
+    }
+  };
+
+  /**
+   * Identify request objects and route params among handler parameters
+   */
+  const registerParameters = (path: NodePath) => {
+    const fn = path.node as t.Function;
+    const isRouteHandler = HTTP_HANDLER_NAMES.has(getFunctionName(path));
+
+    fn.params.forEach((param, index) => {
+      const target = param.type === 'AssignmentPattern' ? param.left : param;
+      if (target.type === 'Identifier') {
+        const binding = path.scope.bindings.get(target.name);
+        const annotation = target.typeAnnotation?.type === 'TSTypeAnnotation' ? target.typeAnnotation.typeAnnotation : null;
+        const typeName = annotation?.type === 'TSTypeReference' && annotation.typeName.type === 'Identifier'
+          ? annotation.typeName.name
+          : null;
+        if (binding && (/^req(?:uest)?$/.test(target.name) || (typeName && REQUEST_TYPES.has(typeName)) ||
+            (isRouteHandler && index === 1))) {
+          requestObjects.add(binding);
+        }
+      } else if (target.type === 'ObjectPattern' && isRouteHandler && index === 1) {
+        // export async function GET(request, { params })
+        for (const property of target.properties) {
+          if (property.type === 'ObjectProperty' && property.key.type === 'Identifier' && property.key.name === 'params') {
+            patternBindings(property.value, path.scope).forEach((binding) =>
+              tainted.set(binding, [at(property, 'Untrusted input from route params')])
+            );
+          }
+        }
+      }
+    });
+  };
+
+  const recordFunction = (path: NodePath) => {
+    functionScopes.set(path.node, path.scope);
+    registerParameters(path);
+    const fn = path.node as t.Function;
+    if (fn.body.type !== 'BlockStatement') {
+      returns.set(path.node, [{ value: fn.body, scope: path.scope }]);
+    }
+  };
+
+  return {
+    ...functionVisitor(recordFunction),
+    VariableDeclarator: (path: NodePath<t.VariableDeclarator>) => {
+      if (path.node.init) {
+        addFlow(path.node.id, path.node.init, path.scope, path.node);
+      }
+    },
+    AssignmentExpression: (path: NodePath<t.AssignmentExpression>) => {
+      if (path.node.operator === '=' || path.node.operator === '+=') {
+        addFlow(path.node.left, path.node.right, path.scope, path.node);
+      }
+    },
+    ForOfStatement: (path: NodePath<t.ForOfStatement>) => {
+      const left = path.node.left;
+      const target = left.type === 'VariableDeclaration' ? left.declarations[0]?.id : left;
+      const scope = path.scope;
+      if (target) {
+        addFlow(target, path.node.right, scope, path.node);
+      }
+    },
+    ReturnStatement: (path: NodePath<t.ReturnStatement>) => {
+      const fn = path.getFunctionParent();
+      if (fn && path.node.argument) {
+        const list = returns.get(fn.node) || [];
+        list.push({ value: path.node.argument, scope: path.scope });
+        returns.set(fn.node, list);
+      }
+    },
+    NewExpression: (path: NodePath<t.NewExpression>) => {
+      const callee = path.node.callee;
+      if (callee.type === 'Identifier' && callee.name === 'Function' && !path.scope.hasBinding('Function')) {
+        const body = path.node.arguments[path.node.arguments.length - 1] as t.Node | undefined;
+        addSink('code', 'new Function()', body, path);
+      }
+    },
+    CallExpression: (path: NodePath<t.CallExpression>) => {
+      const { callee, arguments: args } = path.node;
+      const name = getCalleeName(path.node);
+      const chain = getMemberChain(callee);
+      const label = chain ? `${chain.join('.')}()` : `${name || 'call'}()`;
+      const moduleName = resolveModule(callee, path.scope);
+      const isMember = callee.type === 'MemberExpression' || callee.type === 'OptionalMemberExpression';
+
+      calls.push({ callee, args, scope: path.scope, line: path.line });
+
+      if (!name) {
+        return;
+      }
+
+      if (SQL_RAW_METHODS.has(name) || (isMember && SQL_QUERY_METHODS.has(name))) {
+        addSink('sql', label, args[0], path);
+      } else if (moduleName && CHILD_PROCESS_MODULES.has(moduleName) && CHILD_PROCESS_FUNCTIONS.has(name)) {
+        addSink('command', label, args[0], path);
+      } else if (name === 'eval' && !isMember && !path.scope.hasBinding('eval')) {
+        addSink('code', label, args[0], path);
+      } else if ((moduleName === 'vm' || moduleName === 'node:vm') && VM_FUNCTIONS.has(name)) {
+        addSink('code', label, args[0], path);
+      } else if (moduleName && FS_MODULES.has(moduleName)) {
+        addSink('path', label, args[0], path);
+      } else if (name === 'fetch' && !isMember && !path.scope.hasBinding('fetch')) {
+        addSink('url', label, args[0], path);
+      } else if (moduleName && HTTP_MODULES.has(moduleName) && (!isMember || HTTP_CLIENT_METHODS.has(name))) {
+        addSink('url', label, args[0], path);
+      }
+    },
+    'Program:exit': () => {
+      // Parameters of same-file functions receive their call-site arguments
+      for (const call of calls) {
+        const fn = resolveLocalFunction(call.callee, call.scope);
+        const fnScope = fn ? functionScopes.get(fn) : undefined;
+        if (!fn || !fnScope) {
+          continue;
+        }
+        const calleeName = (call.callee as t.Identifier).name;
+        (fn as t.Function).params.forEach((param, index) => {
+          const arg = call.args[index];
+          if (!arg || arg.type === 'SpreadElement' || arg.type === 'ArgumentPlaceholder') {
+            return;
+          }
+          const targets = patternBindings(param.type === 'TSParameterProperty' ? param.parameter : param, fnScope);
+          if (targets.length > 0) {
+            flows.push({
+              targets,
+              value: arg,
+              scope: call.scope,
+              step: (binding) => ({ line: call.line, message: `Passed to '${calleeName}' as '${binding.name}'` }),
+            });
+          }
+        });
+      }
+
+      // Propagate to a fixed point (bounded; each pass can only add bindings)
+      for (let pass = 0, changed = true; changed && pass < 20; pass++) {
+        changed = false;
+        for (const flow of flows) {
+          const pending = flow.targets.filter((target) => !tainted.has(target));
+          if (pending.length === 0) {
+            continue;
+          }
+          const trace = traceOf(flow.value, flow.scope);
+          if (!trace) {
+            continue;
+          }
+          pending.forEach((target) => tainted.set(target, [...trace, flow.step(target)]));
+          changed = true;
+        }
+      }
+
+      for (const sink of sinks) {
+        const trace = traceOf(sink.argument, sink.scope);
+        if (!trace) {
+          continue;
+        }
+        const { title, severity, fix } = SINKS[sink.kind];
+        const source = trace[0].message.replace(/^Untrusted input from /, '');
+        context.report({
+          severity,
+          line: sink.line,
+          column: sink.column,
+          message: `${title}: untrusted input from ${source} reaches ${sink.label}`,
+          fix,
+          confidence: 0.9,
+          trace: [...trace, { line: sink.line, column: sink.column, message: `Reaches ${sink.label}` }],
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,604 @@
+/**
+ * AST Visitor
+ *
+ * Scope-aware traversal of Babel ASTs for static analysis rules.
+ * Rules subscribe to node types (e.g. CallExpression, TemplateLiteral) and
+ * receive a NodePath with ancestry and lexical scope/binding information.
+ */
+
+import type * as t from '@babel/types';
+
+export type BindingKind =
+  | 'var'
+  | 'let'
+  | 'const'
+  | 'param'
+  | 'import'
+  | 'function'
+  | 'class'
+  | 'catch'
+  | 'type';
+
+export interface Binding {
+  name: string;
+  kind: BindingKind;
+  identifier: t.Node;
+  /** Declaring node (VariableDeclarator, ImportDeclaration, FunctionDeclaration, ...) */
+  declaration: t.Node;
+  /** Initializer expression for variable declarators */
+  init?: t.Node | null;
+  /** Module specifier for import bindings */
+  importSource?: string;
+  references: t.Node[];
+  scope: Scope;
+}
+
+export class Scope {
+  readonly bindings: Map<string, Binding> = new Map();
+
+  constructor(
+    readonly node: t.Node,
+    readonly parent: Scope | null,
+    readonly isFunctionScope: boolean
+  ) {}
+
+  /**
+   * Resolve a binding by walking up the scope chain
+   */
+  getBinding(name: string): Binding | undefined {
+    return this.bindings.get(name) || this.parent?.getBinding(name);
+  }
+
+  hasBinding(name: string): boolean {
+    return this.getBinding(name) !== undefined;
+  }
+
+  /**
+   * Nearest function (or program) scope - where `var` declarations live
+   */
+  getFunctionScope(): Scope {
+    return this.isFunctionScope || !this.parent ? this : this.parent.getFunctionScope();
+  }
+
+  getProgramScope(): Scope {
+    return this.parent ? this.parent.getProgramScope() : this;
+  }
+}
+
+export interface AncestorEntry {
+  node: t.Node;
+  /** Key under which this node lives in its parent */
+  key: string | null;
+  scope: Scope;
+}
+
+export class NodePath<T extends t.Node = t.Node> {
+  constructor(
+    readonly node: T,
+    readonly parent: t.Node | null,
+    readonly key: string | null,
+    readonly ancestry: readonly AncestorEntry[],
+    readonly scope: Scope
+  ) {}
+
+  /**
+   * Nearest enclosing function (null at module level)
+   */
+  getFunctionParent(): NodePath | null {
+    return this.findParent(isFunctionNode);
+  }
+
+  /**
+   * Find the closest ancestor matching a predicate
+   */
+  findParent(predicate: (node: t.Node) => boolean): NodePath | null {
+    for (let i = this.ancestry.length - 1; i >= 0; i--) {
+      if (predicate(this.ancestry[i].node)) {
+        return this.getAncestorPath(i);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * True if the node sits inside the `try` block of a TryStatement
+   * belonging to the same function (catch/finally blocks do not count)
+   */
+  isInsideTryBlock(): boolean {
+    for (let i = this.ancestry.length - 1; i >= 0; i--) {
+      const node = this.ancestry[i].node;
+      if (isFunctionNode(node)) {
+        return false;
+      }
+      if (node.type === 'TryStatement' && this.getChildKey(i) === 'block') {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * True if the node runs once per iteration: inside a loop body or an
+   * iteration callback such as `items.map(...)` / `items.forEach(...)`
+   */
+  isInsideLoop(): boolean {
+    for (let i = this.ancestry.length - 1; i >= 0; i--) {
+      const node = this.ancestry[i].node;
+      if (LOOP_TYPES.has(node.type)) {
+        const key = this.getChildKey(i);
+        if (key !== 'init' && key !== 'right') {
+          return true;
+        }
+      }
+      if (isFunctionNode(node) && this.ancestry[i].key === 'arguments') {
+        const parent = this.ancestry[i - 1]?.node;
+        if (parent && parent.type === 'CallExpression' && isIterationCall(parent)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  get line(): number {
+    return this.node.loc?.start.line || 0;
+  }
+
+  get column(): number {
+    return this.node.loc?.start.column || 0;
+  }
+
+  /**
+   * Key of the ancestry child below index `i` (the node itself for the last entry)
+   */
+  private getChildKey(i: number): string | null {
+    return i + 1 < this.ancestry.length ? this.ancestry[i + 1].key : this.key;
+  }
+
+  private getAncestorPath(i: number): NodePath {
+    const entry = this.ancestry[i];
+    return new NodePath(
+      entry.node,
+      i > 0 ? this.ancestry[i - 1].node : null,
+      entry.key,
+      this.ancestry.slice(0, i),
+      entry.scope
+    );
+  }
+}
+
+export type VisitorFn = (path: NodePath<any>) => void;
+
+/**
+ * Visitor map keyed by node type. `<Type>:exit` keys fire after children.
+ */
+export type Visitor = Record<string, VisitorFn | undefined>;
+
+const SKIP_KEYS = new Set([
+  'loc',
+  'start',
+  'end',
+  'extra',
+  'leadingComments',
+  'trailingComments',
+  'innerComments',
+  'comments',
+  'tokens',
+  'type',
+]);
+
+const FUNCTION_TYPES = new Set([
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'ArrowFunctionExpression',
+  'ObjectMethod',
+  'ClassMethod',
+  'ClassPrivateMethod',
+]);
+
+const LOOP_TYPES = new Set([
+  'ForStatement',
+  'ForInStatement',
+  'ForOfStatement',
+  'WhileStatement',
+  'DoWhileStatement',
+]);
+
+const BLOCK_SCOPE_TYPES = new Set([
+  'BlockStatement',
+  'CatchClause',
+  'ForStatement',
+  'ForInStatement',
+  'ForOfStatement',
+  'SwitchStatement',
+  'StaticBlock',
+]);
+
+const ITERATION_METHODS = new Set(['map', 'forEach', 'flatMap', 'filter', 'reduce', 'some', 'every', 'find']);
+
+export function isFunctionNode(node: t.Node | null | undefined): boolean {
+  return !!node && FUNCTION_TYPES.has(node.type);
+}
+
+/**
+ * Build a visitor that fires the same handler for every function-like node
+ */
+export function functionVisitor(handler: VisitorFn): Visitor {
+  const visitor: Visitor = {};
+  FUNCTION_TYPES.forEach((type) => {
+    visitor[type] = handler;
+  });
+  return visitor;
+}
+
+function isIterationCall(call: t.CallExpression): boolean {
+  const callee = call.callee;
+  return (
+    (callee.type === 'MemberExpression' || callee.type === 'OptionalMemberExpression') &&
+    !callee.computed &&
+    callee.property.type === 'Identifier' &&
+    ITERATION_METHODS.has(callee.property.name)
+  );
+}
+
+/**
+ * Iterate child nodes of a node (in source order)
+ */
+export function forEachChild(
+  node: t.Node,
+  callback: (child: t.Node, key: string) => void
+): void {
+  for (const key of Object.keys(node)) {
+    if (SKIP_KEYS.has(key)) {
+      continue;
+    }
+    const value = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) {
+          callback(item, key);
+        }
+      }
+    } else if (isNode(value)) {
+      callback(value, key);
+    }
+  }
+}
+
+function isNode(value: unknown): value is t.Node {
+  return !!value && typeof value === 'object' && typeof (value as { type?: unknown }).type === 'string';
+}
+
+/**
+ * Walk a subtree depth-first. Return false from the callback to skip children.
+ * Nested functions are skipped when `skipNestedFunctions` is set.
+ */
+export function walk(
+  root: t.Node,
+  callback: (node: t.Node, parent: t.Node | null) => boolean | void,
+  options: { skipNestedFunctions?: boolean } = {}
+): void {
+  const visit = (node: t.Node, parent: t.Node | null): void => {
+    if (callback(node, parent) === false) {
+      return;
+    }
+    forEachChild(node, (child) => {
+      if (options.skipNestedFunctions && isFunctionNode(child)) {
+        return;
+      }
+      visit(child, node);
+    });
+  };
+  visit(root, null);
+}
+
+/**
+ * Flatten a member chain: `prisma.user.findMany` -> ['prisma', 'user', 'findMany'].
+ * Returns null for computed or non-identifier segments.
+ */
+export function getMemberChain(node: t.Node): string[] | null {
+  if (node.type === 'Identifier') {
+    return [node.name];
+  }
+  if (node.type === 'ThisExpression') {
+    return ['this'];
+  }
+  if ((node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') && !node.computed) {
+    const object = getMemberChain(node.object);
+    if (!object || node.property.type !== 'Identifier') {
+      return null;
+    }
+    return [...object, node.property.name];
+  }
+  return null;
+}
+
+/**
+ * Name of the function being called: `foo()` -> 'foo', `a.b.foo()` -> 'foo'
+ */
+export function getCalleeName(call: t.CallExpression | t.NewExpression | t.OptionalCallExpression): string | null {
+  const callee = call.callee;
+  if (callee.type === 'Identifier') {
+    return callee.name;
+  }
+  if ((callee.type === 'MemberExpression' || callee.type === 'OptionalMemberExpression') && !callee.computed) {
+    return callee.property.type === 'Identifier' ? callee.property.name : null;
+  }
+  return null;
+}
+
+/**
+ * Best-effort display name for a function node
+ */
+export function getFunctionName(path: NodePath): string {
+  const node = path.node as t.Node & { id?: t.Identifier | null; key?: t.Node };
+  if (node.id && node.id.type === 'Identifier') {
+    return node.id.name;
+  }
+  if (node.key && node.key.type === 'Identifier') {
+    return node.key.name;
+  }
+  const parent = path.parent;
+  if (parent?.type === 'VariableDeclarator' && parent.id.type === 'Identifier') {
+    return parent.id.name;
+  }
+  if (parent?.type === 'ObjectProperty' && parent.key.type === 'Identifier') {
+    return parent.key.name;
+  }
+  if (parent?.type === 'AssignmentExpression') {
+    const chain = getMemberChain(parent.left);
+    if (chain) {
+      return chain[chain.length - 1];
+    }
+  }
+  return 'anonymous';
+}
+
+/**
+ * Source text of a node
+ */
+export function getSource(node: t.Node, content: string): string {
+  if (typeof node.start === 'number' && typeof node.end === 'number') {
+    return content.slice(node.start, node.end);
+  }
+  return '';
+}
+
+/**
+ * Collect identifiers declared by a binding pattern
+ */
+function collectPatternIdentifiers(pattern: t.Node | null | undefined, out: t.Identifier[]): void {
+  if (!pattern) {
+    return;
+  }
+  switch (pattern.type) {
+    case 'Identifier':
+      out.push(pattern);
+      break;
+    case 'ObjectPattern':
+      for (const property of pattern.properties) {
+        if (property.type === 'RestElement') {
+          collectPatternIdentifiers(property.argument, out);
+        } else {
+          collectPatternIdentifiers(property.value, out);
+        }
+      }
+      break;
+    case 'ArrayPattern':
+      for (const element of pattern.elements) {
+        collectPatternIdentifiers(element, out);
+      }
+      break;
+    case 'AssignmentPattern':
+      collectPatternIdentifiers(pattern.left, out);
+      break;
+    case 'RestElement':
+      collectPatternIdentifiers(pattern.argument, out);
+      break;
+    case 'TSParameterProperty':
+      collectPatternIdentifiers(pattern.parameter, out);
+      break;
+    default:
+      break;
+  }
+}
+
+interface ScopeAnalysis {
+  scopes: Map<t.Node, Scope>;
+  bindingIdentifiers: Set<t.Node>;
+}
+
+/**
+ * Build lexical scopes and declarations (first pass, handles hoisting)
+ */
+export function analyzeScopes(ast: t.File): ScopeAnalysis {
+  const scopes = new Map<t.Node, Scope>();
+  const bindingIdentifiers = new Set<t.Node>();
+
+  const declare = (
+    scope: Scope,
+    identifier: t.Identifier,
+    kind: BindingKind,
+    declaration: t.Node,
+    extra: Partial<Pick<Binding, 'init' | 'importSource'>> = {}
+  ): void => {
+    bindingIdentifiers.add(identifier);
+    scope.bindings.set(identifier.name, {
+      name: identifier.name,
+      kind,
+      identifier,
+      declaration,
+      references: [],
+      scope,
+      ...extra,
+    });
+  };
+
+  const visit = (node: t.Node, parent: t.Node | null, scope: Scope): void => {
+    let current = scope;
+
+    if (isFunctionNode(node)) {
+      const fn = node as t.Function & { id?: t.Identifier | null };
+      if (node.type === 'FunctionDeclaration' && fn.id) {
+        declare(scope, fn.id, 'function', node);
+      }
+      current = new Scope(node, scope, true);
+      scopes.set(node, current);
+      if (node.type === 'FunctionExpression' && fn.id) {
+        declare(current, fn.id, 'function', node);
+      }
+      for (const param of fn.params) {
+        const identifiers: t.Identifier[] = [];
+        collectPatternIdentifiers(param, identifiers);
+        identifiers.forEach((id) => declare(current, id, 'param', node));
+      }
+    } else if (BLOCK_SCOPE_TYPES.has(node.type) && !(node.type === 'BlockStatement' && isFunctionNode(parent))) {
+      current = new Scope(node, scope, false);
+      scopes.set(node, current);
+      if (node.type === 'CatchClause' && node.param) {
+        const identifiers: t.Identifier[] = [];
+        collectPatternIdentifiers(node.param, identifiers);
+        identifiers.forEach((id) => declare(current, id, 'catch', node));
+      }
+    }
+
+    switch (node.type) {
+      case 'VariableDeclaration': {
+        const target = node.kind === 'var' ? current.getFunctionScope() : current;
+        const kind: BindingKind = node.kind === 'var' ? 'var' : node.kind === 'let' ? 'let' : 'const';
+        for (const declarator of node.declarations) {
+          const identifiers: t.Identifier[] = [];
+          collectPatternIdentifiers(declarator.id, identifiers);
+          identifiers.forEach((id) => declare(target, id, kind, declarator, { init: declarator.init }));
+        }
+        break;
+      }
+      case 'ClassDeclaration':
+        if (node.id) {
+          declare(current, node.id, 'class', node);
+        }
+        break;
+      case 'ImportDeclaration':
+        for (const specifier of node.specifiers) {
+          declare(current.getProgramScope(), specifier.local, 'import', node, {
+            importSource: node.source.value,
+          });
+        }
+        break;
+      case 'TSInterfaceDeclaration':
+      case 'TSTypeAliasDeclaration':
+      case 'TSEnumDeclaration':
+        declare(current, node.id, 'type', node);
+        break;
+      default:
+        break;
+    }
+
+    forEachChild(node, (child) => visit(child, node, current));
+  };
+
+  const programScope = new Scope(ast.program, null, true);
+  scopes.set(ast.program, programScope);
+  forEachChild(ast.program, (child) => visit(child, ast.program, programScope));
+
+  return { scopes, bindingIdentifiers };
+}
+
+/**
+ * Whether an identifier in this position refers to a binding
+ * (as opposed to a property name, object key, label, etc.)
+ */
+function isReferencePosition(parent: t.Node | null, key: string | null): boolean {
+  if (!parent) {
+    return true;
+  }
+  switch (parent.type) {
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return key !== 'property' || parent.computed;
+    case 'ObjectProperty':
+    case 'ObjectMethod':
+    case 'ClassProperty':
+    case 'ClassMethod':
+    case 'ClassAccessorProperty':
+    case 'TSPropertySignature':
+    case 'TSMethodSignature':
+      return key !== 'key' || !!(parent as { computed?: boolean }).computed;
+    case 'ImportSpecifier':
+    case 'ImportDefaultSpecifier':
+    case 'ImportNamespaceSpecifier':
+    case 'ExportNamespaceSpecifier':
+    case 'ExportDefaultSpecifier':
+      return false;
+    case 'ExportSpecifier':
+      return key === 'local';
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      return false;
+    case 'TSQualifiedName':
+      return key === 'left';
+    case 'TSEnumMember':
+    case 'TSModuleDeclaration':
+      return key !== 'id';
+    case 'TSFunctionType':
+    case 'TSConstructorType':
+    case 'TSCallSignatureDeclaration':
+    case 'TSConstructSignatureDeclaration':
+    case 'TSDeclareFunction':
+    case 'TSDeclareMethod':
+    case 'TSIndexSignature':
+      return key !== 'parameters' && key !== 'params';
+    case 'TSNamedTupleMember':
+      return key !== 'label';
+    case 'MetaProperty':
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Traverse an AST, dispatching each visitor by node type.
+ * Identifier references are resolved against scopes before visitors run,
+ * so `Program:exit` handlers see complete reference counts.
+ */
+export function traverse(ast: t.File, visitors: Visitor[]): void {
+  const { scopes, bindingIdentifiers } = analyzeScopes(ast);
+  const ancestry: AncestorEntry[] = [];
+
+  const dispatch = (name: string, path: NodePath): void => {
+    for (const visitor of visitors) {
+      const fn = visitor[name];
+      if (fn) {
+        fn(path);
+      }
+    }
+  };
+
+  const visit = (node: t.Node, parent: t.Node | null, key: string | null, scope: Scope): void => {
+    const current = scopes.get(node) || scope;
+
+    if (node.type === 'Identifier' && !bindingIdentifiers.has(node) && isReferencePosition(parent, key)) {
+      current.getBinding(node.name)?.references.push(node);
+    } else if (
+      node.type === 'JSXIdentifier' &&
+      (parent?.type === 'JSXOpeningElement' || parent?.type === 'JSXClosingElement' ||
+        (parent?.type === 'JSXMemberExpression' && key === 'object'))
+    ) {
+      current.getBinding(node.name)?.references.push(node);
+    }
+
+    const path = new NodePath(node, parent, key, ancestry.slice(), current);
+    dispatch(node.type, path);
+
+    ancestry.push({ node, key, scope: current });
+    forEachChild(node, (child, childKey) => visit(child, node, childKey, current));
+    ancestry.pop();
+
+    dispatch(`${node.type}:exit`, path);
+  };
+
+  const programScope = scopes.get(ast.program)!;
+  visit(ast.program, null, null, programScope);
+}
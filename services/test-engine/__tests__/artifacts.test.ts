@@ -0,0 +1,79 @@
+/**
+ * CI Coverage Artifact Tests
+ *
+ * The coverage report is found inside CI artifact archives, or taken as-is
+ * when the artifact is the report itself
+ */
+
+import { deflateRawSync } from 'zlib';
+import { findCoverageArtifact } from '../artifacts';
+
+const lcov = 'SF:src/a.ts\nDA:1,1\nDA:2,0\nend_of_record\n';
+
+/**
+ * Zip archive with deflated entries (CRCs are left zero; the reader doesn't check them)
+ */
+function zipOf(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('findCoverageArtifact', () => {
+  it('prefers per-line reports at the top of the archive', () => {
+    const artifact = findCoverageArtifact(zipOf({
+      'coverage/packages/a/lcov.info': 'SF:packages/a/x.ts\nDA:1,1\nend_of_record\n',
+      'coverage/coverage-summary.json': '{"total":{}}',
+      'coverage/lcov.info': lcov,
+      'coverage/coverage.xml': '<coverage><packages/></coverage>',
+    }));
+
+    expect(artifact!.path).toBe('coverage/lcov.info');
+    expect(artifact!.format).toBe('lcov');
+    expect(artifact!.content).toBe(lcov);
+  });
+
+  it('skips entries that fail to decompress', () => {
+    const name = 'coverage/lcov.info';
+    const archive = zipOf({ [name]: lcov, 'coverage/packages/a/lcov.info': lcov });
+    archive[30 + name.length] = 0xff; // Reserved deflate block type
+
+    expect(findCoverageArtifact(archive)!.path).toBe('coverage/packages/a/lcov.info');
+  });
+
+  it('accepts an artifact that is the report itself', () => {
+    expect(findCoverageArtifact(Buffer.from(lcov))!.format).toBe('lcov');
+  });
+
+  it('returns null without a recognizable report', () => {
+    expect(findCoverageArtifact(zipOf({ 'dist/index.js': 'module.exports = {}' }))).toBeNull();
+    expect(findCoverageArtifact(Buffer.from('build log'))).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Coverage Report Tests
+ *
+ * Each format must keep per-line hits and agree on totals for the same
+ * coverage: src/a.ts lines 1-2 run, line 3 never ran, one of two branches
+ * taken, one of two functions called
+ */
+
+import { computeDiffCoverage, detectCoverageFormat, matchCoverageFile, parseCoverageReport } from '../coverage';
+
+const expectSampleCoverage = (report: ReturnType<typeof parseCoverageReport>, path: string) => {
+  const file = report.files.find((entry) => entry.path === path)!;
+  expect(file.lineHits).toEqual({ 1: 2, 2: 1, 3: 0 });
+  expect(report.totals.lines).toEqual({ total: 3, covered: 2, percentage: (2 / 3) * 100 });
+  expect(report.totals.branches.covered).toBe(1);
+  expect(report.totals.branches.total).toBe(2);
+  expect(report.totals.functions.covered).toBe(1);
+  expect(report.totals.functions.total).toBe(2);
+};
+
+describe('parseCoverageReport', () => {
+  it('parses lcov', () => {
+    const lcov = [
+      'TN:',
+      'SF:src/a.ts',
+      'FN:1,used',
+      'FN:3,unused',
+      'FNDA:2,used',
+      'FNDA:0,unused',
+      'DA:1,2',
+      'DA:2,1',
+      'DA:3,0',
+      'BRDA:2,0,0,1',
+      'BRDA:2,0,1,-',
+      'end_of_record',
+    ].join('\n');
+
+    const report = parseCoverageReport(lcov);
+    expect(report.format).toBe('lcov');
+    expectSampleCoverage(report, 'src/a.ts');
+  });
+
+  it('parses Istanbul coverage-final.json', () => {
+    const istanbul = {
+      '/repo/src/a.ts': {
+        path: '/repo/src/a.ts',
+        statementMap: {
+          0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
+          1: { start: { line: 1, column: 11 }, end: { line: 1, column: 20 } },
+          2: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
+          3: { start: { line: 3, column: 0 }, end: { line: 3, column: 10 } },
+        },
+        s: { 0: 2, 1: 1, 2: 1, 3: 0 },
+        fnMap: { 0: {}, 1: {} },
+        f: { 0: 2, 1: 0 },
+        branchMap: { 0: {} },
+        b: { 0: [1, 0] },
+      },
+    };
+
+    const report = parseCoverageReport(JSON.stringify(istanbul));
+    expect(report.format).toBe('istanbul');
+    expectSampleCoverage(report, '/repo/src/a.ts');
+  });
+
+  it('parses Cobertura XML without counting method lines twice', () => {
+    const cobertura = `<?xml version="1.0" ?>
+<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">
+<coverage line-rate="0.66" branch-rate="0.5">
+  <packages><package name="src"><classes>
+    <class name="a.ts" filename="src/a.ts">
+      <methods>
+        <method name="used" signature="()"><lines><line number="1" hits="2"/></lines></method>
+        <method name="unused" signature="()"><lines><line number="3" hits="0"/></lines></method>
+      </methods>
+      <lines>
+        <line number="1" hits="2"/>
+        <line number="2" hits="1" branch="true" condition-coverage="50% (1/2)"/>
+        <line number="3" hits="0"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+
+    const report = parseCoverageReport(cobertura);
+    expect(report.format).toBe('cobertura');
+    expectSampleCoverage(report, 'src/a.ts');
+  });
+
+  it('parses JaCoCo XML', () => {
+    const jacoco = `<report name="app">
+  <package name="com/acme">
+    <class name="com/acme/A" sourcefilename="A.java"><counter type="METHOD" missed="1" covered="1"/></class>
+    <sourcefile name="A.java">
+      <line nr="1" mi="0" ci="2" mb="0" cb="0"/>
+      <line nr="2" mi="0" ci="1" mb="1" cb="1"/>
+      <line nr="3" mi="4" ci="0" mb="0" cb="0"/>
+      <counter type="LINE" missed="1" covered="2"/>
+      <counter type="METHOD" missed="1" covered="1"/>
+    </sourcefile>
+  </package>
+</report>`;
+
+    const report = parseCoverageReport(jacoco);
+    expect(report.format).toBe('jacoco');
+    expectSampleCoverage(report, 'com/acme/A.java');
+  });
+
+  it('parses Go cover profiles by line', () => {
+    const profile = [
+      'mode: count',
+      'github.com/acme/api/a.go:1.10,2.5 2 1',
+      'github.com/acme/api/a.go:1.12,1.20 1 2',
+      'github.com/acme/api/a.go:3.2,3.9 1 0',
+    ].join('\n');
+
+    const report = parseCoverageReport(profile);
+    expect(report.format).toBe('go');
+    expect(report.files[0].lineHits).toEqual({ 1: 2, 2: 1, 3: 0 });
+    expect(report.totals.branches).toEqual({ total: 0, covered: 0, percentage: 100 });
+  });
+
+  it('keeps accepting pre-aggregated totals', () => {
+    const report = parseCoverageReport({ lines: { total: 10, covered: 9, percentage: 90 } });
+    expect(report.format).toBe('summary');
+    expect(report.files).toEqual([]);
+    expect(report.totals.lines.percentage).toBe(90);
+  });
+
+  it('rejects unrecognized reports instead of reporting 0%', () => {
+    expect(detectCoverageFormat('hello')).toBe(null);
+    expect(() => parseCoverageReport('hello')).toThrow('Unrecognized coverage report format');
+    expect(() => parseCoverageReport('TN:\n')).toThrow('contains no files');
+  });
+});
+
+describe('computeDiffCoverage', () => {
+  const report = parseCoverageReport([
+    'SF:/home/runner/work/app/app/src/a.ts',
+    'DA:1,1',
+    'DA:2,0',
+    'DA:3,0',
+    'DA:5,4',
+    'end_of_record',
+    'SF:/home/runner/work/app/app/lib/a.ts',
+    'DA:1,0',
+    'end_of_record',
+  ].join('\n'));
+
+  it('matches report paths on whole path segments', () => {
+    expect(matchCoverageFile(report.files, 'src/a.ts')!.path).toBe('/home/runner/work/app/app/src/a.ts');
+    expect(matchCoverageFile(report.files, 'a.ts')).toBeDefined();
+    expect(matchCoverageFile(report.files, 'rc/a.ts')).toBeUndefined();
+  });
+
+  it('counts only changed executable lines', () => {
+    const diffCoverage = computeDiffCoverage(report, new Map([
+      ['src/a.ts', [2, 3, 4, 5]], // 4 is not executable
+      ['README.md', [1]],
+    ]));
+
+    expect(diffCoverage.lines).toEqual({ total: 3, covered: 1, percentage: (1 / 3) * 100 });
+    expect(diffCoverage.files[0].uncoveredLines).toEqual([2, 3]);
+    expect(diffCoverage.unreportedFiles).toEqual(['README.md']);
+  });
+
+  it('needs per-line data', () => {
+    const summary = parseCoverageReport({ lines: { total: 1, covered: 1, percentage: 100 } });
+    expect(() => computeDiffCoverage(summary, new Map())).toThrow('needs per-line data');
+  });
+});
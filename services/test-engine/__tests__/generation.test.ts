@@ -0,0 +1,128 @@
+/**
+ * Test Generation Request Tests
+ *
+ * Generated tests are requested under the repository's organization, so an
+ * organization pinned to a provider never has its code sent elsewhere. With
+ * a checkout, a generated test is run and mutation-tested, and a low score
+ * reaches the policy.
+ */
+
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { prisma } from '../../../lib/prisma';
+import { llmService, selectProvider, StubProvider } from '../../llm';
+import { testEngineService, testGenerationLLMRequest } from '../index';
+
+describe('testGenerationLLMRequest', () => {
+  const request = {
+    repositoryId: 'repo_1',
+    filePath: 'src/auth.ts',
+    fileContent: 'export function login() {}',
+  };
+
+  it('is sent under the organization, not the repository', () => {
+    expect(testGenerationLLMRequest(request, 'org_1', 'Write tests').organizationId).toBe('org_1');
+  });
+
+  it('uses the provider the organization is pinned to', () => {
+    const llmRequest = testGenerationLLMRequest(request, 'org_1', 'Write tests');
+    const selection = selectProvider(llmRequest, { provider: 'openai-compatible', model: 'llama3' }, 'openai');
+
+    expect(selection).toEqual({ providerName: 'openai-compatible', model: 'llama3', pinned: true });
+  });
+
+  it('uses the default provider\'s model when the organization is not pinned', () => {
+    const llmRequest = testGenerationLLMRequest(request, 'org_1', 'Write tests');
+
+    expect(selectProvider(llmRequest, {}, 'openai-compatible').model).toBe(process.env.OPENAI_COMPATIBLE_MODEL || 'llama3');
+  });
+});
+
+describe('generateTests with a checkout', () => {
+  const js = 'export function isAdult(age) {\n  return age >= 18;\n}\n';
+  const diff = [
+    'diff --git a/src/age.js b/src/age.js',
+    '--- /dev/null',
+    '+++ b/src/age.js',
+    '@@ -0,0 +1,3 @@',
+    ...js.trimEnd().split('\n').map((line) => `+${line}`),
+  ].join('\n');
+  const env = {
+    TEST_SANDBOX_ALLOW_NETWORK: process.env.TEST_SANDBOX_ALLOW_NETWORK,
+    LLM_STUB_ENABLED: process.env.LLM_STUB_ENABLED,
+  };
+  let checkoutDir: string;
+  let organizationId: string;
+  let repositoryId: string;
+
+  beforeAll(async () => {
+    process.env.TEST_SANDBOX_ALLOW_NETWORK = 'true';
+    process.env.LLM_STUB_ENABLED = 'true';
+    llmService.registerProvider(new StubProvider(() =>
+      "```js\nimport { isAdult } from './age';\ntest('adult', () => expect(isAdult(30)).toBe(true));\n```"
+    ));
+
+    checkoutDir = mkdtempSync(path.join(os.tmpdir(), 'generation-test-'));
+    mkdirSync(path.join(checkoutDir, 'node_modules', '.bin'), { recursive: true });
+    mkdirSync(path.join(checkoutDir, 'src'));
+    writeFileSync(path.join(checkoutDir, 'src', 'age.js'), js);
+    // Stands in for jest: only catches the boundary mutant
+    const jest = path.join(checkoutDir, 'node_modules', '.bin', 'jest');
+    writeFileSync(jest, '#!/bin/sh\ngrep -q "age > 18" src/age.js && exit 1\nexit 0\n');
+    chmodSync(jest, 0o755);
+
+    const organization = await prisma.organization.create({
+      data: { name: 'Mutation Gate Org', slug: `mutation-gate-${Date.now()}`, plan: 'starter' },
+    });
+    organizationId = organization.id;
+    await prisma.organizationConfig.create({
+      data: { organizationId, config: { llm: { provider: 'stub' } } },
+    });
+    const repository = await prisma.repository.create({
+      data: { organizationId, name: 'app', fullName: 'org/app', provider: 'github', defaultBranch: 'main' },
+    });
+    repositoryId = repository.id;
+  });
+
+  afterAll(async () => {
+    rmSync(checkoutDir, { recursive: true, force: true });
+    await prisma.organization.delete({ where: { id: organizationId } });
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it('mutation-tests a passing test and reports a low score to the policy', async () => {
+    const result = await testEngineService.generateTests({
+      repositoryId,
+      prNumber: 1,
+      prSha: 'abc123',
+      filePath: 'src/age.js',
+      fileContent: js,
+      framework: 'jest',
+      diff,
+      checkoutDir,
+      config: {
+        coverageThreshold: 80,
+        metric: 'lines',
+        enforceOn: 'pr',
+        failOnBelow: true,
+        mutation: { enabled: true },
+      },
+    });
+
+    expect(result.execution?.status).toBe('passed');
+    expect(result.execution?.mutation).toMatchObject({ status: 'completed', score: 50 });
+
+    const test = await prisma.test.findUnique({ where: { id: result.id } });
+    expect(Number(test?.mutationScore)).toBe(50);
+
+    const evidence = await prisma.evidenceBundle.findFirst({ where: { testId: result.id } });
+    expect(evidence?.rulesFired).toContain('test-engine.mutation-score');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Mutation Testing Tests
+ *
+ * Mutants come only from the changed functions and are real edits of the
+ * source; tests that don't check a behavior let its mutants survive
+ */
+
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { applyMutant, generateMutants, mutationResult } from '../mutation';
+import { runMutants } from '../sandbox';
+
+const source = [
+  'export function total(items: number[], discount: boolean): number {',
+  '  const sum = items.reduce((acc, item) => acc + item, 0);',
+  '  return discount && sum > 100 ? sum * 0.9 : sum;',
+  '}',
+  '',
+  'export function label(count: number): string {',
+  '  return count === 1 ? "item" : "items";',
+  '}',
+].join('\n');
+
+describe('generateMutants', () => {
+  it('mutates only functions containing changed lines', () => {
+    const mutants = generateMutants('src/cart.ts', source, [7]);
+
+    expect(mutants.map((mutant) => mutant.functionName)).toEqual(['label', 'label']);
+    expect(applyMutant(source, mutants.find((mutant) => mutant.operator === 'comparison')!)).toContain('count !== 1');
+  });
+
+  it('swaps operators, including inside nested functions', () => {
+    const mutants = generateMutants('src/cart.ts', source, [2]);
+    const mutated = mutants.map((mutant) => applyMutant(source, mutant).split('\n').slice(0, 3).join('\n'));
+
+    expect(mutants.find((mutant) => mutant.functionName === 'anonymous')!.original).toBe('+');
+    expect(mutated).toContain(source.split('\n').slice(0, 3).join('\n').replace('sum > 100', 'sum >= 100'));
+    expect(mutated.some((text) => text.includes('discount || sum'))).toBe(true);
+    expect(mutated.some((text) => text.includes('sum / 0.9'))).toBe(true);
+  });
+
+  it('caps the number of mutants across the file', () => {
+    expect(generateMutants('src/cart.ts', source).length).toBeGreaterThan(5);
+    expect(generateMutants('src/cart.ts', source, undefined, 3).map((mutant) => mutant.id)).toEqual([0, 1, 2]);
+  });
+
+  it('skips literals in type positions', () => {
+    const mutants = generateMutants('src/a.ts', 'function f(x: true | false): boolean {\n  return x;\n}');
+
+    expect(mutants.every((mutant) => mutant.operator === 'return')).toBe(true);
+  });
+});
+
+describe('mutationResult', () => {
+  it('scores killed mutants', () => {
+    const [first, second] = generateMutants('src/cart.ts', source, [7]);
+    const result = mutationResult([{ mutant: first, killed: true }, { mutant: second, killed: false }]);
+
+    expect(result.score).toBe(50);
+    expect(result.survivors).toEqual([second]);
+  });
+});
+
+describe('runMutants', () => {
+  let checkoutDir: string;
+  const limits = { timeoutMs: 10000, memoryMb: 256, maxProcesses: 256, maxOutputBytes: 1024 };
+  const js = 'export function isAdult(age) {\n  return age >= 18;\n}\n';
+  const allowNetwork = process.env.TEST_SANDBOX_ALLOW_NETWORK;
+
+  beforeAll(() => {
+    process.env.TEST_SANDBOX_ALLOW_NETWORK = 'true';
+    checkoutDir = mkdtempSync(path.join(os.tmpdir(), 'mutation-test-'));
+    mkdirSync(path.join(checkoutDir, 'node_modules', '.bin'), { recursive: true });
+    mkdirSync(path.join(checkoutDir, 'src'));
+    writeFileSync(path.join(checkoutDir, 'src', 'age.js'), js);
+    // Stands in for jest: only catches the boundary mutant
+    const jest = path.join(checkoutDir, 'node_modules', '.bin', 'jest');
+    writeFileSync(jest, '#!/bin/sh\ngrep -q "age > 18" src/age.js && exit 1\nexit 0\n');
+    chmodSync(jest, 0o755);
+  });
+
+  afterAll(() => {
+    rmSync(checkoutDir, { recursive: true, force: true });
+    if (allowNetwork === undefined) {
+      delete process.env.TEST_SANDBOX_ALLOW_NETWORK;
+    } else {
+      process.env.TEST_SANDBOX_ALLOW_NETWORK = allowNetwork;
+    }
+  });
+
+  it('reports surviving mutants and restores the source', async () => {
+    const mutants = generateMutants('src/age.js', js);
+    const result = await runMutants({
+      checkoutDir,
+      framework: 'jest',
+      sourcePath: 'src/age.js',
+      source: js,
+      testPath: 'src/age.test.js',
+      testContent: "test('a', () => {});",
+    }, mutants, limits);
+
+    expect(result.status).toBe('completed');
+    expect(result.killed).toBe(1);
+    expect(result.survivors.map((mutant) => mutant.operator)).toEqual(['return']);
+    expect(readFileSync(path.join(checkoutDir, 'src', 'age.js'), 'utf8')).toBe(js);
+  });
+
+  it('skips when the checkout differs from the analyzed source', async () => {
+    const result = await runMutants({
+      checkoutDir,
+      framework: 'jest',
+      sourcePath: 'src/age.js',
+      source: 'changed',
+      testPath: 'src/age.test.js',
+      testContent: '',
+    }, generateMutants('src/age.js', js), limits);
+
+    expect(result.status).toBe('skipped');
+  });
+});
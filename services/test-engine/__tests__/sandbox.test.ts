@@ -0,0 +1,124 @@
+/**
+ * Test Sandbox Tests
+ *
+ * A generated test runs under its placement without disturbing the
+ * checkout, and its failure output is what the repair prompt shows
+ */
+
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildTestRepairPrompt, coverageDelta, runGeneratedTest } from '../sandbox';
+import type { FileCoverage } from '../coverage';
+
+const fileCoverage = (lineHits: Record<number, number>): FileCoverage => ({
+  path: 'src/a.ts',
+  lineHits,
+  lines: { total: 0, covered: 0, percentage: 100 },
+  branches: { total: 0, covered: 0, percentage: 100 },
+  functions: { total: 0, covered: 0, percentage: 100 },
+});
+
+describe('runGeneratedTest', () => {
+  let checkoutDir: string;
+  const limits = { timeoutMs: 10000, memoryMb: 256, maxProcesses: 256, maxOutputBytes: 1024 };
+  const allowNetwork = process.env.TEST_SANDBOX_ALLOW_NETWORK;
+
+  beforeAll(() => {
+    process.env.TEST_SANDBOX_ALLOW_NETWORK = 'true';
+    checkoutDir = mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-'));
+    mkdirSync(path.join(checkoutDir, 'node_modules', '.bin'), { recursive: true });
+    mkdirSync(path.join(checkoutDir, 'src'));
+    // Stands in for jest: passes when the test file asserts something true
+    const jest = path.join(checkoutDir, 'node_modules', '.bin', 'jest');
+    writeFileSync(jest, '#!/bin/sh\ngrep -q "toBe(true)" "$2" && exit 0\necho "expected false to be true"\nexit 1\n');
+    chmodSync(jest, 0o755);
+  });
+
+  afterAll(() => {
+    rmSync(checkoutDir, { recursive: true, force: true });
+    if (allowNetwork === undefined) {
+      delete process.env.TEST_SANDBOX_ALLOW_NETWORK;
+    } else {
+      process.env.TEST_SANDBOX_ALLOW_NETWORK = allowNetwork;
+    }
+  });
+
+  const run = (testContent: string) => runGeneratedTest({
+    checkoutDir,
+    framework: 'jest',
+    sourcePath: 'src/a.js',
+    testPath: 'src/a.test.js',
+    testContent,
+  }, limits);
+
+  it('reports a passing test and removes it afterwards', async () => {
+    const result = await run("test('a', () => expect(true).toBe(true));");
+
+    expect(result.status).toBe('passed');
+    expect(readdirSync(path.join(checkoutDir, 'src'))).toEqual([]);
+  });
+
+  it('reports a failing test with its output', async () => {
+    const result = await run("test('a', () => expect(false).toBe(false));");
+
+    expect(result.status).toBe('failed');
+    expect(result.phase).toBe('run');
+    expect(result.output).toContain('expected false to be true');
+    expect(existsSync(path.join(checkoutDir, 'src', 'a.test.js'))).toBe(false);
+  });
+
+  it('skips frameworks it cannot run', async () => {
+    const result = await runGeneratedTest({
+      checkoutDir,
+      framework: 'mocha',
+      sourcePath: 'src/a.js',
+      testPath: 'src/a.test.js',
+      testContent: '',
+    }, limits);
+
+    expect(result.status).toBe('skipped');
+  });
+
+  it('refuses placements outside the checkout', async () => {
+    const result = await runGeneratedTest({
+      checkoutDir,
+      framework: 'jest',
+      sourcePath: 'src/a.js',
+      testPath: '../escape.test.js',
+      testContent: '',
+    }, limits);
+
+    expect(result.status).toBe('skipped');
+    expect(result.output).toContain('outside the checkout');
+  });
+});
+
+describe('coverageDelta', () => {
+  it('counts a line covered after when either run executed it', () => {
+    const delta = coverageDelta(fileCoverage({ 1: 1, 2: 0, 3: 0, 4: 0 }), fileCoverage({ 2: 3, 3: 0 }));
+
+    expect(delta.before.percentage).toBe(25);
+    expect(delta.after.percentage).toBe(50);
+    expect(delta.delta).toBe(25);
+  });
+
+  it('treats a missing baseline as uncovered', () => {
+    expect(coverageDelta(undefined, fileCoverage({ 1: 1, 2: 0 })).delta).toBe(50);
+  });
+});
+
+describe('buildTestRepairPrompt', () => {
+  it('shows the failed test and its output', () => {
+    const prompt = buildTestRepairPrompt('Generate tests', 'test("x", () => {})', {
+      status: 'failed',
+      phase: 'typecheck',
+      output: "TS2304: Cannot find name 'foo'.\n",
+      durationMs: 10,
+    });
+
+    expect(prompt).toContain('failed to type-check');
+    expect(prompt).toContain("Cannot find name 'foo'.");
+    expect(prompt.startsWith('Generate tests')).toBe(true);
+  });
+});
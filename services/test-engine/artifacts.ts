@@ -0,0 +1,66 @@
+/**
+ * CI Coverage Artifacts
+ *
+ * Finds the coverage report in a CI run's artifact archive. Per-line
+ * formats are preferred, so diff coverage works: lcov, Istanbul JSON,
+ * Cobertura, JaCoCo and Go cover profiles, then Istanbul summary totals.
+ */
+
+import path from 'path';
+import { readZipEntries } from '../../lib/utils/zip';
+import { detectCoverageFormat, type CoverageFormat } from './coverage';
+
+export interface CoverageArtifact {
+  path: string; // Path inside the archive; the artifact itself when it isn't an archive
+  format: CoverageFormat;
+  content: string;
+}
+
+// Report file names by preference
+const REPORT_NAMES: RegExp[] = [
+  /^lcov\.info$|\.lcov$/,
+  /^coverage-final\.json$/,
+  /^(cobertura(-coverage)?|coverage)\.xml$/,
+  /^jacoco.*\.xml$/,
+  /^(coverage|cover|c)\.out$|\.coverprofile$/,
+  /^coverage-summary\.json$/, // Totals only
+];
+
+const MAX_REPORT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Coverage report in an artifact: a zip archive (GitHub Actions, GitLab)
+ * or a single report file. Null when it holds no recognizable report.
+ */
+export function findCoverageArtifact(artifact: Buffer): CoverageArtifact | null {
+  let entries;
+  try {
+    entries = readZipEntries(artifact, MAX_REPORT_BYTES);
+  } catch {
+    // Not an archive; the artifact may be the report itself
+    const content = artifact.toString('utf8');
+    const format = artifact.length <= MAX_REPORT_BYTES ? detectCoverageFormat(content) : null;
+    return format ? { path: '', format, content } : null;
+  }
+
+  for (const pattern of REPORT_NAMES) {
+    // Shallowest first: nested copies are usually per-package partial reports
+    const candidates = entries
+      .filter((entry) => pattern.test(path.posix.basename(entry.name)) && !entry.name.includes('node_modules/'))
+      .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+    for (const entry of candidates) {
+      let content;
+      try {
+        content = entry.read().toString('utf8');
+      } catch {
+        // Corrupt or over the size limit; a later candidate may still be usable
+        continue;
+      }
+      const format = detectCoverageFormat(content);
+      if (format) {
+        return { path: entry.name, format, content };
+      }
+    }
+  }
+  return null;
+}
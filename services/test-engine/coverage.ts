@@ -0,0 +1,568 @@
+/**
+ * Coverage Reports
+ *
+ * Parses the coverage formats CI jobs produce (lcov, Cobertura, Istanbul,
+ * JaCoCo, Go cover profiles) into one report that keeps per-file and
+ * per-line hit counts, so coverage can be computed for any set of lines,
+ * e.g. the lines a PR changed.
+ */
+
+export type CoverageFormat = 'lcov' | 'cobertura' | 'istanbul' | 'jacoco' | 'go' | 'summary';
+
+export interface CoverageCounts {
+  total: number;
+  covered: number;
+  percentage: number; // 100 when there is nothing to cover
+}
+
+export interface CoverageTotals {
+  lines: CoverageCounts;
+  branches: CoverageCounts;
+  functions: CoverageCounts;
+}
+
+export interface FileCoverage extends CoverageTotals {
+  path: string; // As the report names it; may be absolute or package-relative
+  lineHits: Record<number, number>; // Executable line -> times executed (0 = uncovered)
+}
+
+export interface CoverageReport {
+  format: CoverageFormat;
+  totals: CoverageTotals;
+  files: FileCoverage[]; // Empty for pre-aggregated summaries
+}
+
+/**
+ * Accumulates one file's coverage. Branches and functions are keyed so the
+ * same file reported twice (merged lcov, Java inner classes) is not counted twice.
+ */
+class FileCoverageBuilder {
+  lineHits = new Map<number, number>();
+  branches = new Map<string, number>();
+  functions = new Map<string, number>();
+  // Counts a format reports only in aggregate (lcov FNF/FNH, JaCoCo METHOD)
+  extraBranches = { total: 0, covered: 0 };
+  extraFunctions = { total: 0, covered: 0 };
+
+  constructor(readonly path: string) {}
+
+  line(line: number, hits: number): void {
+    if (Number.isInteger(line) && line > 0) {
+      this.lineHits.set(line, (this.lineHits.get(line) || 0) + Math.max(0, hits || 0));
+    }
+  }
+
+  branch(key: string, hits: number): void {
+    this.branches.set(key, (this.branches.get(key) || 0) + Math.max(0, hits || 0));
+  }
+
+  fn(key: string, hits: number): void {
+    this.functions.set(key, (this.functions.get(key) || 0) + Math.max(0, hits || 0));
+  }
+
+  build(): FileCoverage {
+    const hitCounts = (values: Iterable<number>, extra = { total: 0, covered: 0 }) => {
+      const list = Array.from(values);
+      return counts(list.filter((hits) => hits > 0).length + extra.covered, list.length + extra.total);
+    };
+    const lineHits: Record<number, number> = {};
+    for (const [line, hits] of Array.from(this.lineHits.entries()).sort((a, b) => a[0] - b[0])) {
+      lineHits[line] = hits;
+    }
+    return {
+      path: this.path,
+      lineHits,
+      lines: hitCounts(this.lineHits.values()),
+      branches: hitCounts(this.branches.values(), this.extraBranches),
+      functions: hitCounts(this.functions.values(), this.extraFunctions),
+    };
+  }
+}
+
+class FileCoverageSet {
+  private files = new Map<string, FileCoverageBuilder>();
+
+  file(path: string): FileCoverageBuilder {
+    let builder = this.files.get(path);
+    if (!builder) {
+      builder = new FileCoverageBuilder(path);
+      this.files.set(path, builder);
+    }
+    return builder;
+  }
+
+  report(format: CoverageFormat): CoverageReport {
+    if (this.files.size === 0) {
+      throw new Error(`Coverage report (${format}) contains no files`);
+    }
+    const files = Array.from(this.files.values(), (builder) => builder.build());
+    return { format, totals: sumCoverage(files), files };
+  }
+}
+
+export function counts(covered: number, total: number): CoverageCounts {
+  return { total, covered, percentage: total === 0 ? 100 : (covered / total) * 100 };
+}
+
+/**
+ * Totals across files
+ */
+export function sumCoverage(files: CoverageTotals[]): CoverageTotals {
+  const sum = (pick: (file: CoverageTotals) => CoverageCounts) =>
+    counts(
+      files.reduce((total, file) => total + pick(file).covered, 0),
+      files.reduce((total, file) => total + pick(file).total, 0)
+    );
+  return {
+    lines: sum((file) => file.lines),
+    branches: sum((file) => file.branches),
+    functions: sum((file) => file.functions),
+  };
+}
+
+export interface FileDiffCoverage {
+  path: string; // As in the diff
+  reportPath: string; // As in the coverage report
+  lines: CoverageCounts; // Changed executable lines
+  uncoveredLines: number[];
+}
+
+export interface DiffCoverage {
+  lines: CoverageCounts; // Changed executable lines across files
+  files: FileDiffCoverage[]; // Files with changed executable lines
+  unreportedFiles: string[]; // Changed files the report doesn't mention (not counted)
+}
+
+/**
+ * A repository file's entry in a report. Reports name files absolutely
+ * (/home/runner/work/app/app/src/a.ts), by package (com/acme/A.java for
+ * src/main/java/com/acme/A.java) or by module (github.com/acme/api/a.go),
+ * so an exact match is preferred, then the longest match on whole path
+ * segments.
+ */
+export function matchCoverageFile(files: FileCoverage[], path: string): FileCoverage | undefined {
+  const normalize = (value: string) => value.replace(/\\/g, '/').replace(/^\.\//, '');
+  const target = normalize(path);
+  let best: { file: FileCoverage; length: number } | undefined;
+
+  for (const file of files) {
+    const candidate = normalize(file.path);
+    if (candidate === target) {
+      return file;
+    }
+    const matches = candidate.endsWith(`/${target}`) || target.endsWith(`/${candidate}`);
+    const length = Math.min(candidate.length, target.length);
+    if (matches && (!best || length > best.length)) {
+      best = { file, length };
+    }
+  }
+  return best?.file;
+}
+
+/**
+ * Coverage of the lines a change added or modified. Changed lines that
+ * aren't executable (blank, comments, declarations) are not counted.
+ *
+ * @param changedLines New-file path -> changed line numbers
+ * @throws {Error} If the report has no per-line data
+ */
+export function computeDiffCoverage(report: CoverageReport, changedLines: Map<string, number[]>): DiffCoverage {
+  if (report.files.length === 0) {
+    throw new Error(`Diff coverage needs per-line data; a ${report.format} report has none`);
+  }
+
+  const files: FileDiffCoverage[] = [];
+  const unreportedFiles: string[] = [];
+  for (const [path, lines] of changedLines) {
+    const file = matchCoverageFile(report.files, path);
+    if (!file) {
+      unreportedFiles.push(path);
+      continue;
+    }
+    const executable = Array.from(new Set(lines))
+      .filter((line) => file.lineHits[line] !== undefined)
+      .sort((a, b) => a - b);
+    if (executable.length === 0) {
+      continue;
+    }
+    const uncoveredLines = executable.filter((line) => file.lineHits[line] === 0);
+    files.push({
+      path,
+      reportPath: file.path,
+      lines: counts(executable.length - uncoveredLines.length, executable.length),
+      uncoveredLines,
+    });
+  }
+
+  const covered = files.reduce((total, file) => total + file.lines.covered, 0);
+  const total = files.reduce((sum, file) => sum + file.lines.total, 0);
+  return { lines: counts(covered, total), files, unreportedFiles };
+}
+
+/**
+ * lcov tracefile (lcov.info), as written by Istanbul/nyc, c8, lcov and grcov
+ */
+export function parseLcov(text: string): CoverageReport {
+  const set = new FileCoverageSet();
+  let file: FileCoverageBuilder | null = null;
+  let functionSummary = { total: 0, covered: 0 };
+  let branchSummary = { total: 0, covered: 0 };
+  let functionNames = 0;
+  let branchRecords = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      if (line === 'end_of_record' && file) {
+        // Use the FNF/FNH and BRF/BRH summaries only when the detail records are missing
+        if (functionNames === 0) file.extraFunctions = functionSummary;
+        if (branchRecords === 0) file.extraBranches = branchSummary;
+        file = null;
+      }
+      continue;
+    }
+    const tag = line.slice(0, separator);
+    const fields = line.slice(separator + 1).split(',');
+
+    if (tag === 'SF') {
+      file = set.file(line.slice(separator + 1));
+      functionSummary = { total: 0, covered: 0 };
+      branchSummary = { total: 0, covered: 0 };
+      functionNames = 0;
+      branchRecords = 0;
+      continue;
+    }
+    if (!file) {
+      continue;
+    }
+    switch (tag) {
+      case 'DA':
+        file.line(Number(fields[0]), Number(fields[1]));
+        break;
+      case 'FN':
+        // FN:<line>,<name>, or FN:<line>,<end line>,<name> from lcov 2
+        functionNames++;
+        file.fn(fields.slice(fields.length > 2 && /^\d+$/.test(fields[1]) ? 2 : 1).join(','), 0);
+        break;
+      case 'FNDA':
+        file.fn(fields.slice(1).join(','), Number(fields[0]));
+        break;
+      case 'BRDA':
+        branchRecords++;
+        file.branch(`${fields[0]}:${fields[1]}:${fields[2]}`, fields[3] === '-' ? 0 : Number(fields[3]));
+        break;
+      case 'FNF':
+        functionSummary.total = Number(fields[0]) || 0;
+        break;
+      case 'FNH':
+        functionSummary.covered = Number(fields[0]) || 0;
+        break;
+      case 'BRF':
+        branchSummary.total = Number(fields[0]) || 0;
+        break;
+      case 'BRH':
+        branchSummary.covered = Number(fields[0]) || 0;
+        break;
+    }
+  }
+
+  return set.report('lcov');
+}
+
+/**
+ * One file in Istanbul's coverage-final.json: location maps keyed by
+ * statement, function and branch id, and hit counts under the same ids
+ */
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, { start?: { line?: number } }>;
+  s?: Record<string, number>;
+  fnMap?: Record<string, unknown>;
+  f?: Record<string, number>;
+  b?: Record<string, number[]>; // Hits per path of each branch
+}
+
+/**
+ * Istanbul coverage-final.json: statement, function and branch maps per file
+ */
+export function parseIstanbul(data: Record<string, IstanbulFileCoverage & { data?: IstanbulFileCoverage }>): CoverageReport {
+  const set = new FileCoverageSet();
+
+  for (const [key, value] of Object.entries(data)) {
+    const entry = value?.data ?? value; // Older nyc wraps each file in { data }
+    if (!entry || typeof entry !== 'object' || !entry.statementMap) {
+      continue;
+    }
+    const file = set.file(entry.path || key);
+
+    // A line's hits are those of the most-executed statement starting on it
+    const lineHits = new Map<number, number>();
+    for (const [id, location] of Object.entries(entry.statementMap)) {
+      const line = location?.start?.line;
+      const hits = Number(entry.s?.[id]) || 0;
+      if (line && (!lineHits.has(line) || hits > lineHits.get(line)!)) {
+        lineHits.set(line, hits);
+      }
+    }
+    for (const [line, hits] of lineHits) {
+      file.line(line, hits);
+    }
+
+    for (const id of Object.keys(entry.fnMap || {})) {
+      file.fn(id, Number(entry.f?.[id]) || 0);
+    }
+    for (const [id, hitsPerPath] of Object.entries(entry.b || {})) {
+      (Array.isArray(hitsPerPath) ? hitsPerPath : []).forEach((hits, index) => {
+        file.branch(`${id}:${index}`, Number(hits) || 0);
+      });
+    }
+  }
+
+  return set.report('istanbul');
+}
+
+/**
+ * Cobertura XML, as written by coverage.py, Istanbul's cobertura reporter,
+ * coverlet and gcovr
+ */
+export function parseCobertura(xml: string): CoverageReport {
+  const set = new FileCoverageSet();
+  let file: FileCoverageBuilder | null = null;
+  let className = '';
+  let method: { key: string; hits: number } | null = null;
+
+  for (const element of xmlElements(xml)) {
+    if (element.name === 'class') {
+      if (element.closing) {
+        file = null;
+      } else if (element.attributes.filename) {
+        file = set.file(element.attributes.filename);
+        className = element.attributes.name || element.attributes.filename;
+      }
+    } else if (element.name === 'method' && file) {
+      if (!element.closing) {
+        method = { key: `${className}.${element.attributes.name}${element.attributes.signature || ''}`, hits: 0 };
+      }
+      if (element.closing || element.selfClosing) {
+        file.fn(method!.key, method!.hits);
+        method = null;
+      }
+    } else if (element.name === 'line' && !element.closing && file) {
+      const lineNumber = Number(element.attributes.number);
+      const hits = Number(element.attributes.hits) || 0;
+      if (method) {
+        // Method lines repeat the class's own <lines>; they only decide whether the method ran
+        method.hits = Math.max(method.hits, hits);
+        continue;
+      }
+      file.line(lineNumber, hits);
+      const conditions = /\((\d+)\/(\d+)\)/.exec(element.attributes['condition-coverage'] || '');
+      if (element.attributes.branch === 'true' && conditions) {
+        const covered = Number(conditions[1]);
+        for (let index = 0; index < Number(conditions[2]); index++) {
+          file.branch(`${lineNumber}:${index}`, index < covered ? 1 : 0);
+        }
+      }
+    }
+  }
+
+  return set.report('cobertura');
+}
+
+/**
+ * JaCoCo XML report. Files are named `<package>/<sourcefile>`, e.g.
+ * com/acme/Order.java; a line counts as executed when any of its
+ * instructions ran.
+ */
+export function parseJacoco(xml: string): CoverageReport {
+  const set = new FileCoverageSet();
+  let packageName = '';
+  let file: FileCoverageBuilder | null = null;
+
+  for (const element of xmlElements(xml)) {
+    if (element.name === 'package' && !element.closing) {
+      packageName = element.attributes.name || '';
+    } else if (element.name === 'sourcefile') {
+      file = element.closing || element.selfClosing ? null : set.file(packageName ? `${packageName}/${element.attributes.name}` : element.attributes.name);
+    } else if (element.name === 'line' && file) {
+      const lineNumber = Number(element.attributes.nr);
+      const coveredInstructions = Number(element.attributes.ci) || 0;
+      const missedBranches = Number(element.attributes.mb) || 0;
+      const coveredBranches = Number(element.attributes.cb) || 0;
+      file.line(lineNumber, coveredInstructions);
+      for (let index = 0; index < missedBranches + coveredBranches; index++) {
+        file.branch(`${lineNumber}:${index}`, index < coveredBranches ? 1 : 0);
+      }
+    } else if (element.name === 'counter' && file && element.attributes.type === 'METHOD') {
+      const missed = Number(element.attributes.missed) || 0;
+      const covered = Number(element.attributes.covered) || 0;
+      file.extraFunctions = { total: missed + covered, covered };
+    }
+  }
+
+  return set.report('jacoco');
+}
+
+/**
+ * Go cover profile (`go test -coverprofile`). Blocks cover line ranges; a
+ * line takes the hits of the most-executed block on it. Go reports no
+ * branch or function data here.
+ */
+export function parseGoCoverProfile(text: string): CoverageReport {
+  const set = new FileCoverageSet();
+  const blockPattern = /^(.+):(\d+)\.\d+,(\d+)\.\d+ (\d+) (\d+)$/;
+  const lineHits = new Map<string, Map<number, number>>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = blockPattern.exec(rawLine.trim());
+    if (!match) {
+      continue; // "mode: set" header or blank
+    }
+    const [, path, startLine, endLine, statements, count] = match;
+    if (Number(statements) === 0) {
+      continue;
+    }
+    const hitsByLine = lineHits.get(path) || new Map<number, number>();
+    lineHits.set(path, hitsByLine);
+    for (let line = Number(startLine); line <= Number(endLine); line++) {
+      hitsByLine.set(line, Math.max(hitsByLine.get(line) || 0, Number(count)));
+    }
+  }
+
+  for (const [path, hitsByLine] of lineHits) {
+    const file = set.file(path);
+    for (const [line, hits] of hitsByLine) {
+      file.line(line, hits);
+    }
+  }
+
+  return set.report('go');
+}
+
+interface SummaryMetric {
+  total?: number;
+  covered?: number;
+  percentage?: number;
+  pct?: number; // Istanbul's name for percentage
+}
+
+interface SummaryTotals {
+  lines?: SummaryMetric;
+  branches?: SummaryMetric;
+  functions?: SummaryMetric;
+}
+
+/**
+ * Pre-aggregated totals: `{ lines: { total, covered, percentage } }` or
+ * Istanbul's coverage-summary.json (`{ total: { lines: { pct } } }`)
+ */
+function parseSummary(data: SummaryTotals & { total?: SummaryTotals }): CoverageReport {
+  const source = data.total && typeof data.total === 'object' ? data.total : data;
+  const read = (metric: SummaryMetric | undefined): CoverageCounts => {
+    const total = Number(metric?.total) || 0;
+    const covered = Number(metric?.covered) || 0;
+    const percentage = metric?.percentage ?? metric?.pct;
+    return typeof percentage === 'number' ? { total, covered, percentage } : counts(covered, total);
+  };
+  return {
+    format: 'summary',
+    totals: { lines: read(source.lines), branches: read(source.branches), functions: read(source.functions) },
+    files: [],
+  };
+}
+
+/**
+ * Detect a report's format from its content
+ */
+export function detectCoverageFormat(data: unknown): CoverageFormat | null {
+  if (typeof data === 'string') {
+    const text = data.trimStart();
+    if (text.startsWith('{')) {
+      try {
+        return detectCoverageFormat(JSON.parse(text));
+      } catch {
+        return null;
+      }
+    }
+    if (text.startsWith('<')) {
+      if (/<report[\s>]/.test(text) && /<sourcefile[\s>]|jacoco/i.test(text)) return 'jacoco';
+      if (/<coverage[\s>]/.test(text)) return 'cobertura';
+      return null;
+    }
+    if (/^mode: \w+/.test(text)) return 'go';
+    if (/^(TN|SF):/m.test(text)) return 'lcov';
+    return null;
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const record = data as Record<string, any>;
+    if (record.lines && typeof record.lines === 'object') return 'summary';
+    if (record.total?.lines && typeof record.total.lines === 'object') return 'summary';
+    const first = Object.values(record)[0];
+    if ((first?.data ?? first)?.statementMap) return 'istanbul';
+  }
+  return null;
+}
+
+/**
+ * Parse a coverage report, detecting its format unless given
+ *
+ * @throws {Error} If the format is not recognized or the report has no files
+ */
+export function parseCoverageReport(data: unknown, format?: CoverageFormat): CoverageReport {
+  const resolvedFormat = format || detectCoverageFormat(data);
+  const json = () => (typeof data === 'string' ? JSON.parse(data) : data) as Record<string, any>;
+  const text = () => {
+    if (typeof data !== 'string') {
+      throw new Error(`A ${resolvedFormat} coverage report must be text`);
+    }
+    return data;
+  };
+
+  switch (resolvedFormat) {
+    case 'lcov':
+      return parseLcov(text());
+    case 'cobertura':
+      return parseCobertura(text());
+    case 'jacoco':
+      return parseJacoco(text());
+    case 'go':
+      return parseGoCoverProfile(text());
+    case 'istanbul':
+      return parseIstanbul(json());
+    case 'summary':
+      return parseSummary(json());
+    default:
+      throw new Error('Unrecognized coverage report format; expected lcov, Cobertura, Istanbul JSON, JaCoCo or a Go cover profile');
+  }
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  closing: boolean; // </name>
+  selfClosing: boolean; // <name ... />
+}
+
+const XML_TAG = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const XML_ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Start and end tags in document order. Coverage reports are flat,
+ * attribute-only XML, so text content, comments and DOCTYPEs are skipped.
+ */
+function* xmlElements(xml: string): Generator<XmlElement> {
+  const body = xml.replace(/<!--[\s\S]*?-->/g, '').replace(/<!DOCTYPE[^>]*>/gi, '');
+  for (const match of body.matchAll(XML_TAG)) {
+    const attributes: Record<string, string> = {};
+    for (const attribute of match[3].matchAll(XML_ATTRIBUTE)) {
+      attributes[attribute[1]] = (attribute[2] ?? attribute[3]).replace(
+        /&(lt|gt|amp|quot|apos);/g,
+        (_entity, name: string) => XML_ENTITIES[name]
+      );
+    }
+    yield { name: match[2], attributes, closing: match[1] === '/', selfClosing: match[4] === '/' };
+  }
+}
@@ -7,12 +7,48 @@
 
 import { prisma } from '../../lib/prisma';
 import { llmService, LLMRequest } from '../llm';
-import { codeParserService } from '../code-parser';
-import { queryEvidence, formatEvidenceForPrompt, isQueryEnabled } from '../../lib/rag';
+import { codeParserService, diffLineChanges } from '../code-parser';
+import { queryEvidence, isQueryEnabled, type RagResult } from '../../lib/rag';
+import { estimateTokenCount } from '../../lib/rag/chunking';
+import { budgetService } from '../budget';
+import { buildPromptContext } from '../llm/context-builder';
+import { promptRegistryService, type PromptRef, type RenderedPrompt } from '../prompts';
+import { usageAccountingService } from '../usage-accounting';
+import { configService, type TestConfig as RepositoryTestConfig } from '../config';
+import { metrics } from '../../observability/metrics';
 // Billing check imported dynamically to avoid circular dependencies
 import { policyEngineService } from '../policy-engine';
+import { checkoutService, type Checkout } from '../checkout';
+import { frameworkDetectionService, testFilePath, testingFor, type TestConventions } from '../framework-detection';
 import { createHash } from 'crypto';
 import { Issue } from '../static-analysis';
+import {
+  computeDiffCoverage,
+  parseCoverageReport,
+  type CoverageFormat,
+  type CoverageReport,
+  type CoverageTotals,
+  type DiffCoverage,
+  type FileCoverage,
+} from './coverage';
+
+import {
+  buildTestRepairPrompt,
+  coverageDelta,
+  installDependencies,
+  measureBaselineCoverage,
+  runGeneratedTest,
+  runMutants,
+  type CoverageDelta,
+  type SandboxRunResult,
+} from './sandbox';
+import { describeMutant, generateMutants, isMutationTestable, skippedMutation, type MutationResult } from './mutation';
+
+export type { CoverageFormat, CoverageReport, CoverageTotals, DiffCoverage, FileCoverage } from './coverage';
+export type { Mutant, MutationResult } from './mutation';
+
+const DEFAULT_SANDBOX_RETRIES = 2;
+const DEFAULT_MUTATION_THRESHOLD = 60;
 
 export interface TestGenerationRequest {
   repositoryId: string;
@@ -21,41 +57,87 @@ export interface TestGenerationRequest {
   filePath: string;
   fileContent: string;
   framework?: string; // Auto-detect if not specified
+  changedPaths?: string[]; // Other paths in the PR: manifests trigger re-detection, test files show naming conventions
+  diff?: string; // The PR's unified diff; mutation testing targets the functions it changes
   config?: TestConfig;
+  signal?: AbortSignal; // Cancels generation (e.g. its run was superseded)
+  checkoutDir?: string; // Repository working tree at prSha (see prepareCheckout); when given, generated tests are run before being proposed
 }
 
 export interface TestConfig {
   coverageThreshold: number; // Minimum 80%, cannot go below
   metric: 'lines' | 'branches' | 'functions';
+  scope?: 'total' | 'diff'; // diff: the threshold applies to the PR's changed lines only (line coverage)
   enforceOn: 'pr' | 'merge' | 'both';
   failOnBelow: boolean; // REQUIRED: Always true, cannot disable
-  placement: 'co-located' | 'separate' | 'mirror';
+  placement?: 'co-located' | 'separate' | 'mirror'; // Detected from the repository when unset
   testDir?: string;
+  sandboxRetries?: number; // Regenerations after a generated test fails in the sandbox
+  mutation?: {
+    enabled: boolean; // Mutation-test changed JS/TS functions once a generated test passes
+    threshold?: number; // Minimum mutation score (%), default 60
+    maxMutants?: number;
+  };
 }
 
 export interface TestGenerationResult {
   id: string;
-  status: 'generated' | 'failed' | 'blocked';
+  status: 'generated' | 'failed' | 'blocked'; // failed: the test never passed in the sandbox
   testContent: string;
   placement: string;
   framework: string;
+  execution?: TestExecution;
   startedAt: Date;
   completedAt: Date;
 }
 
+/**
+ * Outcome of running a generated test in the sandbox
+ */
+export interface TestExecution {
+  status: SandboxRunResult['status'];
+  phase?: SandboxRunResult['phase'];
+  attempts: number; // Generations run, including the first
+  output: string; // Last run's output tail
+  coverageDelta?: CoverageDelta; // Source file line coverage before and after the test
+  mutation?: MutationResult; // Set when mutation testing is enabled and the test passed
+}
+
 export interface CoverageResult {
   repositoryId: string;
   prNumber?: number;
   prSha?: string;
-  coverage: {
-    lines: { total: number; covered: number; percentage: number };
-    branches: { total: number; covered: number; percentage: number };
-    functions: { total: number; covered: number; percentage: number };
-  };
+  coverage: CoverageTotals;
+  format: CoverageFormat;
+  files: FileCoverage[]; // Per-file and per-line hits; empty for pre-aggregated summaries
+  diffCoverage?: DiffCoverage; // Set in diff scope
+  findings: Issue[];
   meetsThreshold: boolean;
   isBlocked: boolean;
 }
 
+/**
+ * LLM request for one test generation attempt. It is sent under the
+ * repository's organization so that organization's LLM config (a pinned
+ * provider) and response cache apply. It names no model, so the selected
+ * provider's configured model is used.
+ */
+export function testGenerationLLMRequest(
+  request: TestGenerationRequest,
+  organizationId: string,
+  prompt: string,
+  promptRef?: PromptRef
+): LLMRequest {
+  return {
+    prompt,
+    promptRef,
+    maxTokens: budgetService.getPromptBudget('test_generation').maxOutputTokens,
+    organizationId,
+    cache: true,
+    signal: request.signal,
+  };
+}
+
 /**
  * Test Engine Service
  * 
@@ -196,7 +278,7 @@ export class TestEngineService {
    *   config: {
    *     coverageThreshold: 80,  // Minimum enforced
    *     failOnBelow: true,       // Always true
-   *     placement: 'co-located'   // Test next to source file
+   *     placement: 'co-located'   // Optional, detected from existing tests if not provided
    *   }
    * });
    * ```
@@ -205,7 +287,7 @@ export class TestEngineService {
     const startedAt = new Date();
 
     // Validate config
-    const config = request.config || this.getDefaultConfig();
+    const config = request.config || await this.getRepositoryConfig(request.repositoryId);
     if (config.coverageThreshold < 80) {
       throw new Error('Coverage threshold cannot be below 80%. Minimum enforced: 80%');
     }
@@ -214,8 +296,9 @@ export class TestEngineService {
       throw new Error('fail_on_below cannot be disabled. Coverage enforcement is required.');
     }
 
-    // Detect framework if not specified
-    const framework = request.framework || (await this.detectFramework(request.repositoryId));
+    // Detect framework if not specified; placement follows the detected conventions
+    const detected = await this.detectFramework(request.repositoryId, request.filePath, request.changedPaths, request.prSha);
+    const framework = request.framework && request.framework !== 'auto' ? request.framework : detected.framework;
 
     try {
       // Parse code structure
@@ -252,21 +335,79 @@ export class TestEngineService {
         organizationId
       );
 
-      const llmRequest: LLMRequest = {
-        prompt,
-        model: 'gpt-4-turbo-preview',
-        organizationId: request.repositoryId, // Would get orgId from repo
-        cache: true,
-      };
+      // Determine placement
+      const placement = this.determinePlacement(request.filePath, detected.conventions, config);
+
+      // With a checkout, a generated test is only proposed once it passes in the
+      // sandbox; failures are fed back to the model for another attempt
+      const maxAttempts = request.checkoutDir ? 1 + (config.sandboxRetries ?? DEFAULT_SANDBOX_RETRIES) : 1;
+      let currentPrompt = prompt.text;
+      let testContent = '';
+      let run: SandboxRunResult | undefined;
+      let attempts = 0;
+
+      while (attempts < maxAttempts) {
+        attempts++;
+        const response = await llmService.complete(
+          testGenerationLLMRequest(request, organizationId, currentPrompt, prompt.ref)
+        );
+        if (!response.cached) {
+          const inputTokens = Math.ceil(currentPrompt.length / 4); // Estimate (~4 chars per token)
+          await usageAccountingService.recordUsage({
+            repositoryId: request.repositoryId,
+            organizationId,
+            service: 'test_generation',
+            provider: response.provider,
+            model: response.model,
+            inputTokens,
+            outputTokens: Math.max(0, response.tokensUsed - inputTokens),
+            totalTokens: response.tokensUsed,
+            cost: response.cost,
+            metadata: { prompt: prompt.ref },
+          });
+        }
+        testContent = this.extractTestCode(response.content);
 
-      const response = await llmService.complete(llmRequest);
-      const testContent = this.extractTestCode(response.content);
+        // Validate test syntax
+        await this.validateTestSyntax(testContent, framework);
 
-      // Validate test syntax
-      await this.validateTestSyntax(testContent, framework);
+        if (!request.checkoutDir) {
+          break;
+        }
+        run = await runGeneratedTest({
+          checkoutDir: request.checkoutDir,
+          framework,
+          sourcePath: request.filePath,
+          testPath: placement,
+          testContent,
+          signal: request.signal,
+        });
+        metrics.increment('test_engine.sandbox.runs', { status: run.status });
+        if (run.status === 'passed' || run.status === 'skipped') {
+          break;
+        }
+        currentPrompt = buildTestRepairPrompt(prompt.text, testContent, run);
+      }
 
-      // Determine placement
-      const placement = this.determinePlacement(request.filePath, config.placement, config.testDir);
+      let execution: TestExecution | undefined;
+      if (run) {
+        execution = { status: run.status, phase: run.phase, attempts, output: run.output };
+        if (run.status === 'passed' && run.coverage) {
+          const baseline = await measureBaselineCoverage({
+            checkoutDir: request.checkoutDir!,
+            framework,
+            sourcePath: request.filePath,
+            signal: request.signal,
+          });
+          execution.coverageDelta = coverageDelta(baseline, run.coverage);
+        }
+        if (run.status === 'passed' && config.mutation?.enabled && isMutationTestable(request.filePath)) {
+          execution.mutation = await this.runMutationTesting(request, framework, placement, testContent, config);
+          metrics.increment('test_engine.mutation.runs', { status: execution.mutation.status });
+        }
+      }
+      // Unrunnable generated tests are worse than none: they are recorded, not proposed
+      const unrunnable = execution?.status === 'failed' || execution?.status === 'timeout';
 
       const completedAt = new Date();
 
@@ -309,9 +450,26 @@ export class TestEngineService {
         });
       }
 
+      const mutationThreshold = config.mutation?.threshold ?? DEFAULT_MUTATION_THRESHOLD;
+      const mutation = execution?.mutation;
+      if (mutation?.status === 'completed' && mutation.score < mutationThreshold) {
+        findings.push({
+          ruleId: 'test-engine.mutation-score',
+          severity: 'high',
+          file: request.filePath,
+          line: mutation.survivors[0]?.line || 1,
+          message: `Mutation score ${mutation.score.toFixed(1)}% (${mutation.killed}/${mutation.total} mutants caught) ` +
+            `below threshold ${mutationThreshold}%. Surviving: ${mutation.survivors.slice(0, 3).map(describeMutant).join('; ')}`,
+          fix: 'Assert on the results of the changed functions so the tests fail when their behavior changes',
+          confidence: 1.0,
+        });
+      }
+
       // Evaluate against policy
       const evaluationResult = policyEngineService.evaluate(findings, policy);
 
+      const status: TestGenerationResult['status'] = unrunnable ? 'failed' : evaluationResult.blocked ? 'blocked' : 'generated';
+
       // Save test result
       const test = await prisma.test.create({
         data: {
@@ -320,9 +478,15 @@ export class TestEngineService {
           prSha: request.prSha || null,
           filePath: request.filePath,
           framework,
-          status: evaluationResult.blocked ? 'blocked' : 'generated',
+          status,
           testContent,
           placement,
+          coverage: execution?.coverageDelta ? (execution.coverageDelta as any) : undefined,
+          executionStatus: execution?.status ?? null,
+          executionAttempts: execution?.attempts ?? null,
+          executionOutput: execution && execution.status !== 'passed' ? execution.output : null,
+          coverageDelta: execution?.coverageDelta?.delta ?? null,
+          mutationScore: mutation?.status === 'completed' ? mutation.score : null,
           startedAt,
           completedAt,
         },
@@ -340,11 +504,20 @@ export class TestEngineService {
           commitSha: request.prSha,
           prNumber: request.prNumber,
           aiTouched: aiTouchedFiles.length > 0,
+          prompt: prompt.ref,
         },
         {
           findings,
           evaluationResult,
-          testGenerated: !evaluationResult.blocked,
+          testGenerated: status === 'generated',
+          execution: execution
+            ? {
+              status: execution.status,
+              attempts: execution.attempts,
+              coverageDelta: execution.coverageDelta?.delta,
+              mutationScore: mutation?.status === 'completed' ? mutation.score : undefined,
+            }
+            : undefined,
         },
         policy,
         timings,
@@ -353,14 +526,18 @@ export class TestEngineService {
 
       return {
         id: test.id,
-        status: evaluationResult.blocked ? 'blocked' : 'generated',
+        status,
         testContent,
         placement,
         framework,
+        execution,
         startedAt,
         completedAt,
       };
     } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
       // Test generation failures MUST block PR
       throw new Error(
         `Test generation failed: ${error instanceof Error ? error.message : 'Unknown error'}. ` +
@@ -370,20 +547,62 @@ export class TestEngineService {
     }
   }
 
+  /**
+   * Mutation-test the functions the PR changed in the file against its
+   * related tests plus the generated one
+   */
+  private async runMutationTesting(
+    request: TestGenerationRequest,
+    framework: string,
+    placement: string,
+    testContent: string,
+    config: TestConfig
+  ): Promise<MutationResult> {
+    const changedLines = request.diff
+      ? Array.from(diffLineChanges(request.diff).get(request.filePath)?.entries() || [])
+        .filter(([, change]) => change === 'added' || change === 'modified')
+        .map(([line]) => line)
+      : undefined;
+
+    let mutants;
+    try {
+      mutants = generateMutants(request.filePath, request.fileContent, changedLines, config.mutation?.maxMutants);
+    } catch (error) {
+      return skippedMutation(`${request.filePath} could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return runMutants({
+      checkoutDir: request.checkoutDir!,
+      framework,
+      sourcePath: request.filePath,
+      source: request.fileContent,
+      testPath: placement,
+      testContent,
+      signal: request.signal,
+    }, mutants);
+  }
+
   /**
    * Check coverage and enforce threshold (policy-aware)
+   *
+   * In diff scope only the lines the PR added or modified are gated, and each
+   * uncovered run of them is reported as a finding on its file and line.
+   *
+   * @param diff The PR's unified diff; required in diff scope
    */
   async checkCoverage(
     repositoryId: string,
     prNumber: number,
     prSha: string,
-    coverageData: any, // lcov or coverage JSON
-    config?: TestConfig
+    coverageData: unknown, // lcov, Cobertura/JaCoCo XML, Go cover profile, Istanbul JSON or totals
+    config?: TestConfig,
+    diff?: string
   ): Promise<CoverageResult> {
-    const testConfig = config || this.getDefaultConfig();
+    const testConfig = config || await this.getRepositoryConfig(repositoryId);
 
-    // Parse coverage data
-    const coverage = this.parseCoverage(coverageData);
+    // Parse coverage data (throws on an unrecognized report rather than reporting 0%)
+    const report = parseCoverageReport(coverageData);
+    const coverage = report.totals;
 
     // Get organization ID for policy evaluation
     const repoForCoverage = await prisma.repository.findUnique({
@@ -404,6 +623,13 @@ export class TestEngineService {
       undefined
     );
 
+    if (testConfig.scope === 'diff') {
+      if (diff === undefined) {
+        throw new Error('Diff coverage needs the PR diff');
+      }
+      return this.checkDiffCoverage(repositoryId, prNumber, prSha, report, diff, testConfig, policy);
+    }
+
     // Check threshold
     const metric = coverage[testConfig.metric];
     const meetsThreshold = metric.percentage >= testConfig.coverageThreshold;
@@ -431,13 +657,91 @@ export class TestEngineService {
       prNumber,
       prSha,
       coverage,
+      format: report.format,
+      files: report.files,
+      findings,
+      meetsThreshold,
+      isBlocked,
+    };
+  }
+
+  /**
+   * Gate the lines a PR added or modified
+   */
+  private checkDiffCoverage(
+    repositoryId: string,
+    prNumber: number,
+    prSha: string,
+    report: CoverageReport,
+    diff: string,
+    testConfig: TestConfig,
+    policy: Awaited<ReturnType<typeof policyEngineService.loadEffectivePolicy>>
+  ): CoverageResult {
+    const lineChanges = diffLineChanges(diff);
+    const changedLines = new Map<string, number[]>();
+    for (const [path, lines] of lineChanges) {
+      const changed = Array.from(lines.entries())
+        .filter(([, change]) => change === 'added' || change === 'modified')
+        .map(([line]) => line);
+      if (changed.length > 0) {
+        changedLines.set(path, changed);
+      }
+    }
+
+    const diffCoverage = computeDiffCoverage(report, changedLines);
+    const meetsThreshold = diffCoverage.lines.percentage >= testConfig.coverageThreshold;
+
+    // One finding per run of consecutive uncovered lines, so annotations stay readable
+    const findings: Issue[] = [];
+    for (const file of diffCoverage.files) {
+      for (const [start, end] of lineRuns(file.uncoveredLines)) {
+        findings.push({
+          ruleId: 'test-engine.uncovered-line',
+          severity: 'medium',
+          file: file.path,
+          line: start,
+          message: start === end
+            ? `Line ${start} changed in this PR is not covered by tests`
+            : `Lines ${start}-${end} changed in this PR are not covered by tests`,
+          fix: 'Add or extend tests that execute these lines',
+          confidence: 1.0,
+          lineChange: lineChanges.get(file.path)?.get(start),
+        });
+      }
+    }
+    if (!meetsThreshold) {
+      findings.push({
+        ruleId: 'test-engine.diff-coverage-threshold',
+        severity: 'high',
+        file: 'coverage',
+        line: 1,
+        message: `Coverage of changed lines ${diffCoverage.lines.percentage.toFixed(1)}% ` +
+          `(${diffCoverage.lines.covered}/${diffCoverage.lines.total}) below threshold ${testConfig.coverageThreshold}%`,
+        fix: `Cover at least ${testConfig.coverageThreshold}% of the changed lines`,
+        confidence: 1.0,
+      });
+    }
+
+    const evaluationResult = policyEngineService.evaluate(findings, policy);
+    const isBlocked = evaluationResult.blocked || (!meetsThreshold && testConfig.failOnBelow);
+
+    return {
+      repositoryId,
+      prNumber,
+      prSha,
+      coverage: report.totals,
+      format: report.format,
+      files: report.files,
+      diffCoverage,
+      findings,
       meetsThreshold,
       isBlocked,
     };
   }
 
   /**
-   * Build test generation prompt
+   * Build test generation prompt, fitted to the stage's prompt budget.
+   * Files that don't fit are sent as excerpts around their exported functions.
    */
   private async buildTestPrompt(
     filePath: string,
@@ -446,9 +750,9 @@ export class TestEngineService {
     framework: string,
     repositoryId: string,
     organizationId: string
-  ): Promise<string> {
+  ): Promise<RenderedPrompt> {
     // Query evidence if RAG is enabled
-    let evidenceSection = '';
+    const allEvidence: RagResult[] = [];
     if (isQueryEnabled()) {
       try {
         const evidenceQueries = [
@@ -457,7 +761,6 @@ export class TestEngineService {
           `test patterns for ${filePath}`,
         ];
 
-        const allEvidence = [];
         for (const queryText of evidenceQueries) {
           const results = await queryEvidence({
             organizationId,
@@ -470,10 +773,6 @@ export class TestEngineService {
           });
           allEvidence.push(...results);
         }
-
-        if (allEvidence.length > 0) {
-          evidenceSection = formatEvidenceForPrompt(allEvidence);
-        }
       } catch (error) {
         // Evidence retrieval failed - proceed without it (graceful degradation)
         // Use structured logger instead of console.warn for observability
@@ -486,26 +785,38 @@ export class TestEngineService {
       }
     }
 
-    return `Generate comprehensive tests for the following code using ${framework}.
-
-File: ${filePath}
-
-Code:
-\`\`\`
-${content}
-\`\`\`
-
-Functions to test:
-${parseResult.functions.map((f: any) => `- ${f.name} (line ${f.line})`).join('\n')}
-${evidenceSection}
+    const template = await promptRegistryService.resolve('test.generate', organizationId);
+    const buildPrompt = (code: string, evidenceSection: string) => promptRegistryService.render(template, {
+      framework,
+      filePath,
+      code,
+      functions: parseResult.functions.map((f: any) => `- ${f.name} (line ${f.line})`).join('\n'),
+      evidence: evidenceSection,
+    });
 
-Requirements:
-1. Cover all functions and edge cases
-2. Include error cases
-3. Match existing test style if present
-4. Use ${framework} syntax and best practices
+    const budget = budgetService.getPromptBudget('test_generation');
+    const { file: context, evidenceSection } = buildPromptContext({
+      budgetTokens: budget.promptTokens,
+      reservedTokens: estimateTokenCount(buildPrompt('', '').text),
+      file: {
+        filePath,
+        content,
+        parseResult,
+        focusLines: parseResult.functions.filter((f: any) => f.isExported).map((f: any) => f.line),
+      },
+      evidence: allEvidence,
+    });
+    if (context.truncated) {
+      const { logger } = await import('../../observability/logging');
+      logger.warn({
+        repositoryId,
+        filePath,
+        shownLines: context.shownLines,
+        totalLines: context.totalLines,
+      }, 'File exceeds test generation prompt budget, sending an excerpt');
+    }
 
-Return only the test code, no explanations.`;
+    return buildPrompt(context.text, evidenceSection);
   }
 
   /**
@@ -539,74 +850,96 @@ Return only the test code, no explanations.`;
     if (framework === 'pytest' && !testContent.includes('def test_')) {
       throw new Error('Generated test does not match pytest syntax');
     }
+
+    if ((framework === 'vitest' || framework === 'mocha') && !/\b(describe|it|test)\(/.test(testContent)) {
+      throw new Error(`Generated test does not match ${framework === 'vitest' ? 'Vitest' : 'Mocha'} syntax`);
+    }
+
+    if (framework === 'go' && !/func Test\w*\(t \*testing\.T\)/.test(testContent)) {
+      throw new Error('Generated test does not match Go testing syntax');
+    }
+
+    if (['junit5', 'junit4', 'testng'].includes(framework) && !testContent.includes('@Test')) {
+      throw new Error('Generated test does not match JUnit/TestNG syntax');
+    }
   }
 
   /**
-   * Determine test file placement
+   * Determine test file placement: the repository's conventions for the
+   * file's language, with placement and test directory overridable by config
    */
   private determinePlacement(
     filePath: string,
-    placement: string,
-    testDir?: string
+    conventions: TestConventions,
+    config: TestConfig
   ): string {
-    switch (placement) {
-      case 'co-located':
-        // Place next to source file
-        return filePath.replace(/\.(ts|js|tsx|jsx)$/, '.test.$1');
-      case 'separate':
-        // Place in test directory
-        const fileName = filePath.split('/').pop() || '';
-        return `${testDir || 'tests'}/${fileName.replace(/\.(ts|js|tsx|jsx)$/, '.test.$1')}`;
-      case 'mirror':
-        // Mirror directory structure
-        return filePath.replace(/^src\//, 'tests/').replace(/\.(ts|js|tsx|jsx)$/, '.test.$1');
-      default:
-        return filePath.replace(/\.(ts|js|tsx|jsx)$/, '.test.$1');
-    }
+    return testFilePath(filePath, conventions, { placement: config.placement, testDir: config.testDir });
   }
 
   /**
-   * Detect test framework
+   * Detect test framework and conventions for a file from the repository's manifests
    */
-  private async detectFramework(_repositoryId: string): Promise<string> {
-    // Would check repo config or package.json in production
-    // Default to Jest for TypeScript/JavaScript
-    return 'jest';
+  private async detectFramework(
+    repositoryId: string,
+    filePath: string,
+    changedPaths?: string[],
+    prSha?: string
+  ): Promise<{ framework: string; conventions: TestConventions }> {
+    const detected = await frameworkDetectionService.detect(repositoryId, { ref: prSha, changedPaths });
+    return testingFor(detected, filePath);
   }
 
   /**
-   * Parse coverage data (lcov or JSON)
+   * The repository's `test` config (organization defaults merged), or the
+   * defaults when it can't be loaded
    */
-  private parseCoverage(coverageData: any): CoverageResult['coverage'] {
-    // Simplified parsing (would use proper lcov parser in production)
-    if (typeof coverageData === 'object' && coverageData.lines) {
-      return {
-        lines: {
-          total: coverageData.lines.total || 0,
-          covered: coverageData.lines.covered || 0,
-          percentage: coverageData.lines.percentage || 0,
-        },
-        branches: {
-          total: coverageData.branches?.total || 0,
-          covered: coverageData.branches?.covered || 0,
-          percentage: coverageData.branches?.percentage || 0,
-        },
-        functions: {
-          total: coverageData.functions?.total || 0,
-          covered: coverageData.functions?.covered || 0,
-          percentage: coverageData.functions?.percentage || 0,
-        },
-      };
+  async getRepositoryConfig(repositoryId: string): Promise<TestConfig> {
+    let test: RepositoryTestConfig | undefined;
+    try {
+      test = (await configService.getRepositoryConfig(repositoryId)).test;
+    } catch (error) {
+      const { logger } = await import('../../observability/logging');
+      logger.warn({ err: error, repositoryId }, 'Failed to load repository test config; using defaults');
     }
-
-    // Default empty coverage
+    const defaults = this.getDefaultConfig();
     return {
-      lines: { total: 0, covered: 0, percentage: 0 },
-      branches: { total: 0, covered: 0, percentage: 0 },
-      functions: { total: 0, covered: 0, percentage: 0 },
+      ...defaults,
+      coverageThreshold: test?.coverage?.threshold ?? defaults.coverageThreshold,
+      metric: test?.coverage?.metric || defaults.metric,
+      scope: test?.coverage?.scope || defaults.scope,
+      enforceOn: test?.coverage?.enforceOn || defaults.enforceOn,
+      placement: test?.placement,
+      testDir: test?.testDir,
+      mutation: test?.mutation,
     };
   }
 
+  /**
+   * Check out the PR head with its dependencies installed, for running
+   * generated tests in the sandbox. Null when it can't be checked out; tests
+   * are then proposed without being run. The caller removes the checkout
+   * with cleanup().
+   */
+  async prepareCheckout(repositoryId: string, prSha: string, signal?: AbortSignal): Promise<Checkout | null> {
+    const checkout = await checkoutService.create(repositoryId, prSha, { signal });
+    if (!checkout) {
+      return null;
+    }
+    try {
+      const install = await installDependencies(checkout.dir, signal);
+      metrics.increment('test_engine.sandbox.installs', { status: install.status });
+      if (install.status === 'failed' || install.status === 'timeout') {
+        // Runs then skip with the runner missing from the checkout
+        const { logger } = await import('../../observability/logging');
+        logger.warn({ repositoryId, prSha, output: install.output }, 'Failed to install checkout dependencies');
+      }
+      return checkout;
+    } catch (error) {
+      await checkout.cleanup();
+      throw error;
+    }
+  }
+
   /**
    * Get default config (enforcement-first)
    */
@@ -614,11 +947,27 @@ Return only the test code, no explanations.`;
     return {
       coverageThreshold: 80, // Minimum 80%
       metric: 'lines',
+      scope: 'total',
       enforceOn: 'pr',
       failOnBelow: true, // REQUIRED: Cannot disable
-      placement: 'co-located',
     };
   }
 }
 
+/**
+ * Consecutive line numbers as [start, end] runs; input must be sorted
+ */
+function lineRuns(lines: number[]): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  for (const line of lines) {
+    const last = runs[runs.length - 1];
+    if (last && line === last[1] + 1) {
+      last[1] = line;
+    } else {
+      runs.push([line, line]);
+    }
+  }
+  return runs;
+}
+
 export const testEngineService = new TestEngineService();
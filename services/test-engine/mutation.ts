@@ -0,0 +1,212 @@
+/**
+ * Mutation Testing
+ *
+ * Small, deliberate bugs (mutants) in the functions a PR changed: swapped
+ * arithmetic, comparison and logical operators, flipped booleans and
+ * replaced return values. A test suite that still passes with a mutant in
+ * place doesn't check that behavior; the share of mutants the tests catch
+ * is the mutation score. JavaScript and TypeScript only, from the Babel AST.
+ */
+
+import * as babel from '@babel/parser';
+import type * as t from '@babel/types';
+import { isFunctionNode, walk } from '../static-analysis/visitor';
+
+export type MutationOperator = 'arithmetic' | 'comparison' | 'logical' | 'boolean' | 'return';
+
+export interface Mutant {
+  id: number;
+  operator: MutationOperator;
+  functionName: string;
+  line: number;
+  start: number; // Source offsets of the replaced text
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+export interface MutationResult {
+  status: 'completed' | 'skipped';
+  reason?: string; // Why mutation testing was skipped
+  total: number;
+  killed: number; // Failed the tests, or timed out
+  survived: number;
+  score: number; // Percentage of mutants killed
+  survivors: Mutant[];
+}
+
+const BINARY_MUTATIONS: Record<string, [MutationOperator, string]> = {
+  '+': ['arithmetic', '-'],
+  '-': ['arithmetic', '+'],
+  '*': ['arithmetic', '/'],
+  '/': ['arithmetic', '*'],
+  '%': ['arithmetic', '*'],
+  '<': ['comparison', '<='],
+  '<=': ['comparison', '<'],
+  '>': ['comparison', '>='],
+  '>=': ['comparison', '>'],
+  '===': ['comparison', '!=='],
+  '!==': ['comparison', '==='],
+  '==': ['comparison', '!='],
+  '!=': ['comparison', '=='],
+  '&&': ['logical', '||'],
+  '||': ['logical', '&&'],
+};
+
+// Type positions hold literals and unions that aren't code
+const TYPE_NODES = new Set([
+  'TSTypeAnnotation',
+  'TSTypeParameterInstantiation',
+  'TSTypeParameterDeclaration',
+  'TSInterfaceDeclaration',
+  'TSTypeAliasDeclaration',
+  'TSEnumDeclaration',
+  'TSDeclareFunction',
+]);
+
+export const DEFAULT_MAX_MUTANTS = 20;
+
+export function isMutationTestable(filePath: string): boolean {
+  return /\.[cm]?[jt]sx?$/.test(filePath) && !/\.d\.[cm]?ts$/.test(filePath);
+}
+
+function functionName(node: t.Node, parent: t.Node | null): string {
+  const named = node as t.Node & { id?: t.Node | null; key?: t.Node };
+  if (named.id?.type === 'Identifier') return named.id.name;
+  if (named.key?.type === 'Identifier') return named.key.name;
+  if (parent?.type === 'VariableDeclarator' && parent.id.type === 'Identifier') return parent.id.name;
+  if (parent?.type === 'ObjectProperty' && parent.key.type === 'Identifier') return parent.key.name;
+  return 'anonymous';
+}
+
+/**
+ * Replacement for a returned expression that a test checking the result
+ * would notice
+ */
+function returnReplacement(argument: t.Node, typescript: boolean): string | null {
+  switch (argument.type) {
+    case 'BooleanLiteral':
+      return null; // Covered by the boolean mutation
+    case 'NumericLiteral':
+      return argument.value === 0 ? '1' : '0';
+    case 'StringLiteral':
+      return argument.value === '' ? '"mutated"' : '""';
+    case 'Identifier':
+      return argument.name === 'undefined' ? null : typescript ? '(undefined as any)' : 'undefined';
+    default:
+      return typescript ? '(undefined as any)' : 'undefined';
+  }
+}
+
+/**
+ * Mutants for the functions containing any of the changed lines (all
+ * functions when no lines are given), at most maxMutants spread evenly
+ * across the file. Throws when the file doesn't parse.
+ */
+export function generateMutants(
+  filePath: string,
+  content: string,
+  changedLines?: number[],
+  maxMutants = DEFAULT_MAX_MUTANTS
+): Mutant[] {
+  const typescript = /\.[cm]?tsx?$/.test(filePath);
+  const ast = babel.parse(content, {
+    sourceType: 'module',
+    plugins: typescript ? ['typescript', 'jsx', 'decorators-legacy'] : ['jsx', 'decorators-legacy'],
+  });
+
+  const mutants: Mutant[] = [];
+  const add = (operator: MutationOperator, name: string, node: t.Node, start: number, end: number, replacement: string) => {
+    mutants.push({
+      id: mutants.length,
+      operator,
+      functionName: name,
+      line: node.loc!.start.line,
+      start,
+      end,
+      original: content.slice(start, end),
+      replacement,
+    });
+  };
+
+  const mutateFunction = (fn: t.Node, name: string) => {
+    walk(fn, (node, parent) => {
+      if (TYPE_NODES.has(node.type)) {
+        return false;
+      }
+      // Nested functions are mutated under their own name
+      if (node !== fn && isFunctionNode(node)) {
+        mutateFunction(node, functionName(node, parent));
+        return false;
+      }
+
+      if (node.type === 'BinaryExpression' || node.type === 'LogicalExpression') {
+        const mutation = BINARY_MUTATIONS[node.operator];
+        if (mutation) {
+          // The operator sits between the operands, possibly after a closing parenthesis
+          const gapStart = node.left.end!;
+          const offset = content.slice(gapStart, node.right.start!).indexOf(node.operator);
+          if (offset >= 0) {
+            add(mutation[0], name, node, gapStart + offset, gapStart + offset + node.operator.length, mutation[1]);
+          }
+        }
+      } else if (node.type === 'BooleanLiteral') {
+        add('boolean', name, node, node.start!, node.end!, String(!node.value));
+      } else if (node.type === 'UnaryExpression' && node.operator === '!') {
+        add('boolean', name, node, node.start!, node.argument.start!, '');
+      } else if (node.type === 'ReturnStatement' && node.argument) {
+        const replacement = returnReplacement(node.argument, typescript);
+        if (replacement !== null) {
+          add('return', name, node.argument, node.argument.start!, node.argument.end!, replacement);
+        }
+      }
+      return true;
+    });
+  };
+
+  walk(ast.program, (node, parent) => {
+    if (!isFunctionNode(node)) {
+      return true;
+    }
+    const start = node.loc!.start.line;
+    const end = node.loc!.end.line;
+    if (!changedLines || changedLines.some((line) => line >= start && line <= end)) {
+      mutateFunction(node, functionName(node, parent));
+    }
+    return false;
+  });
+
+  mutants.sort((a, b) => a.start - b.start);
+  const selected = mutants.length <= maxMutants
+    ? mutants
+    : Array.from({ length: maxMutants }, (_, index) => mutants[Math.floor((index * mutants.length) / maxMutants)]);
+  return selected.map((mutant, id) => ({ ...mutant, id }));
+}
+
+export function applyMutant(content: string, mutant: Mutant): string {
+  return content.slice(0, mutant.start) + mutant.replacement + content.slice(mutant.end);
+}
+
+export function describeMutant(mutant: Mutant): string {
+  const replacement = mutant.replacement === '' ? 'removed' : `\`${mutant.replacement}\``;
+  return `line ${mutant.line} in ${mutant.functionName}(): \`${mutant.original}\` -> ${replacement}`;
+}
+
+/**
+ * Score from each mutant's outcome
+ */
+export function mutationResult(outcomes: Array<{ mutant: Mutant; killed: boolean }>): MutationResult {
+  const killed = outcomes.filter((outcome) => outcome.killed).length;
+  return {
+    status: 'completed',
+    total: outcomes.length,
+    killed,
+    survived: outcomes.length - killed,
+    score: outcomes.length === 0 ? 100 : (killed / outcomes.length) * 100,
+    survivors: outcomes.filter((outcome) => !outcome.killed).map((outcome) => outcome.mutant),
+  };
+}
+
+export function skippedMutation(reason: string): MutationResult {
+  return { status: 'skipped', reason, total: 0, killed: 0, survived: 0, score: 0, survivors: [] };
+}
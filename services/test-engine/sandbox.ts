@@ -0,0 +1,532 @@
+/**
+ * Test Sandbox
+ *
+ * Runs a generated test file against a repository checkout before it is
+ * proposed. The test runs in a child process with no network access, a
+ * read-only filesystem apart from the checkout and its own home, an
+ * environment holding no secrets, and time, memory, process and output
+ * limits. It can still read whatever the server's user can read.
+ * TypeScript tests are type-checked first. Coverage of the file under test
+ * is measured from the test runner's own report. Mutation runs swap mutants
+ * into the source file in the same way. A checkout's dependencies are
+ * installed the same way, but with network access and without install
+ * scripts.
+ */
+
+import { spawn, spawnSync } from 'child_process';
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { counts, matchCoverageFile, parseCoverageReport, type CoverageCounts, type FileCoverage } from './coverage';
+import { applyMutant, mutationResult, skippedMutation, type Mutant, type MutationResult } from './mutation';
+
+export const SANDBOX_FRAMEWORKS = ['jest', 'vitest', 'pytest'] as const;
+
+export type SandboxFramework = typeof SANDBOX_FRAMEWORKS[number];
+
+export interface SandboxLimits {
+  timeoutMs: number; // Per command
+  memoryMb: number;
+  maxProcesses: number;
+  maxOutputBytes: number; // Output beyond this keeps its tail
+}
+
+export interface SandboxRunRequest {
+  checkoutDir: string; // Repository working tree with dependencies installed
+  framework: string;
+  sourcePath: string; // Repository-relative file under test
+  testPath: string; // Repository-relative placement of the generated test
+  testContent: string;
+  signal?: AbortSignal;
+}
+
+export interface SandboxRunResult {
+  status: 'passed' | 'failed' | 'timeout' | 'skipped';
+  phase?: 'typecheck' | 'run'; // Where a failed or timed-out run stopped
+  output: string; // Tail of the runner's output, or why the run was skipped
+  durationMs: number;
+  coverage?: FileCoverage; // The source file's coverage from this test alone
+}
+
+/**
+ * Source file line coverage without and with a generated test
+ */
+export interface CoverageDelta {
+  before: CoverageCounts;
+  after: CoverageCounts;
+  delta: number; // Percentage points
+}
+
+interface CommandResult {
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string;
+}
+
+const DEFAULT_LIMITS: SandboxLimits = {
+  timeoutMs: parseInt(process.env.TEST_SANDBOX_TIMEOUT_MS || '120000', 10),
+  memoryMb: parseInt(process.env.TEST_SANDBOX_MEMORY_MB || '1024', 10),
+  maxProcesses: parseInt(process.env.TEST_SANDBOX_MAX_PROCESSES || '256', 10),
+  maxOutputBytes: 16 * 1024,
+};
+
+const INSTALL_LIMITS: SandboxLimits = {
+  ...DEFAULT_LIMITS,
+  timeoutMs: parseInt(process.env.TEST_SANDBOX_INSTALL_TIMEOUT_MS || '600000', 10),
+};
+
+let networkIsolation: boolean | undefined;
+
+/**
+ * Whether commands can run in their own network and mount namespaces
+ * (Linux user namespaces via unshare)
+ */
+function networkIsolationAvailable(): boolean {
+  if (networkIsolation === undefined) {
+    networkIsolation = process.platform === 'linux' &&
+      spawnSync('unshare', ['--net', '--mount', '--map-root-user', 'true'], { timeout: 5000, stdio: 'ignore' }).status === 0;
+  }
+  return networkIsolation;
+}
+
+// In the command's mount namespace: the checkout ($1) and home ($2) stay
+// writable, the root filesystem is remounted read-only. The working
+// directory is re-entered so it resolves to the writable bind mount.
+const READ_ONLY_ROOT = 'mount --bind "$1" "$1" && mount --bind "$2" "$2" && mount -o remount,bind,ro / && cd "$1" && shift 2 && exec "$@"';
+
+function isSandboxFramework(framework: string): framework is SandboxFramework {
+  return (SANDBOX_FRAMEWORKS as readonly string[]).includes(framework);
+}
+
+/**
+ * Run one command in the sandbox. The process group is killed on timeout
+ * or abort, so runners' worker processes go with it. Outside a user
+ * namespace the process limit counts all of the server user's processes.
+ */
+async function runCommand(
+  command: string,
+  args: string[],
+  options: { cwd: string; home: string; limits: SandboxLimits; signal?: AbortSignal; limitAddressSpace?: boolean; allowNetwork?: boolean }
+): Promise<CommandResult> {
+  const { limits } = options;
+  let argv = [command, ...args];
+  if (options.limitAddressSpace) {
+    // Node reserves far more address space than it uses, so only non-Node runners get ulimit -v
+    argv = ['sh', '-c', `ulimit -v ${limits.memoryMb * 1024} && exec "$@"`, 'sandbox', ...argv];
+  }
+  argv = ['prlimit', `--nproc=${limits.maxProcesses}`, '--', ...argv];
+  if (networkIsolationAvailable()) {
+    const namespaces = options.allowNetwork ? ['--mount'] : ['--net', '--mount'];
+    argv = ['unshare', ...namespaces, '--map-root-user', 'sh', '-c', READ_ONLY_ROOT, 'sandbox', options.cwd, options.home, ...argv];
+  }
+
+  // Only what test runners need; never the server's credentials
+  const env: NodeJS.ProcessEnv = {
+    PATH: process.env.PATH,
+    LANG: process.env.LANG || 'C.UTF-8',
+    HOME: options.home,
+    TMPDIR: options.home,
+    CI: 'true',
+    NODE_ENV: 'test',
+    NODE_OPTIONS: `--max-old-space-size=${limits.memoryMb}`,
+    PYTHONDONTWRITEBYTECODE: '1',
+  };
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(argv[0], argv.slice(1), { cwd: options.cwd, env, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    let output = '';
+    let timedOut = false;
+
+    const append = (chunk: Buffer) => {
+      output += chunk.toString('utf8');
+      if (output.length > limits.maxOutputBytes * 2) {
+        output = output.slice(-limits.maxOutputBytes);
+      }
+    };
+    child.stdout!.on('data', append);
+    child.stderr!.on('data', append);
+
+    const killGroup = () => {
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, limits.timeoutMs);
+    options.signal?.addEventListener('abort', killGroup, { once: true });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', killGroup);
+      reject(error);
+    });
+    child.on('close', (exitCode) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', killGroup);
+      resolve({ exitCode, timedOut, output: output.slice(-limits.maxOutputBytes) });
+    });
+  });
+}
+
+/**
+ * Sibling of the test's placement that can't clash with an existing file
+ * and still matches the runner's test file pattern, e.g.
+ * src/auth.test.ts -> src/auth.readylayer-1a2b3c.test.ts
+ */
+function sandboxTestPath(testPath: string, id: string): string {
+  const dir = path.posix.dirname(testPath);
+  const base = path.posix.basename(testPath);
+  const testSuffix = /^(.*?)(\.(?:test|spec)\.[^.]+)$/.exec(base);
+  const name = testSuffix
+    ? `${testSuffix[1]}.readylayer-${id}${testSuffix[2]}`
+    : /^test_.*\.py$/.test(base)
+      ? base.replace(/\.py$/, `_readylayer_${id}.py`)
+      : base.replace(/(\.[^.]+)?$/, (extension) => `.readylayer-${id}${extension}`);
+  return dir === '.' ? name : `${dir}/${name}`;
+}
+
+function runnerCommand(
+  framework: SandboxFramework,
+  checkoutDir: string,
+  target: { testPath?: string; sourcePath: string; coverageDir?: string }
+): { command: string; args: string[] } | null {
+  const bin = (name: string) => path.join(checkoutDir, 'node_modules', '.bin', name);
+
+  switch (framework) {
+    case 'jest': {
+      if (!existsSync(bin('jest'))) return null;
+      const selection = target.testPath
+        ? ['--runTestsByPath', target.testPath]
+        : ['--findRelatedTests', target.sourcePath, '--passWithNoTests'];
+      const coverage = target.coverageDir
+        ? ['--coverage', '--coverageReporters=json', `--coverageDirectory=${target.coverageDir}`, `--collectCoverageFrom=${target.sourcePath}`]
+        : [];
+      return {
+        command: bin('jest'),
+        args: [...selection, '--ci', '--runInBand', '--watchAll=false', ...coverage],
+      };
+    }
+    case 'vitest': {
+      if (!existsSync(bin('vitest'))) return null;
+      const selection = target.testPath ? ['run', target.testPath] : ['related', target.sourcePath, '--run', '--passWithNoTests'];
+      const coverage = target.coverageDir
+        ? ['--coverage.enabled=true', '--coverage.reporter=json', `--coverage.reportsDirectory=${target.coverageDir}`, `--coverage.include=${target.sourcePath}`]
+        : [];
+      return {
+        command: bin('vitest'),
+        args: [...selection, ...coverage],
+      };
+    }
+    case 'pytest': {
+      if (!target.testPath) return null; // No related-tests selection; no baseline
+      const withCoverage = !!target.coverageDir && spawnSync('python3', ['-c', 'import pytest_cov'], { cwd: checkoutDir, timeout: 10000 }).status === 0;
+      return {
+        command: 'python3',
+        args: [
+          '-m', 'pytest', target.testPath, '-q', '-p', 'no:cacheprovider',
+          ...(withCoverage
+            ? [`--cov=${path.posix.dirname(target.sourcePath)}`, `--cov-report=xml:${path.join(target.coverageDir!, 'coverage.xml')}`]
+            : []),
+        ],
+      };
+    }
+  }
+}
+
+async function readSourceCoverage(coverageDir: string, sourcePath: string): Promise<FileCoverage | undefined> {
+  for (const name of ['coverage-final.json', 'coverage.xml']) {
+    try {
+      const report = parseCoverageReport(await fs.readFile(path.join(coverageDir, name), 'utf8'));
+      return matchCoverageFile(report.files, sourcePath);
+    } catch {
+      // Missing, or the runner had no coverage provider
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Package manager install for a checkout, chosen by its lockfile
+ */
+function installCommand(checkoutDir: string): { command: string; args: string[] } | null {
+  const has = (name: string) => existsSync(path.join(checkoutDir, name));
+  if (!has('package.json')) return null;
+  if (has('pnpm-lock.yaml')) return { command: 'pnpm', args: ['install', '--frozen-lockfile', '--ignore-scripts'] };
+  if (has('yarn.lock')) return { command: 'yarn', args: ['install', '--frozen-lockfile', '--ignore-scripts'] };
+  if (has('package-lock.json') || has('npm-shrinkwrap.json')) {
+    return { command: 'npm', args: ['ci', '--ignore-scripts', '--no-audit', '--no-fund'] };
+  }
+  return { command: 'npm', args: ['install', '--ignore-scripts', '--no-audit', '--no-fund'] };
+}
+
+function skipped(reason: string, startedAt: number): SandboxRunResult {
+  return { status: 'skipped', output: reason, durationMs: Date.now() - startedAt };
+}
+
+/**
+ * Install a checkout's JavaScript dependencies so its test runner is
+ * available. Skipped when the checkout has no package.json, or when tests
+ * couldn't run in the sandbox anyway.
+ */
+export async function installDependencies(
+  checkoutDir: string,
+  signal?: AbortSignal,
+  limits: SandboxLimits = INSTALL_LIMITS
+): Promise<SandboxRunResult> {
+  const startedAt = Date.now();
+  if (!networkIsolationAvailable() && process.env.TEST_SANDBOX_ALLOW_NETWORK !== 'true') {
+    return skipped('Network isolation (unshare) is unavailable; set TEST_SANDBOX_ALLOW_NETWORK=true to run tests without it', startedAt);
+  }
+  const install = installCommand(checkoutDir);
+  if (!install) {
+    return skipped('No package.json in the checkout', startedAt);
+  }
+
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'readylayer-sandbox-'));
+  try {
+    const run = await runCommand(install.command, install.args, { cwd: checkoutDir, home, limits, signal, allowNetwork: true });
+    signal?.throwIfAborted();
+    return {
+      status: run.timedOut ? 'timeout' : run.exitCode === 0 ? 'passed' : 'failed',
+      output: run.output,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    return skipped(`${install.command} failed to start: ${error instanceof Error ? error.message : String(error)}`, startedAt);
+  } finally {
+    await fs.rm(home, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Type-check (TypeScript) and run a generated test in the sandbox. The
+ * test is written next to its placement under a unique name and removed
+ * afterwards; nothing else in the checkout is modified.
+ */
+export async function runGeneratedTest(
+  request: SandboxRunRequest,
+  limits: SandboxLimits = DEFAULT_LIMITS
+): Promise<SandboxRunResult> {
+  const startedAt = Date.now();
+  if (!isSandboxFramework(request.framework)) {
+    return skipped(`Generated ${request.framework} tests can't be executed; supported: ${SANDBOX_FRAMEWORKS.join(', ')}`, startedAt);
+  }
+  if (!networkIsolationAvailable() && process.env.TEST_SANDBOX_ALLOW_NETWORK !== 'true') {
+    return skipped('Network isolation (unshare) is unavailable; set TEST_SANDBOX_ALLOW_NETWORK=true to run tests without it', startedAt);
+  }
+
+  const id = randomBytes(4).toString('hex');
+  const testPath = sandboxTestPath(request.testPath, id);
+  const absoluteTestPath = path.resolve(request.checkoutDir, testPath);
+  if (!absoluteTestPath.startsWith(path.resolve(request.checkoutDir) + path.sep)) {
+    return skipped(`Test placement ${request.testPath} is outside the checkout`, startedAt);
+  }
+
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'readylayer-sandbox-'));
+  const tsconfigPath = path.join(request.checkoutDir, `tsconfig.readylayer-${id}.json`);
+  const options = { cwd: request.checkoutDir, home, limits, signal: request.signal };
+
+  try {
+    await fs.mkdir(path.dirname(absoluteTestPath), { recursive: true });
+    await fs.writeFile(absoluteTestPath, request.testContent, 'utf8');
+
+    const tsc = path.join(request.checkoutDir, 'node_modules', '.bin', 'tsc');
+    if (/\.tsx?$/.test(testPath) && existsSync(path.join(request.checkoutDir, 'tsconfig.json')) && existsSync(tsc)) {
+      await fs.writeFile(tsconfigPath, JSON.stringify({
+        extends: './tsconfig.json',
+        compilerOptions: { noEmit: true, incremental: false },
+        include: [],
+        files: [testPath],
+      }), 'utf8');
+      const typecheck = await runCommand(tsc, ['-p', tsconfigPath], options);
+      request.signal?.throwIfAborted();
+      if (typecheck.timedOut || typecheck.exitCode !== 0) {
+        return {
+          status: typecheck.timedOut ? 'timeout' : 'failed',
+          phase: 'typecheck',
+          output: typecheck.output,
+          durationMs: Date.now() - startedAt,
+        };
+      }
+    }
+
+    const coverageDir = path.join(home, 'coverage');
+    const runner = runnerCommand(request.framework, request.checkoutDir, { testPath, sourcePath: request.sourcePath, coverageDir });
+    if (!runner) {
+      return skipped(`${request.framework} is not installed in the checkout`, startedAt);
+    }
+    const run = await runCommand(runner.command, runner.args, { ...options, limitAddressSpace: request.framework === 'pytest' });
+    request.signal?.throwIfAborted();
+
+    return {
+      status: run.timedOut ? 'timeout' : run.exitCode === 0 ? 'passed' : 'failed',
+      phase: run.exitCode === 0 && !run.timedOut ? undefined : 'run',
+      output: run.output,
+      durationMs: Date.now() - startedAt,
+      coverage: await readSourceCoverage(coverageDir, request.sourcePath),
+    };
+  } catch (error) {
+    if (request.signal?.aborted) {
+      throw error;
+    }
+    // The runner couldn't be started (e.g. python3 missing); that's not the test's fault
+    return skipped(`Sandbox run failed to start: ${error instanceof Error ? error.message : String(error)}`, startedAt);
+  } finally {
+    await Promise.all([
+      fs.rm(absoluteTestPath, { force: true }),
+      fs.rm(tsconfigPath, { force: true }),
+      fs.rm(home, { recursive: true, force: true }),
+    ]);
+  }
+}
+
+/**
+ * The source file's coverage from the repository's existing related tests,
+ * as the baseline for a generated test's coverage delta. Undefined when the
+ * runner can't select related tests (pytest) or reports no coverage.
+ */
+export async function measureBaselineCoverage(
+  request: Omit<SandboxRunRequest, 'testPath' | 'testContent'>,
+  limits: SandboxLimits = DEFAULT_LIMITS
+): Promise<FileCoverage | undefined> {
+  if (!isSandboxFramework(request.framework) ||
+      (!networkIsolationAvailable() && process.env.TEST_SANDBOX_ALLOW_NETWORK !== 'true')) {
+    return undefined;
+  }
+
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'readylayer-sandbox-'));
+  try {
+    const coverageDir = path.join(home, 'coverage');
+    const runner = runnerCommand(request.framework, request.checkoutDir, { sourcePath: request.sourcePath, coverageDir });
+    if (!runner) {
+      return undefined;
+    }
+    const run = await runCommand(runner.command, runner.args, { cwd: request.checkoutDir, home, limits, signal: request.signal });
+    request.signal?.throwIfAborted();
+    return run.timedOut ? undefined : await readSourceCoverage(coverageDir, request.sourcePath);
+  } finally {
+    await fs.rm(home, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run the source file's related tests, the generated test among them,
+ * against each mutant of the source. A mutant is killed when the tests fail
+ * or time out. The source file is restored afterwards.
+ *
+ * @param source The content the mutants were generated from; must match the checkout
+ */
+export async function runMutants(
+  request: SandboxRunRequest & { source: string },
+  mutants: Mutant[],
+  limits: SandboxLimits = DEFAULT_LIMITS
+): Promise<MutationResult> {
+  if (request.framework !== 'jest' && request.framework !== 'vitest') {
+    return skippedMutation(`Mutation testing runs Jest and Vitest tests; this file uses ${request.framework}`);
+  }
+  if (!networkIsolationAvailable() && process.env.TEST_SANDBOX_ALLOW_NETWORK !== 'true') {
+    return skippedMutation('Network isolation (unshare) is unavailable; set TEST_SANDBOX_ALLOW_NETWORK=true to run tests without it');
+  }
+  if (mutants.length === 0) {
+    return skippedMutation('No mutants in the changed functions');
+  }
+
+  const checkoutDir = path.resolve(request.checkoutDir);
+  const sourcePath = path.resolve(checkoutDir, request.sourcePath);
+  const testPath = sandboxTestPath(request.testPath, randomBytes(4).toString('hex'));
+  const absoluteTestPath = path.resolve(checkoutDir, testPath);
+  if (!sourcePath.startsWith(checkoutDir + path.sep) || !absoluteTestPath.startsWith(checkoutDir + path.sep)) {
+    return skippedMutation('Source or test placement is outside the checkout');
+  }
+  const original = await fs.readFile(sourcePath, 'utf8').catch(() => null);
+  if (original !== request.source) {
+    return skippedMutation(`${request.sourcePath} in the checkout doesn't match the analyzed content`);
+  }
+  const runner = runnerCommand(request.framework, checkoutDir, { sourcePath: request.sourcePath });
+  if (!runner) {
+    return skippedMutation(`${request.framework} is not installed in the checkout`);
+  }
+
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'readylayer-sandbox-'));
+  const options = { cwd: checkoutDir, home, limits, signal: request.signal };
+  try {
+    await fs.mkdir(path.dirname(absoluteTestPath), { recursive: true });
+    await fs.writeFile(absoluteTestPath, request.testContent, 'utf8');
+
+    // Mutants only mean something against tests that pass on the real code
+    const startedAt = Date.now();
+    const baseline = await runCommand(runner.command, runner.args, options);
+    request.signal?.throwIfAborted();
+    if (baseline.timedOut || baseline.exitCode !== 0) {
+      return skippedMutation(`Related tests don't pass on the unmutated source:\n${baseline.output}`);
+    }
+    // A mutant that makes the tests loop is killed once they run well past the baseline
+    const mutantLimits = { ...limits, timeoutMs: Math.min(limits.timeoutMs, (Date.now() - startedAt) * 2 + 5000) };
+
+    const outcomes: Array<{ mutant: Mutant; killed: boolean }> = [];
+    for (const mutant of mutants) {
+      await fs.writeFile(sourcePath, applyMutant(request.source, mutant), 'utf8');
+      const run = await runCommand(runner.command, runner.args, { ...options, limits: mutantLimits });
+      request.signal?.throwIfAborted();
+      outcomes.push({ mutant, killed: run.timedOut || run.exitCode !== 0 });
+    }
+    return mutationResult(outcomes);
+  } catch (error) {
+    if (request.signal?.aborted) {
+      throw error;
+    }
+    return skippedMutation(`Mutation run failed to start: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await fs.writeFile(sourcePath, original, 'utf8');
+    await Promise.all([
+      fs.rm(absoluteTestPath, { force: true }),
+      fs.rm(home, { recursive: true, force: true }),
+    ]);
+  }
+}
+
+/**
+ * Line coverage of the source file before and after adding the generated
+ * test: a line counts as covered after if either run executed it
+ */
+export function coverageDelta(baseline: FileCoverage | undefined, generated: FileCoverage): CoverageDelta {
+  const lines = new Set([...Object.keys(baseline?.lineHits || {}), ...Object.keys(generated.lineHits)].map(Number));
+  const coveredBefore = Array.from(lines).filter((line) => (baseline?.lineHits[line] || 0) > 0).length;
+  const coveredAfter = Array.from(lines).filter((line) =>
+    (baseline?.lineHits[line] || 0) > 0 || (generated.lineHits[line] || 0) > 0
+  ).length;
+  const before = counts(coveredBefore, lines.size);
+  const after = counts(coveredAfter, lines.size);
+  return { before, after, delta: after.percentage - before.percentage };
+}
+
+/**
+ * Ask for a corrected test after a failed sandbox run
+ */
+export function buildTestRepairPrompt(originalPrompt: string, testContent: string, result: SandboxRunResult): string {
+  const failure = result.status === 'timeout'
+    ? `timed out during ${result.phase === 'typecheck' ? 'type checking' : 'the test run'}`
+    : result.phase === 'typecheck' ? 'failed to type-check' : 'failed when run';
+  return `${originalPrompt}
+
+A previous attempt produced this test, which ${failure}:
+
+\`\`\`
+${testContent}
+\`\`\`
+
+Output:
+\`\`\`
+${result.output.trim()}
+\`\`\`
+
+Fix the test so it compiles and passes against the code as written. Do not change the code under test. Return only the test code, no explanations.`;
+}
@@ -8,7 +8,7 @@ import { prisma } from '../../lib/prisma';
 import { logger } from '../../observability/logging';
 
 export interface TokenUsageRecord {
-  runId: string;
+  runId?: string; // When recorded within a run
   repositoryId?: string;
   organizationId: string;
   reviewId?: string;
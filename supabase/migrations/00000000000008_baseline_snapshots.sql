@@ -0,0 +1,76 @@
+-- Baseline Snapshots
+-- Fingerprints of default-branch findings per repository, so legacy debt
+-- can be separated from findings introduced by a PR
+
+CREATE TABLE IF NOT EXISTS "RepositoryBaseline" (
+  "id" TEXT NOT NULL,
+  "repositoryId" TEXT NOT NULL,
+  "branch" TEXT NOT NULL,
+  "commitSha" TEXT,
+  "findingCount" INTEGER NOT NULL DEFAULT 0,
+  "generatedBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "RepositoryBaseline_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RepositoryBaseline_repositoryId_key" ON "RepositoryBaseline"("repositoryId");
+CREATE INDEX IF NOT EXISTS "RepositoryBaseline_updatedAt_idx" ON "RepositoryBaseline"("updatedAt");
+
+ALTER TABLE "RepositoryBaseline" ADD CONSTRAINT "RepositoryBaseline_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "Repository"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE IF NOT EXISTS "BaselineFinding" (
+  "id" TEXT NOT NULL,
+  "baselineId" TEXT NOT NULL,
+  "fingerprint" TEXT NOT NULL,
+  "ruleId" TEXT NOT NULL,
+  "filePath" TEXT NOT NULL,
+  "snippetHash" TEXT NOT NULL,
+  "severity" TEXT NOT NULL,
+  "line" INTEGER NOT NULL,
+  "occurrences" INTEGER NOT NULL DEFAULT 1,
+  "message" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "BaselineFinding_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "BaselineFinding_baselineId_fingerprint_key" ON "BaselineFinding"("baselineId", "fingerprint");
+CREATE INDEX IF NOT EXISTS "BaselineFinding_baselineId_idx" ON "BaselineFinding"("baselineId");
+CREATE INDEX IF NOT EXISTS "BaselineFinding_ruleId_idx" ON "BaselineFinding"("ruleId");
+CREATE INDEX IF NOT EXISTS "BaselineFinding_filePath_idx" ON "BaselineFinding"("filePath");
+
+ALTER TABLE "BaselineFinding" ADD CONSTRAINT "BaselineFinding_baselineId_fkey" FOREIGN KEY ("baselineId") REFERENCES "RepositoryBaseline"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================
+-- Enable RLS on Baseline Tables
+-- ============================================
+
+ALTER TABLE "RepositoryBaseline" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "BaselineFinding" ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see baselines for repositories in their organizations
+DROP POLICY IF EXISTS "repository_baseline_org_members_only" ON "RepositoryBaseline";
+CREATE POLICY "repository_baseline_org_members_only"
+  ON "RepositoryBaseline"
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM "Repository"
+      WHERE "Repository"."id" = "RepositoryBaseline"."repositoryId"
+      AND public.is_org_member("Repository"."organizationId")
+    )
+  );
+
+-- Policy: Users can only see baseline findings for repositories in their organizations
+DROP POLICY IF EXISTS "baseline_finding_org_members_only" ON "BaselineFinding";
+CREATE POLICY "baseline_finding_org_members_only"
+  ON "BaselineFinding"
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM "RepositoryBaseline"
+      JOIN "Repository" ON "Repository"."id" = "RepositoryBaseline"."repositoryId"
+      WHERE "RepositoryBaseline"."id" = "BaselineFinding"."baselineId"
+      AND public.is_org_member("Repository"."organizationId")
+    )
+  );
@@ -0,0 +1,6 @@
+-- Violation Fingerprints
+-- Content-anchored finding identity used to deduplicate violations across PR pushes
+
+ALTER TABLE "Violation" ADD COLUMN IF NOT EXISTS "fingerprint" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Violation_repositoryId_fingerprint_idx" ON "Violation"("repositoryId", "fingerprint");
@@ -0,0 +1,27 @@
+-- LLM Response Cache
+-- Completions keyed on provider, model, normalized prompt and temperature,
+-- isolated per organization, so identical re-reviews don't pay again
+
+CREATE TABLE IF NOT EXISTS "LlmCacheEntry" (
+  "id" TEXT NOT NULL,
+  "organizationId" TEXT NOT NULL,
+  "cacheKey" TEXT NOT NULL,
+  "provider" TEXT NOT NULL,
+  "model" TEXT NOT NULL,
+  "content" TEXT NOT NULL,
+  "tokensUsed" INTEGER NOT NULL,
+  "cost" DECIMAL(10,4) NOT NULL,
+  "hits" INTEGER NOT NULL DEFAULT 0,
+  "lastHitAt" TIMESTAMP(3),
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "LlmCacheEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "LlmCacheEntry_organizationId_cacheKey_key" ON "LlmCacheEntry"("organizationId", "cacheKey");
+CREATE INDEX IF NOT EXISTS "LlmCacheEntry_expiresAt_idx" ON "LlmCacheEntry"("expiresAt");
+
+ALTER TABLE "LlmCacheEntry" ADD CONSTRAINT "LlmCacheEntry_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Server-side only: no policies, so Supabase clients can't read cached completions
+ALTER TABLE "LlmCacheEntry" ENABLE ROW LEVEL SECURITY;
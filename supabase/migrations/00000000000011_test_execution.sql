@@ -0,0 +1,7 @@
+-- Test Execution
+-- Result of running generated tests in the sandbox before they are proposed
+
+ALTER TABLE "Test" ADD COLUMN IF NOT EXISTS "executionStatus" TEXT;
+ALTER TABLE "Test" ADD COLUMN IF NOT EXISTS "executionAttempts" INTEGER;
+ALTER TABLE "Test" ADD COLUMN IF NOT EXISTS "executionOutput" TEXT;
+ALTER TABLE "Test" ADD COLUMN IF NOT EXISTS "coverageDelta" DOUBLE PRECISION;
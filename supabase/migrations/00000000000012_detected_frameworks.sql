@@ -0,0 +1,5 @@
+-- Detected Frameworks
+-- Test and API frameworks detected from repository manifests, cached per repository
+
+ALTER TABLE "RepositoryConfig" ADD COLUMN IF NOT EXISTS "detectedFrameworks" JSONB;
+ALTER TABLE "RepositoryConfig" ADD COLUMN IF NOT EXISTS "frameworksDetectedAt" TIMESTAMP(3);
@@ -0,0 +1,4 @@
+-- Test Mutation Score
+-- Share of mutants of the changed functions that the tests caught
+
+ALTER TABLE "Test" ADD COLUMN IF NOT EXISTS "mutationScore" DOUBLE PRECISION;
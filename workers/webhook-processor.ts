@@ -5,9 +5,10 @@
  */
 
 import { queueService } from '../queue';
-import { runPipelineService, RunRequest } from '../services/run-pipeline';
-import { getGitProviderPRAdapter } from '../integrations/git-provider-pr-adapter';
-import { formatPolicyComment } from '../lib/git-provider-ui/comment-formatter';
+import { runPipelineService, RunRequest, RunResult } from '../services/run-pipeline';
+import { getGitProviderPRAdapter, GitProviderPRAdapter } from '../integrations/git-provider-pr-adapter';
+import { getGitProviderAdapter } from '../integrations/git-provider-adapter';
+import { formatPolicyComment, formatSuggestionComment } from '../lib/git-provider-ui/comment-formatter';
 import { detectGitProvider } from '../lib/git-provider-ui';
 import { prisma } from '../lib/prisma';
 import { logger } from '../observability/logging';
@@ -18,54 +19,69 @@ import { checkBillingLimits } from '../lib/billing-middleware';
 import { redactSecret } from '../lib/crypto';
 import { isKeyConfigured } from '../lib/crypto';
 import { testEngineService } from '../services/test-engine';
+import { findCoverageArtifact } from '../services/test-engine/artifacts';
 import { docSyncService } from '../services/doc-sync';
+import { outboxService } from '../services/outbox';
+import type { Issue } from '../services/static-analysis';
 
+const MAX_SUGGESTION_COMMENTS = 10;
 
 /**
- * Generate suggested fix as unified diff (minimal, safe fixes only)
- * Only generates fixes for trivial deterministic issues
- * 
- * Note: Currently, GitHub check runs include fix suggestions in annotation raw_details.
- * This function is kept for potential future use (e.g., creating patch files).
+ * Post fixable findings of a review as inline suggested changes. Only
+ * findings on lines the PR added or modified are suggested, and ones
+ * already suggested on an earlier push of the PR are skipped.
  */
-// Reserved for future use
-/*
-function generateSuggestedFix(issue: Issue, fileContent: string): string | null {
-  if (!issue.fix) {
-    return null;
-  }
-
-  // Only generate fixes for safe, deterministic issues
-  const safeRulePatterns = [
-    /^security\.(sql-injection|unsafe-eval|missing-await)$/,
-    /^quality\.(missing-await|unused-import)$/,
-  ];
+async function postSuggestions(
+  reviewId: string,
+  repositoryId: string,
+  repo: string,
+  pr: { number: number; sha: string },
+  prAdapter: GitProviderPRAdapter,
+  accessToken: string
+): Promise<void> {
+  const [review, previous] = await Promise.all([
+    prisma.review.findUnique({ where: { id: reviewId } }),
+    prisma.review.findFirst({
+      where: { repositoryId, prNumber: pr.number, id: { not: reviewId } },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+  const suggested = new Set(
+    ((previous?.issuesFound as unknown as Issue[] | null) || [])
+      .filter((issue) => issue.suggestion && issue.fingerprint)
+      .map((issue) => issue.fingerprint)
+  );
 
-  const isSafe = safeRulePatterns.some(pattern => pattern.test(issue.ruleId));
-  if (!isSafe) {
-    return null;
-  }
+  const fixable = ((review?.issuesFound as unknown as Issue[] | null) || [])
+    .filter((issue) =>
+      issue.suggestion &&
+      (issue.lineChange === 'added' || issue.lineChange === 'modified') &&
+      !(issue.fingerprint && suggested.has(issue.fingerprint))
+    )
+    .slice(0, MAX_SUGGESTION_COMMENTS);
 
-  const lines = fileContent.split('\n');
-  const lineIndex = issue.line - 1;
-  
-  if (lineIndex < 0 || lineIndex >= lines.length) {
-    return null;
+  for (const issue of fixable) {
+    const suggestion = issue.suggestion!;
+    try {
+      await prAdapter.postPRComment(repo, pr.number, {
+        body: formatSuggestionComment({ ...issue, suggestion }),
+        path: issue.file,
+        line: suggestion.endLine,
+        startLine: suggestion.startLine,
+        commitSha: pr.sha,
+      }, accessToken);
+    } catch (error) {
+      // Suggestions reaching outside the diff hunks are rejected by the provider
+      logger.warn({ error, file: issue.file, line: issue.line }, 'Failed to post suggested change');
+    }
   }
-
-  const originalLine = lines[lineIndex];
-  const fixedLine = issue.fix;
-
-  // Generate minimal unified diff
-  return `--- a/${issue.file}\n+++ b/${issue.file}\n@@ -${issue.line},1 +${issue.line},1 @@\n-${originalLine}\n+${fixedLine}`;
 }
-*/
 
 /**
  * Process webhook event
  */
 async function processWebhookEvent(payload: any): Promise<void> {
-  const { type, repository, pr, installationId } = payload;
+  const { type, repository, pr, pipeline, installationId } = payload;
   const requestId = `webhook_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
   const log = logger.child({ requestId, type, repositoryId: repository.id });
 
@@ -106,7 +122,7 @@ async function processWebhookEvent(payload: any): Promise<void> {
         break;
 
       case 'ci.completed':
-        await processCIEvent(repository, pr, accessToken, log);
+        await processCIEvent(repository, pr, pipeline, accessToken, log);
         break;
 
       default:
@@ -140,6 +156,17 @@ async function processPREvent(
   const traceId = requestId || `webhook_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
   log.info({ prNumber: pr.number, requestId: traceId }, 'Processing PR event');
 
+  // Runs still reviewing the PR's earlier commits are moot now; stop their LLM spend
+  try {
+    const superseded = await runPipelineService.cancelSupersededRuns(repository.id, pr.number, pr.sha);
+    if (superseded.length > 0) {
+      log.info({ prNumber: pr.number, superseded }, 'Cancelled runs for superseded commits');
+    }
+  } catch (error) {
+    log.warn({ error }, 'Failed to cancel superseded runs');
+    // Degrade gracefully - they finish and post stale statuses
+  }
+
   // Get provider-specific adapter
   const detectedProvider = detectGitProvider({
     provider: repository.provider,
@@ -241,7 +268,15 @@ async function processPREvent(
 
     const runResult = await runPipelineService.executeRun(runRequest);
 
-    log.info({ runId: runResult.id, conclusion: runResult.conclusion }, 'ReadyLayer Run completed');
+    log.info(
+      { runId: runResult.id, conclusion: runResult.conclusion, reusedFiles: runResult.reviewGuardResult?.reusedFiles },
+      'ReadyLayer Run completed'
+    );
+
+    // Superseded by a newer push while running: that push's run reports instead
+    if (runResult.status === 'cancelled') {
+      return;
+    }
 
     // Post PR comment only when blocked (status updates are handled by provider-status service)
     if (!runResult.gatesPassed && runResult.reviewGuardResult?.isBlocked) {
@@ -286,6 +321,15 @@ async function processPREvent(
       }
     }
 
+    // Suggested changes for fixable findings on lines the PR touched (GitHub only)
+    if (provider === 'github' && runResult.reviewGuardResult?.reviewId) {
+      try {
+        await postSuggestions(runResult.reviewGuardResult.reviewId, repository.id, repository.fullName, pr, prAdapter, accessToken);
+      } catch (error) {
+        log.error({ error }, 'Failed to post suggested changes');
+      }
+    }
+
     // Ingest review result into evidence index (idempotent, safe)
     if (isIngestEnabled() && runResult.reviewGuardResult?.reviewId) {
       try {
@@ -356,48 +400,58 @@ async function processPREvent(
   // Run Test Engine
   try {
     const aiTouchedFiles = await testEngineService.detectAITouchedFiles(repository.id, files);
+    const checkout = aiTouchedFiles.length > 0
+      ? await testEngineService.prepareCheckout(repository.id, pr.sha)
+      : null;
 
-    for (const file of aiTouchedFiles) {
-      const fileContent = files.find(f => f.path === file.path)?.content;
-      if (fileContent) {
-        const testResult = await testEngineService.generateTests({
-          repositoryId: repository.id,
-          prNumber: pr.number,
-          prSha: pr.sha,
-          filePath: file.path,
-          fileContent,
-        });
+    try {
+      for (const file of aiTouchedFiles) {
+        const fileContent = files.find(f => f.path === file.path)?.content;
+        if (fileContent) {
+          const testResult = await testEngineService.generateTests({
+            repositoryId: repository.id,
+            prNumber: pr.number,
+            prSha: pr.sha,
+            filePath: file.path,
+            fileContent,
+            changedPaths: files.map(f => f.path),
+            diff,
+            checkoutDir: checkout?.dir,
+          });
 
-        // Ingest test precedent into evidence index (idempotent, safe)
-        if (isIngestEnabled() && testResult.testContent) {
-          try {
-            const repo = await prisma.repository.findUnique({
-              where: { id: repository.id },
-              select: { organizationId: true },
-            });
-
-            if (repo) {
-              await ingestDocument({
-                organizationId: repo.organizationId,
-                repositoryId: repository.id,
-                sourceType: 'test_precedent',
-                sourceRef: file.path,
-                title: `Test for ${file.path}`,
-                content: testResult.testContent,
-                metadata: {
-                  filePath: file.path,
-                  framework: testResult.framework,
-                  placement: testResult.placement,
-                  prNumber: pr.number,
-                },
-              }, requestId);
+          // Ingest test precedent into evidence index (idempotent, safe); tests that failed in the sandbox aren't precedent
+          if (isIngestEnabled() && testResult.testContent && testResult.status !== 'failed') {
+            try {
+              const repo = await prisma.repository.findUnique({
+                where: { id: repository.id },
+                select: { organizationId: true },
+              });
+
+              if (repo) {
+                await ingestDocument({
+                  organizationId: repo.organizationId,
+                  repositoryId: repository.id,
+                  sourceType: 'test_precedent',
+                  sourceRef: file.path,
+                  title: `Test for ${file.path}`,
+                  content: testResult.testContent,
+                  metadata: {
+                    filePath: file.path,
+                    framework: testResult.framework,
+                    placement: testResult.placement,
+                    prNumber: pr.number,
+                  },
+                }, requestId);
+              }
+            } catch (error) {
+              // Ingestion failure should not block test generation
+              log.warn({ error, filePath: file.path }, 'Failed to ingest test precedent');
             }
-          } catch (error) {
-            // Ingestion failure should not block test generation
-            log.warn({ error, filePath: file.path }, 'Failed to ingest test precedent');
           }
         }
       }
+    } finally {
+      await checkout?.cleanup();
     }
   } catch (error) {
     log.error(error, 'Test Engine failed');
@@ -549,43 +603,113 @@ async function processMergeEvent(
 }
 
 /**
- * Process CI completed event
+ * Process CI completed event: evaluate the coverage report the CI run
+ * uploaded as an artifact against the PR's ReadyLayer run
  */
 async function processCIEvent(
   repository: any,
   pr: any,
-  _accessToken: string,
+  pipeline: { id?: string; sha: string } | undefined,
+  accessToken: string,
   log: any
 ): Promise<void> {
-  log.info({ repositoryId: repository.id, prNumber: pr?.number }, 'Processing CI event');
+  const sha: string | undefined = pipeline?.sha || pr?.sha;
+  log.info({ repositoryId: repository.id, prSha: sha, pipelineId: pipeline?.id }, 'Processing CI event');
 
-  // Check coverage when CI workflow completes
-  // This integrates with GitHub Actions coverage reports
-  if (pr?.sha && repository.id) {
-    try {
-      // Get repository to find organization
-      const repo = await prisma.repository.findUnique({
-        where: { id: repository.id },
-        select: { organizationId: true },
-      });
+  if (!sha || !repository.id) {
+    log.info('CI event has no commit; skipping coverage check');
+    return;
+  }
 
-      if (!repo) {
-        log.warn({ repositoryId: repository.id }, 'Repository not found for CI event');
-        return;
-      }
+  try {
+    // Coverage is gated on the PR run that reviewed this commit
+    const run = await prisma.readyLayerRun.findFirst({
+      where: {
+        repositoryId: repository.id,
+        triggerMetadata: { path: ['prSha'], equals: sha },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    const metadata = run?.triggerMetadata as RunRequest['triggerMetadata'] | null;
+    const prNumber: number | undefined = metadata?.prNumber ?? pr?.number;
+    if (!run || !prNumber) {
+      log.info({ prSha: sha }, 'No PR run for CI commit; skipping coverage check');
+      return;
+    }
 
-      // Parse coverage from CI artifacts (would fetch from GitHub Actions artifacts)
-      // For now, this is a placeholder - actual implementation would:
-      // 1. Fetch coverage report from GitHub Actions artifacts
-      // 2. Parse lcov or coverage JSON
-      // 3. Call testEngineService.checkCoverage()
-      // 4. Create GitHub check run if coverage below threshold
+    const detectedProvider = detectGitProvider({
+      provider: repository.provider,
+      url: repository.url || undefined,
+    });
+    const provider = (detectedProvider === 'generic' ? 'github' : detectedProvider) as 'github' | 'gitlab' | 'bitbucket';
+    const adapter = getGitProviderAdapter(provider);
+
+    const pipelineId = pipeline?.id ||
+      (await adapter.listPipelineRuns(repository.fullName, accessToken))
+        .find((candidate) => candidate.sha === sha && candidate.status === 'completed')?.id;
+    if (!pipelineId) {
+      log.info({ prSha: sha }, 'No completed pipeline for CI commit');
+      return;
+    }
 
-      log.info({ repositoryId: repository.id, prSha: pr.sha }, 'CI event processed (coverage check placeholder)');
-    } catch (error) {
-      log.error({ err: error, repositoryId: repository.id }, 'Failed to process CI event');
-      // Don't throw - CI event processing is non-blocking
+    const artifact = await adapter.getPipelineArtifacts(repository.fullName, pipelineId, accessToken);
+    const report = artifact ? findCoverageArtifact(Buffer.from(await artifact.arrayBuffer())) : null;
+    if (!report) {
+      log.info({ pipelineId }, 'No coverage report in pipeline artifacts');
+      metrics.increment('ci.coverage.checked', { provider, result: 'no_report' });
+      return;
     }
+
+    const testConfig = await testEngineService.getRepositoryConfig(repository.id);
+    const diff = testConfig.scope === 'diff'
+      ? await getGitProviderPRAdapter(provider).getPRDiff(repository.fullName, prNumber, accessToken)
+      : undefined;
+
+    const result = await testEngineService.checkCoverage(repository.id, prNumber, sha, report.content, testConfig, diff);
+    log.info(
+      { pipelineId, report: report.path, format: report.format, meetsThreshold: result.meetsThreshold },
+      'Coverage checked from CI artifacts'
+    );
+    metrics.increment('ci.coverage.checked', { provider, result: result.meetsThreshold ? 'met' : 'below' });
+
+    const previous = run.testEngineResult as RunResult['testEngineResult'] | null;
+    const testEngineResult: NonNullable<RunResult['testEngineResult']> = {
+      testsGenerated: previous?.testsGenerated ?? 0,
+      coverage: {
+        lines: result.coverage.lines.percentage,
+        branches: result.coverage.branches.percentage,
+        functions: result.coverage.functions.percentage,
+      },
+      meetsThreshold: result.meetsThreshold,
+    };
+    await prisma.readyLayerRun.update({
+      where: { id: run.id },
+      data: { testEngineResult: testEngineResult as any },
+    });
+
+    await outboxService.createIntent({
+      runId: run.id,
+      repositoryId: repository.id,
+      update: {
+        runId: run.id,
+        repositoryId: repository.id,
+        prNumber,
+        prSha: sha,
+        stage: 'test_engine',
+        status: 'completed',
+        conclusion: result.isBlocked ? 'failure' : 'success',
+        issues: result.findings,
+        summary: result.diffCoverage
+          ? `Changed-line coverage ${result.diffCoverage.lines.percentage.toFixed(1)}% (threshold ${testConfig.coverageThreshold}%)`
+          : `${testConfig.metric} coverage ${result.coverage[testConfig.metric].percentage.toFixed(1)}% (threshold ${testConfig.coverageThreshold}%)`,
+        details: {
+          testEngine: testEngineResult,
+        },
+      },
+    });
+  } catch (error) {
+    log.error({ err: error, repositoryId: repository.id }, 'Failed to process CI event');
+    // Don't throw - CI event processing is non-blocking
   }
 }
 